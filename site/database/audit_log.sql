@@ -0,0 +1,135 @@
+-- Admin Audit Log - Deploy this to Supabase SQL Editor
+-- Date: 2026-10-19
+-- Issue: Several admins share the dashboard but nothing recorded who published, deleted or
+--        changed a role; every admin write to managed tables is now logged with actor and changes
+
+-- ===== AUDIT LOG ===== --
+CREATE TABLE IF NOT EXISTS public.audit_log (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    -- Name at the time of the write, so entries stay readable after the account changes or goes
+    actor_name TEXT,
+    action TEXT NOT NULL CHECK (action IN (
+        'create', 'update', 'delete', 'publish', 'unpublish', 'trash', 'restore', 'role_change'
+    )),
+    entity_type TEXT NOT NULL,
+    entity_id TEXT,
+    entity_label TEXT,
+    -- { field: { "before": ..., "after": ... } } for the fields the write changed
+    changes JSONB DEFAULT '{}'::jsonb NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON public.audit_log (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON public.audit_log (entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON public.audit_log (actor_id);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for admins; rows are only ever written by the trigger below
+DROP POLICY IF EXISTS "admin_read_audit_log" ON public.audit_log;
+CREATE POLICY "admin_read_audit_log" ON public.audit_log
+    FOR SELECT TO authenticated USING (public.auth_is_admin());
+
+-- ===== RECORD ADMIN WRITES ===== --
+-- Only writes made by a signed-in admin are logged, so visitor inquiries, client
+-- portal activity and service-role scripts stay out of the admin trail.
+-- Long values are cut to keep the log a summary rather than a second copy of the content.
+CREATE OR REPLACE FUNCTION public.record_audit_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    ignored TEXT[] := ARRAY['updated_at', 'created_at', 'view_count', 'last_login_at', 'login_count'];
+    old_row JSONB := CASE WHEN TG_OP = 'INSERT' THEN '{}'::jsonb ELSE to_jsonb(OLD) END;
+    new_row JSONB := CASE WHEN TG_OP = 'DELETE' THEN '{}'::jsonb ELSE to_jsonb(NEW) END;
+    subject JSONB := CASE WHEN TG_OP = 'DELETE' THEN old_row ELSE new_row END;
+    diff JSONB;
+    audit_action TEXT;
+    actor TEXT;
+BEGIN
+    IF auth.uid() IS NULL OR NOT public.auth_is_admin() THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT COALESCE(jsonb_object_agg(key, jsonb_build_object(
+        'before', CASE WHEN jsonb_typeof(old_row -> key) = 'string' AND length(old_row ->> key) > 200
+                       THEN to_jsonb(left(old_row ->> key, 200) || '…') ELSE old_row -> key END,
+        'after',  CASE WHEN jsonb_typeof(new_row -> key) = 'string' AND length(new_row ->> key) > 200
+                       THEN to_jsonb(left(new_row ->> key, 200) || '…') ELSE new_row -> key END
+    )), '{}'::jsonb)
+    INTO diff
+    FROM (SELECT jsonb_object_keys(old_row || new_row) AS key) keys
+    WHERE key <> ALL (ignored)
+      AND (old_row -> key) IS DISTINCT FROM (new_row -> key);
+
+    IF TG_OP = 'INSERT' THEN
+        audit_action := 'create';
+    ELSIF TG_OP = 'DELETE' THEN
+        audit_action := 'delete';
+    ELSIF diff = '{}'::jsonb THEN
+        RETURN NULL;
+    ELSIF diff ? 'deleted_at' THEN
+        audit_action := CASE WHEN new_row ->> 'deleted_at' IS NULL THEN 'restore' ELSE 'trash' END;
+    ELSIF diff ? 'role' THEN
+        audit_action := 'role_change';
+    ELSIF diff ? 'published' THEN
+        audit_action := CASE WHEN (new_row ->> 'published')::boolean THEN 'publish' ELSE 'unpublish' END;
+    ELSE
+        audit_action := 'update';
+    END IF;
+
+    SELECT COALESCE(NULLIF(full_name, ''), email) INTO actor
+    FROM public.profiles
+    WHERE id = auth.uid();
+
+    INSERT INTO public.audit_log (actor_id, actor_name, action, entity_type, entity_id, entity_label, changes)
+    VALUES (
+        auth.uid(),
+        actor,
+        audit_action,
+        TG_ARGV[0],
+        COALESCE(subject ->> 'id', subject ->> 'key'),
+        COALESCE(
+            subject ->> 'title', subject ->> 'name', subject ->> 'subject', subject ->> 'full_name',
+            subject ->> 'original_filename', subject ->> 'email', subject ->> 'key'
+        ),
+        diff
+    );
+
+    RETURN NULL;
+END;
+$$;
+
+-- entity_type values match AUDIT_ENTITY_TYPES in services/AuditLogService.ts
+DO $$
+DECLARE
+    audited RECORD;
+BEGIN
+    FOR audited IN
+        SELECT * FROM (VALUES
+            ('projects', 'project'),
+            ('articles', 'article'),
+            ('services', 'service'),
+            ('testimonials', 'testimonial'),
+            ('inquiries', 'inquiry'),
+            ('inquiry_notes', 'inquiry_note'),
+            ('media_files', 'media'),
+            ('profiles', 'user'),
+            ('project_milestones', 'milestone'),
+            ('project_updates', 'project_update'),
+            ('project_files', 'client_file'),
+            ('app_settings', 'setting')
+        ) AS t(table_name, entity_type)
+    LOOP
+        EXECUTE format('DROP TRIGGER IF EXISTS audit_%1$s ON public.%1$I', audited.table_name);
+        EXECUTE format(
+            'CREATE TRIGGER audit_%1$s AFTER INSERT OR UPDATE OR DELETE ON public.%1$I
+             FOR EACH ROW EXECUTE FUNCTION public.record_audit_entry(%2$L)',
+            audited.table_name, audited.entity_type
+        );
+    END LOOP;
+END;
+$$;
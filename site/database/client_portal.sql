@@ -0,0 +1,134 @@
+-- Client Portal - Deploy this to Supabase SQL Editor
+-- Date: 2026-10-19
+-- Issue: Users with the client role get a /portal area showing their own projects, milestones, files and updates
+
+-- The client a project is delivered for (profiles.id, which is the auth user id)
+ALTER TABLE public.projects
+    ADD COLUMN IF NOT EXISTS client_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_projects_client
+    ON public.projects (client_id)
+    WHERE client_id IS NOT NULL;
+
+-- True when the signed-in user is the client of the given project.
+-- SECURITY DEFINER so policies on child tables don't depend on the projects policies.
+CREATE OR REPLACE FUNCTION public.auth_is_project_client(project_id_input UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.projects
+        WHERE id = project_id_input
+          AND client_id IS NOT NULL
+          AND client_id = auth.uid()
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Clients can read their own projects, published or not
+DROP POLICY IF EXISTS "client_view_own_projects" ON public.projects;
+CREATE POLICY "client_view_own_projects" ON public.projects
+    FOR SELECT TO authenticated USING (client_id IS NOT NULL AND client_id = auth.uid());
+
+-- ===== MILESTONES ===== --
+CREATE TABLE IF NOT EXISTS public.project_milestones (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    description TEXT,
+    due_date DATE,
+    state TEXT NOT NULL DEFAULT 'planned'
+        CHECK (state IN ('planned', 'in_progress', 'completed', 'blocked')),
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_milestones_project
+    ON public.project_milestones (project_id, sort_order);
+
+-- ===== UPDATE POSTS ===== --
+CREATE TABLE IF NOT EXISTS public.project_updates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    body TEXT NOT NULL,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_updates_project
+    ON public.project_updates (project_id, created_at DESC);
+
+-- ===== SHARED FILES ===== --
+-- Objects live in the private client-files bucket under <project_id>/
+CREATE TABLE IF NOT EXISTS public.project_files (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    storage_path TEXT NOT NULL UNIQUE,
+    mime_type TEXT,
+    file_size BIGINT,
+    uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_files_project
+    ON public.project_files (project_id, created_at DESC);
+
+-- Admins manage everything; clients only read rows of their own projects
+ALTER TABLE public.project_milestones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_updates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_files ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "admin_full_access_project_milestones" ON public.project_milestones;
+CREATE POLICY "admin_full_access_project_milestones" ON public.project_milestones
+    FOR ALL TO authenticated USING (public.auth_is_admin()) WITH CHECK (public.auth_is_admin());
+
+DROP POLICY IF EXISTS "client_view_project_milestones" ON public.project_milestones;
+CREATE POLICY "client_view_project_milestones" ON public.project_milestones
+    FOR SELECT TO authenticated USING (public.auth_is_project_client(project_id));
+
+DROP POLICY IF EXISTS "admin_full_access_project_updates" ON public.project_updates;
+CREATE POLICY "admin_full_access_project_updates" ON public.project_updates
+    FOR ALL TO authenticated USING (public.auth_is_admin()) WITH CHECK (public.auth_is_admin());
+
+DROP POLICY IF EXISTS "client_view_project_updates" ON public.project_updates;
+CREATE POLICY "client_view_project_updates" ON public.project_updates
+    FOR SELECT TO authenticated USING (public.auth_is_project_client(project_id));
+
+DROP POLICY IF EXISTS "admin_full_access_project_files" ON public.project_files;
+CREATE POLICY "admin_full_access_project_files" ON public.project_files
+    FOR ALL TO authenticated USING (public.auth_is_admin()) WITH CHECK (public.auth_is_admin());
+
+DROP POLICY IF EXISTS "client_view_project_files" ON public.project_files;
+CREATE POLICY "client_view_project_files" ON public.project_files
+    FOR SELECT TO authenticated USING (public.auth_is_project_client(project_id));
+
+-- Private bucket: files are served through short-lived signed URLs only
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES (
+    'client-files',
+    'client-files',
+    false,
+    52428800 -- 50 MB, matches CLIENT_FILES_CONFIG.maxFileSize
+)
+ON CONFLICT (id) DO UPDATE SET
+    public = EXCLUDED.public,
+    file_size_limit = EXCLUDED.file_size_limit;
+
+DROP POLICY IF EXISTS "admin_all_client_files_bucket" ON storage.objects;
+CREATE POLICY "admin_all_client_files_bucket" ON storage.objects
+    FOR ALL TO authenticated
+    USING (bucket_id = 'client-files' AND public.auth_is_admin())
+    WITH CHECK (bucket_id = 'client-files' AND public.auth_is_admin());
+
+-- The first path segment is the project id
+DROP POLICY IF EXISTS "client_read_client_files_bucket" ON storage.objects;
+CREATE POLICY "client_read_client_files_bucket" ON storage.objects
+    FOR SELECT TO authenticated USING (
+        bucket_id = 'client-files'
+        AND EXISTS (
+            SELECT 1 FROM public.projects p
+            WHERE p.id::text = (storage.foldername(name))[1]
+              AND p.client_id = auth.uid()
+        )
+    );
@@ -0,0 +1,115 @@
+-- Content Revisions - Deploy this to Supabase SQL Editor
+-- Date: 2026-10-19
+-- Issue: Saving a project or article overwrote the previous version; every save now stores a
+--        snapshot with author and time so admins can compare versions and restore an older one
+
+-- ===== REVISIONS ===== --
+CREATE TABLE IF NOT EXISTS public.content_revisions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    entity_type TEXT NOT NULL CHECK (entity_type IN ('project', 'article')),
+    entity_id UUID NOT NULL,
+    snapshot JSONB NOT NULL,
+    changed_fields TEXT[] DEFAULT '{}' NOT NULL,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_revisions_entity
+    ON public.content_revisions (entity_type, entity_id, created_at DESC);
+
+ALTER TABLE public.content_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "admin_full_access_content_revisions" ON public.content_revisions;
+CREATE POLICY "admin_full_access_content_revisions" ON public.content_revisions
+    FOR ALL TO authenticated USING (public.auth_is_admin()) WITH CHECK (public.auth_is_admin());
+
+-- ===== RECORD ON SAVE ===== --
+-- Runs after every insert/update. Bookkeeping columns (timestamps, view counts, the
+-- trash marker) are not content, so an update that only touches those is not a revision.
+CREATE OR REPLACE FUNCTION public.record_content_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    ignored TEXT[] := ARRAY['updated_at', 'view_count', 'deleted_at'];
+    new_row JSONB := to_jsonb(NEW);
+    old_row JSONB;
+    changed TEXT[];
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        SELECT COALESCE(array_agg(key ORDER BY key), '{}')
+        INTO changed
+        FROM jsonb_each(new_row)
+        WHERE key <> ALL (ignored) AND value <> 'null'::jsonb;
+    ELSE
+        old_row := to_jsonb(OLD);
+        SELECT COALESCE(array_agg(n.key ORDER BY n.key), '{}')
+        INTO changed
+        FROM jsonb_each(new_row) n
+        WHERE n.key <> ALL (ignored)
+          AND n.value IS DISTINCT FROM old_row -> n.key;
+
+        IF cardinality(changed) = 0 THEN
+            RETURN NEW;
+        END IF;
+    END IF;
+
+    INSERT INTO public.content_revisions (entity_type, entity_id, snapshot, changed_fields, created_by)
+    VALUES (TG_ARGV[0], NEW.id, new_row, changed, auth.uid());
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_project_revision ON public.projects;
+CREATE TRIGGER record_project_revision
+    AFTER INSERT OR UPDATE ON public.projects
+    FOR EACH ROW EXECUTE FUNCTION public.record_content_revision('project');
+
+DROP TRIGGER IF EXISTS record_article_revision ON public.articles;
+CREATE TRIGGER record_article_revision
+    AFTER INSERT OR UPDATE ON public.articles
+    FOR EACH ROW EXECUTE FUNCTION public.record_content_revision('article');
+
+-- ===== CLEANUP ON PURGE ===== --
+-- Revisions follow their row out of the trash when it is deleted for good
+CREATE OR REPLACE FUNCTION public.delete_content_revisions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    DELETE FROM public.content_revisions
+    WHERE entity_type = TG_ARGV[0] AND entity_id = OLD.id;
+    RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS delete_project_revisions ON public.projects;
+CREATE TRIGGER delete_project_revisions
+    AFTER DELETE ON public.projects
+    FOR EACH ROW EXECUTE FUNCTION public.delete_content_revisions('project');
+
+DROP TRIGGER IF EXISTS delete_article_revisions ON public.articles;
+CREATE TRIGGER delete_article_revisions
+    AFTER DELETE ON public.articles
+    FOR EACH ROW EXECUTE FUNCTION public.delete_content_revisions('article');
+
+-- ===== BASELINE ===== --
+-- Existing rows get one revision so the first edit after deploying has something to compare with
+INSERT INTO public.content_revisions (entity_type, entity_id, snapshot, created_at)
+SELECT 'project', p.id, to_jsonb(p), COALESCE(p.updated_at, p.created_at, NOW())
+FROM public.projects p
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.content_revisions r WHERE r.entity_type = 'project' AND r.entity_id = p.id
+);
+
+INSERT INTO public.content_revisions (entity_type, entity_id, snapshot, created_at)
+SELECT 'article', a.id, to_jsonb(a), COALESCE(a.updated_at, a.created_at, NOW())
+FROM public.articles a
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.content_revisions r WHERE r.entity_type = 'article' AND r.entity_id = a.id
+);
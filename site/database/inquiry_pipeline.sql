@@ -0,0 +1,88 @@
+-- Inquiry Pipeline - Deploy this to Supabase SQL Editor
+-- Date: 2026-10-19
+-- Issue: Inquiries move through a sales pipeline with assignees, a notes timeline and SLA tracking
+
+-- Pipeline stages (see utils/inquiryPipeline.ts INQUIRY_PIPELINE).
+-- Earlier statuses map onto the closest stage:
+--   in-progress, responded -> contacted
+--   closed                 -> lost
+UPDATE public.inquiries SET status = 'contacted' WHERE status IN ('in-progress', 'responded');
+UPDATE public.inquiries SET status = 'lost' WHERE status = 'closed';
+UPDATE public.inquiries SET status = 'new'
+    WHERE status IS NULL OR status NOT IN ('new', 'contacted', 'qualified', 'proposal', 'won', 'lost');
+
+ALTER TABLE public.inquiries
+    DROP CONSTRAINT IF EXISTS inquiries_status_check;
+
+ALTER TABLE public.inquiries
+    ADD CONSTRAINT inquiries_status_check
+    CHECK (status IN ('new', 'contacted', 'qualified', 'proposal', 'won', 'lost'));
+
+-- Last time an admin touched the inquiry (status, assignee or a note).
+-- The SLA "untouched" indicator is measured from this.
+ALTER TABLE public.inquiries
+    ADD COLUMN IF NOT EXISTS last_activity_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.inquiries
+    SET last_activity_at = COALESCE(updated_at, created_at)
+    WHERE last_activity_at IS NULL;
+
+ALTER TABLE public.inquiries
+    ALTER COLUMN last_activity_at SET DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_inquiries_status_activity
+    ON public.inquiries (status, last_activity_at);
+
+CREATE INDEX IF NOT EXISTS idx_inquiries_assigned_to
+    ON public.inquiries (assigned_to);
+
+-- Timestamped notes, replacing the single inquiries.notes text field
+CREATE TABLE IF NOT EXISTS public.inquiry_notes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    inquiry_id UUID NOT NULL REFERENCES public.inquiries(id) ON DELETE CASCADE,
+    author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_inquiry_notes_inquiry
+    ON public.inquiry_notes (inquiry_id, created_at);
+
+ALTER TABLE public.inquiry_notes ENABLE ROW LEVEL SECURITY;
+
+-- Notes are internal: admins only
+DROP POLICY IF EXISTS "admin_select_inquiry_notes" ON public.inquiry_notes;
+CREATE POLICY "admin_select_inquiry_notes" ON public.inquiry_notes
+    FOR SELECT USING (public.auth_is_admin());
+
+DROP POLICY IF EXISTS "admin_insert_inquiry_notes" ON public.inquiry_notes;
+CREATE POLICY "admin_insert_inquiry_notes" ON public.inquiry_notes
+    FOR INSERT WITH CHECK (public.auth_is_admin() AND author_id = auth.uid());
+
+DROP POLICY IF EXISTS "admin_delete_inquiry_notes" ON public.inquiry_notes;
+CREATE POLICY "admin_delete_inquiry_notes" ON public.inquiry_notes
+    FOR DELETE USING (public.auth_is_admin());
+
+-- Adding a note counts as activity on the inquiry
+CREATE OR REPLACE FUNCTION public.touch_inquiry_activity()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE public.inquiries
+        SET last_activity_at = NEW.created_at
+        WHERE id = NEW.inquiry_id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_inquiry_note_created ON public.inquiry_notes;
+CREATE TRIGGER on_inquiry_note_created
+    AFTER INSERT ON public.inquiry_notes
+    FOR EACH ROW EXECUTE FUNCTION public.touch_inquiry_activity();
+
+-- Carry existing free-text notes over as the first timeline entry.
+-- The notes column is kept for now so nothing is lost; the admin UI no longer writes to it.
+INSERT INTO public.inquiry_notes (inquiry_id, author_id, body, created_at)
+SELECT i.id, NULL, i.notes, COALESCE(i.updated_at, i.created_at)
+FROM public.inquiries i
+WHERE COALESCE(trim(i.notes), '') <> ''
+  AND NOT EXISTS (SELECT 1 FROM public.inquiry_notes n WHERE n.inquiry_id = i.id);
@@ -0,0 +1,20 @@
+-- Inquiry / Project Link - Deploy this to Supabase SQL Editor
+-- Date: 2026-10-19
+-- Issue: Won inquiries are converted into draft projects, and each record points at the other
+
+-- The inquiry a project was created from. A project keeps existing if its inquiry is deleted.
+ALTER TABLE public.projects
+    ADD COLUMN IF NOT EXISTS source_inquiry_id UUID REFERENCES public.inquiries(id) ON DELETE SET NULL;
+
+-- The project an inquiry was converted into
+ALTER TABLE public.inquiries
+    ADD COLUMN IF NOT EXISTS project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL;
+
+-- An inquiry converts into at most one project, so a double click can't create two drafts
+CREATE UNIQUE INDEX IF NOT EXISTS idx_projects_source_inquiry
+    ON public.projects (source_inquiry_id)
+    WHERE source_inquiry_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_inquiries_project
+    ON public.inquiries (project_id)
+    WHERE project_id IS NOT NULL;
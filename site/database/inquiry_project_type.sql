@@ -0,0 +1,21 @@
+-- Inquiry Project Type - Deploy this to Supabase SQL Editor
+-- Date: 2026-10-19
+-- Issue: The contact form's project type (e.g. 'mobile-game') was sent as service_interest,
+--        which is a UUID reference to services, so every submission was rejected
+
+-- What the visitor picked in the contact form's Project Type field.
+-- Keep the list in sync with PROJECT_TYPE_LABELS in src/utils/inquiryGuard.ts.
+ALTER TABLE public.inquiries
+    ADD COLUMN IF NOT EXISTS project_type TEXT;
+
+ALTER TABLE public.inquiries
+    DROP CONSTRAINT IF EXISTS inquiries_project_type_check;
+
+ALTER TABLE public.inquiries
+    ADD CONSTRAINT inquiries_project_type_check
+    CHECK (project_type IS NULL OR project_type IN ('mobile-game', 'pc-game', 'console-game', 'vr-ar', 'consulting', 'other'));
+
+-- service_interest stays a reference to services; the form now sets it to the
+-- first service of an attached quote estimate and leaves it NULL otherwise
+COMMENT ON COLUMN public.inquiries.service_interest IS 'First service of the attached quote estimate, if any';
+COMMENT ON COLUMN public.inquiries.project_type IS 'Project type chosen in the contact form';
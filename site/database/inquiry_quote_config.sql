@@ -0,0 +1,20 @@
+-- Inquiry Quote Configuration - Deploy this to Supabase SQL Editor
+-- Date: 2026-10-19
+-- Issue: The services quote estimator attaches the visitor's chosen configuration to their inquiry
+
+-- Structured copy of the estimator selection (see types/quote.ts QuoteConfiguration).
+-- NULL for inquiries sent without an estimate.
+ALTER TABLE public.inquiries
+    ADD COLUMN IF NOT EXISTS quote_config JSONB;
+
+-- Reject anything that isn't a JSON object so admin views can rely on the shape
+ALTER TABLE public.inquiries
+    DROP CONSTRAINT IF EXISTS inquiries_quote_config_is_object;
+
+ALTER TABLE public.inquiries
+    ADD CONSTRAINT inquiries_quote_config_is_object
+    CHECK (quote_config IS NULL OR jsonb_typeof(quote_config) = 'object');
+
+-- Lets admins find quote requests quickly
+CREATE INDEX IF NOT EXISTS idx_inquiries_has_quote
+    ON public.inquiries ((quote_config IS NOT NULL));
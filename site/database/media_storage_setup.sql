@@ -0,0 +1,39 @@
+-- Media Storage Setup - Deploy this to Supabase SQL Editor
+-- Date: 2026-10-19
+-- Issue: MediaManager uploads need a public storage bucket that only admins can write to
+
+-- Public bucket so media_files.file_path URLs can be used directly in <img>/<video>
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'media',
+    'media',
+    true,
+    52428800, -- 50 MB, matches MEDIA_UPLOAD_CONFIG.maxFileSize
+    ARRAY[
+        'image/jpeg', 'image/png', 'image/webp', 'image/avif', 'image/gif',
+        'video/mp4', 'video/webm',
+        'audio/mpeg', 'audio/wav', 'audio/ogg',
+        'application/pdf'
+    ]
+)
+ON CONFLICT (id) DO UPDATE SET
+    public = EXCLUDED.public,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- Anyone can read, only admins can upload/replace/delete
+DROP POLICY IF EXISTS "public_read_media_bucket" ON storage.objects;
+CREATE POLICY "public_read_media_bucket" ON storage.objects
+    FOR SELECT USING (bucket_id = 'media');
+
+DROP POLICY IF EXISTS "admin_insert_media_bucket" ON storage.objects;
+CREATE POLICY "admin_insert_media_bucket" ON storage.objects
+    FOR INSERT WITH CHECK (bucket_id = 'media' AND public.auth_is_admin());
+
+DROP POLICY IF EXISTS "admin_update_media_bucket" ON storage.objects;
+CREATE POLICY "admin_update_media_bucket" ON storage.objects
+    FOR UPDATE USING (bucket_id = 'media' AND public.auth_is_admin());
+
+DROP POLICY IF EXISTS "admin_delete_media_bucket" ON storage.objects;
+CREATE POLICY "admin_delete_media_bucket" ON storage.objects
+    FOR DELETE USING (bucket_id = 'media' AND public.auth_is_admin());
@@ -0,0 +1,8 @@
+-- Media Tags - Deploy this to Supabase SQL Editor
+-- Date: 2026-10-19
+-- Issue: The media library had no way to group files; files now carry free-form tags that can be
+--        set one by one in the file details or in bulk, and filtered on
+
+ALTER TABLE public.media_files ADD COLUMN IF NOT EXISTS tags TEXT[] DEFAULT '{}' NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_media_files_tags ON public.media_files USING GIN (tags);
@@ -0,0 +1,81 @@
+-- Project Progress - Deploy this to Supabase SQL Editor
+-- Date: 2026-10-19
+-- Issue: Milestones need a percent complete, and update posts need a posting date, media attachments
+--        and a visibility so published projects can show a public devlog timeline
+
+-- Run after client_portal.sql, which creates the milestone and update tables
+
+-- ===== MILESTONES ===== --
+ALTER TABLE public.project_milestones
+    ADD COLUMN IF NOT EXISTS percent_complete INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.project_milestones
+    DROP CONSTRAINT IF EXISTS project_milestones_percent_complete_check;
+ALTER TABLE public.project_milestones
+    ADD CONSTRAINT project_milestones_percent_complete_check
+    CHECK (percent_complete BETWEEN 0 AND 100);
+
+UPDATE public.project_milestones
+SET percent_complete = 100
+WHERE state = 'completed' AND percent_complete < 100;
+
+-- ===== UPDATE POSTS ===== --
+-- 'client' posts are only visible in the portal; 'public' posts also show on the published project page
+ALTER TABLE public.project_updates
+    ADD COLUMN IF NOT EXISTS visibility TEXT NOT NULL DEFAULT 'client',
+    ADD COLUMN IF NOT EXISTS attachments TEXT[] NOT NULL DEFAULT '{}',
+    ADD COLUMN IF NOT EXISTS posted_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.project_updates
+    DROP CONSTRAINT IF EXISTS project_updates_visibility_check;
+ALTER TABLE public.project_updates
+    ADD CONSTRAINT project_updates_visibility_check
+    CHECK (visibility IN ('public', 'client'));
+
+UPDATE public.project_updates SET posted_at = created_at WHERE posted_at IS NULL;
+ALTER TABLE public.project_updates ALTER COLUMN posted_at SET DEFAULT NOW();
+ALTER TABLE public.project_updates ALTER COLUMN posted_at SET NOT NULL;
+
+DROP INDEX IF EXISTS idx_project_updates_project;
+CREATE INDEX IF NOT EXISTS idx_project_updates_project
+    ON public.project_updates (project_id, posted_at DESC);
+
+-- ===== PUBLIC DEVLOG ===== --
+-- Anyone can read the milestones and public posts of a published project
+DROP POLICY IF EXISTS "public_view_published_project_milestones" ON public.project_milestones;
+CREATE POLICY "public_view_published_project_milestones" ON public.project_milestones
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.projects p
+            WHERE p.id = project_id AND p.published = true
+        )
+    );
+
+DROP POLICY IF EXISTS "public_view_published_project_updates" ON public.project_updates;
+CREATE POLICY "public_view_published_project_updates" ON public.project_updates
+    FOR SELECT USING (
+        visibility = 'public'
+        AND EXISTS (
+            SELECT 1 FROM public.projects p
+            WHERE p.id = project_id AND p.published = true
+        )
+    );
+
+-- Keep updated_at current on edits
+CREATE OR REPLACE FUNCTION public.touch_project_progress_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS touch_project_milestones_updated_at ON public.project_milestones;
+CREATE TRIGGER touch_project_milestones_updated_at
+    BEFORE UPDATE ON public.project_milestones
+    FOR EACH ROW EXECUTE FUNCTION public.touch_project_progress_updated_at();
+
+DROP TRIGGER IF EXISTS touch_project_updates_updated_at ON public.project_updates;
+CREATE TRIGGER touch_project_updates_updated_at
+    BEFORE UPDATE ON public.project_updates
+    FOR EACH ROW EXECUTE FUNCTION public.touch_project_progress_updated_at();
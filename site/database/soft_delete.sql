@@ -0,0 +1,53 @@
+-- Soft Delete & Trash - Deploy this to Supabase SQL Editor
+-- Date: 2026-10-19
+-- Issue: Deleting from the admin managers removed rows immediately; deletes now move rows to a
+--        trash (deleted_at) that can be restored, and trashed rows are purged after a retention period
+
+-- ===== DELETED MARKER ===== --
+ALTER TABLE public.projects ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.articles ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.inquiries ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.media_files ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_projects_deleted_at ON public.projects (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_articles_deleted_at ON public.articles (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_inquiries_deleted_at ON public.inquiries (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_media_files_deleted_at ON public.media_files (deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- ===== HIDE TRASH FROM NON-ADMINS ===== --
+-- Restrictive policies are AND-ed with the existing permissive ones, so trashed
+-- rows disappear for visitors and clients whatever the public read policies are
+DROP POLICY IF EXISTS "hide_deleted_projects" ON public.projects;
+CREATE POLICY "hide_deleted_projects" ON public.projects
+    AS RESTRICTIVE FOR SELECT
+    USING (deleted_at IS NULL OR public.auth_is_admin());
+
+DROP POLICY IF EXISTS "hide_deleted_articles" ON public.articles;
+CREATE POLICY "hide_deleted_articles" ON public.articles
+    AS RESTRICTIVE FOR SELECT
+    USING (deleted_at IS NULL OR public.auth_is_admin());
+
+DROP POLICY IF EXISTS "hide_deleted_media_files" ON public.media_files;
+CREATE POLICY "hide_deleted_media_files" ON public.media_files
+    AS RESTRICTIVE FOR SELECT
+    USING (deleted_at IS NULL OR public.auth_is_admin());
+
+-- ===== SETTINGS ===== --
+-- Small key/value store for admin-editable settings shared by all admins
+CREATE TABLE IF NOT EXISTS public.app_settings (
+    key TEXT PRIMARY KEY,
+    value JSONB NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "admin_full_access_app_settings" ON public.app_settings;
+CREATE POLICY "admin_full_access_app_settings" ON public.app_settings
+    FOR ALL TO authenticated USING (public.auth_is_admin()) WITH CHECK (public.auth_is_admin());
+
+-- Days a trashed row is kept before it is purged for good (TRASH_CONFIG.defaultRetentionDays)
+INSERT INTO public.app_settings (key, value)
+VALUES ('trash_retention_days', '30'::jsonb)
+ON CONFLICT (key) DO NOTHING;
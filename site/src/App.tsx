@@ -5,6 +5,7 @@ import Hero from './components/sections/Hero';
 import About from './components/sections/About';
 import PaginatedProjects from './components/sections/PaginatedProjects';
 import Services from './components/sections/Services';
+import Testimonials from './components/sections/Testimonials';
 import Articles from './components/sections/Articles';
 import Contact from './components/sections/Contact';
 import useNavigation, { useNavigationEvents } from './hooks/useNavigation';
@@ -133,6 +134,9 @@ function App() {
           maxServices={6}
         />
 
+        {/* Testimonials Section */}
+        <Testimonials />
+
         {/* Articles Section */}
         <Articles
           showFeaturedOnly={false}
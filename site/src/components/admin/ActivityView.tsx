@@ -0,0 +1,264 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import AuditLogService, {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_TYPES,
+  AUDIT_LOG_CONFIG,
+  getAuditActionIcon,
+  getAuditActionLabel,
+  getAuditEntityLabel
+} from '../../services/AuditLogService';
+import type { AuditAction, AuditEntityType, AuditEntry, AuditLogFilters } from '../../types/audit';
+import './ActivityView.css';
+
+const EMPTY_FILTERS: AuditLogFilters = {};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.length ? value.join(', ') : '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const ActivityView: React.FC = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [filters, setFilters] = useState<AuditLogFilters>(EMPTY_FILTERS);
+  const [searchInput, setSearchInput] = useState('');
+  const [actors, setActors] = useState<Array<{ id: string; name: string }>>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+      const result = await AuditLogService.getEntries(filters, 1);
+      setEntries(result.entries);
+      setTotal(result.total);
+      setPage(1);
+    } catch (error) {
+      console.error('Error loading activity:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  useEffect(() => {
+    AuditLogService.getActors()
+      .then(setActors)
+      .catch(error => console.error('Error loading activity actors:', error));
+  }, []);
+
+  // Search the entity label once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters(prev => (prev.search || '') === searchInput.trim()
+        ? prev
+        : { ...prev, search: searchInput.trim() || undefined });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const updateFilter = <K extends keyof AuditLogFilters>(key: K, value: AuditLogFilters[K] | '') => {
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+  };
+
+  const clearFilters = () => {
+    setSearchInput('');
+    setFilters(EMPTY_FILTERS);
+  };
+
+  const handleLoadMore = async () => {
+    try {
+      setLoadingMore(true);
+      const result = await AuditLogService.getEntries(filters, page + 1);
+      setEntries(prev => [...prev, ...result.entries]);
+      setTotal(result.total);
+      setPage(page + 1);
+    } catch (error) {
+      console.error('Error loading more activity:', error);
+      alert('Error loading more activity');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  return (
+    <div className="activity-view">
+      <div className="manager-header">
+        <div className="header-left">
+          <h1>Activity</h1>
+          <p>Who changed what across the dashboard</p>
+        </div>
+      </div>
+
+      <div className="manager-filters">
+        <div className="search-box">
+          <input
+            type="text"
+            placeholder="Search by item name..."
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="search-input"
+          />
+          <span className="search-icon">🔍</span>
+        </div>
+
+        <div className="filter-group">
+          <select
+            value={filters.entityType || ''}
+            onChange={(e) => updateFilter('entityType', e.target.value as AuditEntityType)}
+            className="filter-select"
+          >
+            <option value="">All Types</option>
+            {AUDIT_ENTITY_TYPES.map(type => (
+              <option key={type.value} value={type.value}>{type.label}</option>
+            ))}
+          </select>
+
+          <select
+            value={filters.action || ''}
+            onChange={(e) => updateFilter('action', e.target.value as AuditAction)}
+            className="filter-select"
+          >
+            <option value="">All Actions</option>
+            {AUDIT_ACTIONS.map(action => (
+              <option key={action.value} value={action.value}>{action.label}</option>
+            ))}
+          </select>
+
+          <select
+            value={filters.actorId || ''}
+            onChange={(e) => updateFilter('actorId', e.target.value)}
+            className="filter-select"
+          >
+            <option value="">All Admins</option>
+            {actors.map(actor => (
+              <option key={actor.id} value={actor.id}>{actor.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="activity-dates">
+          <input
+            type="date"
+            value={filters.from || ''}
+            max={filters.to}
+            onChange={(e) => updateFilter('from', e.target.value)}
+            className="filter-select"
+            aria-label="From date"
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={filters.to || ''}
+            min={filters.from}
+            onChange={(e) => updateFilter('to', e.target.value)}
+            className="filter-select"
+            aria-label="To date"
+          />
+        </div>
+
+        {hasFilters && (
+          <button className="activity-clear-btn" onClick={clearFilters}>
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="activity-empty">
+          <div className="loading-spinner"></div>
+          <p>Loading activity...</p>
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="activity-empty">
+          <div className="empty-icon">📜</div>
+          <h3>No activity found</h3>
+          <p>{hasFilters ? 'Try different filters' : 'Changes made by admins show up here'}</p>
+        </div>
+      ) : (
+        <>
+          <p className="activity-count">
+            Showing {entries.length} of {total} entries
+          </p>
+
+          <ul className="activity-log">
+            {entries.map(entry => {
+              const changedFields = Object.keys(entry.changes || {});
+              const expanded = expandedId === entry.id;
+              return (
+                <li key={entry.id} className={`activity-log-item ${entry.action}`}>
+                  <div className="activity-log-icon">{getAuditActionIcon(entry.action)}</div>
+                  <div className="activity-log-body">
+                    <p className="activity-log-summary">
+                      <strong>{entry.actor_name || 'Unknown admin'}</strong>{' '}
+                      {getAuditActionLabel(entry.action).toLowerCase()}{' '}
+                      {getAuditEntityLabel(entry.entity_type).toLowerCase()}{' '}
+                      {entry.entity_label && <em>“{entry.entity_label}”</em>}
+                    </p>
+                    <p className="activity-log-meta">
+                      {new Date(entry.created_at).toLocaleString()}
+                      {entry.action !== 'create' && entry.action !== 'delete' && changedFields.length > 0 && (
+                        <> · {changedFields.join(', ')}</>
+                      )}
+                    </p>
+
+                    {expanded && (
+                      <table className="activity-changes">
+                        <thead>
+                          <tr>
+                            <th>Field</th>
+                            <th>Before</th>
+                            <th>After</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {changedFields.map(field => (
+                            <tr key={field}>
+                              <td>{field}</td>
+                              <td>{formatValue(entry.changes[field].before)}</td>
+                              <td>{formatValue(entry.changes[field].after)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                  {changedFields.length > 0 && (
+                    <button
+                      className="activity-details-btn"
+                      onClick={() => setExpandedId(expanded ? null : entry.id)}
+                    >
+                      {expanded ? 'Hide' : 'Details'}
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          {entries.length < total && (
+            <button
+              className="activity-load-more"
+              onClick={handleLoadMore}
+              disabled={loadingMore}
+            >
+              {loadingMore ? 'Loading...' : `Load ${Math.min(AUDIT_LOG_CONFIG.pageSize, total - entries.length)} more`}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ActivityView;
@@ -1,5 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import SupabaseService from '../../services/SupabaseService';
+import AuditLogService, { getAuditActionIcon, getAuditActionLabel, getAuditEntityLabel } from '../../services/AuditLogService';
+import type { AuditEntry } from '../../types/audit';
 import './AdminOverview.css';
 
 interface DashboardStats {
@@ -13,7 +15,12 @@ interface DashboardStats {
   totalMediaFiles: number;
 }
 
-const AdminOverview: React.FC = () => {
+interface AdminOverviewProps {
+  // Opens the full Activity view
+  onViewActivity?: () => void;
+}
+
+const AdminOverview: React.FC<AdminOverviewProps> = ({ onViewActivity }) => {
   const [stats, setStats] = useState<DashboardStats>({
     totalProjects: 0,
     publishedProjects: 0,
@@ -26,7 +33,7 @@ const AdminOverview: React.FC = () => {
   });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [recentActivity, setRecentActivity] = useState<any[]>([]);
+  const [recentActivity, setRecentActivity] = useState<AuditEntry[]>([]);
   const [retryCount, setRetryCount] = useState(0);
   const mountedRef = useRef(true);
   const maxRetries = 3;
@@ -56,12 +63,13 @@ const AdminOverview: React.FC = () => {
         Promise.race([promise, timeout(ms)]) as Promise<T>;
 
       // Load all data in parallel with timeout (10 seconds each)
-      const [projectsData, articlesData, inquiriesData, pageViewsData, mediaData] = await Promise.allSettled([
+      const [projectsData, articlesData, inquiriesData, pageViewsData, mediaData, activityData] = await Promise.allSettled([
         withTimeout(SupabaseService.getProjects().catch(() => []), 10000),
         withTimeout(SupabaseService.getArticles().catch(() => []), 10000),
         withTimeout(SupabaseService.getInquiries().catch(() => []), 10000),
         withTimeout(SupabaseService.getPageViews().catch(() => []), 10000),
-        withTimeout(SupabaseService.getMediaFiles().catch(() => []), 10000)
+        withTimeout(SupabaseService.getMediaFiles().catch(() => []), 10000),
+        withTimeout(AuditLogService.getRecent(5).catch(() => []), 10000)
       ]);
 
       // Extract successful data or use empty arrays
@@ -70,9 +78,10 @@ const AdminOverview: React.FC = () => {
       const inquiries = inquiriesData.status === 'fulfilled' ? inquiriesData.value : [];
       const pageViews = pageViewsData.status === 'fulfilled' ? pageViewsData.value : [];
       const media = mediaData.status === 'fulfilled' ? mediaData.value : [];
+      const activity = activityData.status === 'fulfilled' ? activityData.value : [];
 
       // Check for failures but don't block the UI
-      const failures = [projectsData, articlesData, inquiriesData, pageViewsData, mediaData]
+      const failures = [projectsData, articlesData, inquiriesData, pageViewsData, mediaData, activityData]
         .filter(result => result.status === 'rejected').length;
       
       if (failures > 0) {
@@ -92,33 +101,18 @@ const AdminOverview: React.FC = () => {
 
       setStats({
         totalProjects: projects?.length || 0,
-        publishedProjects: projects?.filter((p: any) => p.published)?.length || 0,
+        publishedProjects: projects?.filter(p => p.published)?.length || 0,
         totalArticles: articles?.length || 0,
-        publishedArticles: articles?.filter((a: any) => a.published)?.length || 0,
+        publishedArticles: articles?.filter(a => a.published)?.length || 0,
         totalInquiries: inquiries?.length || 0,
-        newInquiries: inquiries?.filter((i: any) => i.status === 'new')?.length || 0,
+        newInquiries: inquiries?.filter(i => i.status === 'new')?.length || 0,
         totalPageViews: pageViews?.length || 0,
         totalMediaFiles: media?.length || 0
       });
 
-      // Load recent activity (simplified and safe)
-      const recentItems = [
-        ...(articles?.slice(0, 3).map((article: any) => ({
-          type: 'article',
-          title: article?.title || 'Untitled Article',
-          date: article?.created_at || new Date().toISOString(),
-          status: article?.published ? 'Published' : 'Draft'
-        })) || []),
-        ...(inquiries?.slice(0, 3).map((inquiry: any) => ({
-          type: 'inquiry',
-          title: inquiry?.subject || 'No Subject',
-          date: inquiry?.created_at || new Date().toISOString(),
-          status: inquiry?.status || 'pending'
-        })) || [])
-      ].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()).slice(0, 5);
-
+      // Recent activity comes from the admin audit log
       if (mountedRef.current) {
-        setRecentActivity(recentItems);
+        setRecentActivity(activity);
       }
     } catch (error) {
       console.error('❌ AdminOverview: Critical error loading dashboard data:', error);
@@ -225,19 +219,22 @@ const AdminOverview: React.FC = () => {
         <div className="overview-section">
           <div className="section-header">
             <h2>Recent Activity</h2>
-            <button className="view-all-btn">View All</button>
+            <button className="view-all-btn" onClick={onViewActivity}>View All</button>
           </div>
           
           <div className="activity-list">
-            {recentActivity.map((item, index) => (
-              <div key={index} className="activity-item">
+            {recentActivity.length === 0 && (
+              <p className="activity-meta">No admin activity recorded yet</p>
+            )}
+            {recentActivity.map(entry => (
+              <div key={entry.id} className="activity-item">
                 <div className="activity-icon">
-                  {item.type === 'article' ? '📝' : '📬'}
+                  {getAuditActionIcon(entry.action)}
                 </div>
                 <div className="activity-content">
-                  <h4>{item.title}</h4>
+                  <h4>{entry.entity_label || getAuditEntityLabel(entry.entity_type)}</h4>
                   <p className="activity-meta">
-                    {item.type} • {item.status} • {new Date(item.date).toLocaleDateString()}
+                    {entry.actor_name || 'Unknown admin'} • {getAuditActionLabel(entry.action)} {getAuditEntityLabel(entry.entity_type).toLowerCase()} • {new Date(entry.created_at).toLocaleDateString()}
                   </p>
                 </div>
               </div>
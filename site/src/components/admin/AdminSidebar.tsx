@@ -21,10 +21,15 @@ const AdminSidebar: React.FC<AdminSidebarProps> = ({
   const menuItems = [
     { id: 'overview', label: 'Overview', icon: '📊' },
     { id: 'projects', label: 'Projects', icon: '🚀' },
+    { id: 'services', label: 'Services', icon: '🛠️' },
     { id: 'articles', label: 'Articles', icon: '📝' },
     { id: 'inquiries', label: 'Inquiries', icon: '📬' },
+    { id: 'testimonials', label: 'Testimonials', icon: '💬' },
     { id: 'media', label: 'Media', icon: '🖼️' },
-    { id: 'analytics', label: 'Analytics', icon: '📈' }
+    { id: 'users', label: 'Users', icon: '👥' },
+    { id: 'analytics', label: 'Analytics', icon: '📈' },
+    { id: 'activity', label: 'Activity', icon: '📜' },
+    { id: 'backup', label: 'Backup', icon: '💾' }
   ];
 
   return (
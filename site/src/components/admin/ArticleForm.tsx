@@ -1,13 +1,20 @@
 import React, { useState, useEffect } from 'react';
+import MediaPicker from './MediaPicker';
+import RevisionHistory from './RevisionHistory';
+import { MediaFile } from '../../types/media';
+import { ARTICLE_CATEGORIES } from '../../utils/contentOptions';
+import type { Tables, TablesInsert } from '../../types/database';
 import './ArticleForm.css';
 
 interface ArticleFormProps {
-  article?: any;
-  onSubmit: (articleData: any) => Promise<void>;
+  article?: Tables<'articles'> | null;
+  onSubmit: (articleData: TablesInsert<'articles'>) => Promise<void>;
   onCancel: () => void;
+  // Called with the updated row after an older revision is restored
+  onRevisionRestored?: (article: Tables<'articles'>) => void;
 }
 
-const ArticleForm: React.FC<ArticleFormProps> = ({ article, onSubmit, onCancel }) => {
+const ArticleForm: React.FC<ArticleFormProps> = ({ article, onSubmit, onCancel, onRevisionRestored }) => {
   const [formData, setFormData] = useState({
     title: '',
     slug: '',
@@ -27,6 +34,7 @@ const ArticleForm: React.FC<ArticleFormProps> = ({ article, onSubmit, onCancel }
   const [tagInput, setTagInput] = useState('');
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [showMediaPicker, setShowMediaPicker] = useState(false);
 
   useEffect(() => {
     if (article) {
@@ -112,6 +120,16 @@ const ArticleForm: React.FC<ArticleFormProps> = ({ article, onSubmit, onCancel }
     }));
   };
 
+  const handleMediaSelected = (files: MediaFile[]) => {
+    const file = files[0];
+    if (!file) return;
+    setFormData(prev => ({
+      ...prev,
+      featured_image: file.file_path,
+      image_alt: file.alt_text || prev.image_alt
+    }));
+  };
+
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
 
@@ -144,7 +162,7 @@ const ArticleForm: React.FC<ArticleFormProps> = ({ article, onSubmit, onCancel }
 
     setLoading(true);
     try {
-      const submitData = {
+      const submitData: TablesInsert<'articles'> = {
         ...formData,
         author_id: '00000000-0000-0000-0000-000000000000' // Replace with actual user ID
       };
@@ -162,19 +180,6 @@ const ArticleForm: React.FC<ArticleFormProps> = ({ article, onSubmit, onCancel }
     }
   };
 
-  const categories = [
-    'Game Development',
-    'Web Development',
-    'Technology',
-    'Programming',
-    'Design',
-    'Business',
-    'Tutorial',
-    'Case Study',
-    'Industry News',
-    'Other'
-  ];
-
   return (
     <div className="article-form">
       <div className="form-header">
@@ -257,7 +262,7 @@ const ArticleForm: React.FC<ArticleFormProps> = ({ article, onSubmit, onCancel }
                 onChange={handleInputChange}
               >
                 <option value="">Select category</option>
-                {categories.map(cat => (
+                {ARTICLE_CATEGORIES.map(cat => (
                   <option key={cat} value={cat}>{cat}</option>
                 ))}
               </select>
@@ -300,14 +305,22 @@ const ArticleForm: React.FC<ArticleFormProps> = ({ article, onSubmit, onCancel }
 
             <div className="form-group">
               <label htmlFor="featured_image">Featured Image URL</label>
-              <input
-                type="url"
-                id="featured_image"
-                name="featured_image"
-                value={formData.featured_image}
-                onChange={handleInputChange}
-                placeholder="https://example.com/image.jpg"
-              />
+              <div className="media-field">
+                <input
+                  type="url"
+                  id="featured_image"
+                  name="featured_image"
+                  value={formData.featured_image}
+                  onChange={handleInputChange}
+                  placeholder="https://example.com/image.jpg"
+                />
+                <button type="button" onClick={() => setShowMediaPicker(true)} className="browse-media-btn">
+                  Browse
+                </button>
+              </div>
+              {formData.featured_image && (
+                <img src={formData.featured_image} alt={formData.image_alt} className="media-field-preview" />
+              )}
             </div>
 
             <div className="form-group">
@@ -397,6 +410,18 @@ const ArticleForm: React.FC<ArticleFormProps> = ({ article, onSubmit, onCancel }
               </small>
             </div>
           </div>
+
+          {article?.id && (
+            <div className="form-section revision-section">
+              <h2>Revision History</h2>
+              <RevisionHistory
+                entityType="article"
+                entityId={article.id}
+                current={article}
+                onRestored={row => onRevisionRestored?.(row as Tables<'articles'>)}
+              />
+            </div>
+          )}
         </div>
 
         <div className="form-actions">
@@ -408,6 +433,13 @@ const ArticleForm: React.FC<ArticleFormProps> = ({ article, onSubmit, onCancel }
           </button>
         </div>
       </form>
+
+      <MediaPicker
+        isOpen={showMediaPicker}
+        onClose={() => setShowMediaPicker(false)}
+        onSelect={handleMediaSelected}
+        title="Select Featured Image"
+      />
     </div>
   );
 };
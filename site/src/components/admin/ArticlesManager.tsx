@@ -1,35 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import SupabaseService from '../../services/SupabaseService';
 import ArticleForm from './ArticleForm';
+import TrashPanel from './TrashPanel';
+import BulkActionBar from './BulkActionBar';
+import ImportExportControls from './ImportExportControls';
+import { useBulkRunner, useBulkSelection } from '../../hooks/useBulkActions';
+import { ARTICLE_CATEGORIES, mergeCategories } from '../../utils/contentOptions';
+import type { Tables, TablesInsert } from '../../types/database';
 import './ArticlesManager.css';
 
-interface Article {
-  id: string;
-  title: string;
-  slug: string;
-  excerpt?: string;
-  content: string;
-  featured_image?: string;
-  image_alt?: string;
-  tags: string[];
-  category?: string;
-  published: boolean;
-  featured: boolean;
-  view_count: number;
-  reading_time_minutes?: number;
-  seo_title?: string;
-  seo_description?: string;
-  published_at?: string;
-  created_at: string;
-  updated_at: string;
-  author_id: string;
-}
+type Article = Tables<'articles'>;
 
 const ArticlesManager: React.FC = () => {
   const [articles, setArticles] = useState<Article[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [editingArticle, setEditingArticle] = useState<Article | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState('all');
   const [filterCategory, setFilterCategory] = useState('all');
@@ -61,7 +48,7 @@ const ArticlesManager: React.FC = () => {
   };
 
   const handleDeleteArticle = async (articleId: string) => {
-    if (!confirm('Are you sure you want to delete this article?')) return;
+    if (!confirm('Move this article to the trash? You can restore it from the Trash view.')) return;
 
     try {
       await SupabaseService.deleteArticle(articleId);
@@ -104,7 +91,7 @@ const ArticlesManager: React.FC = () => {
     }
   };
 
-  const handleFormSubmit = async (articleData: any) => {
+  const handleFormSubmit = async (articleData: TablesInsert<'articles'>) => {
     try {
       if (editingArticle) {
         const updatedArticle = await SupabaseService.updateArticle(editingArticle.id, articleData);
@@ -123,10 +110,15 @@ const ArticlesManager: React.FC = () => {
     }
   };
 
+  const handleRevisionRestored = (restoredArticle: Article) => {
+    setArticles(prev => prev.map(a => a.id === restoredArticle.id ? { ...a, ...restoredArticle } : a));
+    setEditingArticle(restoredArticle);
+  };
+
   const filteredArticles = articles.filter(article => {
     const matchesSearch = article.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          (article.excerpt || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         article.tags.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase()));
+                         (article.tags ?? []).some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase()));
     const matchesStatus = filterStatus === 'all' || 
                          (filterStatus === 'published' && article.published) ||
                          (filterStatus === 'draft' && !article.published);
@@ -135,7 +127,29 @@ const ArticlesManager: React.FC = () => {
     return matchesSearch && matchesStatus && matchesCategory;
   });
 
-  const categories = [...new Set(articles.map(a => a.category).filter(Boolean))];
+  const categories = [...new Set(articles.map(a => a.category).filter((category): category is string => Boolean(category)))];
+
+  const selection = useBulkSelection(filteredArticles.map(a => a.id));
+  const bulk = useBulkRunner();
+
+  // Updates can depend on the row, e.g. publishing keeps an existing published_at
+  const runBulkUpdate = async (action: string, getUpdates: (article: Article) => Partial<Article>) => {
+    const targets = articles.filter(a => selection.isSelected(a.id));
+    const applied = new Map(targets.map(a => [a.id, getUpdates(a)]));
+    const result = await bulk.run(action, targets, a => a.title, a => SupabaseService.updateArticle(a.id, applied.get(a.id)!));
+    const done = new Set(result.succeeded.map(item => item.id));
+    setArticles(prev => prev.map(a => done.has(a.id) ? { ...a, ...applied.get(a.id) } : a));
+    selection.deselect([...done]);
+  };
+
+  const handleBulkDelete = async () => {
+    if (!confirm(`Move ${selection.count} articles to the trash? You can restore them from the Trash view.`)) return;
+
+    const targets = articles.filter(a => selection.isSelected(a.id));
+    const result = await bulk.run('Move to trash', targets, a => a.title, a => SupabaseService.deleteArticle(a.id));
+    const done = new Set(result.succeeded.map(item => item.id));
+    setArticles(prev => prev.filter(a => !done.has(a.id)));
+  };
 
   if (loading) {
     return (
@@ -151,6 +165,7 @@ const ArticlesManager: React.FC = () => {
       <ArticleForm
         article={editingArticle}
         onSubmit={handleFormSubmit}
+        onRevisionRestored={handleRevisionRestored}
         onCancel={() => {
           setShowForm(false);
           setEditingArticle(null);
@@ -159,6 +174,19 @@ const ArticlesManager: React.FC = () => {
     );
   }
 
+  if (showTrash) {
+    return (
+      <TrashPanel
+        table="articles"
+        title="Articles"
+        onBack={() => {
+          setShowTrash(false);
+          loadArticles();
+        }}
+      />
+    );
+  }
+
   return (
     <div className="articles-manager">
       <div className="manager-header">
@@ -166,10 +194,21 @@ const ArticlesManager: React.FC = () => {
           <h1>Articles Management</h1>
           <p>Manage your blog articles and content</p>
         </div>
-        <button className="create-btn" onClick={handleCreateArticle}>
-          <span className="btn-icon">📝</span>
-          New Article
-        </button>
+        <div className="header-actions">
+          <ImportExportControls
+            entity="articles"
+            rows={filteredArticles}
+            existing={articles}
+            onImported={loadArticles}
+          />
+          <button className="trash-toggle-btn" onClick={() => setShowTrash(true)}>
+            🗑️ Trash
+          </button>
+          <button className="create-btn" onClick={handleCreateArticle}>
+            <span className="btn-icon">📝</span>
+            New Article
+          </button>
+        </div>
       </div>
 
       <div className="manager-filters">
@@ -229,6 +268,46 @@ const ArticlesManager: React.FC = () => {
         </div>
       </div>
 
+      <BulkActionBar
+        noun="article"
+        nounPlural="articles"
+        selectedCount={selection.count}
+        matchingCount={selection.matchingCount}
+        onSelectAll={selection.selectAllMatching}
+        onClear={selection.clear}
+        progress={bulk.progress}
+        result={bulk.result}
+        onDismissResult={bulk.dismiss}
+      >
+        <button
+          type="button"
+          onClick={() => runBulkUpdate('Publish', a => ({
+            published: true,
+            published_at: a.published && a.published_at ? a.published_at : new Date().toISOString()
+          }))}
+        >
+          Publish
+        </button>
+        <button type="button" onClick={() => runBulkUpdate('Unpublish', () => ({ published: false, published_at: null }))}>
+          Unpublish
+        </button>
+        <button type="button" onClick={() => runBulkUpdate('Feature', () => ({ featured: true }))}>Feature</button>
+        <button type="button" onClick={() => runBulkUpdate('Unfeature', () => ({ featured: false }))}>Unfeature</button>
+        <select
+          value=""
+          onChange={(e) => {
+            const category = e.target.value;
+            if (category) runBulkUpdate(`Set category to ${category}`, () => ({ category }));
+          }}
+        >
+          <option value="">Set category…</option>
+          {mergeCategories(ARTICLE_CATEGORIES, categories).map(category => (
+            <option key={category} value={category}>{category}</option>
+          ))}
+        </select>
+        <button type="button" className="danger" onClick={handleBulkDelete}>Move to trash</button>
+      </BulkActionBar>
+
       <div className="articles-table">
         {filteredArticles.length === 0 ? (
           <div className="empty-state">
@@ -244,6 +323,16 @@ const ArticlesManager: React.FC = () => {
             <table>
               <thead>
                 <tr>
+                  <th className="bulk-select-cell">
+                    <input
+                      type="checkbox"
+                      className="bulk-checkbox"
+                      checked={selection.allSelected}
+                      onChange={() => selection.allSelected ? selection.clear() : selection.selectAllMatching()}
+                      disabled={bulk.running}
+                      aria-label="Select all matching articles"
+                    />
+                  </th>
                   <th>Article</th>
                   <th>Category</th>
                   <th>Status</th>
@@ -254,7 +343,17 @@ const ArticlesManager: React.FC = () => {
               </thead>
               <tbody>
                 {filteredArticles.map((article) => (
-                  <tr key={article.id}>
+                  <tr key={article.id} className={selection.isSelected(article.id) ? 'selected' : ''}>
+                    <td className="bulk-select-cell">
+                      <input
+                        type="checkbox"
+                        className="bulk-checkbox"
+                        checked={selection.isSelected(article.id)}
+                        onChange={() => selection.toggle(article.id)}
+                        disabled={bulk.running}
+                        aria-label={`Select ${article.title}`}
+                      />
+                    </td>
                     <td className="article-cell">
                       <div className="article-info">
                         {article.featured_image && (
@@ -277,15 +376,15 @@ const ArticlesManager: React.FC = () => {
                               {article.reading_time_minutes || 5} min read
                             </span>
                             <span className="article-date">
-                              {new Date(article.created_at).toLocaleDateString()}
+                              {article.created_at ? new Date(article.created_at).toLocaleDateString() : '—'}
                             </span>
                           </div>
                           <div className="article-tags">
-                            {article.tags.slice(0, 3).map((tag, index) => (
+                            {(article.tags ?? []).slice(0, 3).map((tag, index) => (
                               <span key={index} className="tag">{tag}</span>
                             ))}
-                            {article.tags.length > 3 && (
-                              <span className="tag-more">+{article.tags.length - 3}</span>
+                            {(article.tags?.length ?? 0) > 3 && (
+                              <span className="tag-more">+{(article.tags?.length ?? 0) - 3}</span>
                             )}
                           </div>
                           <div className="article-badges">
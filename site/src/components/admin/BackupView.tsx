@@ -0,0 +1,265 @@
+import React, { useState } from 'react';
+import BackupService from '../../services/BackupService';
+import { BACKUP_CONFIG, BACKUP_TABLE_LABELS, parseBackupArchive } from '../../utils/backupArchive';
+import { downloadFile } from '../../utils/contentTransfer';
+import type { BackupArchive, BackupManifest, RestorePlan, RestoreTableResult } from '../../types/backup';
+import './BulkActionBar.css';
+import './BackupView.css';
+
+const countChanges = (plan: RestorePlan) =>
+  plan.tables.reduce((sum, table) => sum + table.create.length + table.update.length, 0);
+
+const BackupView: React.FC = () => {
+  const [backingUp, setBackingUp] = useState(false);
+  const [lastBackup, setLastBackup] = useState<BackupManifest | null>(null);
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [results, setResults] = useState<RestoreTableResult[] | null>(null);
+  const [expandedTable, setExpandedTable] = useState<string | null>(null);
+
+  const handleBackup = async () => {
+    try {
+      setBackingUp(true);
+      const backup = await BackupService.createBackup();
+      downloadFile(JSON.stringify(backup, null, 2), BackupService.getBackupFileName(backup), 'application/json');
+      setLastBackup(backup.manifest);
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      alert('Error creating backup');
+    } finally {
+      setBackingUp(false);
+    }
+  };
+
+  const runPreview = async (source: BackupArchive) => {
+    try {
+      setPreviewing(true);
+      setPlan(await BackupService.previewRestore(source));
+    } catch (error) {
+      console.error('Error previewing restore:', error);
+      alert('Error comparing the backup with the database');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setArchive(null);
+    setPlan(null);
+    setResults(null);
+    setFileError(null);
+    setFileName(file.name);
+
+    try {
+      const parsed = parseBackupArchive(await file.text());
+      setArchive(parsed);
+      await runPreview(parsed);
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      setFileError(error instanceof Error ? error.message : 'Could not read the backup');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!plan) return;
+    const changes = countChanges(plan);
+    if (!confirm(`Apply ${changes} change${changes === 1 ? '' : 's'} from this backup? Rows not in the backup are left alone.`)) {
+      return;
+    }
+
+    try {
+      setRestoring(true);
+      setResults(await BackupService.applyRestore(plan));
+      setPlan(null);
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      alert('Error restoring backup');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  // A second preview of an applied backup should come back with nothing to change
+  const handleCheckAgain = () => {
+    if (!archive) return;
+    setResults(null);
+    runPreview(archive);
+  };
+
+  const totalChanges = plan ? countChanges(plan) : 0;
+  const totalFailed = results ? results.reduce((sum, result) => sum + result.failed.length, 0) : 0;
+
+  return (
+    <div className="backup-view">
+      <div className="manager-header">
+        <div className="header-left">
+          <h1>Backup &amp; Restore</h1>
+          <p>Download all site content as one archive, or restore from one</p>
+        </div>
+      </div>
+
+      <section className="backup-card">
+        <h2>Backup</h2>
+        <p>
+          Projects, services, articles, testimonials, media metadata (not the files themselves) and user roles,
+          including items in the trash. Schema version {BACKUP_CONFIG.schemaVersion}.
+        </p>
+        <button type="button" className="backup-btn" onClick={handleBackup} disabled={backingUp}>
+          <span className="btn-icon">💾</span>
+          {backingUp ? 'Preparing backup...' : 'Backup site content'}
+        </button>
+        {lastBackup && (
+          <p className="backup-note">
+            ✓ Downloaded {BACKUP_CONFIG.tables.map(table => `${lastBackup.tables[table]} ${BACKUP_TABLE_LABELS[table].toLowerCase()}`).join(', ')}
+          </p>
+        )}
+      </section>
+
+      <section className="backup-card">
+        <h2>Restore</h2>
+        <p>
+          Choose a backup file to see what it would change. Rows are matched by id: missing ones are created,
+          different ones are overwritten, and anything not in the backup is left alone. Restoring the same
+          backup twice changes nothing the second time.
+        </p>
+        <input type="file" accept=".json,application/json" onChange={handleFile} disabled={previewing || restoring} />
+        {fileError && <p className="backup-error">{fileError}</p>}
+
+        {archive && (
+          <p className="backup-note">
+            {fileName}: made {new Date(archive.manifest.createdAt).toLocaleString()}
+            {archive.manifest.createdBy && ` by ${archive.manifest.createdBy}`}, schema version {archive.manifest.schemaVersion}
+          </p>
+        )}
+
+        {previewing && <p className="backup-note">Comparing with the database...</p>}
+
+        {plan && (
+          <>
+            {plan.warnings.map(warning => (
+              <p key={warning} className="backup-warning">⚠️ {warning}</p>
+            ))}
+
+            <table className="backup-table">
+              <thead>
+                <tr>
+                  <th>Content</th>
+                  <th>New</th>
+                  <th>Changed</th>
+                  <th>Unchanged</th>
+                  <th>Skipped</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.tables.map(table => {
+                  const expanded = expandedTable === table.table;
+                  const hasDetails = table.create.length + table.update.length + table.skipped.length > 0;
+                  return (
+                    <React.Fragment key={table.table}>
+                      <tr>
+                        <td>{BACKUP_TABLE_LABELS[table.table]}</td>
+                        <td>{table.create.length}</td>
+                        <td>{table.update.length}</td>
+                        <td>{table.unchanged}</td>
+                        <td className={table.skipped.length > 0 ? 'backup-skipped' : ''}>{table.skipped.length}</td>
+                        <td>
+                          {hasDetails && (
+                            <button
+                              type="button"
+                              className="backup-details-btn"
+                              onClick={() => setExpandedTable(expanded ? null : table.table)}
+                            >
+                              {expanded ? 'Hide' : 'Details'}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                      {expanded && (
+                        <tr className="backup-details">
+                          <td colSpan={6}>
+                            <ul>
+                              {table.create.map(change => (
+                                <li key={change.id}>
+                                  <strong>New</strong> {change.label}
+                                  {change.notes.length > 0 && <span> · {change.notes.join('; ')}</span>}
+                                </li>
+                              ))}
+                              {table.update.map(change => (
+                                <li key={change.id}>
+                                  <strong>Changed</strong> {change.label}
+                                  <span> · {change.changedFields.join(', ')}</span>
+                                  {change.notes.length > 0 && <span> · {change.notes.join('; ')}</span>}
+                                </li>
+                              ))}
+                              {table.skipped.map(row => (
+                                <li key={row.id} className="backup-skipped">
+                                  <strong>Skipped</strong> {row.label}
+                                  <span> · {row.reason}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            <button
+              type="button"
+              className="backup-btn"
+              onClick={handleRestore}
+              disabled={restoring || totalChanges === 0}
+            >
+              {restoring
+                ? 'Restoring...'
+                : totalChanges === 0
+                  ? 'Nothing to restore'
+                  : `Restore ${totalChanges} change${totalChanges === 1 ? '' : 's'}`}
+            </button>
+          </>
+        )}
+
+        {results && archive && (
+          <div className={`bulk-result ${totalFailed > 0 ? 'has-failures' : ''}`}>
+            <div className="bulk-result-header">
+              <span>
+                {totalFailed === 0 ? '✓ Restore complete: ' : `Restore finished with ${totalFailed} failed: `}
+                {results
+                  .filter(result => result.created + result.updated > 0)
+                  .map(result => `${BACKUP_TABLE_LABELS[result.table]} ${result.created} new, ${result.updated} changed`)
+                  .join('; ') || 'no changes'}
+              </span>
+              <button type="button" className="bulk-link-btn" onClick={handleCheckAgain} disabled={previewing}>
+                Check again
+              </button>
+            </div>
+            {totalFailed > 0 && (
+              <ul className="bulk-result-list">
+                {results.flatMap(result => result.failed.map(item => (
+                  <li key={`${result.table}-${item.id}`}>
+                    <strong>{item.label}</strong>
+                    <span>{item.error}</span>
+                  </li>
+                )))}
+              </ul>
+            )}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default BackupView;
@@ -0,0 +1,102 @@
+import React from 'react';
+import type { BulkProgress, BulkRunResult } from '../../hooks/useBulkActions';
+import './BulkActionBar.css';
+
+interface BulkActionBarProps {
+  // Row name for the counts, e.g. "project" / "projects"
+  noun: string;
+  nounPlural: string;
+  selectedCount: number;
+  matchingCount: number;
+  onSelectAll: () => void;
+  onClear: () => void;
+  progress: BulkProgress | null;
+  result: BulkRunResult | null;
+  onDismissResult: () => void;
+  // The manager's action buttons/selects; hidden while a run is in progress
+  children: React.ReactNode;
+}
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  noun,
+  nounPlural,
+  selectedCount,
+  matchingCount,
+  onSelectAll,
+  onClear,
+  progress,
+  result,
+  onDismissResult,
+  children
+}) => {
+  if (!progress && !result && selectedCount === 0) return null;
+
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div className="bulk-action-area">
+      {progress ? (
+        <div className="bulk-action-bar running">
+          <span className="bulk-selection-count">
+            {progress.action}… {progress.done} / {progress.total}
+          </span>
+          <div
+            className="bulk-progress"
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={percent}
+            aria-label={`${progress.action} progress`}
+          >
+            <div className="bulk-progress-fill" style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+      ) : selectedCount > 0 && (
+        <div className="bulk-action-bar">
+          <span className="bulk-selection-count">
+            {selectedCount} {selectedCount === 1 ? noun : nounPlural} selected
+          </span>
+          {selectedCount < matchingCount && (
+            <button type="button" className="bulk-link-btn" onClick={onSelectAll}>
+              Select all {matchingCount} matching
+            </button>
+          )}
+          <button type="button" className="bulk-link-btn" onClick={onClear}>
+            Clear
+          </button>
+          <div className="bulk-actions">{children}</div>
+        </div>
+      )}
+
+      {result && (
+        <div className={`bulk-result ${result.failed.length > 0 ? 'has-failures' : ''}`}>
+          <div className="bulk-result-header">
+            <span>
+              {result.failed.length === 0
+                ? `✓ ${result.action}: ${result.succeeded.length} ${result.succeeded.length === 1 ? noun : nounPlural} done`
+                : `${result.action}: ${result.succeeded.length} done, ${result.failed.length} failed`}
+            </span>
+            <button type="button" className="bulk-link-btn" onClick={onDismissResult}>
+              Dismiss
+            </button>
+          </div>
+          {result.failed.length > 0 && (
+            <>
+              <ul className="bulk-result-list">
+                {result.failed.map(item => (
+                  <li key={item.id}>
+                    <strong>{item.label}</strong>
+                    <span>{item.error}</span>
+                  </li>
+                ))}
+              </ul>
+              <p className="bulk-result-hint">Failed {nounPlural} stay selected so you can retry.</p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkActionBar;
@@ -0,0 +1,118 @@
+import React, { useState, useEffect, useRef } from 'react';
+import ClientPortalService from '../../services/ClientPortalService';
+import { useAuth } from '../../hooks/useAuth';
+import type { ProjectFile } from '../../types/portal';
+import { formatFileSize, getMediaFileIcon, getMediaFileType } from '../../utils/mediaFiles';
+import './ClientFilesPanel.css';
+
+interface ClientFilesPanelProps {
+  projectId: string;
+}
+
+// Files shared with the project's client through the portal (private bucket)
+const ClientFilesPanel: React.FC<ClientFilesPanelProps> = ({ projectId }) => {
+  const { user } = useAuth();
+  const [files, setFiles] = useState<ProjectFile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploadingName, setUploadingName] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const loadFiles = async () => {
+      try {
+        setLoading(true);
+        setFiles(await ClientPortalService.getProjectFiles(projectId));
+      } catch (error) {
+        console.error('Error loading client files:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadFiles();
+  }, [projectId]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = '';
+
+    // One at a time keeps errors attributable to a file
+    for (const file of selected) {
+      try {
+        setUploadingName(file.name);
+        const uploaded = await ClientPortalService.uploadProjectFile(projectId, file, user?.id);
+        setFiles(prev => [uploaded, ...prev]);
+      } catch (error) {
+        console.error('Error uploading client file:', error);
+        alert(`Error uploading ${file.name}`);
+      }
+    }
+    setUploadingName(null);
+  };
+
+  const handleDelete = async (file: ProjectFile) => {
+    if (!confirm(`Stop sharing ${file.name} and delete it?`)) return;
+
+    try {
+      await ClientPortalService.deleteProjectFile(file);
+      setFiles(prev => prev.filter(f => f.id !== file.id));
+    } catch (error) {
+      console.error('Error deleting client file:', error);
+      alert('Error deleting file');
+    }
+  };
+
+  return (
+    <div className="client-files-panel">
+      {loading ? (
+        <p className="client-files-empty">Loading files...</p>
+      ) : files.length === 0 ? (
+        <p className="client-files-empty">No files shared yet</p>
+      ) : (
+        <ul className="client-files-list">
+          {files.map(file => (
+            <li key={file.id} className="client-file-item">
+              <span className="client-file-icon" aria-hidden="true">
+                {getMediaFileIcon(getMediaFileType(file.mime_type || ''))}
+              </span>
+              <div className="client-file-info">
+                <span className="client-file-name" title={file.name}>{file.name}</span>
+                <span className="client-file-meta">
+                  {file.file_size ? `${formatFileSize(file.file_size)} · ` : ''}
+                  {new Date(file.created_at).toLocaleDateString()}
+                </span>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleDelete(file)}
+                className="remove-client-file"
+                aria-label={`Delete ${file.name}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        onChange={handleUpload}
+        className="client-files-input"
+        aria-hidden="true"
+        tabIndex={-1}
+      />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        className="browse-media-btn"
+        disabled={uploadingName !== null}
+      >
+        {uploadingName ? `Uploading ${uploadingName}...` : 'Share Files'}
+      </button>
+    </div>
+  );
+};
+
+export default ClientFilesPanel;
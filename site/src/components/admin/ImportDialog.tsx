@@ -0,0 +1,358 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import ContentTransferService from '../../services/ContentTransferService';
+import TrashService, { TRASH_CONFIG, TrashTable } from '../../services/TrashService';
+import { useBulkRunner } from '../../hooks/useBulkActions';
+import {
+  TRANSFER_FIELDS,
+  TRANSFER_LABELS,
+  buildImportPlan,
+  hasSlug,
+  readImportSource,
+  suggestMapping
+} from '../../utils/contentTransfer';
+import type {
+  ImportConflictMode,
+  ImportExistingRow,
+  ImportMapping,
+  ImportRowPlan,
+  ImportSource,
+  TransferEntity
+} from '../../types/transfer';
+import './BulkActionBar.css';
+import './ImportExport.css';
+
+interface ImportDialogProps {
+  entity: TransferEntity;
+  existing: ImportExistingRow[];
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type ImportStep = 'file' | 'map' | 'preview' | 'done';
+
+const STEPS: Array<{ value: ImportStep; label: string }> = [
+  { value: 'file', label: 'Choose file' },
+  { value: 'map', label: 'Map columns' },
+  { value: 'preview', label: 'Preview' },
+  { value: 'done', label: 'Done' }
+];
+
+const CONFLICT_MODES: Array<{ value: ImportConflictMode; label: string }> = [
+  { value: 'skip', label: 'Skip rows that already exist' },
+  { value: 'overwrite', label: 'Overwrite existing rows' },
+  { value: 'rename', label: 'Import as new rows' }
+];
+
+const ACTION_LABELS: Record<ImportRowPlan['action'], string> = {
+  create: 'Create',
+  update: 'Overwrite',
+  skip: 'Skip',
+  error: 'Invalid'
+};
+
+const hasTrash = (entity: TransferEntity): entity is TransferEntity & TrashTable =>
+  TRASH_CONFIG.tables.some(table => table === entity);
+
+const formatSample = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+};
+
+const ImportDialog: React.FC<ImportDialogProps> = ({ entity, existing, onClose, onImported }) => {
+  const [step, setStep] = useState<ImportStep>('file');
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [conflictMode, setConflictMode] = useState<ImportConflictMode>('skip');
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  // null until the trash is checked; trashed rows keep their slug, so they conflict too
+  const [trashed, setTrashed] = useState<ImportExistingRow[] | null>(hasTrash(entity) ? null : []);
+  const [trashError, setTrashError] = useState<string | null>(null);
+  const runner = useBulkRunner();
+
+  useEffect(() => {
+    if (!hasTrash(entity)) return;
+    TrashService.getTrash(entity)
+      .then(items => setTrashed(items.map(item => ({
+        id: item.id,
+        slug: 'slug' in item.record ? item.record.slug : undefined,
+        deleted_at: item.deleted_at
+      }))))
+      .catch(error => {
+        console.error('Error checking the trash for import conflicts:', error);
+        setTrashError("Couldn't check the trash for conflicting rows, so nothing can be imported. Close and try again.");
+      });
+  }, [entity]);
+
+  const labels = TRANSFER_LABELS[entity];
+  const slugged = hasSlug(entity);
+  // id is only offered for matching when there is no slug to match on
+  const mappableFields = TRANSFER_FIELDS[entity].filter(field => !field.readOnly || (field.key === 'id' && !slugged));
+
+  const plan = useMemo(
+    () => (source && step !== 'file'
+      ? buildImportPlan(entity, source, mapping, [...existing, ...(trashed || [])], conflictMode)
+      : null),
+    [entity, source, mapping, existing, trashed, conflictMode, step]
+  );
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setFileError(null);
+      const parsed = readImportSource(file.name, await file.text());
+      if (parsed.records.length === 0) {
+        setFileError('The file has no rows to import');
+        return;
+      }
+      setSource(parsed);
+      setMapping(suggestMapping(entity, parsed.columns));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      setFileError(error instanceof Error ? error.message : 'Could not read the file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    const items = plan.rows
+      .filter(row => row.action === 'create' || row.action === 'update')
+      .map(row => ({ id: String(row.row), row }));
+
+    await runner.run(
+      'Importing',
+      items,
+      item => `Row ${item.row.row}: ${item.row.label}`,
+      item => ContentTransferService.importRow(entity, item.row)
+    );
+    setStep('done');
+  };
+
+  // The manager reloads its list once the dialog is gone, so the summary stays put
+  const handleClose = () => {
+    if (step === 'done') onImported();
+    onClose();
+  };
+
+  const missingRequired = mappableFields.filter(field => field.required && !mapping[field.key]);
+  const visibleRows = plan?.rows.filter(row => !problemsOnly || row.errors.length > 0 || row.warnings.length > 0) || [];
+  const importable = plan ? plan.counts.create + plan.counts.update : 0;
+  const failedRows = new Set(runner.result?.failed.map(item => item.id));
+
+  return (
+    <>
+      <div className="import-overlay" onClick={runner.running ? undefined : handleClose} />
+      <div className="import-dialog" role="dialog" aria-label={`Import ${labels.plural}`}>
+        <div className="import-header">
+          <h2>Import {labels.plural}</h2>
+          <button type="button" className="import-close-btn" onClick={handleClose} disabled={runner.running} aria-label="Close import">×</button>
+        </div>
+
+        <ol className="import-steps">
+          {STEPS.map((item, index) => (
+            <li key={item.value} className={step === item.value ? 'active' : ''}>
+              {index + 1}. {item.label}
+            </li>
+          ))}
+        </ol>
+
+        <div className="import-body">
+          {step === 'file' && (
+            <div className="import-file-step">
+              <p>
+                Upload a CSV file with a header row, or a JSON array of objects. Files exported from this
+                page can be imported as they are. List columns use “;” between items.
+              </p>
+              <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} />
+              {fileError && <p className="import-error">{fileError}</p>}
+            </div>
+          )}
+
+          {step === 'map' && source && (
+            <>
+              <p className="import-hint">
+                {source.fileName}: {source.records.length} rows, {source.columns.length} columns.
+                Pick the column to read each field from. Unmapped fields keep their defaults on new rows and their current values on overwritten ones.
+              </p>
+              <table className="import-table">
+                <thead>
+                  <tr>
+                    <th>Field</th>
+                    <th>Column in file</th>
+                    <th>First row</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {mappableFields.map(field => (
+                    <tr key={field.key}>
+                      <td>
+                        {field.key === 'id' ? 'ID (match existing)' : field.label}
+                        {field.required && <span className="import-required"> *</span>}
+                      </td>
+                      <td>
+                        <select
+                          value={mapping[field.key] || ''}
+                          onChange={(e) => setMapping(prev => ({ ...prev, [field.key]: e.target.value }))}
+                          className="filter-select"
+                        >
+                          <option value="">Don't import</option>
+                          {source.columns.map(column => (
+                            <option key={column} value={column}>{column}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="import-sample">
+                        {mapping[field.key] ? formatSample(source.records[0][mapping[field.key]]) : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {missingRequired.length > 0 && (
+                <p className="import-hint">
+                  Not mapped: {missingRequired.map(field => field.label).join(', ')}. New {labels.plural} need
+                  these, so only rows that overwrite existing ones can be imported.
+                </p>
+              )}
+            </>
+          )}
+
+          {step === 'preview' && plan && (
+            <>
+              <div className="import-preview-controls">
+                <label>
+                  {slugged ? 'When the slug already exists' : 'When the ID already exists'}
+                  <select
+                    value={conflictMode}
+                    onChange={(e) => setConflictMode(e.target.value as ImportConflictMode)}
+                    className="filter-select"
+                  >
+                    {CONFLICT_MODES.map(mode => (
+                      <option key={mode.value} value={mode.value}>{mode.label}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="bulk-select-all">
+                  <input
+                    type="checkbox"
+                    className="bulk-checkbox"
+                    checked={problemsOnly}
+                    onChange={(e) => setProblemsOnly(e.target.checked)}
+                  />
+                  Only rows with notes
+                </label>
+              </div>
+
+              <p className="import-counts">
+                Dry run: <strong>{plan.counts.create}</strong> to create, <strong>{plan.counts.update}</strong> to
+                overwrite, <strong>{plan.counts.skip}</strong> skipped, <strong>{plan.counts.error}</strong> invalid.
+                Nothing has been saved yet.
+              </p>
+              {trashError && <p className="import-error">{trashError}</p>}
+
+              <table className="import-table">
+                <thead>
+                  <tr>
+                    <th>Row</th>
+                    <th>{labels.singular}</th>
+                    <th>Action</th>
+                    <th>Notes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.map(row => (
+                    <tr key={row.row}>
+                      <td>{row.row}</td>
+                      <td>{row.label}</td>
+                      <td><span className={`import-action ${row.action}`}>{ACTION_LABELS[row.action]}</span></td>
+                      <td>
+                        {row.errors.map(error => <div key={error} className="import-error">{error}</div>)}
+                        {row.warnings.map(warning => <div key={warning} className="import-warning">{warning}</div>)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {runner.progress && (
+                <div
+                  className="bulk-progress"
+                  role="progressbar"
+                  aria-valuemin={0}
+                  aria-valuemax={runner.progress.total}
+                  aria-valuenow={runner.progress.done}
+                  aria-label="Import progress"
+                >
+                  <div
+                    className="bulk-progress-fill"
+                    style={{ width: `${Math.round((runner.progress.done / runner.progress.total) * 100)}%` }}
+                  />
+                </div>
+              )}
+            </>
+          )}
+
+          {step === 'done' && plan && runner.result && (
+            <div className={`bulk-result ${runner.result.failed.length > 0 ? 'has-failures' : ''}`}>
+              <div className="bulk-result-header">
+                <span>
+                  {plan.rows.filter(row => row.action === 'create' && !failedRows.has(String(row.row))).length} created,{' '}
+                  {plan.rows.filter(row => row.action === 'update' && !failedRows.has(String(row.row))).length} overwritten,{' '}
+                  {plan.counts.skip} skipped, {plan.counts.error} invalid
+                  {runner.result.failed.length > 0 && `, ${runner.result.failed.length} failed`}
+                </span>
+              </div>
+              {runner.result.failed.length > 0 && (
+                <ul className="bulk-result-list">
+                  {runner.result.failed.map(item => (
+                    <li key={item.id}>
+                      <strong>{item.label}</strong>
+                      <span>{item.error}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="import-footer">
+          {step === 'map' && (
+            <>
+              <button type="button" className="import-btn" onClick={() => setStep('file')}>Back</button>
+              <button type="button" className="import-btn primary" onClick={() => setStep('preview')}>
+                Preview import
+              </button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <button type="button" className="import-btn" onClick={() => setStep('map')} disabled={runner.running}>
+                Back
+              </button>
+              <button
+                type="button"
+                className="import-btn primary"
+                onClick={handleImport}
+                disabled={runner.running || importable === 0 || !trashed}
+              >
+                {runner.running ? 'Importing...'
+                  : !trashed && !trashError ? 'Checking the trash...'
+                  : `Import ${importable} ${importable === 1 ? labels.singular : labels.plural}`}
+              </button>
+            </>
+          )}
+          {step === 'done' && (
+            <button type="button" className="import-btn primary" onClick={handleClose}>Close</button>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default ImportDialog;
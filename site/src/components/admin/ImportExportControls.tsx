@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import ImportDialog from './ImportDialog';
+import { TRANSFER_LABELS, downloadFile, exportRows, getExportFileName } from '../../utils/contentTransfer';
+import type { ImportExistingRow, ImportFormat, TransferEntity } from '../../types/transfer';
+import './ImportExport.css';
+
+interface ImportExportControlsProps {
+  entity: TransferEntity;
+  // Rows matching the manager's current filters; this is what gets exported
+  rows: Array<Record<string, unknown>>;
+  // Every loaded row, used to detect slug/id conflicts on import; the dialog adds trashed rows
+  existing: ImportExistingRow[];
+  onImported: () => void;
+}
+
+const MIME_TYPES: Record<ImportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json'
+};
+
+const ImportExportControls: React.FC<ImportExportControlsProps> = ({ entity, rows, existing, onImported }) => {
+  const [showImport, setShowImport] = useState(false);
+  const labels = TRANSFER_LABELS[entity];
+
+  const handleExport = (format: ImportFormat) => {
+    try {
+      downloadFile(exportRows(entity, rows, format), getExportFileName(entity, format), MIME_TYPES[format]);
+    } catch (error) {
+      console.error(`Error exporting ${labels.plural}:`, error);
+      alert(`Error exporting ${labels.plural}`);
+    }
+  };
+
+  const exportTitle = `Export the ${rows.length} ${rows.length === 1 ? labels.singular : labels.plural} matching the current filters`;
+
+  return (
+    <>
+      <div className="transfer-controls">
+        <button type="button" onClick={() => handleExport('csv')} disabled={rows.length === 0} title={exportTitle}>
+          ⬇️ CSV
+        </button>
+        <button type="button" onClick={() => handleExport('json')} disabled={rows.length === 0} title={exportTitle}>
+          ⬇️ JSON
+        </button>
+        <button type="button" onClick={() => setShowImport(true)} title={`Import ${labels.plural} from CSV or JSON`}>
+          ⬆️ Import
+        </button>
+      </div>
+
+      {showImport && (
+        <ImportDialog
+          entity={entity}
+          existing={existing}
+          onClose={() => setShowImport(false)}
+          onImported={onImported}
+        />
+      )}
+    </>
+  );
+};
+
+export default ImportExportControls;
@@ -1,43 +1,149 @@
 import React, { useState, useEffect } from 'react';
 import SupabaseService from '../../services/SupabaseService';
+import UserProfileService from '../../services/UserProfileService';
+import { useAuth } from '../../hooks/useAuth';
+import type { UserProfile } from '../../types/profile';
+import type { Tables } from '../../types/database';
+import type { DatabaseInquiry } from '../../services/DatabaseService';
+import {
+  QUOTE_ADD_ONS,
+  QUOTE_PLATFORMS,
+  QUOTE_TEAM_SIZES,
+  QUOTE_TIMELINES,
+  formatQuoteDuration,
+  formatQuoteRange,
+  isQuoteConfiguration
+} from '../../utils/quoteEstimator';
+import {
+  INQUIRY_PIPELINE,
+  INQUIRY_SLA_CONFIG,
+  InquiryStatus,
+  SlaStatus,
+  formatElapsed,
+  getInquiryStage,
+  getSlaStatus,
+  normalizeInquiryStatus
+} from '../../utils/inquiryPipeline';
+import { buildProjectFromInquiry } from '../../utils/inquiryConversion';
+import { PROJECT_TYPE_LABELS } from '../../utils/inquiryGuard';
+import TrashPanel from './TrashPanel';
+import BulkActionBar from './BulkActionBar';
+import ImportExportControls from './ImportExportControls';
+import { useBulkRunner, useBulkSelection } from '../../hooks/useBulkActions';
 import './InquiriesManager.css';
 
-interface Inquiry {
+// Statuses are normalized on load, so the board only ever sees pipeline stages
+type Inquiry = Omit<DatabaseInquiry, 'status'> & { status: InquiryStatus };
+
+interface LinkedProject {
   id: string;
-  name: string;
-  email: string;
-  company?: string;
-  phone?: string;
-  subject: string;
-  message: string;
-  service_interest?: string;
-  project_budget?: string;
-  timeline?: string;
+  title: string;
   status: string;
-  priority: number;
-  notes?: string;
-  created_at: string;
-  updated_at: string;
-  assigned_to?: string;
+  published: boolean | null;
 }
 
+type InquiryNote = Tables<'inquiry_notes'>;
+
+// Re-evaluate SLA badges while the board is left open
+const SLA_REFRESH_INTERVAL = 60 * 1000;
+
 const InquiriesManager: React.FC = () => {
+  const { user: currentUser } = useAuth();
   const [inquiries, setInquiries] = useState<Inquiry[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedInquiry, setSelectedInquiry] = useState<Inquiry | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
-  const [filterStatus, setFilterStatus] = useState('all');
   const [filterPriority, setFilterPriority] = useState('all');
+  const [filterAssignee, setFilterAssignee] = useState('all');
+  const [filterSla, setFilterSla] = useState('all');
+  const [admins, setAdmins] = useState<UserProfile[]>([]);
+  const [notes, setNotes] = useState<InquiryNote[]>([]);
+  const [notesLoading, setNotesLoading] = useState(false);
+  const [newNote, setNewNote] = useState('');
+  const [savingNote, setSavingNote] = useState(false);
+  const [linkedProject, setLinkedProject] = useState<LinkedProject | null>(null);
+  const [converting, setConverting] = useState(false);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropStatus, setDropStatus] = useState<InquiryStatus | null>(null);
+  const [slaThreshold, setSlaThreshold] = useState<number>(INQUIRY_SLA_CONFIG.defaultThresholdHours);
+  const [slaInput, setSlaInput] = useState(String(INQUIRY_SLA_CONFIG.defaultThresholdHours));
+  const [now, setNow] = useState(Date.now());
 
   useEffect(() => {
     loadInquiries();
+    loadAdmins();
+    loadSlaThreshold();
+  }, []);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), SLA_REFRESH_INTERVAL);
+    return () => clearInterval(timer);
   }, []);
 
+  const selectedId = selectedInquiry?.id;
+
+  useEffect(() => {
+    setNewNote('');
+    if (!selectedId) {
+      setNotes([]);
+      return;
+    }
+
+    let cancelled = false;
+    const loadNotes = async () => {
+      try {
+        setNotesLoading(true);
+        const data = await SupabaseService.getInquiryNotes(selectedId);
+        if (!cancelled) setNotes(data || []);
+      } catch (error) {
+        console.error('Error loading inquiry notes:', error);
+        if (!cancelled) setNotes([]);
+      } finally {
+        if (!cancelled) setNotesLoading(false);
+      }
+    };
+    loadNotes();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId]);
+
+  const linkedProjectId = selectedInquiry?.project_id;
+
+  useEffect(() => {
+    if (!linkedProjectId) {
+      setLinkedProject(null);
+      return;
+    }
+
+    let cancelled = false;
+    const loadProject = async () => {
+      try {
+        const project = await SupabaseService.getProject(linkedProjectId);
+        if (!cancelled) setLinkedProject(project);
+      } catch (error) {
+        console.error('Error loading linked project:', error);
+        if (!cancelled) setLinkedProject(null);
+      }
+    };
+    loadProject();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [linkedProjectId]);
+
   const loadInquiries = async () => {
     try {
       setLoading(true);
       const data = await SupabaseService.getInquiries();
-      setInquiries(data || []);
+      // Rows written before the pipeline migration may still carry old statuses
+      setInquiries((data || []).map((inquiry: DatabaseInquiry) => ({
+        ...inquiry,
+        status: normalizeInquiryStatus(inquiry.status)
+      })));
     } catch (error) {
       console.error('Error loading inquiries:', error);
     } finally {
@@ -45,53 +151,120 @@ const InquiriesManager: React.FC = () => {
     }
   };
 
-  const handleStatusChange = async (inquiryId: string, newStatus: string) => {
+  const loadAdmins = async () => {
+    const result = await UserProfileService.searchProfiles({ role: 'admin', limit: 100 });
+    if (result.error) {
+      console.error('Error loading admins:', result.error);
+      return;
+    }
+    setAdmins(result.profiles);
+  };
+
+  // The board keeps the default threshold if the setting can't be read
+  const loadSlaThreshold = async () => {
     try {
-      await SupabaseService.updateInquiry(inquiryId, { status: newStatus });
-      setInquiries(inquiries.map(inquiry => 
-        inquiry.id === inquiryId ? { ...inquiry, status: newStatus } : inquiry
-      ));
-      if (selectedInquiry?.id === inquiryId) {
-        setSelectedInquiry({ ...selectedInquiry, status: newStatus });
-      }
+      const hours = await SupabaseService.getInquirySlaHours();
+      setSlaThreshold(hours);
+      setSlaInput(String(hours));
+    } catch (error) {
+      console.error('Error loading SLA threshold:', error);
+    }
+  };
+
+  const applyLocalUpdate = (inquiryId: string, updates: Partial<Inquiry>) => {
+    setInquiries(prev => prev.map(inquiry =>
+      inquiry.id === inquiryId ? { ...inquiry, ...updates } : inquiry
+    ));
+    setSelectedInquiry(prev => prev?.id === inquiryId ? { ...prev, ...updates } : prev);
+  };
+
+  const handleStatusChange = async (inquiryId: string, newStatus: InquiryStatus) => {
+    const inquiry = inquiries.find(i => i.id === inquiryId);
+    if (!inquiry || inquiry.status === newStatus) return;
+
+    const previous = { status: inquiry.status, last_activity_at: inquiry.last_activity_at };
+    const updates = { status: newStatus, last_activity_at: new Date().toISOString() };
+
+    // Move the card right away so dragging feels immediate
+    applyLocalUpdate(inquiryId, updates);
+    try {
+      await SupabaseService.updateInquiry(inquiryId, updates);
     } catch (error) {
       console.error('Error updating inquiry:', error);
       alert('Error updating inquiry status');
+      applyLocalUpdate(inquiryId, previous);
     }
   };
 
   const handlePriorityChange = async (inquiryId: string, newPriority: number) => {
     try {
       await SupabaseService.updateInquiry(inquiryId, { priority: newPriority });
-      setInquiries(inquiries.map(inquiry => 
-        inquiry.id === inquiryId ? { ...inquiry, priority: newPriority } : inquiry
-      ));
-      if (selectedInquiry?.id === inquiryId) {
-        setSelectedInquiry({ ...selectedInquiry, priority: newPriority });
-      }
+      applyLocalUpdate(inquiryId, { priority: newPriority });
     } catch (error) {
       console.error('Error updating inquiry:', error);
       alert('Error updating inquiry priority');
     }
   };
 
-  const handleNotesUpdate = async (inquiryId: string, notes: string) => {
+  const handleAssigneeChange = async (inquiryId: string, assigneeId: string) => {
+    const updates = {
+      assigned_to: assigneeId || null,
+      last_activity_at: new Date().toISOString()
+    };
+
     try {
-      await SupabaseService.updateInquiry(inquiryId, { notes });
-      setInquiries(inquiries.map(inquiry => 
-        inquiry.id === inquiryId ? { ...inquiry, notes } : inquiry
-      ));
-      if (selectedInquiry?.id === inquiryId) {
-        setSelectedInquiry({ ...selectedInquiry, notes });
-      }
+      await SupabaseService.updateInquiry(inquiryId, updates);
+      applyLocalUpdate(inquiryId, updates);
     } catch (error) {
-      console.error('Error updating notes:', error);
-      alert('Error updating notes');
+      console.error('Error updating inquiry:', error);
+      alert('Error updating inquiry assignee');
+    }
+  };
+
+  const handleAddNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const body = newNote.trim();
+    if (!selectedInquiry || !body || !currentUser) return;
+
+    try {
+      setSavingNote(true);
+      const note = await SupabaseService.addInquiryNote(selectedInquiry.id, body, currentUser.id);
+      setNotes(prev => [...prev, note]);
+      setNewNote('');
+      applyLocalUpdate(selectedInquiry.id, { last_activity_at: note.created_at });
+    } catch (error) {
+      console.error('Error adding note:', error);
+      alert('Error adding note');
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  const handleConvertToProject = async (inquiry: Inquiry) => {
+    if (!confirm('Create a draft project from this inquiry? The inquiry will be marked as won.')) return;
+
+    try {
+      setConverting(true);
+      const { project, inquiry: updated } = await SupabaseService.convertInquiryToProject(
+        inquiry.id,
+        buildProjectFromInquiry(inquiry)
+      );
+      applyLocalUpdate(inquiry.id, {
+        project_id: project.id,
+        status: normalizeInquiryStatus(updated.status),
+        last_activity_at: updated.last_activity_at
+      });
+      setLinkedProject(project);
+    } catch (error) {
+      console.error('Error converting inquiry:', error);
+      alert('Error converting inquiry to project');
+    } finally {
+      setConverting(false);
     }
   };
 
   const handleDeleteInquiry = async (inquiryId: string) => {
-    if (!confirm('Are you sure you want to delete this inquiry?')) return;
+    if (!confirm('Move this inquiry to the trash? You can restore it from the Trash view.')) return;
 
     try {
       await SupabaseService.deleteInquiry(inquiryId);
@@ -105,23 +278,168 @@ const InquiriesManager: React.FC = () => {
     }
   };
 
+  const handleSlaThresholdSave = async () => {
+    const hours = Number(slaInput);
+    if (!Number.isFinite(hours) || hours <= 0 || hours === slaThreshold) {
+      setSlaInput(String(slaThreshold));
+      return;
+    }
+
+    try {
+      const saved = await SupabaseService.setInquirySlaHours(hours, currentUser?.id);
+      setSlaThreshold(saved);
+      setSlaInput(String(saved));
+    } catch (error) {
+      console.error('Error saving SLA threshold:', error);
+      alert('Error saving SLA threshold');
+      setSlaInput(String(slaThreshold));
+    }
+  };
+
+  const getAdminName = (userId?: string | null) => {
+    if (!userId) return null;
+    const admin = admins.find(a => a.id === userId);
+    return admin ? admin.full_name || admin.email : 'Unknown admin';
+  };
+
+  const getNoteAuthor = (note: InquiryNote) => {
+    // Notes without an author were carried over from the old free-text field
+    if (!note.author_id) return 'Earlier notes';
+    if (note.author_id === currentUser?.id) return 'You';
+    return getAdminName(note.author_id);
+  };
+
+  // Stored configs come from the visitor's form, so a malformed one gets a note instead of crashing the view
+  const renderQuoteDetails = (quote: unknown) => {
+    if (!isQuoteConfiguration(quote)) {
+      return (
+        <div className="detail-section">
+          <h3>Quote Estimate</h3>
+          <p className="quote-unreadable">The attached quote estimate is incomplete and can't be shown.</p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="detail-section">
+        <h3>Quote Estimate</h3>
+        <div className="detail-grid">
+          <div className="detail-item">
+            <label>Services:</label>
+            <span>{quote.services.map(s => s.title).join(', ')}</span>
+          </div>
+          {quote.platforms.length > 0 && (
+            <div className="detail-item">
+              <label>Platforms:</label>
+              <span>
+                {quote.platforms
+                  .map(p => QUOTE_PLATFORMS.find(o => o.value === p)?.label ?? p)
+                  .join(', ')}
+              </span>
+            </div>
+          )}
+          <div className="detail-item">
+            <label>Team / Timeline:</label>
+            <span>
+              {QUOTE_TEAM_SIZES.find(o => o.value === quote.teamSize)?.label ?? quote.teamSize}
+              {' / '}
+              {QUOTE_TIMELINES.find(o => o.value === quote.timeline)?.label ?? quote.timeline}
+            </span>
+          </div>
+          {quote.addOns.length > 0 && (
+            <div className="detail-item">
+              <label>Add-ons:</label>
+              <span>
+                {quote.addOns
+                  .map(a => QUOTE_ADD_ONS.find(o => o.value === a)?.label ?? a)
+                  .join(', ')}
+              </span>
+            </div>
+          )}
+          <div className="detail-item">
+            <label>Estimate:</label>
+            <span>
+              {[
+                formatQuoteRange(quote.estimate) ?? 'Custom quote',
+                formatQuoteDuration(quote.estimate)
+              ].filter(Boolean).join(' over ')}
+            </span>
+          </div>
+          {quote.estimate.unpricedServices.length > 0 && (
+            <div className="detail-item">
+              <label>Not Priced:</label>
+              <span>{quote.estimate.unpricedServices.join(', ')}</span>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderSlaBadge = (sla: SlaStatus) => {
+    if (sla.state === 'breached') {
+      return (
+        <span className="sla-badge breached" title={`No activity for over ${slaThreshold}h`}>
+          Untouched {formatElapsed(sla.hoursSinceActivity)}
+        </span>
+      );
+    }
+    if (sla.state === 'warning') {
+      return (
+        <span className="sla-badge warning" title={`SLA is ${slaThreshold}h`}>
+          Due in {formatElapsed(slaThreshold - sla.hoursSinceActivity)}
+        </span>
+      );
+    }
+    return null;
+  };
+
+  const slaById = Object.fromEntries(
+    inquiries.map(inquiry => [inquiry.id, getSlaStatus(inquiry, slaThreshold, now)])
+  );
+
   const filteredInquiries = inquiries.filter(inquiry => {
     const matchesSearch = inquiry.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          inquiry.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          inquiry.subject.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = filterStatus === 'all' || inquiry.status === filterStatus;
-    const matchesPriority = filterPriority === 'all' || inquiry.priority.toString() === filterPriority;
-    
-    return matchesSearch && matchesStatus && matchesPriority;
+    const matchesPriority = filterPriority === 'all' || (inquiry.priority ?? 0).toString() === filterPriority;
+    const matchesAssignee = filterAssignee === 'all' ||
+                           (filterAssignee === 'unassigned' && !inquiry.assigned_to) ||
+                           (filterAssignee === 'mine' && inquiry.assigned_to === currentUser?.id) ||
+                           inquiry.assigned_to === filterAssignee;
+    const sla = slaById[inquiry.id].state;
+    const matchesSla = filterSla === 'all' ||
+                      (filterSla === 'breached' && sla === 'breached') ||
+                      (filterSla === 'attention' && (sla === 'breached' || sla === 'warning'));
+
+    return matchesSearch && matchesPriority && matchesAssignee && matchesSla;
   });
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'new': return 'blue';
-      case 'in-progress': return 'yellow';
-      case 'responded': return 'green';
-      case 'closed': return 'gray';
-      default: return 'gray';
+  const selection = useBulkSelection(filteredInquiries.map(i => i.id));
+  const bulk = useBulkRunner();
+
+  const runBulkUpdate = async (action: string, updates: Partial<Pick<Inquiry, 'status' | 'assigned_to'>>) => {
+    const targets = inquiries.filter(i => selection.isSelected(i.id));
+    const applied = { ...updates, last_activity_at: new Date().toISOString() };
+    const result = await bulk.run(action, targets, i => `${i.name} – ${i.subject}`, i => SupabaseService.updateInquiry(i.id, applied));
+    result.succeeded.forEach(item => applyLocalUpdate(item.id, applied));
+    selection.deselect(result.succeeded.map(item => item.id));
+  };
+
+  const handleBulkAssign = (assigneeId: string) => {
+    const label = assigneeId ? `Assign to ${getAdminName(assigneeId)}` : 'Unassign';
+    runBulkUpdate(label, { assigned_to: assigneeId || null });
+  };
+
+  const handleBulkDelete = async () => {
+    if (!confirm(`Move ${selection.count} inquiries to the trash? You can restore them from the Trash view.`)) return;
+
+    const targets = inquiries.filter(i => selection.isSelected(i.id));
+    const result = await bulk.run('Move to trash', targets, i => `${i.name} – ${i.subject}`, i => SupabaseService.deleteInquiry(i.id));
+    const done = new Set(result.succeeded.map(item => item.id));
+    setInquiries(prev => prev.filter(i => !done.has(i.id)));
+    if (selectedInquiry && done.has(selectedInquiry.id)) {
+      setSelectedInquiry(null);
     }
   };
 
@@ -143,20 +461,51 @@ const InquiriesManager: React.FC = () => {
     );
   }
 
+  if (showTrash) {
+    return (
+      <TrashPanel
+        table="inquiries"
+        title="Inquiries"
+        onBack={() => {
+          setShowTrash(false);
+          loadInquiries();
+        }}
+      />
+    );
+  }
+
+  const openCount = inquiries.filter(i => !getInquiryStage(i.status).closed).length;
+  const breachedCount = inquiries.filter(i => slaById[i.id].state === 'breached').length;
+
   return (
     <div className="inquiries-manager">
       <div className="manager-header">
         <div className="header-left">
           <h1>Inquiries Management</h1>
-          <p>Manage customer inquiries and leads</p>
+          <p>Move leads through the pipeline and keep response times in check</p>
         </div>
         <div className="header-stats">
           <span className="stat">
             <strong>{inquiries.filter(i => i.status === 'new').length}</strong> New
           </span>
           <span className="stat">
-            <strong>{inquiries.filter(i => i.status === 'in-progress').length}</strong> In Progress
+            <strong>{openCount}</strong> Open
+          </span>
+          <span className={`stat ${breachedCount > 0 ? 'overdue' : ''}`}>
+            <strong>{breachedCount}</strong> Overdue
+          </span>
+          <span className="stat">
+            <strong>{inquiries.filter(i => i.status === 'won').length}</strong> Won
           </span>
+          <ImportExportControls
+            entity="inquiries"
+            rows={filteredInquiries}
+            existing={inquiries}
+            onImported={loadInquiries}
+          />
+          <button className="trash-toggle-btn" onClick={() => setShowTrash(true)}>
+            🗑️ Trash
+          </button>
         </div>
       </div>
 
@@ -174,15 +523,16 @@ const InquiriesManager: React.FC = () => {
 
         <div className="filter-group">
           <select
-            value={filterStatus}
-            onChange={(e) => setFilterStatus(e.target.value)}
+            value={filterAssignee}
+            onChange={(e) => setFilterAssignee(e.target.value)}
             className="filter-select"
           >
-            <option value="all">All Status</option>
-            <option value="new">New</option>
-            <option value="in-progress">In Progress</option>
-            <option value="responded">Responded</option>
-            <option value="closed">Closed</option>
+            <option value="all">All Assignees</option>
+            <option value="mine">Assigned to Me</option>
+            <option value="unassigned">Unassigned</option>
+            {admins.filter(a => a.id !== currentUser?.id).map(admin => (
+              <option key={admin.id} value={admin.id}>{admin.full_name || admin.email}</option>
+            ))}
           </select>
 
           <select
@@ -196,62 +546,193 @@ const InquiriesManager: React.FC = () => {
             <option value="1">Low Priority</option>
             <option value="0">Normal</option>
           </select>
+
+          <select
+            value={filterSla}
+            onChange={(e) => setFilterSla(e.target.value)}
+            className="filter-select"
+          >
+            <option value="all">Any SLA</option>
+            <option value="attention">Due Soon or Overdue</option>
+            <option value="breached">Overdue</option>
+          </select>
+
+          <label className="sla-setting" title="Open inquiries with no activity for this long are flagged as overdue">
+            SLA
+            <input
+              type="number"
+              min={INQUIRY_SLA_CONFIG.minThresholdHours}
+              max={INQUIRY_SLA_CONFIG.maxThresholdHours}
+              value={slaInput}
+              onChange={(e) => setSlaInput(e.target.value)}
+              onBlur={handleSlaThresholdSave}
+              onKeyDown={(e) => e.key === 'Enter' && handleSlaThresholdSave()}
+            />
+            h
+          </label>
+
+          <label className="bulk-select-all">
+            <input
+              type="checkbox"
+              className="bulk-checkbox"
+              checked={selection.allSelected}
+              onChange={() => selection.allSelected ? selection.clear() : selection.selectAllMatching()}
+              disabled={bulk.running || filteredInquiries.length === 0}
+            />
+            Select all
+          </label>
         </div>
       </div>
 
-      <div className="inquiries-layout">
-        <div className="inquiries-list">
-          {filteredInquiries.length === 0 ? (
+      <BulkActionBar
+        noun="inquiry"
+        nounPlural="inquiries"
+        selectedCount={selection.count}
+        matchingCount={selection.matchingCount}
+        onSelectAll={selection.selectAllMatching}
+        onClear={selection.clear}
+        progress={bulk.progress}
+        result={bulk.result}
+        onDismissResult={bulk.dismiss}
+      >
+        <select
+          value=""
+          onChange={(e) => {
+            const stage = INQUIRY_PIPELINE.find(option => option.status === e.target.value);
+            if (stage) runBulkUpdate(`Move to ${stage.label}`, { status: stage.status });
+          }}
+        >
+          <option value="">Set status…</option>
+          {INQUIRY_PIPELINE.map(stage => (
+            <option key={stage.status} value={stage.status}>{stage.label}</option>
+          ))}
+        </select>
+        <select
+          value=""
+          onChange={(e) => e.target.value && handleBulkAssign(e.target.value === 'unassigned' ? '' : e.target.value)}
+        >
+          <option value="">Assign to…</option>
+          <option value="unassigned">Unassigned</option>
+          {admins.map(admin => (
+            <option key={admin.id} value={admin.id}>
+              {admin.id === currentUser?.id ? 'Me' : admin.full_name || admin.email}
+            </option>
+          ))}
+        </select>
+        <button type="button" className="danger" onClick={handleBulkDelete}>Move to trash</button>
+      </BulkActionBar>
+
+      <div className={`inquiries-layout ${selectedInquiry ? 'with-details' : ''}`}>
+        {inquiries.length === 0 ? (
+          <div className="inquiries-list">
             <div className="empty-state">
               <div className="empty-icon">📬</div>
               <h3>No inquiries found</h3>
               <p>Customer inquiries will appear here</p>
             </div>
-          ) : (
-            <div className="inquiry-cards">
-              {filteredInquiries.map((inquiry) => (
-                <div 
-                  key={inquiry.id} 
-                  className={`inquiry-card ${selectedInquiry?.id === inquiry.id ? 'selected' : ''}`}
-                  onClick={() => setSelectedInquiry(inquiry)}
+          </div>
+        ) : (
+          <div className="pipeline-board">
+            {INQUIRY_PIPELINE.map(stage => {
+              const columnInquiries = filteredInquiries.filter(i => i.status === stage.status);
+
+              return (
+                <div
+                  key={stage.status}
+                  className={`pipeline-column ${dropStatus === stage.status ? 'drop-target' : ''}`}
+                  onDragOver={(e) => {
+                    if (!draggedId) return;
+                    e.preventDefault();
+                    e.dataTransfer.dropEffect = 'move';
+                    setDropStatus(stage.status);
+                  }}
+                  onDragLeave={(e) => {
+                    if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropStatus(null);
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    if (draggedId) handleStatusChange(draggedId, stage.status);
+                    setDraggedId(null);
+                    setDropStatus(null);
+                  }}
                 >
-                  <div className="inquiry-header">
-                    <div className="inquiry-info">
-                      <h4 className="inquiry-name">{inquiry.name}</h4>
-                      <p className="inquiry-email">{inquiry.email}</p>
-                    </div>
-                    <div className="inquiry-badges">
-                      <span className={`status-badge ${getStatusColor(inquiry.status)}`}>
-                        {inquiry.status.replace('-', ' ')}
-                      </span>
-                      {inquiry.priority > 0 && (
-                        <span className="priority-badge">
-                          {getPriorityLabel(inquiry.priority)}
-                        </span>
-                      )}
-                    </div>
+                  <div className="pipeline-column-header">
+                    <span className={`status-badge ${stage.color}`}>{stage.label}</span>
+                    <span className="pipeline-count">{columnInquiries.length}</span>
                   </div>
-                  
-                  <div className="inquiry-content">
-                    <h5 className="inquiry-subject">{inquiry.subject}</h5>
-                    <p className="inquiry-preview">
-                      {inquiry.message.substring(0, 120)}...
-                    </p>
-                  </div>
-                  
-                  <div className="inquiry-meta">
-                    <span className="inquiry-date">
-                      {new Date(inquiry.created_at).toLocaleDateString()}
-                    </span>
-                    {inquiry.company && (
-                      <span className="inquiry-company">{inquiry.company}</span>
+
+                  <div className="pipeline-cards">
+                    {columnInquiries.length === 0 && (
+                      <p className="pipeline-empty">No inquiries</p>
                     )}
+                    {columnInquiries.map(inquiry => {
+                      const assignee = getAdminName(inquiry.assigned_to);
+
+                      return (
+                        <div
+                          key={inquiry.id}
+                          className={`inquiry-card ${selectedInquiry?.id === inquiry.id ? 'selected' : ''} ${draggedId === inquiry.id ? 'dragging' : ''} ${selection.isSelected(inquiry.id) ? 'checked' : ''}`}
+                          draggable
+                          onDragStart={(e) => {
+                            e.dataTransfer.effectAllowed = 'move';
+                            setDraggedId(inquiry.id);
+                          }}
+                          onDragEnd={() => {
+                            setDraggedId(null);
+                            setDropStatus(null);
+                          }}
+                          onClick={() => setSelectedInquiry(inquiry)}
+                        >
+                          <div className="inquiry-header">
+                            <div className="inquiry-info">
+                              <h4 className="inquiry-name">{inquiry.name}</h4>
+                              <p className="inquiry-email">{inquiry.company || inquiry.email}</p>
+                            </div>
+                            <input
+                              type="checkbox"
+                              className="bulk-checkbox"
+                              checked={selection.isSelected(inquiry.id)}
+                              onClick={(e) => e.stopPropagation()}
+                              onChange={() => selection.toggle(inquiry.id)}
+                              disabled={bulk.running}
+                              aria-label={`Select inquiry from ${inquiry.name}`}
+                            />
+                          </div>
+
+                          <h5 className="inquiry-subject">{inquiry.subject}</h5>
+
+                          <div className="inquiry-badges">
+                            {renderSlaBadge(slaById[inquiry.id])}
+                            {!!inquiry.priority && (
+                              <span className="priority-badge">
+                                {getPriorityLabel(inquiry.priority)}
+                              </span>
+                            )}
+                            {inquiry.quote_config && (
+                              <span className="quote-badge">Quote</span>
+                            )}
+                            {inquiry.project_id && (
+                              <span className="project-badge">Project</span>
+                            )}
+                          </div>
+
+                          <div className="inquiry-meta">
+                            <span className="inquiry-date">
+                              {inquiry.created_at ? new Date(inquiry.created_at).toLocaleDateString() : '—'}
+                            </span>
+                            <span className={`inquiry-assignee ${assignee ? '' : 'unassigned'}`}>
+                              {assignee || 'Unassigned'}
+                            </span>
+                          </div>
+                        </div>
+                      );
+                    })}
                   </div>
                 </div>
-              ))}
-            </div>
-          )}
-        </div>
+              );
+            })}
+          </div>
+        )}
 
         {selectedInquiry && (
           <div className="inquiry-details">
@@ -260,17 +741,17 @@ const InquiriesManager: React.FC = () => {
               <div className="details-actions">
                 <select
                   value={selectedInquiry.status}
-                  onChange={(e) => handleStatusChange(selectedInquiry.id, e.target.value)}
+                  onChange={(e) => handleStatusChange(selectedInquiry.id, e.target.value as InquiryStatus)}
                   className="status-select"
+                  aria-label="Pipeline stage"
                 >
-                  <option value="new">New</option>
-                  <option value="in-progress">In Progress</option>
-                  <option value="responded">Responded</option>
-                  <option value="closed">Closed</option>
+                  {INQUIRY_PIPELINE.map(stage => (
+                    <option key={stage.status} value={stage.status}>{stage.label}</option>
+                  ))}
                 </select>
-                
+
                 <select
-                  value={selectedInquiry.priority}
+                  value={selectedInquiry.priority ?? 0}
                   onChange={(e) => handlePriorityChange(selectedInquiry.id, parseInt(e.target.value))}
                   className="priority-select"
                 >
@@ -279,7 +760,7 @@ const InquiriesManager: React.FC = () => {
                   <option value="2">Medium Priority</option>
                   <option value="3">High Priority</option>
                 </select>
-                
+
                 <button
                   className="delete-btn"
                   onClick={() => handleDeleteInquiry(selectedInquiry.id)}
@@ -287,10 +768,79 @@ const InquiriesManager: React.FC = () => {
                 >
                   🗑️
                 </button>
+                <button
+                  className="close-details-btn"
+                  onClick={() => setSelectedInquiry(null)}
+                  title="Close details"
+                >
+                  ✕
+                </button>
               </div>
             </div>
 
             <div className="details-content">
+              <div className="detail-section">
+                <h3>Assignment</h3>
+                <div className="detail-grid">
+                  <div className="detail-item">
+                    <label htmlFor="inquiry-assignee">Assigned To:</label>
+                    <select
+                      id="inquiry-assignee"
+                      value={selectedInquiry.assigned_to || ''}
+                      onChange={(e) => handleAssigneeChange(selectedInquiry.id, e.target.value)}
+                      className="assignee-select"
+                    >
+                      <option value="">Unassigned</option>
+                      {admins.map(admin => (
+                        <option key={admin.id} value={admin.id}>
+                          {admin.full_name || admin.email}
+                          {admin.id === currentUser?.id ? ' (me)' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="detail-item">
+                    <label>Last Activity:</label>
+                    <span>
+                      {formatElapsed(slaById[selectedInquiry.id].hoursSinceActivity)} ago
+                      {' '}
+                      {renderSlaBadge(slaById[selectedInquiry.id])}
+                    </span>
+                  </div>
+                </div>
+              </div>
+
+              <div className="detail-section">
+                <h3>Project</h3>
+                {selectedInquiry.project_id ? (
+                  <div className="linked-project">
+                    <span className="linked-project-icon" aria-hidden="true">🎮</span>
+                    <div className="linked-project-info">
+                      <strong>{linkedProject?.title || 'Loading project...'}</strong>
+                      {linkedProject && (
+                        <span>
+                          {linkedProject.published ? 'Published' : 'Draft'} · {linkedProject.status}
+                          {' · '}edit it under Projects
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <p className="convert-hint">
+                      Signed the deal? Start a draft project pre-filled from this inquiry.
+                    </p>
+                    <button
+                      className="convert-btn"
+                      onClick={() => handleConvertToProject(selectedInquiry)}
+                      disabled={converting}
+                    >
+                      {converting ? 'Converting...' : 'Convert to Project'}
+                    </button>
+                  </>
+                )}
+              </div>
+
               <div className="detail-section">
                 <h3>Contact Information</h3>
                 <div className="detail-grid">
@@ -323,6 +873,12 @@ const InquiriesManager: React.FC = () => {
                   <label>Subject:</label>
                   <span>{selectedInquiry.subject}</span>
                 </div>
+                {selectedInquiry.project_type && (
+                  <div className="detail-item">
+                    <label>Project Type:</label>
+                    <span>{PROJECT_TYPE_LABELS[selectedInquiry.project_type] ?? selectedInquiry.project_type}</span>
+                  </div>
+                )}
                 {selectedInquiry.project_budget && (
                   <div className="detail-item">
                     <label>Budget:</label>
@@ -337,6 +893,8 @@ const InquiriesManager: React.FC = () => {
                 )}
               </div>
 
+              {selectedInquiry.quote_config && renderQuoteDetails(selectedInquiry.quote_config)}
+
               <div className="detail-section">
                 <h3>Message</h3>
                 <div className="message-content">
@@ -346,16 +904,42 @@ const InquiriesManager: React.FC = () => {
 
               <div className="detail-section">
                 <h3>Internal Notes</h3>
-                <textarea
-                  value={selectedInquiry.notes || ''}
-                  onChange={(e) => {
-                    setSelectedInquiry({ ...selectedInquiry, notes: e.target.value });
-                  }}
-                  onBlur={(e) => handleNotesUpdate(selectedInquiry.id, e.target.value)}
-                  placeholder="Add internal notes about this inquiry..."
-                  className="notes-textarea"
-                  rows={4}
-                />
+                {notesLoading ? (
+                  <p className="notes-empty">Loading notes...</p>
+                ) : notes.length === 0 ? (
+                  <p className="notes-empty">No notes yet</p>
+                ) : (
+                  <ol className="notes-timeline">
+                    {notes.map(note => (
+                      <li key={note.id} className="note-entry">
+                        <div className="note-meta">
+                          <span className="note-author">{getNoteAuthor(note)}</span>
+                          <time dateTime={note.created_at}>
+                            {new Date(note.created_at).toLocaleString()}
+                          </time>
+                        </div>
+                        <p className="note-body">{note.body}</p>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+
+                <form className="note-form" onSubmit={handleAddNote}>
+                  <textarea
+                    value={newNote}
+                    onChange={(e) => setNewNote(e.target.value)}
+                    placeholder="Add an internal note about this inquiry..."
+                    className="notes-textarea"
+                    rows={3}
+                  />
+                  <button
+                    type="submit"
+                    className="add-note-btn"
+                    disabled={savingNote || !newNote.trim()}
+                  >
+                    {savingNote ? 'Adding...' : 'Add Note'}
+                  </button>
+                </form>
               </div>
 
               <div className="detail-section">
@@ -363,11 +947,11 @@ const InquiriesManager: React.FC = () => {
                 <div className="detail-grid">
                   <div className="detail-item">
                     <label>Received:</label>
-                    <span>{new Date(selectedInquiry.created_at).toLocaleString()}</span>
+                    <span>{selectedInquiry.created_at ? new Date(selectedInquiry.created_at).toLocaleString() : 'Unknown'}</span>
                   </div>
                   <div className="detail-item">
                     <label>Updated:</label>
-                    <span>{new Date(selectedInquiry.updated_at).toLocaleString()}</span>
+                    <span>{selectedInquiry.updated_at ? new Date(selectedInquiry.updated_at).toLocaleString() : 'Unknown'}</span>
                   </div>
                 </div>
               </div>
@@ -379,4 +963,4 @@ const InquiriesManager: React.FC = () => {
   );
 };
 
-export default InquiriesManager;
\ No newline at end of file
+export default InquiriesManager;
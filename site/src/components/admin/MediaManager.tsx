@@ -1,29 +1,38 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import SupabaseService from '../../services/SupabaseService';
+import MediaUploadService, { MEDIA_UPLOAD_CONFIG, UploadTask } from '../../services/MediaUploadService';
+import MediaUsageService, { MediaUsageIndex } from '../../services/MediaUsageService';
+import { MediaFile, MediaUploadError, MediaUploadItem, MediaUsage } from '../../types/media';
+import {
+  MEDIA_FILE_TYPES,
+  formatFileSize,
+  getMediaFileIcon,
+  getMediaFileType,
+  parseMediaTags
+} from '../../utils/mediaFiles';
+import TrashPanel from './TrashPanel';
+import BulkActionBar from './BulkActionBar';
+import { useBulkRunner, useBulkSelection } from '../../hooks/useBulkActions';
 import './MediaManager.css';
 
-interface MediaFile {
-  id: string;
-  filename: string;
-  original_filename: string;
-  file_path: string;
-  file_size: number;
-  mime_type: string;
-  width?: number;
-  height?: number;
-  alt_text?: string;
-  description?: string;
-  uploaded_by: string;
-  created_at: string;
-}
-
 const MediaManager: React.FC = () => {
   const [mediaFiles, setMediaFiles] = useState<MediaFile[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedFile, setSelectedFile] = useState<MediaFile | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterType, setFilterType] = useState('all');
+  const [filterTag, setFilterTag] = useState('all');
+  const [tagDraft, setTagDraft] = useState('');
+  const [usageFilter, setUsageFilter] = useState<'all' | 'used' | 'unused'>('all');
+  const [usageIndex, setUsageIndex] = useState<MediaUsageIndex | null>(null);
+  const [usageLoading, setUsageLoading] = useState(false);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const [uploads, setUploads] = useState<MediaUploadItem[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadTasksRef = useRef<Map<string, UploadTask>>(new Map());
+  const dragDepthRef = useRef(0);
 
   useEffect(() => {
     loadMediaFiles();
@@ -34,6 +43,7 @@ const MediaManager: React.FC = () => {
       setLoading(true);
       const data = await SupabaseService.getMediaFiles();
       setMediaFiles(data || []);
+      loadUsageIndex(data || []);
     } catch (error) {
       console.error('Error loading media files:', error);
     } finally {
@@ -41,12 +51,180 @@ const MediaManager: React.FC = () => {
     }
   };
 
+  const loadUsageIndex = async (files: MediaFile[]) => {
+    try {
+      setUsageLoading(true);
+      setUsageIndex(await MediaUsageService.buildIndex(files));
+    } catch (error) {
+      console.error('Error building media usage index:', error);
+      setUsageIndex(null);
+    } finally {
+      setUsageLoading(false);
+    }
+  };
+
+  const getUsages = (fileId: string): MediaUsage[] | undefined => usageIndex?.get(fileId);
+
+  // Tags are edited as comma-separated text in the details panel
+  const openFileDetails = (file: MediaFile) => {
+    setSelectedFile(file);
+    setTagDraft((file.tags || []).join(', '));
+  };
+
+  // Cancel anything still in flight when leaving the media view
+  useEffect(() => {
+    const tasks = uploadTasksRef.current;
+    return () => {
+      tasks.forEach(task => task.cancel());
+      tasks.clear();
+    };
+  }, []);
+
+  const updateUpload = useCallback((id: string, updates: Partial<MediaUploadItem>) => {
+    setUploads(prev => prev.map(item => item.id === id ? { ...item, ...updates } : item));
+  }, []);
+
+  const startUpload = useCallback((item: MediaUploadItem) => {
+    updateUpload(item.id, { status: 'uploading', progress: 0, error: undefined });
+
+    const task = MediaUploadService.upload(item.file, (progress, phase) => {
+      updateUpload(item.id, { progress, status: phase });
+    });
+    uploadTasksRef.current.set(item.id, task);
+
+    task.promise
+      .then((mediaFile) => {
+        updateUpload(item.id, { status: 'done', progress: 100, result: mediaFile });
+        setMediaFiles(prev => [mediaFile, ...prev]);
+        setUsageIndex(prev => prev && new Map(prev).set(mediaFile.id, []));
+      })
+      .catch((error) => {
+        const cancelled = error instanceof MediaUploadError && error.code === 'CANCELLED';
+        if (!cancelled) {
+          console.error('Error uploading file:', item.file.name, error);
+        }
+        updateUpload(item.id, {
+          status: cancelled ? 'cancelled' : 'error',
+          error: cancelled ? undefined : (error instanceof Error ? error.message : 'Upload failed')
+        });
+      })
+      .finally(() => {
+        uploadTasksRef.current.delete(item.id);
+      });
+  }, [updateUpload]);
+
+  const handleFilesSelected = useCallback((files: FileList | File[]) => {
+    const newItems: MediaUploadItem[] = Array.from(files).map(file => {
+      const validationError = MediaUploadService.validateFile(file);
+      return {
+        id: crypto.randomUUID(),
+        file,
+        status: validationError ? 'error' : 'queued',
+        progress: 0,
+        error: validationError || undefined
+      };
+    });
+
+    if (newItems.length === 0) return;
+
+    setUploads(prev => [...newItems, ...prev]);
+    newItems
+      .filter(item => item.status === 'queued')
+      .forEach(startUpload);
+  }, [startUpload]);
+
+  const handleCancelUpload = (id: string) => {
+    uploadTasksRef.current.get(id)?.cancel();
+  };
+
+  const handleRetryUpload = (item: MediaUploadItem) => {
+    startUpload(item);
+  };
+
+  const handleClearFinished = () => {
+    setUploads(prev => prev.filter(item => item.status === 'uploading' || item.status === 'optimizing' || item.status === 'saving' || item.status === 'queued'));
+  };
+
+  const openFilePicker = () => {
+    fileInputRef.current?.click();
+  };
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      handleFilesSelected(e.target.files);
+    }
+    // Allow picking the same file again after a failure
+    e.target.value = '';
+  };
+
+  const isFileDrag = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    dragDepthRef.current += 1;
+    setIsDragging(true);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDragging(false);
+    handleFilesSelected(e.dataTransfer.files);
+  };
+
+  // Trashed files stay in storage, so usage only matters when a file is purged
+  const confirmPurge = async (file: MediaFile): Promise<boolean> => {
+    // Re-check right before deleting; content may have changed since the index was built
+    let usages: MediaUsage[];
+    try {
+      usages = (await MediaUsageService.buildIndex([file])).get(file.id) || [];
+      setUsageIndex(prev => new Map(prev || []).set(file.id, usages));
+    } catch (error) {
+      console.error('Error checking media usage:', error);
+      return confirm(
+        `Could not check whether "${file.original_filename}" is still in use.\n\n` +
+        'Deleting it may break images on the live site. Delete anyway?'
+      );
+    }
+
+    if (usages.length === 0) {
+      return confirm(`Permanently delete "${file.original_filename}"? This cannot be undone.`);
+    }
+
+    const places = usages
+      .map(usage => `• ${usage.title} (${usage.source}, ${usage.field}${usage.trashed ? ', in trash' : ''})`)
+      .join('\n');
+    const answer = prompt(
+      `"${file.original_filename}" is used in ${usages.length} ${usages.length === 1 ? 'place' : 'places'}:\n\n` +
+      `${places}\n\n` +
+      'Deleting it will break these images on the live site. Type DELETE to delete it anyway.'
+    );
+    return answer === 'DELETE';
+  };
+
   const handleDeleteFile = async (fileId: string) => {
-    if (!confirm('Are you sure you want to delete this file?')) return;
+    const file = mediaFiles.find(f => f.id === fileId);
+    if (!file || !confirm('Move this file to the trash? It stays available on the site until the trash is purged.')) return;
 
     try {
       await SupabaseService.deleteMediaFile(fileId);
-      setMediaFiles(mediaFiles.filter(f => f.id !== fileId));
+      setMediaFiles(prev => prev.filter(f => f.id !== fileId));
       if (selectedFile?.id === fileId) {
         setSelectedFile(null);
       }
@@ -71,41 +249,69 @@ const MediaManager: React.FC = () => {
     }
   };
 
-  const getFileType = (mimeType: string) => {
-    if (mimeType.startsWith('image/')) return 'image';
-    if (mimeType.startsWith('video/')) return 'video';
-    if (mimeType.startsWith('audio/')) return 'audio';
-    if (mimeType.includes('pdf')) return 'pdf';
-    return 'document';
+  const filteredFiles = mediaFiles.filter(file => {
+    const matchesSearch = file.original_filename.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         (file.alt_text || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         (file.tags || []).some(tag => tag.includes(searchTerm.toLowerCase()));
+    const matchesType = filterType === 'all' || getMediaFileType(file.mime_type) === filterType;
+    const matchesTag = filterTag === 'all' || (file.tags || []).includes(filterTag);
+    const usageCount = getUsages(file.id)?.length;
+    const matchesUsage = usageFilter === 'all' || usageCount === undefined ||
+      (usageFilter === 'used' ? usageCount > 0 : usageCount === 0);
+    
+    return matchesSearch && matchesType && matchesTag && matchesUsage;
+  });
+
+  const allTags = [...new Set(mediaFiles.flatMap(file => file.tags || []))].sort();
+
+  const selection = useBulkSelection(filteredFiles.map(f => f.id));
+  const bulk = useBulkRunner();
+  const selectedTags = [...new Set(
+    mediaFiles.filter(f => selection.isSelected(f.id)).flatMap(file => file.tags || [])
+  )].sort();
+
+  const runBulkTagUpdate = async (action: string, getTags: (file: MediaFile) => string[]) => {
+    const targets = mediaFiles.filter(f => selection.isSelected(f.id));
+    const applied = new Map(targets.map(f => [f.id, getTags(f)]));
+    const result = await bulk.run(action, targets, f => f.original_filename, f =>
+      SupabaseService.updateMediaFile(f.id, { tags: applied.get(f.id) })
+    );
+    const done = new Set(result.succeeded.map(item => item.id));
+    setMediaFiles(prev => prev.map(f => done.has(f.id) ? { ...f, tags: applied.get(f.id)! } : f));
+    if (selectedFile && done.has(selectedFile.id)) {
+      const tags = applied.get(selectedFile.id) || [];
+      setSelectedFile({ ...selectedFile, tags });
+      setTagDraft(tags.join(', '));
+    }
+    selection.deselect([...done]);
   };
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  const handleBulkAddTag = () => {
+    const input = prompt(`Add tags to ${selection.count} files (comma-separated):`);
+    const tags = input ? parseMediaTags(input) : [];
+    if (tags.length === 0) return;
+    runBulkTagUpdate(`Tag "${tags.join(', ')}"`, file => [...new Set([...(file.tags || []), ...tags])]);
   };
 
-  const getFileIcon = (type: string) => {
-    switch (type) {
-      case 'image': return '🖼️';
-      case 'video': return '🎥';
-      case 'audio': return '🎵';
-      case 'pdf': return '📄';
-      default: return '📎';
-    }
+  const handleBulkRemoveTag = (tag: string) => {
+    runBulkTagUpdate(`Remove tag "${tag}"`, file => (file.tags || []).filter(t => t !== tag));
   };
 
-  const filteredFiles = mediaFiles.filter(file => {
-    const matchesSearch = file.original_filename.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         (file.alt_text || '').toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesType = filterType === 'all' || getFileType(file.mime_type) === filterType;
-    
-    return matchesSearch && matchesType;
-  });
+  const handleBulkDelete = async () => {
+    if (!confirm(`Move ${selection.count} files to the trash? They stay available on the site until the trash is purged.`)) return;
+
+    const targets = mediaFiles.filter(f => selection.isSelected(f.id));
+    const result = await bulk.run('Move to trash', targets, f => f.original_filename, f => SupabaseService.deleteMediaFile(f.id));
+    const done = new Set(result.succeeded.map(item => item.id));
+    setMediaFiles(prev => prev.filter(f => !done.has(f.id)));
+    if (selectedFile && done.has(selectedFile.id)) {
+      setSelectedFile(null);
+    }
+  };
 
-  const fileTypes = ['all', 'image', 'video', 'audio', 'pdf', 'document'];
+  const unusedCount = usageIndex
+    ? mediaFiles.filter(file => (usageIndex.get(file.id) || []).length === 0).length
+    : null;
 
   if (loading) {
     return (
@@ -116,8 +322,58 @@ const MediaManager: React.FC = () => {
     );
   }
 
+  if (showTrash) {
+    return (
+      <TrashPanel
+        table="media_files"
+        title="Media"
+        onBack={() => {
+          setShowTrash(false);
+          loadMediaFiles();
+        }}
+        confirmPurge={(item) => confirmPurge(item.record as MediaFile)}
+      />
+    );
+  }
+
+  const getUploadStatusText = (item: MediaUploadItem) => {
+    switch (item.status) {
+      case 'queued': return 'Waiting...';
+      case 'uploading': return `${item.progress}%`;
+      case 'optimizing': return 'Generating sizes...';
+      case 'saving': return 'Saving...';
+      case 'done': return 'Uploaded';
+      case 'cancelled': return 'Cancelled';
+      case 'error': return item.error || 'Upload failed';
+    }
+  };
+
   return (
-    <div className="media-manager">
+    <div
+      className={`media-manager ${isDragging ? 'dragging' : ''}`}
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        accept={MEDIA_UPLOAD_CONFIG.allowedMimeTypes.join(',')}
+        onChange={handleFileInputChange}
+        className="file-input-hidden"
+      />
+
+      {isDragging && (
+        <div className="drop-overlay">
+          <div className="drop-overlay-content">
+            <span className="drop-icon">⬆️</span>
+            <p>Drop files to upload</p>
+          </div>
+        </div>
+      )}
+
       <div className="manager-header">
         <div className="header-left">
           <h1>Media Library</h1>
@@ -140,7 +396,10 @@ const MediaManager: React.FC = () => {
               ☰
             </button>
           </div>
-          <button className="upload-btn">
+          <button className="trash-toggle-btn" onClick={() => setShowTrash(true)}>
+            🗑️ Trash
+          </button>
+          <button className="upload-btn" onClick={openFilePicker}>
             <span className="btn-icon">⬆️</span>
             Upload Files
           </button>
@@ -165,22 +424,127 @@ const MediaManager: React.FC = () => {
             onChange={(e) => setFilterType(e.target.value)}
             className="filter-select"
           >
-            {fileTypes.map(type => (
+            {MEDIA_FILE_TYPES.map(type => (
               <option key={type} value={type}>
                 {type.charAt(0).toUpperCase() + type.slice(1)} Files
               </option>
             ))}
           </select>
+          <select
+            value={usageFilter}
+            onChange={(e) => setUsageFilter(e.target.value as 'all' | 'used' | 'unused')}
+            className="filter-select"
+            disabled={!usageIndex}
+            title={usageIndex ? 'Filter by usage' : 'Usage information is not available'}
+          >
+            <option value="all">Any Usage</option>
+            <option value="used">In Use</option>
+            <option value="unused">Unused</option>
+          </select>
+          {allTags.length > 0 && (
+            <select
+              value={filterTag}
+              onChange={(e) => setFilterTag(e.target.value)}
+              className="filter-select"
+            >
+              <option value="all">Any Tag</option>
+              {allTags.map(tag => (
+                <option key={tag} value={tag}>{tag}</option>
+              ))}
+            </select>
+          )}
+          <label className="bulk-select-all">
+            <input
+              type="checkbox"
+              className="bulk-checkbox"
+              checked={selection.allSelected}
+              onChange={() => selection.allSelected ? selection.clear() : selection.selectAllMatching()}
+              disabled={bulk.running || filteredFiles.length === 0}
+            />
+            Select all
+          </label>
         </div>
       </div>
 
+      <BulkActionBar
+        noun="file"
+        nounPlural="files"
+        selectedCount={selection.count}
+        matchingCount={selection.matchingCount}
+        onSelectAll={selection.selectAllMatching}
+        onClear={selection.clear}
+        progress={bulk.progress}
+        result={bulk.result}
+        onDismissResult={bulk.dismiss}
+      >
+        <button type="button" onClick={handleBulkAddTag}>Add tags…</button>
+        {selectedTags.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => e.target.value && handleBulkRemoveTag(e.target.value)}
+          >
+            <option value="">Remove tag…</option>
+            {selectedTags.map(tag => (
+              <option key={tag} value={tag}>{tag}</option>
+            ))}
+          </select>
+        )}
+        <button type="button" className="danger" onClick={handleBulkDelete}>Move to trash</button>
+      </BulkActionBar>
+
+      {uploads.length > 0 && (
+        <div className="upload-queue">
+          <div className="upload-queue-header">
+            <h3>Uploads</h3>
+            <button className="clear-btn" onClick={handleClearFinished}>
+              Clear finished
+            </button>
+          </div>
+          <ul className="upload-list">
+            {uploads.map(item => (
+              <li key={item.id} className={`upload-item ${item.status}`}>
+                <div className="upload-item-info">
+                  <span className="upload-item-name" title={item.file.name}>{item.file.name}</span>
+                  <span className="upload-item-size">{formatFileSize(item.file.size)}</span>
+                </div>
+                <div
+                  className="upload-progress"
+                  role="progressbar"
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={item.progress}
+                  aria-label={`Upload progress for ${item.file.name}`}
+                >
+                  <div className="upload-progress-fill" style={{ width: `${item.progress}%` }} />
+                </div>
+                <div className="upload-item-footer">
+                  <span className="upload-item-status">{getUploadStatusText(item)}</span>
+                  <div className="upload-item-actions">
+                    {(item.status === 'uploading' || item.status === 'optimizing' || item.status === 'queued') && (
+                      <button className="action-btn cancel" onClick={() => handleCancelUpload(item.id)} title="Cancel upload">
+                        ✕
+                      </button>
+                    )}
+                    {(item.status === 'cancelled' || (item.status === 'error' && !MediaUploadService.validateFile(item.file))) && (
+                      <button className="action-btn retry" onClick={() => handleRetryUpload(item)} title="Retry upload">
+                        ↻
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="media-stats">
         <div className="stat-item">
           <span className="stat-value">{mediaFiles.length}</span>
           <span className="stat-label">Total Files</span>
         </div>
         <div className="stat-item">
-          <span className="stat-value">{mediaFiles.filter(f => getFileType(f.mime_type) === 'image').length}</span>
+          <span className="stat-value">{mediaFiles.filter(f => getMediaFileType(f.mime_type) === 'image').length}</span>
           <span className="stat-label">Images</span>
         </div>
         <div className="stat-item">
@@ -189,6 +553,10 @@ const MediaManager: React.FC = () => {
           </span>
           <span className="stat-label">Total Size</span>
         </div>
+        <div className="stat-item">
+          <span className="stat-value">{usageLoading ? '…' : unusedCount ?? '—'}</span>
+          <span className="stat-label">Unused</span>
+        </div>
       </div>
 
       <div className="media-layout">
@@ -197,21 +565,31 @@ const MediaManager: React.FC = () => {
             <div className="empty-state">
               <div className="empty-icon">📁</div>
               <h3>No files found</h3>
-              <p>Upload files to get started</p>
-              <button className="upload-btn">
+              <p>Upload files or drag them here to get started</p>
+              <button className="upload-btn" onClick={openFilePicker}>
                 Upload Files
               </button>
             </div>
           ) : (
             <div className={`file-${viewMode}`}>
               {filteredFiles.map((file) => {
-                const fileType = getFileType(file.mime_type);
+                const fileType = getMediaFileType(file.mime_type);
+                const usages = getUsages(file.id);
                 return (
                   <div 
                     key={file.id} 
-                    className={`file-item ${selectedFile?.id === file.id ? 'selected' : ''}`}
-                    onClick={() => setSelectedFile(file)}
+                    className={`file-item ${selectedFile?.id === file.id ? 'selected' : ''} ${selection.isSelected(file.id) ? 'checked' : ''}`}
+                    onClick={() => openFileDetails(file)}
                   >
+                    <input
+                      type="checkbox"
+                      className="bulk-checkbox file-select"
+                      checked={selection.isSelected(file.id)}
+                      onClick={(e) => e.stopPropagation()}
+                      onChange={() => selection.toggle(file.id)}
+                      disabled={bulk.running}
+                      aria-label={`Select ${file.original_filename}`}
+                    />
                     <div className="file-preview">
                       {fileType === 'image' ? (
                         <img 
@@ -221,7 +599,7 @@ const MediaManager: React.FC = () => {
                         />
                       ) : (
                         <div className="file-icon">
-                          {getFileIcon(fileType)}
+                          {getMediaFileIcon(fileType)}
                         </div>
                       )}
                     </div>
@@ -238,6 +616,18 @@ const MediaManager: React.FC = () => {
                           {file.width} × {file.height}
                         </p>
                       )}
+                      {file.tags && file.tags.length > 0 && (
+                        <p className="file-tags" title={file.tags.join(', ')}>
+                          {file.tags.map(tag => `#${tag}`).join(' ')}
+                        </p>
+                      )}
+                      {usageIndex && (
+                        <p className={`file-usage ${usages && usages.length > 0 ? 'used' : 'unused'}`}>
+                          {usages && usages.length > 0
+                            ? `Used in ${usages.length} ${usages.length === 1 ? 'place' : 'places'}`
+                            : 'Unused'}
+                        </p>
+                      )}
                     </div>
 
                     <div className="file-actions">
@@ -284,14 +674,14 @@ const MediaManager: React.FC = () => {
 
             <div className="details-content">
               <div className="file-preview-large">
-                {getFileType(selectedFile.mime_type) === 'image' ? (
+                {getMediaFileType(selectedFile.mime_type) === 'image' ? (
                   <img 
                     src={selectedFile.file_path} 
                     alt={selectedFile.alt_text || selectedFile.original_filename}
                   />
                 ) : (
                   <div className="file-icon-large">
-                    {getFileIcon(getFileType(selectedFile.mime_type))}
+                    {getMediaFileIcon(getMediaFileType(selectedFile.mime_type))}
                   </div>
                 )}
               </div>
@@ -321,9 +711,33 @@ const MediaManager: React.FC = () => {
                 
                 <div className="metadata-item">
                   <label>Uploaded:</label>
-                  <span>{new Date(selectedFile.created_at).toLocaleString()}</span>
+                  <span>{selectedFile.created_at ? new Date(selectedFile.created_at).toLocaleString() : 'Unknown'}</span>
                 </div>
                 
+                <div className="metadata-item">
+                  <label>Used In:</label>
+                  {usageLoading ? (
+                    <span>Checking...</span>
+                  ) : !usageIndex ? (
+                    <span>Unknown</span>
+                  ) : (getUsages(selectedFile.id) || []).length === 0 ? (
+                    <span>Not used anywhere</span>
+                  ) : (
+                    <ul className="usage-list">
+                      {(getUsages(selectedFile.id) || []).map(usage => (
+                        <li key={`${usage.source}-${usage.id}-${usage.field}`}>
+                          {usage.href ? (
+                            <a href={usage.href} target="_blank" rel="noopener noreferrer">{usage.title}</a>
+                          ) : (
+                            <span>{usage.title}</span>
+                          )}
+                          <small>{usage.source} · {usage.field}{usage.trashed && ' · in trash'}</small>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
                 <div className="metadata-item">
                   <label>URL:</label>
                   <div className="url-copy">
@@ -359,6 +773,24 @@ const MediaManager: React.FC = () => {
                   />
                 </div>
 
+                <div className="form-group">
+                  <label htmlFor="media_tags">Tags:</label>
+                  <input
+                    type="text"
+                    id="media_tags"
+                    value={tagDraft}
+                    onChange={(e) => setTagDraft(e.target.value)}
+                    onBlur={() => {
+                      const tags = parseMediaTags(tagDraft);
+                      setTagDraft(tags.join(', '));
+                      if (tags.join(',') !== (selectedFile.tags || []).join(',')) {
+                        handleUpdateFile(selectedFile.id, { tags });
+                      }
+                    }}
+                    placeholder="e.g. hero, screenshots, client-x"
+                  />
+                </div>
+
                 <div className="form-group">
                   <label htmlFor="description">Description:</label>
                   <textarea
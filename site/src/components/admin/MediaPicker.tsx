@@ -0,0 +1,307 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { createPortal } from 'react-dom';
+import SupabaseService from '../../services/SupabaseService';
+import MediaUploadService, { MEDIA_UPLOAD_CONFIG, UploadTask } from '../../services/MediaUploadService';
+import { MediaFile, MediaUploadError, MediaUploadItem } from '../../types/media';
+import { MEDIA_FILE_TYPES, MediaFileType, formatFileSize, getMediaFileIcon, getMediaFileType } from '../../utils/mediaFiles';
+import './MediaPicker.css';
+
+interface MediaPickerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelect: (files: MediaFile[]) => void;
+  multiple?: boolean;
+  initialType?: 'all' | MediaFileType;
+  title?: string;
+}
+
+const MediaPicker: React.FC<MediaPickerProps> = ({
+  isOpen,
+  onClose,
+  onSelect,
+  multiple = false,
+  initialType = 'image',
+  title = 'Select Media'
+}) => {
+  const [mediaFiles, setMediaFiles] = useState<MediaFile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filterType, setFilterType] = useState<'all' | MediaFileType>(initialType);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [uploads, setUploads] = useState<MediaUploadItem[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadTasksRef = useRef<Map<string, UploadTask>>(new Map());
+
+  const loadMediaFiles = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await SupabaseService.getMediaFiles();
+      setMediaFiles(data || []);
+    } catch (error) {
+      console.error('Error loading media files:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Start from a clean slate every time the picker is opened
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelectedIds([]);
+    setSearchTerm('');
+    setFilterType(initialType);
+    setUploads([]);
+    loadMediaFiles();
+  }, [isOpen, initialType, loadMediaFiles]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  // Cancel in-flight uploads if the picker is closed or unmounted
+  useEffect(() => {
+    if (!isOpen) return;
+    const tasks = uploadTasksRef.current;
+    return () => {
+      tasks.forEach(task => task.cancel());
+      tasks.clear();
+    };
+  }, [isOpen]);
+
+  const toggleSelected = (fileId: string) => {
+    setSelectedIds(prev => {
+      if (prev.includes(fileId)) return prev.filter(id => id !== fileId);
+      return multiple ? [...prev, fileId] : [fileId];
+    });
+  };
+
+  const updateUpload = (id: string, updates: Partial<MediaUploadItem>) => {
+    setUploads(prev => prev.map(item => item.id === id ? { ...item, ...updates } : item));
+  };
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+
+    const items: MediaUploadItem[] = files.map(file => {
+      const validationError = MediaUploadService.validateFile(file);
+      return {
+        id: crypto.randomUUID(),
+        file,
+        status: validationError ? 'error' : 'queued',
+        progress: 0,
+        error: validationError || undefined
+      };
+    });
+    setUploads(prev => [...items, ...prev]);
+
+    items
+      .filter(item => item.status === 'queued')
+      .forEach(item => {
+        const task = MediaUploadService.upload(item.file, (progress, phase) => {
+          updateUpload(item.id, { progress, status: phase });
+        });
+        uploadTasksRef.current.set(item.id, task);
+
+        task.promise
+          .then(mediaFile => {
+            updateUpload(item.id, { status: 'done', progress: 100, result: mediaFile });
+            setMediaFiles(prev => [mediaFile, ...prev]);
+            // Freshly uploaded files are almost always the ones being picked
+            setSelectedIds(prev => multiple ? [...prev, mediaFile.id] : [mediaFile.id]);
+          })
+          .catch(error => {
+            const cancelled = error instanceof MediaUploadError && error.code === 'CANCELLED';
+            if (!cancelled) {
+              console.error('Error uploading file:', item.file.name, error);
+            }
+            updateUpload(item.id, {
+              status: cancelled ? 'cancelled' : 'error',
+              error: error instanceof Error ? error.message : 'Upload failed'
+            });
+          })
+          .finally(() => {
+            uploadTasksRef.current.delete(item.id);
+          });
+      });
+  };
+
+  const handleConfirm = () => {
+    // Preserve the order in which files were clicked
+    const selected = selectedIds
+      .map(id => mediaFiles.find(file => file.id === id))
+      .filter((file): file is MediaFile => Boolean(file));
+    onSelect(selected);
+    onClose();
+  };
+
+  const filteredFiles = mediaFiles.filter(file => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = file.original_filename.toLowerCase().includes(term) ||
+                         (file.alt_text || '').toLowerCase().includes(term);
+    const matchesType = filterType === 'all' || getMediaFileType(file.mime_type) === filterType;
+
+    return matchesSearch && matchesType;
+  });
+
+  const activeUploads = uploads.filter(item => item.status !== 'done');
+
+  if (!isOpen) return null;
+
+  // Portalled so the picker's inputs aren't nested inside the host <form>
+  return createPortal(
+    <div className="media-picker-backdrop" onClick={onClose}>
+      <div
+        className="media-picker"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="media-picker-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="media-picker-header">
+          <h2 id="media-picker-title">{title}</h2>
+          <button type="button" className="close-btn" onClick={onClose} aria-label="Close media picker">
+            ×
+          </button>
+        </div>
+
+        <div className="media-picker-toolbar">
+          <input
+            type="text"
+            placeholder="Search files..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="search-input"
+            autoFocus
+          />
+          <select
+            value={filterType}
+            onChange={(e) => setFilterType(e.target.value as 'all' | MediaFileType)}
+            className="filter-select"
+          >
+            {MEDIA_FILE_TYPES.map(type => (
+              <option key={type} value={type}>
+                {type.charAt(0).toUpperCase() + type.slice(1)} Files
+              </option>
+            ))}
+          </select>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple={multiple}
+            accept={MEDIA_UPLOAD_CONFIG.allowedMimeTypes.join(',')}
+            onChange={handleFileInputChange}
+            className="file-input-hidden"
+          />
+          <button type="button" className="upload-btn" onClick={() => fileInputRef.current?.click()}>
+            ⬆️ Upload
+          </button>
+        </div>
+
+        {activeUploads.length > 0 && (
+          <ul className="media-picker-uploads">
+            {activeUploads.map(item => (
+              <li key={item.id} className={`upload-item ${item.status}`}>
+                <span className="upload-item-name">{item.file.name}</span>
+                <span className="upload-item-status">
+                  {item.status === 'uploading' ? `${item.progress}%` : item.error || item.status}
+                </span>
+                {(item.status === 'uploading' || item.status === 'optimizing') && (
+                  <button
+                    type="button"
+                    className="action-btn cancel"
+                    onClick={() => uploadTasksRef.current.get(item.id)?.cancel()}
+                  >
+                    Cancel
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="media-picker-body">
+          {loading ? (
+            <div className="media-picker-loading">
+              <div className="loading-spinner"></div>
+              <p>Loading media files...</p>
+            </div>
+          ) : filteredFiles.length === 0 ? (
+            <div className="empty-state">
+              <p>{mediaFiles.length === 0 ? 'No media files yet. Upload one to get started.' : 'No files match your search.'}</p>
+            </div>
+          ) : (
+            <div className="media-picker-grid">
+              {filteredFiles.map(file => {
+                const fileType = getMediaFileType(file.mime_type);
+                const selectionIndex = selectedIds.indexOf(file.id);
+                const isSelected = selectionIndex !== -1;
+
+                return (
+                  <button
+                    type="button"
+                    key={file.id}
+                    className={`media-picker-item ${isSelected ? 'selected' : ''}`}
+                    onClick={() => toggleSelected(file.id)}
+                    onDoubleClick={() => {
+                      if (!multiple) {
+                        onSelect([file]);
+                        onClose();
+                      }
+                    }}
+                    aria-pressed={isSelected}
+                    title={file.original_filename}
+                  >
+                    <div className="media-picker-preview">
+                      {fileType === 'image' ? (
+                        <img src={file.file_path} alt={file.alt_text || file.original_filename} loading="lazy" />
+                      ) : (
+                        <span className="file-icon">{getMediaFileIcon(fileType)}</span>
+                      )}
+                      {isSelected && (
+                        <span className="selection-badge">{multiple ? selectionIndex + 1 : '✓'}</span>
+                      )}
+                    </div>
+                    <span className="media-picker-name">{file.original_filename}</span>
+                    <span className="media-picker-meta">
+                      {formatFileSize(file.file_size || 0)}
+                      {!file.alt_text && fileType === 'image' && ' • no alt text'}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="media-picker-footer">
+          <span className="selection-count">
+            {selectedIds.length} selected
+          </span>
+          <div className="footer-actions">
+            <button type="button" className="cancel-btn" onClick={onClose}>
+              Cancel
+            </button>
+            <button
+              type="button"
+              className="submit-btn"
+              onClick={handleConfirm}
+              disabled={selectedIds.length === 0}
+            >
+              {multiple ? 'Add Selected' : 'Use File'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default MediaPicker;
@@ -1,13 +1,25 @@
 import React, { useState, useEffect } from 'react';
+import MediaPicker from './MediaPicker';
+import ClientFilesPanel from './ClientFilesPanel';
+import ProjectProgressPanel from './ProjectProgressPanel';
+import RevisionHistory from './RevisionHistory';
+import SupabaseService from '../../services/SupabaseService';
+import UserProfileService from '../../services/UserProfileService';
+import { MediaFile } from '../../types/media';
+import { PROJECT_CATEGORIES, PROJECT_STATUSES, formatProjectStatus } from '../../utils/contentOptions';
+import type { UserProfile } from '../../types/profile';
+import type { Tables, TablesInsert } from '../../types/database';
 import './ProjectForm.css';
 
 interface ProjectFormProps {
-  project?: any;
-  onSubmit: (projectData: any) => Promise<void>;
+  project?: Tables<'projects'> | null;
+  onSubmit: (projectData: TablesInsert<'projects'>) => Promise<void>;
   onCancel: () => void;
+  // Called with the updated row after an older revision is restored
+  onRevisionRestored?: (project: Tables<'projects'>) => void;
 }
 
-const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSubmit, onCancel }) => {
+const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSubmit, onCancel, onRevisionRestored }) => {
   const [formData, setFormData] = useState({
     title: '',
     slug: '',
@@ -15,10 +27,12 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSubmit, onCancel }
     detailed_description: '',
     image_url: '',
     image_alt: '',
+    screenshots: [] as string[],
     technologies: [] as string[],
     category: '',
     status: 'in-development',
     client_name: '',
+    client_id: '',
     year: new Date().getFullYear(),
     featured: false,
     published: false,
@@ -31,6 +45,10 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSubmit, onCancel }
   const [techInput, setTechInput] = useState('');
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [pickerTarget, setPickerTarget] = useState<'image' | 'screenshots' | null>(null);
+  const [draggedScreenshot, setDraggedScreenshot] = useState<number | null>(null);
+  const [sourceInquiry, setSourceInquiry] = useState<Tables<'inquiries'> | null>(null);
+  const [clients, setClients] = useState<UserProfile[]>([]);
 
   useEffect(() => {
     if (project) {
@@ -41,10 +59,12 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSubmit, onCancel }
         detailed_description: project.detailed_description || '',
         image_url: project.image_url || '',
         image_alt: project.image_alt || '',
+        screenshots: project.screenshots || [],
         technologies: project.technologies || [],
         category: project.category || '',
         status: project.status || 'in-development',
         client_name: project.client_name || '',
+        client_id: project.client_id || '',
         year: project.year || new Date().getFullYear(),
         featured: project.featured || false,
         published: project.published || false,
@@ -56,6 +76,29 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSubmit, onCancel }
     }
   }, [project]);
 
+  const sourceInquiryId = project?.source_inquiry_id;
+
+  useEffect(() => {
+    if (!sourceInquiryId) {
+      setSourceInquiry(null);
+      return;
+    }
+
+    SupabaseService.getInquiry(sourceInquiryId)
+      .then(setSourceInquiry)
+      .catch(error => console.error('Error loading source inquiry:', error));
+  }, [sourceInquiryId]);
+
+  useEffect(() => {
+    UserProfileService.searchProfiles({ role: 'client', limit: 100 }).then(result => {
+      if (result.error) {
+        console.error('Error loading clients:', result.error);
+        return;
+      }
+      setClients(result.profiles);
+    });
+  }, []);
+
   const generateSlug = (title: string) => {
     return title
       .toLowerCase()
@@ -101,6 +144,42 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSubmit, onCancel }
     }));
   };
 
+  const handleMediaSelected = (files: MediaFile[]) => {
+    if (pickerTarget === 'image' && files[0]) {
+      const file = files[0];
+      setFormData(prev => ({
+        ...prev,
+        image_url: file.file_path,
+        image_alt: file.alt_text || prev.image_alt
+      }));
+    } else if (pickerTarget === 'screenshots') {
+      setFormData(prev => ({
+        ...prev,
+        screenshots: [
+          ...prev.screenshots,
+          ...files.map(file => file.file_path).filter(url => !prev.screenshots.includes(url))
+        ]
+      }));
+    }
+  };
+
+  const moveScreenshot = (from: number, to: number) => {
+    setFormData(prev => {
+      if (to < 0 || to >= prev.screenshots.length || from === to) return prev;
+      const screenshots = [...prev.screenshots];
+      const [moved] = screenshots.splice(from, 1);
+      screenshots.splice(to, 0, moved);
+      return { ...prev, screenshots };
+    });
+  };
+
+  const handleRemoveScreenshot = (url: string) => {
+    setFormData(prev => ({
+      ...prev,
+      screenshots: prev.screenshots.filter(s => s !== url)
+    }));
+  };
+
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
 
@@ -137,7 +216,7 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSubmit, onCancel }
 
     setLoading(true);
     try {
-      await onSubmit(formData);
+      await onSubmit({ ...formData, client_id: formData.client_id || null });
     } catch (error) {
       console.error('Error submitting form:', error);
       alert('Error saving project. Please try again.');
@@ -146,25 +225,6 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSubmit, onCancel }
     }
   };
 
-  const categories = [
-    'Web Development',
-    'Game Development',
-    'Mobile App',
-    'Desktop Application',
-    'API Development',
-    'Consulting',
-    'Other'
-  ];
-
-  const statuses = [
-    'planning',
-    'in-development',
-    'testing',
-    'completed',
-    'maintenance',
-    'archived'
-  ];
-
   return (
     <div className="project-form">
       <div className="form-header">
@@ -246,9 +306,13 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSubmit, onCancel }
                   className={errors.category ? 'error' : ''}
                 >
                   <option value="">Select category</option>
-                  {categories.map(cat => (
+                  {PROJECT_CATEGORIES.map(cat => (
                     <option key={cat} value={cat}>{cat}</option>
                   ))}
+                  {/* Keep values set outside the form (e.g. from an inquiry) selectable */}
+                  {formData.category && !PROJECT_CATEGORIES.includes(formData.category) && (
+                    <option value={formData.category}>{formData.category}</option>
+                  )}
                 </select>
                 {errors.category && <span className="error-message">{errors.category}</span>}
               </div>
@@ -261,9 +325,9 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSubmit, onCancel }
                   value={formData.status}
                   onChange={handleInputChange}
                 >
-                  {statuses.map(status => (
+                  {PROJECT_STATUSES.map(status => (
                     <option key={status} value={status}>
-                      {status.charAt(0).toUpperCase() + status.slice(1).replace('-', ' ')}
+                      {formatProjectStatus(status)}
                     </option>
                   ))}
                 </select>
@@ -340,14 +404,22 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSubmit, onCancel }
 
             <div className="form-group">
               <label htmlFor="image_url">Featured Image URL</label>
-              <input
-                type="url"
-                id="image_url"
-                name="image_url"
-                value={formData.image_url}
-                onChange={handleInputChange}
-                placeholder="https://example.com/image.jpg"
-              />
+              <div className="media-field">
+                <input
+                  type="url"
+                  id="image_url"
+                  name="image_url"
+                  value={formData.image_url}
+                  onChange={handleInputChange}
+                  placeholder="https://example.com/image.jpg"
+                />
+                <button type="button" onClick={() => setPickerTarget('image')} className="browse-media-btn">
+                  Browse
+                </button>
+              </div>
+              {formData.image_url && (
+                <img src={formData.image_url} alt={formData.image_alt} className="media-field-preview" />
+              )}
             </div>
 
             <div className="form-group">
@@ -362,6 +434,63 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSubmit, onCancel }
               />
             </div>
 
+            <div className="form-group">
+              <label>Screenshots</label>
+              {formData.screenshots.length > 0 && (
+                <ol className="screenshot-list">
+                  {formData.screenshots.map((url, index) => (
+                    <li
+                      key={url}
+                      className={`screenshot-item ${draggedScreenshot === index ? 'dragging' : ''}`}
+                      draggable
+                      onDragStart={() => setDraggedScreenshot(index)}
+                      onDragOver={(e) => {
+                        e.preventDefault();
+                        if (draggedScreenshot !== null && draggedScreenshot !== index) {
+                          moveScreenshot(draggedScreenshot, index);
+                          setDraggedScreenshot(index);
+                        }
+                      }}
+                      onDragEnd={() => setDraggedScreenshot(null)}
+                    >
+                      <span className="drag-handle" aria-hidden="true">⋮⋮</span>
+                      <img src={url} alt={`Screenshot ${index + 1}`} />
+                      <span className="screenshot-url" title={url}>{url.split('/').pop()}</span>
+                      <div className="screenshot-actions">
+                        <button
+                          type="button"
+                          onClick={() => moveScreenshot(index, index - 1)}
+                          disabled={index === 0}
+                          aria-label={`Move screenshot ${index + 1} up`}
+                        >
+                          ↑
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveScreenshot(index, index + 1)}
+                          disabled={index === formData.screenshots.length - 1}
+                          aria-label={`Move screenshot ${index + 1} down`}
+                        >
+                          ↓
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveScreenshot(url)}
+                          className="remove-screenshot"
+                          aria-label={`Remove screenshot ${index + 1}`}
+                        >
+                          ×
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              )}
+              <button type="button" onClick={() => setPickerTarget('screenshots')} className="browse-media-btn">
+                Add Screenshots
+              </button>
+            </div>
+
             <div className="form-group">
               <label htmlFor="external_link">Live Site URL</label>
               <input
@@ -439,7 +568,75 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSubmit, onCancel }
                 <small>Make this project visible to the public</small>
               </label>
             </div>
+
+            {sourceInquiry && (
+              <div className="inquiry-origin">
+                <h3>Originating Inquiry</h3>
+                <p>
+                  <strong>{sourceInquiry.name}</strong>
+                  {sourceInquiry.company && ` · ${sourceInquiry.company}`}
+                </p>
+                <p>{sourceInquiry.email}</p>
+                <p>{sourceInquiry.subject}</p>
+                <small>
+                  Received {sourceInquiry.created_at ? new Date(sourceInquiry.created_at).toLocaleDateString() : '—'} · {sourceInquiry.status}
+                </small>
+              </div>
+            )}
+          </div>
+
+          <div className="form-section">
+            <h2>Milestones & Updates</h2>
+
+            {project?.id ? (
+              <ProjectProgressPanel projectId={project.id} published={formData.published} />
+            ) : (
+              <p className="form-hint">Save the project to add milestones and progress updates.</p>
+            )}
+          </div>
+
+          <div className="form-section">
+            <h2>Client Portal</h2>
+
+            <div className="form-group">
+              <label htmlFor="client_id">Client Account</label>
+              <select
+                id="client_id"
+                name="client_id"
+                value={formData.client_id}
+                onChange={handleInputChange}
+              >
+                <option value="">No portal access</option>
+                {clients.map(client => (
+                  <option key={client.id} value={client.id}>
+                    {client.full_name ? `${client.full_name} (${client.email})` : client.email}
+                  </option>
+                ))}
+              </select>
+              <small>The selected client can follow this project from their portal, even while it is unpublished</small>
+            </div>
+
+            {project?.id ? (
+              <div className="form-group">
+                <label>Shared Files</label>
+                <ClientFilesPanel projectId={project.id} />
+              </div>
+            ) : (
+              <p className="form-hint">Save the project to start sharing files with the client.</p>
+            )}
           </div>
+
+          {project?.id && (
+            <div className="form-section revision-section">
+              <h2>Revision History</h2>
+              <RevisionHistory
+                entityType="project"
+                entityId={project.id}
+                current={project}
+                onRestored={row => onRevisionRestored?.(row as Tables<'projects'>)}
+              />
+            </div>
+          )}
         </div>
 
         <div className="form-actions">
@@ -451,6 +648,14 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSubmit, onCancel }
           </button>
         </div>
       </form>
+
+      <MediaPicker
+        isOpen={pickerTarget !== null}
+        onClose={() => setPickerTarget(null)}
+        onSelect={handleMediaSelected}
+        multiple={pickerTarget === 'screenshots'}
+        title={pickerTarget === 'screenshots' ? 'Add Screenshots' : 'Select Featured Image'}
+      />
     </div>
   );
 };
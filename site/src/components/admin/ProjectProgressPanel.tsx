@@ -0,0 +1,496 @@
+import React, { useState, useEffect } from 'react';
+import MediaPicker from './MediaPicker';
+import ProjectProgressService from '../../services/ProjectProgressService';
+import { useAuth } from '../../hooks/useAuth';
+import { MediaFile } from '../../types/media';
+import type { MilestoneState, ProjectMilestone, ProjectUpdate, UpdateVisibility } from '../../types/portal';
+import {
+  MILESTONE_STATES,
+  UPDATE_VISIBILITIES,
+  formatDueDate,
+  getAttachmentName,
+  getMilestonePercent,
+  getMilestoneStateLabel,
+  getProjectProgress
+} from '../../utils/projectProgress';
+import './ProjectProgressPanel.css';
+
+interface MilestoneDraft {
+  id?: string;
+  title: string;
+  description: string;
+  due_date: string;
+  state: MilestoneState;
+  percent_complete: number;
+}
+
+interface UpdateDraft {
+  id?: string;
+  title: string;
+  body: string;
+  visibility: UpdateVisibility;
+  attachments: string[];
+  posted_at: string;
+}
+
+interface ProjectProgressPanelProps {
+  projectId: string;
+  published: boolean;
+}
+
+const emptyMilestone = (): MilestoneDraft => ({
+  title: '',
+  description: '',
+  due_date: '',
+  state: 'planned',
+  percent_complete: 0
+});
+
+// datetime-local wants local time without seconds or a zone
+const toLocalInput = (value: string | Date) => {
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const emptyUpdate = (published: boolean): UpdateDraft => ({
+  title: '',
+  body: '',
+  visibility: published ? 'public' : 'client',
+  attachments: [],
+  posted_at: toLocalInput(new Date())
+});
+
+const ProjectProgressPanel: React.FC<ProjectProgressPanelProps> = ({ projectId, published }) => {
+  const { user } = useAuth();
+  const [milestones, setMilestones] = useState<ProjectMilestone[]>([]);
+  const [updates, setUpdates] = useState<ProjectUpdate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [milestoneDraft, setMilestoneDraft] = useState<MilestoneDraft | null>(null);
+  const [updateDraft, setUpdateDraft] = useState<UpdateDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [showPicker, setShowPicker] = useState(false);
+
+  useEffect(() => {
+    const loadProgress = async () => {
+      try {
+        setLoading(true);
+        const [milestoneData, updateData] = await Promise.all([
+          ProjectProgressService.getMilestones(projectId),
+          ProjectProgressService.getUpdates(projectId)
+        ]);
+        setMilestones(milestoneData);
+        setUpdates(updateData);
+      } catch (error) {
+        console.error('Error loading project progress:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadProgress();
+  }, [projectId]);
+
+  // The panel lives inside ProjectForm, so Enter must not submit the project
+  const preventFormSubmit = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && (e.target as HTMLElement).tagName === 'INPUT') {
+      e.preventDefault();
+    }
+  };
+
+  const handleSaveMilestone = async () => {
+    if (!milestoneDraft || !milestoneDraft.title.trim()) {
+      alert('Milestone title is required');
+      return;
+    }
+
+    const payload = {
+      title: milestoneDraft.title.trim(),
+      description: milestoneDraft.description.trim() || null,
+      due_date: milestoneDraft.due_date || null,
+      state: milestoneDraft.state,
+      percent_complete: Number(milestoneDraft.percent_complete) || 0
+    };
+
+    setSaving(true);
+    try {
+      if (milestoneDraft.id) {
+        const saved = await ProjectProgressService.updateMilestone(milestoneDraft.id, payload);
+        setMilestones(prev => prev.map(m => (m.id === saved.id ? saved : m)));
+      } else {
+        const saved = await ProjectProgressService.createMilestone(projectId, payload, milestones.length);
+        setMilestones(prev => [...prev, saved]);
+      }
+      setMilestoneDraft(null);
+    } catch (error) {
+      console.error('Error saving milestone:', error);
+      alert('Error saving milestone');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteMilestone = async (milestone: ProjectMilestone) => {
+    if (!confirm(`Delete milestone "${milestone.title}"?`)) return;
+
+    try {
+      await ProjectProgressService.deleteMilestone(milestone.id);
+      setMilestones(prev => prev.filter(m => m.id !== milestone.id));
+    } catch (error) {
+      console.error('Error deleting milestone:', error);
+      alert('Error deleting milestone');
+    }
+  };
+
+  const moveMilestone = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= milestones.length) return;
+
+    const previous = milestones;
+    const reordered = [...milestones];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setMilestones(reordered);
+
+    try {
+      await ProjectProgressService.reorderMilestones(reordered.map(m => m.id));
+    } catch (error) {
+      console.error('Error reordering milestones:', error);
+      setMilestones(previous);
+      alert('Error reordering milestones');
+    }
+  };
+
+  const handleSaveUpdate = async () => {
+    if (!updateDraft || !updateDraft.title.trim() || !updateDraft.body.trim()) {
+      alert('Update title and text are required');
+      return;
+    }
+
+    const payload = {
+      title: updateDraft.title.trim(),
+      body: updateDraft.body.trim(),
+      visibility: updateDraft.visibility,
+      attachments: updateDraft.attachments,
+      posted_at: new Date(updateDraft.posted_at || Date.now()).toISOString()
+    };
+
+    setSaving(true);
+    try {
+      const saved = updateDraft.id
+        ? await ProjectProgressService.updateUpdate(updateDraft.id, payload)
+        : await ProjectProgressService.createUpdate(projectId, payload, user?.id);
+
+      setUpdates(prev => [saved, ...prev.filter(u => u.id !== saved.id)]
+        .sort((a, b) => b.posted_at.localeCompare(a.posted_at)));
+      setUpdateDraft(null);
+    } catch (error) {
+      console.error('Error saving project update:', error);
+      alert('Error saving update');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteUpdate = async (update: ProjectUpdate) => {
+    if (!confirm(`Delete update "${update.title}"?`)) return;
+
+    try {
+      await ProjectProgressService.deleteUpdate(update.id);
+      setUpdates(prev => prev.filter(u => u.id !== update.id));
+    } catch (error) {
+      console.error('Error deleting project update:', error);
+      alert('Error deleting update');
+    }
+  };
+
+  const handleAttachmentsSelected = (files: MediaFile[]) => {
+    setUpdateDraft(prev => prev && ({
+      ...prev,
+      attachments: [
+        ...prev.attachments,
+        ...files.map(file => file.file_path).filter(url => !prev.attachments.includes(url))
+      ]
+    }));
+  };
+
+  if (loading) {
+    return <p className="progress-panel-empty">Loading milestones and updates...</p>;
+  }
+
+  const progress = getProjectProgress(milestones);
+
+  return (
+    <div className="project-progress-panel" onKeyDown={preventFormSubmit}>
+      <div className="progress-panel-block">
+        <div className="progress-panel-header">
+          <h3>Milestones</h3>
+          {progress.total > 0 && (
+            <span className="progress-summary">
+              {progress.percent}% overall · {progress.completed}/{progress.total} done
+            </span>
+          )}
+        </div>
+
+        {milestones.length === 0 && !milestoneDraft && (
+          <p className="progress-panel-empty">No milestones yet</p>
+        )}
+
+        <ol className="milestone-admin-list">
+          {milestones.map((milestone, index) => (
+            <li key={milestone.id} className={`milestone-admin-item ${milestone.state}`}>
+              <div className="milestone-admin-info">
+                <strong>{milestone.title}</strong>
+                <span className="milestone-admin-meta">
+                  {getMilestoneStateLabel(milestone.state)} · {getMilestonePercent(milestone)}%
+                  {milestone.due_date && ` · due ${formatDueDate(milestone.due_date)}`}
+                </span>
+              </div>
+              <div className="progress-item-actions">
+                <button type="button" onClick={() => moveMilestone(index, -1)} disabled={index === 0} aria-label="Move up">↑</button>
+                <button type="button" onClick={() => moveMilestone(index, 1)} disabled={index === milestones.length - 1} aria-label="Move down">↓</button>
+                <button
+                  type="button"
+                  onClick={() => setMilestoneDraft({
+                    id: milestone.id,
+                    title: milestone.title,
+                    description: milestone.description || '',
+                    due_date: milestone.due_date || '',
+                    state: milestone.state,
+                    percent_complete: milestone.percent_complete
+                  })}
+                >
+                  Edit
+                </button>
+                <button type="button" onClick={() => handleDeleteMilestone(milestone)} className="danger">Delete</button>
+              </div>
+            </li>
+          ))}
+        </ol>
+
+        {milestoneDraft ? (
+          <div className="progress-editor">
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="milestone_title">Title *</label>
+                <input
+                  type="text"
+                  id="milestone_title"
+                  value={milestoneDraft.title}
+                  onChange={(e) => setMilestoneDraft({ ...milestoneDraft, title: e.target.value })}
+                  placeholder="e.g. Vertical slice"
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="milestone_due">Due Date</label>
+                <input
+                  type="date"
+                  id="milestone_due"
+                  value={milestoneDraft.due_date}
+                  onChange={(e) => setMilestoneDraft({ ...milestoneDraft, due_date: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="milestone_state">State</label>
+                <select
+                  id="milestone_state"
+                  value={milestoneDraft.state}
+                  onChange={(e) => {
+                    const state = e.target.value as MilestoneState;
+                    setMilestoneDraft({
+                      ...milestoneDraft,
+                      state,
+                      percent_complete: state === 'completed' ? 100 : milestoneDraft.percent_complete
+                    });
+                  }}
+                >
+                  {MILESTONE_STATES.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-group">
+                <label htmlFor="milestone_percent">Percent Complete ({milestoneDraft.percent_complete}%)</label>
+                <input
+                  type="range"
+                  id="milestone_percent"
+                  min="0"
+                  max="100"
+                  step="5"
+                  value={milestoneDraft.percent_complete}
+                  disabled={milestoneDraft.state === 'completed'}
+                  onChange={(e) => setMilestoneDraft({ ...milestoneDraft, percent_complete: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="milestone_description">Description</label>
+              <textarea
+                id="milestone_description"
+                value={milestoneDraft.description}
+                onChange={(e) => setMilestoneDraft({ ...milestoneDraft, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+
+            <div className="progress-editor-actions">
+              <button type="button" onClick={() => setMilestoneDraft(null)} className="cancel-btn">Cancel</button>
+              <button type="button" onClick={handleSaveMilestone} className="submit-btn" disabled={saving}>
+                {saving ? 'Saving...' : (milestoneDraft.id ? 'Update Milestone' : 'Add Milestone')}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button type="button" onClick={() => setMilestoneDraft(emptyMilestone())} className="browse-media-btn">
+            + Add Milestone
+          </button>
+        )}
+      </div>
+
+      <div className="progress-panel-block">
+        <div className="progress-panel-header">
+          <h3>Progress Updates</h3>
+          {!published && (
+            <span className="progress-summary">Public posts show once the project is published</span>
+          )}
+        </div>
+
+        {updateDraft ? (
+          <div className="progress-editor">
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="update_title">Title *</label>
+                <input
+                  type="text"
+                  id="update_title"
+                  value={updateDraft.title}
+                  onChange={(e) => setUpdateDraft({ ...updateDraft, title: e.target.value })}
+                  placeholder="e.g. Combat prototype playable"
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="update_posted_at">Posted</label>
+                <input
+                  type="datetime-local"
+                  id="update_posted_at"
+                  value={updateDraft.posted_at}
+                  onChange={(e) => setUpdateDraft({ ...updateDraft, posted_at: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="update_body">Update *</label>
+              <textarea
+                id="update_body"
+                value={updateDraft.body}
+                onChange={(e) => setUpdateDraft({ ...updateDraft, body: e.target.value })}
+                rows={5}
+              />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="update_visibility">Visibility</label>
+              <select
+                id="update_visibility"
+                value={updateDraft.visibility}
+                onChange={(e) => setUpdateDraft({ ...updateDraft, visibility: e.target.value as UpdateVisibility })}
+              >
+                {UPDATE_VISIBILITIES.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-group">
+              <label>Attachments</label>
+              {updateDraft.attachments.length > 0 && (
+                <ul className="attachment-admin-list">
+                  {updateDraft.attachments.map(url => (
+                    <li key={url}>
+                      <span title={url}>{getAttachmentName(url)}</span>
+                      <button
+                        type="button"
+                        onClick={() => setUpdateDraft({
+                          ...updateDraft,
+                          attachments: updateDraft.attachments.filter(a => a !== url)
+                        })}
+                        className="remove-screenshot"
+                        aria-label={`Remove ${getAttachmentName(url)}`}
+                      >
+                        ×
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <button type="button" onClick={() => setShowPicker(true)} className="browse-media-btn">
+                Attach Media
+              </button>
+            </div>
+
+            <div className="progress-editor-actions">
+              <button type="button" onClick={() => setUpdateDraft(null)} className="cancel-btn">Cancel</button>
+              <button type="button" onClick={handleSaveUpdate} className="submit-btn" disabled={saving}>
+                {saving ? 'Saving...' : (updateDraft.id ? 'Save Update' : 'Post Update')}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button type="button" onClick={() => setUpdateDraft(emptyUpdate(published))} className="browse-media-btn">
+            + New Update
+          </button>
+        )}
+
+        {updates.length === 0 ? (
+          <p className="progress-panel-empty">No updates posted yet</p>
+        ) : (
+          <ul className="update-admin-list">
+            {updates.map(update => (
+              <li key={update.id} className="update-admin-item">
+                <div className="update-admin-info">
+                  <strong>{update.title}</strong>
+                  <span className="milestone-admin-meta">
+                    {new Date(update.posted_at).toLocaleString()}
+                    {update.attachments.length > 0 && ` · ${update.attachments.length} attachment${update.attachments.length === 1 ? '' : 's'}`}
+                  </span>
+                </div>
+                <span className={`visibility-badge ${update.visibility}`}>
+                  {update.visibility === 'public' ? 'Public' : 'Client'}
+                </span>
+                <div className="progress-item-actions">
+                  <button
+                    type="button"
+                    onClick={() => setUpdateDraft({
+                      id: update.id,
+                      title: update.title,
+                      body: update.body,
+                      visibility: update.visibility,
+                      attachments: update.attachments || [],
+                      posted_at: toLocalInput(update.posted_at)
+                    })}
+                  >
+                    Edit
+                  </button>
+                  <button type="button" onClick={() => handleDeleteUpdate(update)} className="danger">Delete</button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <MediaPicker
+        isOpen={showPicker}
+        onClose={() => setShowPicker(false)}
+        onSelect={handleAttachmentsSelected}
+        multiple
+        title="Attach Media"
+      />
+    </div>
+  );
+};
+
+export default ProjectProgressPanel;
@@ -1,36 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import SupabaseService from '../../services/SupabaseService';
 import ProjectForm from './ProjectForm';
+import TrashPanel from './TrashPanel';
+import BulkActionBar from './BulkActionBar';
+import ImportExportControls from './ImportExportControls';
+import { useBulkRunner, useBulkSelection } from '../../hooks/useBulkActions';
+import { PROJECT_CATEGORIES, PROJECT_STATUSES, formatProjectStatus, mergeCategories } from '../../utils/contentOptions';
+import type { Tables, TablesInsert } from '../../types/database';
 import './ProjectsManager.css';
 
-interface Project {
-  id: string;
-  title: string;
-  slug: string;
-  description: string;
-  detailed_description?: string;
-  image_url?: string;
-  image_alt?: string;
-  technologies: string[];
-  category: string;
-  status: string;
-  client_name?: string;
-  year: number;
-  featured: boolean;
-  published: boolean;
-  external_link?: string;
-  case_study_url?: string;
-  github_url?: string;
-  demo_url?: string;
-  created_at?: string;
-  updated_at?: string;
-}
+type Project = Tables<'projects'>;
 
 const ProjectsManager: React.FC = () => {
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [editingProject, setEditingProject] = useState<Project | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState('all');
   const [filterCategory, setFilterCategory] = useState('all');
@@ -62,7 +48,7 @@ const ProjectsManager: React.FC = () => {
   };
 
   const handleDeleteProject = async (projectId: string) => {
-    if (!confirm('Are you sure you want to delete this project?')) return;
+    if (!confirm('Move this project to the trash? You can restore it from the Trash view.')) return;
 
     try {
       await SupabaseService.deleteProject(projectId);
@@ -103,7 +89,7 @@ const ProjectsManager: React.FC = () => {
     }
   };
 
-  const handleFormSubmit = async (projectData: any) => {
+  const handleFormSubmit = async (projectData: TablesInsert<'projects'>) => {
     try {
       if (editingProject) {
         const updatedProject = await SupabaseService.updateProject(editingProject.id, projectData);
@@ -122,6 +108,11 @@ const ProjectsManager: React.FC = () => {
     }
   };
 
+  const handleRevisionRestored = (restoredProject: Project) => {
+    setProjects(prev => prev.map(p => p.id === restoredProject.id ? { ...p, ...restoredProject } : p));
+    setEditingProject(restoredProject);
+  };
+
   const filteredProjects = projects.filter(project => {
     const matchesSearch = project.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          project.description.toLowerCase().includes(searchTerm.toLowerCase());
@@ -135,6 +126,26 @@ const ProjectsManager: React.FC = () => {
 
   const categories = [...new Set(projects.map(p => p.category))];
 
+  const selection = useBulkSelection(filteredProjects.map(p => p.id));
+  const bulk = useBulkRunner();
+
+  const runBulkUpdate = async (action: string, updates: Partial<Project>) => {
+    const targets = projects.filter(p => selection.isSelected(p.id));
+    const result = await bulk.run(action, targets, p => p.title, p => SupabaseService.updateProject(p.id, updates));
+    const done = new Set(result.succeeded.map(item => item.id));
+    setProjects(prev => prev.map(p => done.has(p.id) ? { ...p, ...updates } : p));
+    selection.deselect([...done]);
+  };
+
+  const handleBulkDelete = async () => {
+    if (!confirm(`Move ${selection.count} projects to the trash? You can restore them from the Trash view.`)) return;
+
+    const targets = projects.filter(p => selection.isSelected(p.id));
+    const result = await bulk.run('Move to trash', targets, p => p.title, p => SupabaseService.deleteProject(p.id));
+    const done = new Set(result.succeeded.map(item => item.id));
+    setProjects(prev => prev.filter(p => !done.has(p.id)));
+  };
+
   if (loading) {
     return (
       <div className="projects-manager loading">
@@ -149,6 +160,7 @@ const ProjectsManager: React.FC = () => {
       <ProjectForm
         project={editingProject}
         onSubmit={handleFormSubmit}
+        onRevisionRestored={handleRevisionRestored}
         onCancel={() => {
           setShowForm(false);
           setEditingProject(null);
@@ -157,6 +169,19 @@ const ProjectsManager: React.FC = () => {
     );
   }
 
+  if (showTrash) {
+    return (
+      <TrashPanel
+        table="projects"
+        title="Projects"
+        onBack={() => {
+          setShowTrash(false);
+          loadProjects();
+        }}
+      />
+    );
+  }
+
   return (
     <div className="projects-manager">
       <div className="manager-header">
@@ -164,10 +189,21 @@ const ProjectsManager: React.FC = () => {
           <h1>Projects Management</h1>
           <p>Manage your portfolio projects</p>
         </div>
-        <button className="create-btn" onClick={handleCreateProject}>
-          <span className="btn-icon">➕</span>
-          New Project
-        </button>
+        <div className="header-actions">
+          <ImportExportControls
+            entity="projects"
+            rows={filteredProjects}
+            existing={projects}
+            onImported={loadProjects}
+          />
+          <button className="trash-toggle-btn" onClick={() => setShowTrash(true)}>
+            🗑️ Trash
+          </button>
+          <button className="create-btn" onClick={handleCreateProject}>
+            <span className="btn-icon">➕</span>
+            New Project
+          </button>
+        </div>
       </div>
 
       <div className="manager-filters">
@@ -221,6 +257,42 @@ const ProjectsManager: React.FC = () => {
         </div>
       </div>
 
+      <BulkActionBar
+        noun="project"
+        nounPlural="projects"
+        selectedCount={selection.count}
+        matchingCount={selection.matchingCount}
+        onSelectAll={selection.selectAllMatching}
+        onClear={selection.clear}
+        progress={bulk.progress}
+        result={bulk.result}
+        onDismissResult={bulk.dismiss}
+      >
+        <button type="button" onClick={() => runBulkUpdate('Publish', { published: true })}>Publish</button>
+        <button type="button" onClick={() => runBulkUpdate('Unpublish', { published: false })}>Unpublish</button>
+        <button type="button" onClick={() => runBulkUpdate('Feature', { featured: true })}>Feature</button>
+        <button type="button" onClick={() => runBulkUpdate('Unfeature', { featured: false })}>Unfeature</button>
+        <select
+          value=""
+          onChange={(e) => e.target.value && runBulkUpdate(`Set category to ${e.target.value}`, { category: e.target.value })}
+        >
+          <option value="">Set category…</option>
+          {mergeCategories(PROJECT_CATEGORIES, categories).map(category => (
+            <option key={category} value={category}>{category}</option>
+          ))}
+        </select>
+        <select
+          value=""
+          onChange={(e) => e.target.value && runBulkUpdate(`Set status to ${formatProjectStatus(e.target.value)}`, { status: e.target.value })}
+        >
+          <option value="">Set status…</option>
+          {PROJECT_STATUSES.map(status => (
+            <option key={status} value={status}>{formatProjectStatus(status)}</option>
+          ))}
+        </select>
+        <button type="button" className="danger" onClick={handleBulkDelete}>Move to trash</button>
+      </BulkActionBar>
+
       <div className="projects-table">
         {filteredProjects.length === 0 ? (
           <div className="empty-state">
@@ -236,6 +308,16 @@ const ProjectsManager: React.FC = () => {
             <table>
               <thead>
                 <tr>
+                  <th className="bulk-select-cell">
+                    <input
+                      type="checkbox"
+                      className="bulk-checkbox"
+                      checked={selection.allSelected}
+                      onChange={() => selection.allSelected ? selection.clear() : selection.selectAllMatching()}
+                      disabled={bulk.running}
+                      aria-label="Select all matching projects"
+                    />
+                  </th>
                   <th>Project</th>
                   <th>Category</th>
                   <th>Status</th>
@@ -245,7 +327,17 @@ const ProjectsManager: React.FC = () => {
               </thead>
               <tbody>
                 {filteredProjects.map((project) => (
-                  <tr key={project.id}>
+                  <tr key={project.id} className={selection.isSelected(project.id) ? 'selected' : ''}>
+                    <td className="bulk-select-cell">
+                      <input
+                        type="checkbox"
+                        className="bulk-checkbox"
+                        checked={selection.isSelected(project.id)}
+                        onChange={() => selection.toggle(project.id)}
+                        disabled={bulk.running}
+                        aria-label={`Select ${project.title}`}
+                      />
+                    </td>
                     <td className="project-cell">
                       <div className="project-info">
                         {project.image_url && (
@@ -264,6 +356,7 @@ const ProjectsManager: React.FC = () => {
                             {project.featured && <span className="badge featured">Featured</span>}
                             {project.published && <span className="badge published">Published</span>}
                             {!project.published && <span className="badge draft">Draft</span>}
+                            {project.source_inquiry_id && <span className="badge inquiry">From Inquiry</span>}
                           </div>
                         </div>
                       </div>
@@ -0,0 +1,195 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import RevisionService from '../../services/RevisionService';
+import UserProfileService from '../../services/UserProfileService';
+import { buildFieldDiffs, getRevisionFieldLabel } from '../../utils/revisions';
+import type { ContentRevision, DiffPart, RevisionEntityType } from '../../types/revision';
+import type { Tables } from '../../types/database';
+import './RevisionHistory.css';
+
+interface RevisionHistoryProps {
+  entityType: RevisionEntityType;
+  entityId: string;
+  // The saved row as the manager knows it; the "current version" side of a comparison
+  current: Tables<'projects'> | Tables<'articles'>;
+  onRestored?: (row: Tables<'projects'> | Tables<'articles'>) => void;
+}
+
+type CompareMode = 'previous' | 'current';
+
+const renderParts = (parts: DiffPart[]) =>
+  parts.length === 0
+    ? <span className="diff-empty">(empty)</span>
+    : parts.map((part, index) => (
+      <span key={index} className={`diff-${part.op}`}>{part.text}</span>
+    ));
+
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ entityType, entityId, current, onRestored }) => {
+  const [revisions, setRevisions] = useState<ContentRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>('previous');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [authors, setAuthors] = useState<Record<string, string>>({});
+  const [restoring, setRestoring] = useState(false);
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await RevisionService.getRevisions(entityType, entityId);
+      setRevisions(data);
+      setSelectedId(prev => (prev && data.some(r => r.id === prev) ? prev : data[0]?.id ?? null));
+    } catch (error) {
+      console.error('Error loading revisions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [entityType, entityId]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  useEffect(() => {
+    UserProfileService.searchProfiles({ role: 'admin', limit: 100 }).then(result => {
+      if (result.error) {
+        console.error('Error loading revision authors:', result.error);
+        return;
+      }
+      setAuthors(Object.fromEntries(result.profiles.map(p => [p.id, p.full_name || p.email])));
+    });
+  }, []);
+
+  const selectedIndex = revisions.findIndex(r => r.id === selectedId);
+  const selected = selectedIndex >= 0 ? revisions[selectedIndex] : null;
+  // Revisions are newest first, so the one before this save is the next in the list
+  const previous = selectedIndex >= 0 ? revisions[selectedIndex + 1] ?? null : null;
+
+  const diffs = useMemo(() => {
+    if (!selected) return [];
+    return compareMode === 'previous'
+      ? buildFieldDiffs(entityType, previous?.snapshot ?? null, selected.snapshot)
+      : buildFieldDiffs(entityType, selected.snapshot, current);
+  }, [selected, previous, compareMode, entityType, current]);
+
+  const visibleDiffs = showUnchanged ? diffs : diffs.filter(d => d.changed);
+
+  const authorName = (revision: ContentRevision) =>
+    revision.created_by ? authors[revision.created_by] || 'Unknown user' : 'System';
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    if (!confirm(`Restore the version saved ${new Date(selected.created_at).toLocaleString()}? Unsaved changes in this form will be lost.`)) return;
+
+    try {
+      setRestoring(true);
+      const row = await RevisionService.restoreRevision(selected);
+      onRestored?.(row);
+      await loadRevisions();
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      alert('Error restoring this version. If its slug is now used by another item, change that item first.');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="revision-empty">Loading history...</p>;
+  }
+
+  if (revisions.length === 0) {
+    return <p className="revision-empty">No saved revisions yet. Each save from now on is recorded here.</p>;
+  }
+
+  return (
+    <div className="revision-history">
+      <ul className="revision-list">
+        {revisions.map((revision, index) => (
+          <li key={revision.id}>
+            <button
+              type="button"
+              className={`revision-item ${revision.id === selectedId ? 'active' : ''}`}
+              onClick={() => setSelectedId(revision.id)}
+            >
+              <span className="revision-item-date">
+                {new Date(revision.created_at).toLocaleString()}
+                {index === 0 && <span className="revision-latest">Latest</span>}
+              </span>
+              <span className="revision-item-author">{authorName(revision)}</span>
+              <span className="revision-item-fields">
+                {index === revisions.length - 1 && revision.changed_fields.length === 0
+                  ? 'Initial version'
+                  : revision.changed_fields
+                    .map(field => getRevisionFieldLabel(entityType, field))
+                    .join(', ') || 'No content changes'}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {selected && (
+        <div className="revision-detail">
+          <div className="revision-toolbar">
+            <div className="revision-compare">
+              <button
+                type="button"
+                className={compareMode === 'previous' ? 'active' : ''}
+                onClick={() => setCompareMode('previous')}
+              >
+                Changes in this save
+              </button>
+              <button
+                type="button"
+                className={compareMode === 'current' ? 'active' : ''}
+                onClick={() => setCompareMode('current')}
+              >
+                Compare with current
+              </button>
+            </div>
+            <label className="revision-unchanged-toggle">
+              <input
+                type="checkbox"
+                checked={showUnchanged}
+                onChange={(e) => setShowUnchanged(e.target.checked)}
+              />
+              Show unchanged fields
+            </label>
+            <button
+              type="button"
+              className="revision-restore-btn"
+              onClick={handleRestore}
+              disabled={restoring || selectedIndex === 0}
+              title={selectedIndex === 0 ? 'This is already the latest version' : undefined}
+            >
+              {restoring ? 'Restoring...' : 'Restore this version'}
+            </button>
+          </div>
+
+          <div className="revision-diff-header">
+            <span>{compareMode === 'previous' ? (previous ? 'Before' : 'Nothing before') : 'This version'}</span>
+            <span>{compareMode === 'previous' ? 'This version' : 'Current'}</span>
+          </div>
+
+          {visibleDiffs.length === 0 ? (
+            <p className="revision-empty">No differences in the content fields.</p>
+          ) : (
+            <div className="revision-diff">
+              {visibleDiffs.map(diff => (
+                <div key={diff.field} className={`revision-diff-field ${diff.changed ? 'changed' : ''}`}>
+                  <div className="revision-diff-label">{diff.label}</div>
+                  <div className="revision-diff-columns">
+                    <div className={`revision-diff-side ${diff.list ? 'list' : ''}`}>{renderParts(diff.left)}</div>
+                    <div className={`revision-diff-side ${diff.list ? 'list' : ''}`}>{renderParts(diff.right)}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RevisionHistory;
@@ -0,0 +1,550 @@
+import React, { useState, useEffect } from 'react';
+import type { Tables, TablesInsert } from '../../types/database';
+import './ServiceForm.css';
+
+interface ServiceFormProps {
+  service?: Tables<'services'> | null;
+  onSubmit: (serviceData: TablesInsert<'services'>) => Promise<void>;
+  onCancel: () => void;
+}
+
+type ListField = 'features' | 'deliverables' | 'requirements';
+
+const CATEGORIES = [
+  { value: 'development', label: 'Development' },
+  { value: 'consulting', label: 'Consulting' },
+  { value: 'design', label: 'Design' },
+  { value: 'testing', label: 'Testing' }
+];
+
+const PRICING_MODELS = [
+  { value: 'fixed', label: 'Fixed price' },
+  { value: 'hourly', label: 'Hourly rate' },
+  { value: 'project', label: 'Per project' },
+  { value: 'retainer', label: 'Monthly retainer' },
+  { value: 'custom', label: 'Custom quote' }
+];
+
+const CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD'];
+
+const ServiceForm: React.FC<ServiceFormProps> = ({ service, onSubmit, onCancel }) => {
+  const [formData, setFormData] = useState({
+    title: '',
+    slug: '',
+    short_description: '',
+    detailed_description: '',
+    icon: '',
+    category: 'development',
+    features: [] as string[],
+    technologies: [] as string[],
+    pricing_model: 'project',
+    base_price: '',
+    currency: 'USD',
+    duration_estimate: '',
+    deliverables: [] as string[],
+    requirements: [] as string[],
+    published: false,
+    featured: false,
+    seo_title: '',
+    seo_description: ''
+  });
+
+  const [techInput, setTechInput] = useState('');
+  const [listInputs, setListInputs] = useState<Record<ListField, string>>({
+    features: '',
+    deliverables: '',
+    requirements: ''
+  });
+  const [loading, setLoading] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (service) {
+      setFormData({
+        title: service.title || '',
+        slug: service.slug || '',
+        short_description: service.short_description || '',
+        detailed_description: service.detailed_description || '',
+        icon: service.icon || '',
+        category: service.category || 'development',
+        features: service.features || [],
+        technologies: service.technologies || [],
+        pricing_model: service.pricing_model || 'project',
+        base_price: service.base_price != null ? String(service.base_price) : '',
+        currency: service.currency || 'USD',
+        duration_estimate: service.duration_estimate || '',
+        deliverables: service.deliverables || [],
+        requirements: service.requirements || [],
+        published: service.published || false,
+        featured: service.featured || false,
+        seo_title: service.seo_title || '',
+        seo_description: service.seo_description || ''
+      });
+    }
+  }, [service]);
+
+  const generateSlug = (title: string) => {
+    return title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target;
+
+    if (type === 'checkbox') {
+      const checked = (e.target as HTMLInputElement).checked;
+      setFormData(prev => ({ ...prev, [name]: checked }));
+    } else {
+      setFormData(prev => ({ ...prev, [name]: value }));
+
+      // Auto-generate slug from title
+      if (name === 'title' && !service) {
+        setFormData(prev => ({ ...prev, slug: generateSlug(value) }));
+      }
+    }
+
+    // Clear error when user starts typing
+    if (errors[name]) {
+      setErrors(prev => ({ ...prev, [name]: '' }));
+    }
+  };
+
+  const handleAddTechnology = () => {
+    if (techInput.trim() && !formData.technologies.includes(techInput.trim())) {
+      setFormData(prev => ({
+        ...prev,
+        technologies: [...prev.technologies, techInput.trim()]
+      }));
+      setTechInput('');
+    }
+  };
+
+  const handleRemoveTechnology = (tech: string) => {
+    setFormData(prev => ({
+      ...prev,
+      technologies: prev.technologies.filter(t => t !== tech)
+    }));
+  };
+
+  const handleAddListItem = (field: ListField) => {
+    const value = listInputs[field].trim();
+    if (!value || formData[field].includes(value)) return;
+
+    setFormData(prev => ({ ...prev, [field]: [...prev[field], value] }));
+    setListInputs(prev => ({ ...prev, [field]: '' }));
+
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const handleRemoveListItem = (field: ListField, index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      [field]: prev[field].filter((_, i) => i !== index)
+    }));
+  };
+
+  const handleMoveListItem = (field: ListField, index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= formData[field].length) return;
+
+    setFormData(prev => {
+      const items = [...prev[field]];
+      [items[index], items[target]] = [items[target], items[index]];
+      return { ...prev, [field]: items };
+    });
+  };
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!formData.title.trim()) {
+      newErrors.title = 'Title is required';
+    }
+
+    if (!formData.slug.trim()) {
+      newErrors.slug = 'Slug is required';
+    }
+
+    if (!formData.short_description.trim()) {
+      newErrors.short_description = 'Short description is required';
+    }
+
+    if (formData.features.length === 0) {
+      newErrors.features = 'Add at least one feature';
+    }
+
+    if (formData.base_price !== '' && (isNaN(Number(formData.base_price)) || Number(formData.base_price) < 0)) {
+      newErrors.base_price = 'Base price must be a positive number';
+    }
+
+    if (formData.seo_description && formData.seo_description.length > 160) {
+      newErrors.seo_description = 'SEO description should be under 160 characters';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await onSubmit({
+        ...formData,
+        base_price: formData.base_price === '' ? null : Number(formData.base_price)
+      });
+    } catch (error) {
+      console.error('Error submitting form:', error);
+      alert('Error saving service. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderListEditor = (field: ListField, label: string, placeholder: string) => (
+    <div className="form-group">
+      <label htmlFor={`${field}-input`}>{label}</label>
+      <div className="tech-input-group">
+        <input
+          type="text"
+          id={`${field}-input`}
+          value={listInputs[field]}
+          onChange={(e) => setListInputs(prev => ({ ...prev, [field]: e.target.value }))}
+          placeholder={placeholder}
+          onKeyPress={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAddListItem(field);
+            }
+          }}
+        />
+        <button type="button" onClick={() => handleAddListItem(field)} className="add-tech-btn">
+          Add
+        </button>
+      </div>
+      {formData[field].length > 0 && (
+        <ol className="service-list-items">
+          {formData[field].map((item, index) => (
+            <li key={`${item}-${index}`} className="service-list-item">
+              <span className="service-list-text">{item}</span>
+              <div className="screenshot-actions">
+                <button
+                  type="button"
+                  onClick={() => handleMoveListItem(field, index, -1)}
+                  disabled={index === 0}
+                  aria-label={`Move "${item}" up`}
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleMoveListItem(field, index, 1)}
+                  disabled={index === formData[field].length - 1}
+                  aria-label={`Move "${item}" down`}
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleRemoveListItem(field, index)}
+                  className="remove-screenshot"
+                  aria-label={`Remove "${item}"`}
+                >
+                  ×
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+      {errors[field] && <span className="error-message">{errors[field]}</span>}
+    </div>
+  );
+
+  return (
+    <div className="service-form">
+      <div className="form-header">
+        <h1>{service ? 'Edit Service' : 'Create New Service'}</h1>
+        <p>Describe what you offer and how it is priced</p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="form-content">
+        <div className="form-grid">
+          <div className="form-section main-content">
+            <h2>Service Details</h2>
+
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="title">Service Title *</label>
+                <input
+                  type="text"
+                  id="title"
+                  name="title"
+                  value={formData.title}
+                  onChange={handleInputChange}
+                  className={errors.title ? 'error' : ''}
+                  placeholder="Enter service title"
+                />
+                {errors.title && <span className="error-message">{errors.title}</span>}
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="slug">URL Slug *</label>
+                <input
+                  type="text"
+                  id="slug"
+                  name="slug"
+                  value={formData.slug}
+                  onChange={handleInputChange}
+                  className={errors.slug ? 'error' : ''}
+                  placeholder="service-url-slug"
+                />
+                {errors.slug && <span className="error-message">{errors.slug}</span>}
+              </div>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="short_description">Short Description *</label>
+              <textarea
+                id="short_description"
+                name="short_description"
+                value={formData.short_description}
+                onChange={handleInputChange}
+                className={errors.short_description ? 'error' : ''}
+                placeholder="Shown on the service card"
+                rows={3}
+              />
+              {errors.short_description && <span className="error-message">{errors.short_description}</span>}
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="detailed_description">Detailed Description</label>
+              <textarea
+                id="detailed_description"
+                name="detailed_description"
+                value={formData.detailed_description}
+                onChange={handleInputChange}
+                placeholder="Full description of the service"
+                rows={6}
+              />
+            </div>
+
+            {renderListEditor('features', 'Features *', "What's included (e.g., Gameplay prototyping)")}
+            {renderListEditor('deliverables', 'Deliverables', 'What the client receives (e.g., Playable build)')}
+            {renderListEditor('requirements', 'Requirements', 'What we need from the client (e.g., Design document)')}
+          </div>
+
+          <div className="form-section sidebar">
+            <h2>Settings</h2>
+
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="icon">Icon</label>
+                <input
+                  type="text"
+                  id="icon"
+                  name="icon"
+                  value={formData.icon}
+                  onChange={handleInputChange}
+                  placeholder="🎮"
+                  maxLength={4}
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="category">Category</label>
+                <select
+                  id="category"
+                  name="category"
+                  value={formData.category}
+                  onChange={handleInputChange}
+                >
+                  {CATEGORIES.map(cat => (
+                    <option key={cat.value} value={cat.value}>{cat.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <h3>Pricing</h3>
+
+            <div className="form-group">
+              <label htmlFor="pricing_model">Pricing Model</label>
+              <select
+                id="pricing_model"
+                name="pricing_model"
+                value={formData.pricing_model}
+                onChange={handleInputChange}
+              >
+                {PRICING_MODELS.map(model => (
+                  <option key={model.value} value={model.value}>{model.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="base_price">Base Price</label>
+                <input
+                  type="number"
+                  id="base_price"
+                  name="base_price"
+                  value={formData.base_price}
+                  onChange={handleInputChange}
+                  className={errors.base_price ? 'error' : ''}
+                  placeholder="5000"
+                  min="0"
+                  step="any"
+                />
+                {errors.base_price && <span className="error-message">{errors.base_price}</span>}
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="currency">Currency</label>
+                <select
+                  id="currency"
+                  name="currency"
+                  value={formData.currency}
+                  onChange={handleInputChange}
+                >
+                  {CURRENCIES.map(currency => (
+                    <option key={currency} value={currency}>{currency}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="duration_estimate">Duration Estimate</label>
+              <input
+                type="text"
+                id="duration_estimate"
+                name="duration_estimate"
+                value={formData.duration_estimate}
+                onChange={handleInputChange}
+                placeholder="4-8 weeks"
+              />
+            </div>
+
+            <div className="form-group">
+              <label>Technologies</label>
+              <div className="tech-input-group">
+                <input
+                  type="text"
+                  value={techInput}
+                  onChange={(e) => setTechInput(e.target.value)}
+                  placeholder="Add technology (e.g., Unity)"
+                  onKeyPress={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleAddTechnology();
+                    }
+                  }}
+                />
+                <button type="button" onClick={handleAddTechnology} className="add-tech-btn">
+                  Add
+                </button>
+              </div>
+              <div className="tech-tags">
+                {formData.technologies.map((tech, index) => (
+                  <span key={index} className="tech-tag">
+                    {tech}
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveTechnology(tech)}
+                      className="remove-tech"
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            <div className="checkbox-group">
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  name="featured"
+                  checked={formData.featured}
+                  onChange={handleInputChange}
+                />
+                <span className="checkbox-custom"></span>
+                Featured Service
+                <small>Highlight this service on the home page</small>
+              </label>
+
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  name="published"
+                  checked={formData.published}
+                  onChange={handleInputChange}
+                />
+                <span className="checkbox-custom"></span>
+                Published
+                <small>Make this service visible to the public</small>
+              </label>
+            </div>
+
+            <h3>SEO Settings</h3>
+
+            <div className="form-group">
+              <label htmlFor="seo_title">SEO Title</label>
+              <input
+                type="text"
+                id="seo_title"
+                name="seo_title"
+                value={formData.seo_title}
+                onChange={handleInputChange}
+                placeholder="SEO optimized title (optional)"
+                maxLength={60}
+              />
+              <small className="char-count">
+                {formData.seo_title.length}/60 characters
+              </small>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="seo_description">SEO Description</label>
+              <textarea
+                id="seo_description"
+                name="seo_description"
+                value={formData.seo_description}
+                onChange={handleInputChange}
+                className={errors.seo_description ? 'error' : ''}
+                placeholder="Brief description for search engines"
+                rows={3}
+                maxLength={160}
+              />
+              {errors.seo_description && <span className="error-message">{errors.seo_description}</span>}
+              <small className="char-count">
+                {formData.seo_description.length}/160 characters
+              </small>
+            </div>
+          </div>
+        </div>
+
+        <div className="form-actions">
+          <button type="button" onClick={onCancel} className="cancel-btn">
+            Cancel
+          </button>
+          <button type="submit" className="submit-btn" disabled={loading}>
+            {loading ? 'Saving...' : (service ? 'Update Service' : 'Create Service')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ServiceForm;
@@ -0,0 +1,388 @@
+import React, { useState, useEffect } from 'react';
+import SupabaseService from '../../services/SupabaseService';
+import ServiceForm from './ServiceForm';
+import ImportExportControls from './ImportExportControls';
+import type { Tables, TablesInsert } from '../../types/database';
+import './ServicesManager.css';
+
+type Service = Tables<'services'>;
+
+const formatPrice = (service: Service) => {
+  if (service.base_price == null) return service.pricing_model || '—';
+  const price = new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency: service.currency || 'USD',
+    maximumFractionDigits: 0
+  }).format(service.base_price);
+  return service.pricing_model ? `${price} · ${service.pricing_model}` : price;
+};
+
+const ServicesManager: React.FC = () => {
+  const [services, setServices] = useState<Service[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingService, setEditingService] = useState<Service | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filterStatus, setFilterStatus] = useState('all');
+  const [filterCategory, setFilterCategory] = useState('all');
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [savingOrder, setSavingOrder] = useState(false);
+
+  useEffect(() => {
+    loadServices();
+  }, []);
+
+  const loadServices = async () => {
+    try {
+      setLoading(true);
+      const data = await SupabaseService.getServices();
+      setServices(data || []);
+    } catch (error) {
+      console.error('Error loading services:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreateService = () => {
+    setEditingService(null);
+    setShowForm(true);
+  };
+
+  const handleEditService = (service: Service) => {
+    setEditingService(service);
+    setShowForm(true);
+  };
+
+  const handleDeleteService = async (serviceId: string) => {
+    if (!confirm('Are you sure you want to delete this service?')) return;
+
+    try {
+      await SupabaseService.deleteService(serviceId);
+      setServices(services.filter(s => s.id !== serviceId));
+    } catch (error) {
+      console.error('Error deleting service:', error);
+      alert('Error deleting service');
+    }
+  };
+
+  const handleToggle = async (service: Service, field: 'published' | 'featured') => {
+    try {
+      await SupabaseService.updateService(service.id, {
+        [field]: !service[field]
+      });
+
+      setServices(services.map(s =>
+        s.id === service.id ? { ...s, [field]: !s[field] } : s
+      ));
+    } catch (error) {
+      console.error('Error updating service:', error);
+      alert('Error updating service status');
+    }
+  };
+
+  const handleFormSubmit = async (serviceData: TablesInsert<'services'>) => {
+    try {
+      if (editingService) {
+        const updatedService = await SupabaseService.updateService(editingService.id, serviceData);
+        setServices(services.map(s =>
+          s.id === editingService.id ? { ...s, ...updatedService } : s
+        ));
+      } else {
+        // New services go to the end of the list
+        const lastPriority = services.reduce((max, s) => Math.max(max, s.order_priority || 0), 0);
+        const newService = await SupabaseService.createService({
+          ...serviceData,
+          order_priority: lastPriority + 1
+        });
+        setServices([...services, newService]);
+      }
+      setShowForm(false);
+      setEditingService(null);
+    } catch (error) {
+      console.error('Error saving service:', error);
+      throw error;
+    }
+  };
+
+  const saveOrder = async (reordered: Service[]) => {
+    const previous = services;
+    const current = Object.fromEntries(previous.map(s => [s.id, s.order_priority]));
+
+    setServices(reordered.map((s, index) => ({ ...s, order_priority: index + 1 })));
+    setSavingOrder(true);
+    try {
+      await SupabaseService.reorderServices(reordered.map(s => s.id), current);
+    } catch (error) {
+      console.error('Error saving service order:', error);
+      alert('Error saving service order');
+      setServices(previous);
+    } finally {
+      setSavingOrder(false);
+    }
+  };
+
+  const moveService = (fromId: string, toId: string) => {
+    const fromIndex = services.findIndex(s => s.id === fromId);
+    const toIndex = services.findIndex(s => s.id === toId);
+    if (fromIndex === -1 || toIndex === -1 || fromIndex === toIndex) return;
+
+    const reordered = [...services];
+    const [moved] = reordered.splice(fromIndex, 1);
+    reordered.splice(toIndex, 0, moved);
+    saveOrder(reordered);
+  };
+
+  const moveServiceBy = (service: Service, direction: -1 | 1) => {
+    const index = services.findIndex(s => s.id === service.id);
+    const target = services[index + direction];
+    if (target) moveService(service.id, target.id);
+  };
+
+  const filteredServices = services.filter(service => {
+    const matchesSearch = service.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         service.short_description.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesStatus = filterStatus === 'all' ||
+                         (filterStatus === 'published' && service.published) ||
+                         (filterStatus === 'draft' && !service.published);
+    const matchesCategory = filterCategory === 'all' || service.category === filterCategory;
+
+    return matchesSearch && matchesStatus && matchesCategory;
+  });
+
+  // Ordering a filtered subset would be ambiguous, so drag is only offered on the full list
+  const canReorder = filteredServices.length === services.length && !savingOrder;
+  const categories = [...new Set(services.map(s => s.category))];
+
+  if (loading) {
+    return (
+      <div className="services-manager loading">
+        <div className="loading-spinner"></div>
+        <p>Loading services...</p>
+      </div>
+    );
+  }
+
+  if (showForm) {
+    return (
+      <ServiceForm
+        service={editingService}
+        onSubmit={handleFormSubmit}
+        onCancel={() => {
+          setShowForm(false);
+          setEditingService(null);
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="services-manager">
+      <div className="manager-header">
+        <div className="header-left">
+          <h1>Services Management</h1>
+          <p>Manage the services listed on the site and their display order</p>
+        </div>
+        <div className="header-actions">
+          <ImportExportControls
+            entity="services"
+            rows={filteredServices}
+            existing={services}
+            onImported={loadServices}
+          />
+          <button className="create-btn" onClick={handleCreateService}>
+            <span className="btn-icon">➕</span>
+            New Service
+          </button>
+        </div>
+      </div>
+
+      <div className="manager-filters">
+        <div className="search-box">
+          <input
+            type="text"
+            placeholder="Search services..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="search-input"
+          />
+          <span className="search-icon">🔍</span>
+        </div>
+
+        <div className="filter-group">
+          <select
+            value={filterStatus}
+            onChange={(e) => setFilterStatus(e.target.value)}
+            className="filter-select"
+          >
+            <option value="all">All Status</option>
+            <option value="published">Published</option>
+            <option value="draft">Draft</option>
+          </select>
+
+          <select
+            value={filterCategory}
+            onChange={(e) => setFilterCategory(e.target.value)}
+            className="filter-select"
+          >
+            <option value="all">All Categories</option>
+            {categories.map(category => (
+              <option key={category} value={category}>{category}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="services-stats">
+        <div className="stat-item">
+          <span className="stat-value">{services.length}</span>
+          <span className="stat-label">Total</span>
+        </div>
+        <div className="stat-item">
+          <span className="stat-value">{services.filter(s => s.published).length}</span>
+          <span className="stat-label">Published</span>
+        </div>
+        <div className="stat-item">
+          <span className="stat-value">{services.filter(s => s.featured).length}</span>
+          <span className="stat-label">Featured</span>
+        </div>
+      </div>
+
+      <p className="reorder-hint">
+        {savingOrder
+          ? 'Saving order...'
+          : canReorder
+            ? 'Drag rows to change the order services appear on the site.'
+            : 'Clear search and filters to reorder services.'}
+      </p>
+
+      <div className="services-table">
+        {filteredServices.length === 0 ? (
+          <div className="empty-state">
+            <div className="empty-icon">🛠️</div>
+            <h3>No services found</h3>
+            <p>Get started by creating your first service</p>
+            <button className="create-btn" onClick={handleCreateService}>
+              Create Service
+            </button>
+          </div>
+        ) : (
+          <div className="table-wrapper">
+            <table>
+              <thead>
+                <tr>
+                  <th aria-label="Order"></th>
+                  <th>Service</th>
+                  <th>Category</th>
+                  <th>Pricing</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredServices.map((service, index) => (
+                  <tr
+                    key={service.id}
+                    className={draggedId === service.id ? 'dragging' : ''}
+                    draggable={canReorder}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDraggedId(service.id);
+                    }}
+                    onDragOver={(e) => {
+                      if (draggedId) e.preventDefault();
+                    }}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      if (draggedId) moveService(draggedId, service.id);
+                      setDraggedId(null);
+                    }}
+                    onDragEnd={() => setDraggedId(null)}
+                  >
+                    <td className="order-cell">
+                      <span className="drag-handle" aria-hidden="true">⋮⋮</span>
+                      <span className="order-number">{index + 1}</span>
+                      <div className="order-buttons">
+                        <button
+                          type="button"
+                          onClick={() => moveServiceBy(service, -1)}
+                          disabled={!canReorder || index === 0}
+                          aria-label={`Move ${service.title} up`}
+                        >
+                          ↑
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveServiceBy(service, 1)}
+                          disabled={!canReorder || index === filteredServices.length - 1}
+                          aria-label={`Move ${service.title} down`}
+                        >
+                          ↓
+                        </button>
+                      </div>
+                    </td>
+                    <td className="service-cell">
+                      <div className="service-info">
+                        <span className="service-icon" aria-hidden="true">{service.icon || '🎮'}</span>
+                        <div className="service-details">
+                          <h4 className="service-title">{service.title}</h4>
+                          <p className="service-description">
+                            {service.short_description.length > 80
+                              ? `${service.short_description.substring(0, 80)}...`
+                              : service.short_description}
+                          </p>
+                          <div className="project-badges">
+                            {service.featured && <span className="badge featured">Featured</span>}
+                            {service.published && <span className="badge published">Published</span>}
+                            {!service.published && <span className="badge draft">Draft</span>}
+                          </div>
+                        </div>
+                      </div>
+                    </td>
+                    <td>
+                      <span className="category-tag">{service.category}</span>
+                    </td>
+                    <td className="pricing-cell">{formatPrice(service)}</td>
+                    <td>
+                      <div className="action-buttons">
+                        <button
+                          className="action-btn edit"
+                          onClick={() => handleEditService(service)}
+                          title="Edit service"
+                        >
+                          ✏️
+                        </button>
+                        <button
+                          className={`action-btn toggle ${service.published ? 'published' : 'draft'}`}
+                          onClick={() => handleToggle(service, 'published')}
+                          title={service.published ? 'Unpublish' : 'Publish'}
+                        >
+                          {service.published ? '👁️' : '🚫'}
+                        </button>
+                        <button
+                          className={`action-btn toggle ${service.featured ? 'featured' : ''}`}
+                          onClick={() => handleToggle(service, 'featured')}
+                          title={service.featured ? 'Unfeature' : 'Feature'}
+                        >
+                          {service.featured ? '⭐' : '☆'}
+                        </button>
+                        <button
+                          className="action-btn delete"
+                          onClick={() => handleDeleteService(service.id)}
+                          title="Delete service"
+                        >
+                          🗑️
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ServicesManager;
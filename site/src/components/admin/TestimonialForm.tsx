@@ -0,0 +1,340 @@
+import React, { useState, useEffect } from 'react';
+import SupabaseService from '../../services/SupabaseService';
+import MediaPicker from './MediaPicker';
+import { MediaFile } from '../../types/media';
+import type { DatabaseProject, IDatabaseService } from '../../services/DatabaseService';
+import type { Tables, TablesInsert } from '../../types/database';
+import './TestimonialForm.css';
+
+interface TestimonialFormProps {
+  testimonial?: Tables<'testimonials'> | null;
+  onSubmit: (testimonialData: TablesInsert<'testimonials'>) => Promise<void>;
+  onCancel: () => void;
+}
+
+interface LinkOption {
+  id: string;
+  title: string;
+}
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+const TestimonialForm: React.FC<TestimonialFormProps> = ({ testimonial, onSubmit, onCancel }) => {
+  const [formData, setFormData] = useState({
+    name: '',
+    company: '',
+    position: '',
+    content: '',
+    rating: 5,
+    avatar_url: '',
+    project_id: '',
+    service_id: '',
+    published: false,
+    featured: false
+  });
+
+  const [loading, setLoading] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [showMediaPicker, setShowMediaPicker] = useState(false);
+  const [projects, setProjects] = useState<LinkOption[]>([]);
+  const [services, setServices] = useState<LinkOption[]>([]);
+
+  useEffect(() => {
+    if (testimonial) {
+      setFormData({
+        name: testimonial.name || '',
+        company: testimonial.company || '',
+        position: testimonial.position || '',
+        content: testimonial.content || '',
+        rating: testimonial.rating || 5,
+        avatar_url: testimonial.avatar_url || '',
+        project_id: testimonial.project_id || '',
+        service_id: testimonial.service_id || '',
+        published: testimonial.published || false,
+        featured: testimonial.featured || false
+      });
+    }
+  }, [testimonial]);
+
+  useEffect(() => {
+    loadLinkOptions();
+  }, []);
+
+  const loadLinkOptions = async () => {
+    // Linking is optional, so a failure here only leaves the selects empty
+    const [projectsResult, servicesResult] = await Promise.allSettled([
+      SupabaseService.getProjects(),
+      SupabaseService.getServices()
+    ]);
+
+    if (projectsResult.status === 'fulfilled') {
+      setProjects((projectsResult.value || []).map((p: Pick<DatabaseProject, 'id' | 'title'>) => ({ id: p.id, title: p.title })));
+    } else {
+      console.error('Error loading projects:', projectsResult.reason);
+    }
+
+    if (servicesResult.status === 'fulfilled') {
+      setServices((servicesResult.value || []).map((s: Pick<IDatabaseService, 'id' | 'title'>) => ({ id: s.id, title: s.title })));
+    } else {
+      console.error('Error loading services:', servicesResult.reason);
+    }
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target;
+
+    if (type === 'checkbox') {
+      const checked = (e.target as HTMLInputElement).checked;
+      setFormData(prev => ({ ...prev, [name]: checked }));
+    } else {
+      setFormData(prev => ({ ...prev, [name]: value }));
+    }
+
+    // Clear error when user starts typing
+    if (errors[name]) {
+      setErrors(prev => ({ ...prev, [name]: '' }));
+    }
+  };
+
+  const handleMediaSelected = (files: MediaFile[]) => {
+    const file = files[0];
+    if (!file) return;
+    setFormData(prev => ({ ...prev, avatar_url: file.file_path }));
+  };
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Name is required';
+    }
+
+    if (!formData.content.trim()) {
+      newErrors.content = 'Testimonial text is required';
+    }
+
+    if (formData.rating < 1 || formData.rating > 5) {
+      newErrors.rating = 'Rating must be between 1 and 5';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      // Empty strings would fail the uuid foreign keys
+      await onSubmit({
+        ...formData,
+        company: formData.company.trim() || null,
+        position: formData.position.trim() || null,
+        avatar_url: formData.avatar_url.trim() || null,
+        project_id: formData.project_id || null,
+        service_id: formData.service_id || null
+      });
+    } catch (error) {
+      console.error('Error submitting form:', error);
+      alert('Error saving testimonial. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="testimonial-form">
+      <div className="form-header">
+        <h1>{testimonial ? 'Edit Testimonial' : 'Create New Testimonial'}</h1>
+        <p>Collect and showcase client feedback</p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="form-content">
+        <div className="form-grid">
+          <div className="form-section main-content">
+            <h2>Testimonial</h2>
+
+            <div className="form-group">
+              <label htmlFor="name">Client Name *</label>
+              <input
+                type="text"
+                id="name"
+                name="name"
+                value={formData.name}
+                onChange={handleInputChange}
+                className={errors.name ? 'error' : ''}
+                placeholder="Jane Doe"
+              />
+              {errors.name && <span className="error-message">{errors.name}</span>}
+            </div>
+
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="position">Position</label>
+                <input
+                  type="text"
+                  id="position"
+                  name="position"
+                  value={formData.position}
+                  onChange={handleInputChange}
+                  placeholder="Head of Product"
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="company">Company</label>
+                <input
+                  type="text"
+                  id="company"
+                  name="company"
+                  value={formData.company}
+                  onChange={handleInputChange}
+                  placeholder="Company name"
+                />
+              </div>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="content">Testimonial *</label>
+              <textarea
+                id="content"
+                name="content"
+                value={formData.content}
+                onChange={handleInputChange}
+                className={errors.content ? 'error' : ''}
+                placeholder="What the client said about working with us"
+                rows={8}
+              />
+              {errors.content && <span className="error-message">{errors.content}</span>}
+            </div>
+
+            <div className="form-group">
+              <span className="form-label" id="rating-label">Rating *</span>
+              <div className="rating-input" role="radiogroup" aria-labelledby="rating-label">
+                {RATINGS.map(value => (
+                  <button
+                    key={value}
+                    type="button"
+                    role="radio"
+                    aria-checked={formData.rating === value}
+                    aria-label={`${value} star${value > 1 ? 's' : ''}`}
+                    className={`rating-star ${value <= formData.rating ? 'active' : ''}`}
+                    onClick={() => setFormData(prev => ({ ...prev, rating: value }))}
+                  >
+                    ★
+                  </button>
+                ))}
+                <span className="rating-value">{formData.rating}/5</span>
+              </div>
+              {errors.rating && <span className="error-message">{errors.rating}</span>}
+            </div>
+          </div>
+
+          <div className="form-section sidebar">
+            <h2>Details</h2>
+
+            <div className="form-group">
+              <label htmlFor="avatar_url">Avatar URL</label>
+              <div className="media-field">
+                <input
+                  type="url"
+                  id="avatar_url"
+                  name="avatar_url"
+                  value={formData.avatar_url}
+                  onChange={handleInputChange}
+                  placeholder="https://example.com/avatar.jpg"
+                />
+                <button type="button" onClick={() => setShowMediaPicker(true)} className="browse-media-btn">
+                  Browse
+                </button>
+              </div>
+              {formData.avatar_url && (
+                <img src={formData.avatar_url} alt="" className="testimonial-avatar-preview" />
+              )}
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="project_id">Linked Project</label>
+              <select
+                id="project_id"
+                name="project_id"
+                value={formData.project_id}
+                onChange={handleInputChange}
+              >
+                <option value="">None</option>
+                {projects.map(project => (
+                  <option key={project.id} value={project.id}>{project.title}</option>
+                ))}
+              </select>
+              <small className="form-help">Shown on the project's detail view</small>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="service_id">Linked Service</label>
+              <select
+                id="service_id"
+                name="service_id"
+                value={formData.service_id}
+                onChange={handleInputChange}
+              >
+                <option value="">None</option>
+                {services.map(service => (
+                  <option key={service.id} value={service.id}>{service.title}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="checkbox-group">
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  name="featured"
+                  checked={formData.featured}
+                  onChange={handleInputChange}
+                />
+                <span className="checkbox-custom"></span>
+                Featured Testimonial
+                <small>Show this testimonial first in the carousel</small>
+              </label>
+
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  name="published"
+                  checked={formData.published}
+                  onChange={handleInputChange}
+                />
+                <span className="checkbox-custom"></span>
+                Published
+                <small>Make this testimonial visible to the public</small>
+              </label>
+            </div>
+          </div>
+        </div>
+
+        <div className="form-actions">
+          <button type="button" onClick={onCancel} className="cancel-btn">
+            Cancel
+          </button>
+          <button type="submit" className="submit-btn" disabled={loading}>
+            {loading ? 'Saving...' : (testimonial ? 'Update Testimonial' : 'Create Testimonial')}
+          </button>
+        </div>
+      </form>
+
+      <MediaPicker
+        isOpen={showMediaPicker}
+        onClose={() => setShowMediaPicker(false)}
+        onSelect={handleMediaSelected}
+        title="Select Avatar"
+      />
+    </div>
+  );
+};
+
+export default TestimonialForm;
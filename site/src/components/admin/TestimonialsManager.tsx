@@ -0,0 +1,345 @@
+import React, { useState, useEffect } from 'react';
+import SupabaseService from '../../services/SupabaseService';
+import TestimonialForm from './TestimonialForm';
+import ImportExportControls from './ImportExportControls';
+import type { DatabaseProject, IDatabaseService } from '../../services/DatabaseService';
+import type { Tables, TablesInsert } from '../../types/database';
+import './TestimonialsManager.css';
+
+type Testimonial = Tables<'testimonials'>;
+
+const TestimonialsManager: React.FC = () => {
+  const [testimonials, setTestimonials] = useState<Testimonial[]>([]);
+  const [projectTitles, setProjectTitles] = useState<Record<string, string>>({});
+  const [serviceTitles, setServiceTitles] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingTestimonial, setEditingTestimonial] = useState<Testimonial | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filterStatus, setFilterStatus] = useState('all');
+  const [filterRating, setFilterRating] = useState('all');
+
+  useEffect(() => {
+    loadTestimonials();
+  }, []);
+
+  const loadTestimonials = async () => {
+    try {
+      setLoading(true);
+      const [data, projects, services] = await Promise.all([
+        SupabaseService.getTestimonials(),
+        SupabaseService.getProjects().catch(() => []),
+        SupabaseService.getServices().catch(() => [])
+      ]);
+      setTestimonials(data || []);
+      setProjectTitles(Object.fromEntries((projects || []).map((p: Pick<DatabaseProject, 'id' | 'title'>) => [p.id, p.title])));
+      setServiceTitles(Object.fromEntries((services || []).map((s: Pick<IDatabaseService, 'id' | 'title'>) => [s.id, s.title])));
+    } catch (error) {
+      console.error('Error loading testimonials:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreateTestimonial = () => {
+    setEditingTestimonial(null);
+    setShowForm(true);
+  };
+
+  const handleEditTestimonial = (testimonial: Testimonial) => {
+    setEditingTestimonial(testimonial);
+    setShowForm(true);
+  };
+
+  const handleDeleteTestimonial = async (testimonialId: string) => {
+    if (!confirm('Are you sure you want to delete this testimonial?')) return;
+
+    try {
+      await SupabaseService.deleteTestimonial(testimonialId);
+      setTestimonials(testimonials.filter(t => t.id !== testimonialId));
+    } catch (error) {
+      console.error('Error deleting testimonial:', error);
+      alert('Error deleting testimonial');
+    }
+  };
+
+  const handleToggle = async (testimonial: Testimonial, field: 'published' | 'featured') => {
+    try {
+      await SupabaseService.updateTestimonial(testimonial.id, {
+        [field]: !testimonial[field]
+      });
+
+      setTestimonials(testimonials.map(t =>
+        t.id === testimonial.id ? { ...t, [field]: !t[field] } : t
+      ));
+    } catch (error) {
+      console.error('Error updating testimonial:', error);
+      alert('Error updating testimonial status');
+    }
+  };
+
+  const handleFormSubmit = async (testimonialData: TablesInsert<'testimonials'>) => {
+    try {
+      if (editingTestimonial) {
+        const updatedTestimonial = await SupabaseService.updateTestimonial(editingTestimonial.id, testimonialData);
+        setTestimonials(testimonials.map(t =>
+          t.id === editingTestimonial.id ? { ...t, ...updatedTestimonial } : t
+        ));
+      } else {
+        const newTestimonial = await SupabaseService.createTestimonial(testimonialData);
+        setTestimonials([newTestimonial, ...testimonials]);
+      }
+      setShowForm(false);
+      setEditingTestimonial(null);
+    } catch (error) {
+      console.error('Error saving testimonial:', error);
+      throw error;
+    }
+  };
+
+  const filteredTestimonials = testimonials.filter(testimonial => {
+    const search = searchTerm.toLowerCase();
+    const matchesSearch = testimonial.name.toLowerCase().includes(search) ||
+                         (testimonial.company || '').toLowerCase().includes(search) ||
+                         testimonial.content.toLowerCase().includes(search);
+    const matchesStatus = filterStatus === 'all' ||
+                         (filterStatus === 'published' && testimonial.published) ||
+                         (filterStatus === 'draft' && !testimonial.published) ||
+                         (filterStatus === 'featured' && testimonial.featured);
+    const matchesRating = filterRating === 'all' || testimonial.rating === Number(filterRating);
+
+    return matchesSearch && matchesStatus && matchesRating;
+  });
+
+  const averageRating = testimonials.length > 0
+    ? (testimonials.reduce((sum, t) => sum + (t.rating || 0), 0) / testimonials.length).toFixed(1)
+    : '–';
+
+  const renderStars = (rating: number) => {
+    const value = Math.max(0, Math.min(5, Math.round(rating || 0)));
+    return (
+      <span className="rating-stars" title={`${value} out of 5`}>
+        {'★'.repeat(value)}
+        <span className="rating-stars-empty">{'★'.repeat(5 - value)}</span>
+      </span>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="testimonials-manager loading">
+        <div className="loading-spinner"></div>
+        <p>Loading testimonials...</p>
+      </div>
+    );
+  }
+
+  if (showForm) {
+    return (
+      <TestimonialForm
+        testimonial={editingTestimonial}
+        onSubmit={handleFormSubmit}
+        onCancel={() => {
+          setShowForm(false);
+          setEditingTestimonial(null);
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="testimonials-manager">
+      <div className="manager-header">
+        <div className="header-left">
+          <h1>Testimonials Management</h1>
+          <p>Manage client feedback shown on the site</p>
+        </div>
+        <div className="header-actions">
+          <ImportExportControls
+            entity="testimonials"
+            rows={filteredTestimonials}
+            existing={testimonials}
+            onImported={loadTestimonials}
+          />
+          <button className="create-btn" onClick={handleCreateTestimonial}>
+            <span className="btn-icon">➕</span>
+            New Testimonial
+          </button>
+        </div>
+      </div>
+
+      <div className="manager-filters">
+        <div className="search-box">
+          <input
+            type="text"
+            placeholder="Search testimonials..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="search-input"
+          />
+          <span className="search-icon">🔍</span>
+        </div>
+
+        <div className="filter-group">
+          <select
+            value={filterStatus}
+            onChange={(e) => setFilterStatus(e.target.value)}
+            className="filter-select"
+          >
+            <option value="all">All Status</option>
+            <option value="published">Published</option>
+            <option value="draft">Draft</option>
+            <option value="featured">Featured</option>
+          </select>
+
+          <select
+            value={filterRating}
+            onChange={(e) => setFilterRating(e.target.value)}
+            className="filter-select"
+          >
+            <option value="all">All Ratings</option>
+            {[5, 4, 3, 2, 1].map(rating => (
+              <option key={rating} value={rating}>{rating} star{rating > 1 ? 's' : ''}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="testimonials-stats">
+        <div className="stat-item">
+          <span className="stat-value">{testimonials.length}</span>
+          <span className="stat-label">Total</span>
+        </div>
+        <div className="stat-item">
+          <span className="stat-value">{testimonials.filter(t => t.published).length}</span>
+          <span className="stat-label">Published</span>
+        </div>
+        <div className="stat-item">
+          <span className="stat-value">{testimonials.filter(t => t.featured).length}</span>
+          <span className="stat-label">Featured</span>
+        </div>
+        <div className="stat-item">
+          <span className="stat-value">{averageRating}</span>
+          <span className="stat-label">Avg. Rating</span>
+        </div>
+      </div>
+
+      <div className="testimonials-table">
+        {filteredTestimonials.length === 0 ? (
+          <div className="empty-state">
+            <div className="empty-icon">💬</div>
+            <h3>No testimonials found</h3>
+            <p>Add feedback from your clients to show it on the site</p>
+            <button className="create-btn" onClick={handleCreateTestimonial}>
+              Create Testimonial
+            </button>
+          </div>
+        ) : (
+          <div className="table-wrapper">
+            <table>
+              <thead>
+                <tr>
+                  <th>Client</th>
+                  <th>Rating</th>
+                  <th>Linked To</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredTestimonials.map((testimonial) => (
+                  <tr key={testimonial.id}>
+                    <td className="testimonial-cell">
+                      <div className="testimonial-info">
+                        {testimonial.avatar_url ? (
+                          <img
+                            src={testimonial.avatar_url}
+                            alt=""
+                            className="testimonial-avatar"
+                          />
+                        ) : (
+                          <div className="testimonial-avatar placeholder">
+                            {testimonial.name.charAt(0).toUpperCase()}
+                          </div>
+                        )}
+                        <div className="testimonial-details">
+                          <h4 className="testimonial-name">{testimonial.name}</h4>
+                          {(testimonial.position || testimonial.company) && (
+                            <p className="testimonial-role">
+                              {[testimonial.position, testimonial.company].filter(Boolean).join(', ')}
+                            </p>
+                          )}
+                          <p className="testimonial-excerpt">
+                            {testimonial.content.length > 100
+                              ? `${testimonial.content.substring(0, 100)}...`
+                              : testimonial.content}
+                          </p>
+                          <div className="project-badges">
+                            {testimonial.featured && <span className="badge featured">Featured</span>}
+                            {testimonial.published && <span className="badge published">Published</span>}
+                            {!testimonial.published && <span className="badge draft">Draft</span>}
+                          </div>
+                        </div>
+                      </div>
+                    </td>
+                    <td>{renderStars(testimonial.rating)}</td>
+                    <td className="links-cell">
+                      <div className="testimonial-links">
+                        {testimonial.project_id && (
+                          <span className="category-tag">
+                            📁 {projectTitles[testimonial.project_id] || 'Unknown project'}
+                          </span>
+                        )}
+                        {testimonial.service_id && (
+                          <span className="category-tag">
+                            🛠️ {serviceTitles[testimonial.service_id] || 'Unknown service'}
+                          </span>
+                        )}
+                        {!testimonial.project_id && !testimonial.service_id && (
+                          <span className="no-link">—</span>
+                        )}
+                      </div>
+                    </td>
+                    <td>
+                      <div className="action-buttons">
+                        <button
+                          className="action-btn edit"
+                          onClick={() => handleEditTestimonial(testimonial)}
+                          title="Edit testimonial"
+                        >
+                          ✏️
+                        </button>
+                        <button
+                          className={`action-btn toggle ${testimonial.published ? 'published' : 'draft'}`}
+                          onClick={() => handleToggle(testimonial, 'published')}
+                          title={testimonial.published ? 'Unpublish' : 'Publish'}
+                        >
+                          {testimonial.published ? '👁️' : '🚫'}
+                        </button>
+                        <button
+                          className={`action-btn toggle ${testimonial.featured ? 'featured' : ''}`}
+                          onClick={() => handleToggle(testimonial, 'featured')}
+                          title={testimonial.featured ? 'Unfeature' : 'Feature'}
+                        >
+                          {testimonial.featured ? '⭐' : '☆'}
+                        </button>
+                        <button
+                          className="action-btn delete"
+                          onClick={() => handleDeleteTestimonial(testimonial.id)}
+                          title="Delete testimonial"
+                        >
+                          🗑️
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TestimonialsManager;
@@ -0,0 +1,208 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import TrashService, { TRASH_CONFIG, TrashItem, TrashTable } from '../../services/TrashService';
+import { useAuth } from '../../hooks/useAuth';
+import './TrashPanel.css';
+
+interface TrashPanelProps {
+  table: TrashTable;
+  title: string;
+  // Called when leaving the trash; managers reload so restored items reappear
+  onBack: () => void;
+  // Extra check before an item is deleted for good; return false to cancel
+  confirmPurge?: (item: TrashItem) => Promise<boolean>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TrashPanel: React.FC<TrashPanelProps> = ({ table, title, onBack, confirmPurge }) => {
+  const { user } = useAuth();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [retentionDays, setRetentionDays] = useState<number>(TRASH_CONFIG.defaultRetentionDays);
+  const [retentionInput, setRetentionInput] = useState(String(TRASH_CONFIG.defaultRetentionDays));
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [emptying, setEmptying] = useState(false);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [trash, days] = await Promise.all([
+        TrashService.getTrash(table),
+        TrashService.getRetentionDays()
+      ]);
+      setItems(trash);
+      setRetentionDays(days);
+      setRetentionInput(String(days));
+    } catch (error) {
+      console.error('Error loading trash:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [table]);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      setBusyId(item.id);
+      await TrashService.restore(table, item.id);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+    } catch (error) {
+      console.error('Error restoring item:', error);
+      alert('Error restoring item');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    const confirmed = confirmPurge
+      ? await confirmPurge(item)
+      : confirm(`Permanently delete "${item.label}"? This cannot be undone.`);
+    if (!confirmed) return;
+
+    try {
+      setBusyId(item.id);
+      // A confirmPurge callback has already checked the item and asked the admin
+      await TrashService.purge(table, item, { force: !!confirmPurge });
+      setItems(prev => prev.filter(i => i.id !== item.id));
+    } catch (error) {
+      console.error('Error deleting item permanently:', error);
+      alert('Error deleting item');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!confirm(`Permanently delete all ${items.length} items in the trash? This cannot be undone.`)) return;
+
+    setEmptying(true);
+    const failed: string[] = [];
+    for (const item of items) {
+      try {
+        await TrashService.purge(table, item);
+        setItems(prev => prev.filter(i => i.id !== item.id));
+      } catch (error) {
+        console.error('Error deleting item permanently:', error);
+        failed.push(error instanceof Error ? `${item.label} (${error.message})` : item.label);
+      }
+    }
+    setEmptying(false);
+
+    if (failed.length > 0) {
+      alert(`Could not delete:\n${failed.join('\n')}`);
+    }
+  };
+
+  const handleRetentionSave = async () => {
+    const days = Number(retentionInput);
+    if (!Number.isFinite(days) || days === retentionDays) {
+      setRetentionInput(String(retentionDays));
+      return;
+    }
+
+    try {
+      const saved = await TrashService.setRetentionDays(days, user?.id);
+      setRetentionDays(saved);
+      setRetentionInput(String(saved));
+    } catch (error) {
+      console.error('Error saving retention period:', error);
+      alert('Error saving retention period');
+      setRetentionInput(String(retentionDays));
+    }
+  };
+
+  const daysLeft = (item: TrashItem) =>
+    Math.max(0, Math.ceil((TrashService.getPurgeDate(item.deleted_at, retentionDays).getTime() - Date.now()) / DAY_MS));
+
+  return (
+    <div className="trash-panel">
+      <div className="manager-header">
+        <div className="header-left">
+          <h1>{title} Trash</h1>
+          <p>Restore deleted items or remove them for good</p>
+        </div>
+        <button className="trash-back-btn" onClick={onBack}>
+          ← Back to {title}
+        </button>
+      </div>
+
+      <div className="trash-toolbar">
+        <label className="trash-retention">
+          Delete items automatically after
+          <input
+            type="number"
+            min={TRASH_CONFIG.minRetentionDays}
+            max={TRASH_CONFIG.maxRetentionDays}
+            value={retentionInput}
+            onChange={(e) => setRetentionInput(e.target.value)}
+            onBlur={handleRetentionSave}
+            onKeyDown={(e) => e.key === 'Enter' && handleRetentionSave()}
+          />
+          days
+        </label>
+        <button
+          className="empty-trash-btn"
+          onClick={handleEmptyTrash}
+          disabled={items.length === 0 || emptying}
+        >
+          {emptying ? 'Emptying...' : 'Empty Trash'}
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="trash-empty">
+          <div className="loading-spinner"></div>
+          <p>Loading trash...</p>
+        </div>
+      ) : items.length === 0 ? (
+        <div className="trash-empty">
+          <div className="empty-icon">🗑️</div>
+          <h3>Trash is empty</h3>
+          <p>Deleted {title.toLowerCase()} show up here until they are purged</p>
+        </div>
+      ) : (
+        <ul className="trash-list">
+          {items.map(item => {
+            const remaining = daysLeft(item);
+            return (
+              <li key={item.id} className="trash-item">
+                <div className="trash-item-info">
+                  <strong title={item.label}>{item.label}</strong>
+                  {item.detail && <span className="trash-item-detail">{item.detail}</span>}
+                  <span className="trash-item-meta">
+                    Deleted {new Date(item.deleted_at).toLocaleString()} ·{' '}
+                    <span className={remaining <= 3 ? 'expiring' : ''}>
+                      {remaining === 0 ? 'purged on next cleanup' : `purged in ${remaining} day${remaining === 1 ? '' : 's'}`}
+                    </span>
+                  </span>
+                </div>
+                <div className="trash-item-actions">
+                  <button
+                    className="restore-btn"
+                    onClick={() => handleRestore(item)}
+                    disabled={busyId === item.id || emptying}
+                  >
+                    Restore
+                  </button>
+                  <button
+                    className="purge-btn"
+                    onClick={() => handlePurge(item)}
+                    disabled={busyId === item.id || emptying}
+                  >
+                    Delete Forever
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TrashPanel;
@@ -0,0 +1,446 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import UserProfileService from '../../services/UserProfileService';
+import { useAuth } from '../../hooks/useAuth';
+import Pagination from '../ui/Pagination';
+import {
+  AuthProvider,
+  PROFILE_COMPLETION_REQUIREMENTS,
+  UserProfile,
+  UserRole
+} from '../../types/profile';
+import './UsersManager.css';
+
+const PAGE_SIZE = 20;
+const ROLES: UserRole[] = ['admin', 'client', 'user'];
+const PROVIDERS: AuthProvider[] = ['google', 'email', 'github', 'facebook'];
+
+interface ActivitySummary {
+  loginCount: number;
+  lastLogin?: string;
+  profileCompleted: boolean;
+  completionDate?: string;
+}
+
+interface ProfileStats {
+  total_users: number;
+  verified_users: number;
+  completed_profiles: number;
+  recent_signups: number;
+}
+
+const formatDate = (value?: string) => value ? new Date(value).toLocaleString() : 'Never';
+
+const getCompletion = (profile: UserProfile) => {
+  const { required_fields, optional_fields } = PROFILE_COMPLETION_REQUIREMENTS;
+  const fields = [...required_fields, ...optional_fields];
+  const filled = fields.filter(field => Boolean(profile[field]));
+  return {
+    percentage: Math.round((filled.length / fields.length) * 100),
+    missingRequired: required_fields.filter(field => !profile[field])
+  };
+};
+
+const UsersManager: React.FC = () => {
+  const { user: currentUser } = useAuth();
+  const [profiles, setProfiles] = useState<UserProfile[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [stats, setStats] = useState<ProfileStats | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [filterRole, setFilterRole] = useState<'all' | UserRole>('all');
+  const [filterProvider, setFilterProvider] = useState<'all' | AuthProvider>('all');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [selectedProfile, setSelectedProfile] = useState<UserProfile | null>(null);
+  const [activity, setActivity] = useState<ActivitySummary | null>(null);
+  const [detailLoading, setDetailLoading] = useState(false);
+  const [pendingRole, setPendingRole] = useState<UserRole | null>(null);
+  const [roleSaving, setRoleSaving] = useState(false);
+  const [creatingProfiles, setCreatingProfiles] = useState(false);
+
+  // Avoid a search RPC per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [debouncedSearch, filterRole, filterProvider]);
+
+  const loadProfiles = useCallback(async () => {
+    setLoading(true);
+    const result = await UserProfileService.searchProfiles({
+      query: debouncedSearch,
+      role: filterRole === 'all' ? undefined : filterRole,
+      provider: filterProvider === 'all' ? undefined : filterProvider,
+      limit: PAGE_SIZE,
+      offset: (currentPage - 1) * PAGE_SIZE
+    });
+
+    setProfiles(result.profiles);
+    setTotalCount(result.total_count);
+    setLoadError(result.error || null);
+    setLoading(false);
+  }, [debouncedSearch, filterRole, filterProvider, currentPage]);
+
+  const loadStats = useCallback(async () => {
+    const analytics = await UserProfileService.getProfileAnalytics();
+    if (!analytics.error) {
+      setStats(analytics);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  const openProfile = async (profile: UserProfile) => {
+    setSelectedProfile(profile);
+    setActivity(null);
+    setPendingRole(null);
+    setDetailLoading(true);
+
+    const result = await UserProfileService.getDetailedProfile(profile.id);
+    if (result.profile) {
+      setSelectedProfile(result.profile);
+      setActivity(result.activitySummary || null);
+    } else if (result.error) {
+      console.error('Error loading profile details:', result.error);
+    }
+    setDetailLoading(false);
+  };
+
+  const closeDrawer = () => {
+    setSelectedProfile(null);
+    setActivity(null);
+    setPendingRole(null);
+  };
+
+  const handleConfirmRoleChange = async () => {
+    if (!selectedProfile || !pendingRole) return;
+
+    setRoleSaving(true);
+    const result = await UserProfileService.updateUserRole(selectedProfile.id, pendingRole, currentUser?.id);
+    setRoleSaving(false);
+
+    if (!result.success) {
+      alert(`Error changing role: ${result.error || 'Unknown error'}`);
+      return;
+    }
+
+    const updated = { ...selectedProfile, role: pendingRole };
+    setSelectedProfile(updated);
+    setProfiles(prev => prev.map(p => p.id === updated.id ? updated : p));
+    setPendingRole(null);
+  };
+
+  const handleCreateMissingProfiles = async () => {
+    if (!confirm('Create profiles for every auth user that does not have one yet?')) return;
+
+    setCreatingProfiles(true);
+    const result = await UserProfileService.createMissingProfiles();
+    setCreatingProfiles(false);
+
+    const summary = [
+      result.message,
+      `Created: ${result.created}`,
+      `Errors: ${result.errors}`,
+      ...result.details.slice(0, 5)
+    ].filter(Boolean).join('\n');
+    alert(summary);
+
+    if (result.created > 0) {
+      loadProfiles();
+      loadStats();
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+  const isSelf = selectedProfile?.id === currentUser?.id;
+  const completion = selectedProfile ? getCompletion(selectedProfile) : null;
+
+  return (
+    <div className="users-manager">
+      <div className="manager-header">
+        <div className="header-left">
+          <h1>Users</h1>
+          <p>Manage user profiles and roles</p>
+        </div>
+        <button
+          className="create-btn"
+          onClick={handleCreateMissingProfiles}
+          disabled={creatingProfiles}
+          title="Create profiles for auth users without one"
+        >
+          <span className="btn-icon">🩹</span>
+          {creatingProfiles ? 'Creating...' : 'Create Missing Profiles'}
+        </button>
+      </div>
+
+      <div className="manager-filters">
+        <div className="search-box">
+          <input
+            type="text"
+            placeholder="Search by name, email or company..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="search-input"
+          />
+          <span className="search-icon">🔍</span>
+        </div>
+
+        <div className="filter-group">
+          <select
+            value={filterRole}
+            onChange={(e) => setFilterRole(e.target.value as 'all' | UserRole)}
+            className="filter-select"
+          >
+            <option value="all">All Roles</option>
+            {ROLES.map(role => (
+              <option key={role} value={role}>{role.charAt(0).toUpperCase() + role.slice(1)}</option>
+            ))}
+          </select>
+
+          <select
+            value={filterProvider}
+            onChange={(e) => setFilterProvider(e.target.value as 'all' | AuthProvider)}
+            className="filter-select"
+          >
+            <option value="all">All Providers</option>
+            {PROVIDERS.map(provider => (
+              <option key={provider} value={provider}>{provider.charAt(0).toUpperCase() + provider.slice(1)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {stats && (
+        <div className="users-stats">
+          <div className="stat-item">
+            <span className="stat-value">{stats.total_users}</span>
+            <span className="stat-label">Total Users</span>
+          </div>
+          <div className="stat-item">
+            <span className="stat-value">{stats.verified_users}</span>
+            <span className="stat-label">Verified</span>
+          </div>
+          <div className="stat-item">
+            <span className="stat-value">{stats.completed_profiles}</span>
+            <span className="stat-label">Completed Profiles</span>
+          </div>
+          <div className="stat-item">
+            <span className="stat-value">{stats.recent_signups}</span>
+            <span className="stat-label">Recent Signups</span>
+          </div>
+        </div>
+      )}
+
+      <div className="users-table">
+        {loading ? (
+          <div className="users-loading">
+            <div className="loading-spinner"></div>
+            <p>Loading users...</p>
+          </div>
+        ) : loadError ? (
+          <div className="empty-state">
+            <div className="empty-icon">⚠️</div>
+            <h3>Could not load users</h3>
+            <p>{loadError}</p>
+            <button className="create-btn" onClick={loadProfiles}>Try Again</button>
+          </div>
+        ) : profiles.length === 0 ? (
+          <div className="empty-state">
+            <div className="empty-icon">👥</div>
+            <h3>No users found</h3>
+            <p>Try a different search or filter</p>
+          </div>
+        ) : (
+          <div className="table-wrapper">
+            <table>
+              <thead>
+                <tr>
+                  <th>User</th>
+                  <th>Role</th>
+                  <th>Provider</th>
+                  <th>Profile</th>
+                  <th>Logins</th>
+                  <th>Last Login</th>
+                </tr>
+              </thead>
+              <tbody>
+                {profiles.map(profile => (
+                  <tr
+                    key={profile.id}
+                    className={selectedProfile?.id === profile.id ? 'selected' : ''}
+                    onClick={() => openProfile(profile)}
+                  >
+                    <td className="user-cell">
+                      <div className="user-info">
+                        {profile.avatar_url ? (
+                          <img src={profile.avatar_url} alt="" className="user-avatar" />
+                        ) : (
+                          <div className="user-avatar placeholder">
+                            {(profile.full_name || profile.email).charAt(0).toUpperCase()}
+                          </div>
+                        )}
+                        <div className="user-details">
+                          <button
+                            type="button"
+                            className="user-name"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              openProfile(profile);
+                            }}
+                          >
+                            {profile.full_name || 'Unnamed user'}
+                          </button>
+                          <span className="user-email">{profile.email}</span>
+                        </div>
+                      </div>
+                    </td>
+                    <td><span className={`role-badge ${profile.role}`}>{profile.role}</span></td>
+                    <td className="provider-cell">{profile.provider}</td>
+                    <td>
+                      <span className={`badge ${profile.profile_completed ? 'published' : 'draft'}`}>
+                        {profile.profile_completed ? 'Complete' : 'Incomplete'}
+                      </span>
+                    </td>
+                    <td>{profile.login_count || 0}</td>
+                    <td className="date-cell">{formatDate(profile.last_login_at)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {totalPages > 1 && (
+        <Pagination
+          currentPage={currentPage}
+          totalPages={totalPages}
+          itemsPerPage={PAGE_SIZE}
+          totalItems={totalCount}
+          onPageChange={setCurrentPage}
+          isLoading={loading}
+        />
+      )}
+
+      {selectedProfile && (
+        <>
+          <div className="drawer-overlay" onClick={closeDrawer} />
+          <aside className="user-drawer" aria-label="User details">
+            <div className="details-header">
+              <h2>User Details</h2>
+              <button className="close-btn" onClick={closeDrawer} aria-label="Close user details">×</button>
+            </div>
+
+            <div className="drawer-content">
+              <div className="drawer-profile">
+                {selectedProfile.avatar_url ? (
+                  <img src={selectedProfile.avatar_url} alt="" className="user-avatar large" />
+                ) : (
+                  <div className="user-avatar large placeholder">
+                    {(selectedProfile.full_name || selectedProfile.email).charAt(0).toUpperCase()}
+                  </div>
+                )}
+                <div>
+                  <h3>{selectedProfile.full_name || 'Unnamed user'}</h3>
+                  <p>{selectedProfile.email}</p>
+                  {selectedProfile.company && <p className="user-company">{selectedProfile.company}</p>}
+                </div>
+              </div>
+
+              <section className="drawer-section">
+                <h4>Login History</h4>
+                {detailLoading ? (
+                  <p className="muted">Loading...</p>
+                ) : (
+                  <dl className="detail-list">
+                    <dt>Logins</dt>
+                    <dd>{activity?.loginCount ?? selectedProfile.login_count ?? 0}</dd>
+                    <dt>Last login</dt>
+                    <dd>{formatDate(activity?.lastLogin ?? selectedProfile.last_login_at)}</dd>
+                    <dt>Signed up</dt>
+                    <dd>{formatDate(selectedProfile.created_at)}</dd>
+                    <dt>Provider</dt>
+                    <dd className="provider-cell">{selectedProfile.provider}</dd>
+                  </dl>
+                )}
+              </section>
+
+              {completion && (
+                <section className="drawer-section">
+                  <h4>Profile Completion</h4>
+                  <div className="completion-bar">
+                    <div className="completion-fill" style={{ width: `${completion.percentage}%` }} />
+                  </div>
+                  <p className="completion-text">
+                    {completion.percentage}% filled in ·{' '}
+                    {selectedProfile.profile_completed
+                      ? `completed ${activity?.completionDate ? new Date(activity.completionDate).toLocaleDateString() : ''}`
+                      : 'not completed'}
+                  </p>
+                  {completion.missingRequired.length > 0 && (
+                    <p className="muted">Missing required: {completion.missingRequired.join(', ')}</p>
+                  )}
+                  <p className="muted">
+                    {selectedProfile.is_verified ? '✅ Email verified' : '⚠️ Email not verified'}
+                    {!selectedProfile.is_active && ' · Account inactive'}
+                  </p>
+                </section>
+              )}
+
+              <section className="drawer-section">
+                <h4>Role</h4>
+                {isSelf ? (
+                  <p className="muted">You can't change your own role.</p>
+                ) : pendingRole ? (
+                  <div className="role-confirm">
+                    <p>
+                      Change <strong>{selectedProfile.full_name || selectedProfile.email}</strong> from{' '}
+                      <span className={`role-badge ${selectedProfile.role}`}>{selectedProfile.role}</span> to{' '}
+                      <span className={`role-badge ${pendingRole}`}>{pendingRole}</span>?
+                    </p>
+                    {pendingRole === 'admin' && (
+                      <p className="role-warning">Admins have full access to all content, users and settings.</p>
+                    )}
+                    <div className="details-actions">
+                      <button className="cancel-btn" onClick={() => setPendingRole(null)} disabled={roleSaving}>
+                        Cancel
+                      </button>
+                      <button className="confirm-btn" onClick={handleConfirmRoleChange} disabled={roleSaving}>
+                        {roleSaving ? 'Saving...' : 'Confirm Change'}
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="role-options">
+                    {ROLES.map(role => (
+                      <button
+                        key={role}
+                        className={`role-option ${selectedProfile.role === role ? 'current' : ''}`}
+                        onClick={() => setPendingRole(role)}
+                        disabled={selectedProfile.role === role}
+                      >
+                        {role}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </section>
+            </div>
+          </aside>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default UsersManager;
@@ -3,6 +3,7 @@ import { useEffect, useState, useRef } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../../hooks/useAuth';
 import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { consumeReturnPath } from '../../utils/authRedirect';
 import './ProtectedRoute.css';
 
 const OAuthCallback = () => {
@@ -42,10 +43,8 @@ const OAuthCallback = () => {
                 
                 if (result.success) {
                     setStatus('success');
-                    console.log('OAuth callback successful, redirecting to home...');
-                    
                     // Redirect immediately to avoid hanging on callback page
-                    navigate('/', { replace: true });
+                    navigate(consumeReturnPath(), { replace: true });
                 } else {
                     setStatus('error');
                     setErrorMessage(result.error || 'Authentication failed');
@@ -87,7 +86,7 @@ const OAuthCallback = () => {
                 <div className="protected-route__container">
                     <h2 className="protected-route__title">✅ Sign In Successful!</h2>
                     <p className="protected-route__message">
-                        Welcome to Gaming Dronzz! Redirecting you to the homepage...
+                        Welcome to Gaming Dronzz! Redirecting you now...
                     </p>
                 </div>
             </div>
@@ -1,25 +1,134 @@
-// components/auth/ProtectedRoute.tsx - Non-functional (UI only)
-import { ReactNode } from 'react';
+// components/auth/ProtectedRoute.tsx - Route guards for authenticated, admin, client and profile-gated pages
+import { ReactNode, useEffect } from 'react';
+import { Link, Navigate, useLocation } from 'react-router-dom';
+import { useAuth } from '../../hooks/useAuth';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { buildSignInPath } from '../../utils/authRedirect';
+import { PROFILE_COMPLETION_REQUIREMENTS, UserProfile } from '../../types/profile';
 import './ProtectedRoute.css';
 
 interface ProtectedRouteProps {
     children: ReactNode;
     requireAdmin?: boolean;
+    requireClient?: boolean;
     requireProfileCompletion?: boolean;
     minCompletionPercentage?: number;
     fallback?: ReactNode;
     profileIncompleteCallback?: () => void;
 }
 
-const ProtectedRoute = ({ 
-    children, 
-    requireAdmin: _requireAdmin = false, 
-    requireProfileCompletion: _requireProfileCompletion = false,
-    minCompletionPercentage: _minCompletionPercentage = 60,
-    fallback: _fallback = null,
-    profileIncompleteCallback: _profileIncompleteCallback
+const FIELD_LABELS: Partial<Record<keyof UserProfile, string>> = {
+    email: 'Email address',
+    full_name: 'Full name'
+};
+
+const getMissingFields = (profile: UserProfile | null): string[] => {
+    if (!profile) return [];
+    return PROFILE_COMPLETION_REQUIREMENTS.required_fields
+        .filter(field => !profile[field])
+        .map(field => FIELD_LABELS[field] || String(field));
+};
+
+const ProtectedRoute = ({
+    children,
+    requireAdmin = false,
+    requireClient = false,
+    requireProfileCompletion = false,
+    minCompletionPercentage = PROFILE_COMPLETION_REQUIREMENTS.min_completion_percentage,
+    fallback = null,
+    profileIncompleteCallback
 }: ProtectedRouteProps) => {
-    // Non-functional - always render children
+    const {
+        user,
+        loading,
+        isAuthenticated,
+        isAdmin,
+        isClient,
+        profile,
+        profileLoading,
+        profileCompleted,
+        profileCompletionPercentage
+    } = useAuth();
+    const location = useLocation();
+
+    const completion = profileCompletionPercentage ?? (profileCompleted ? 100 : 0);
+    const profileIncomplete = requireProfileCompletion &&
+        (!profileCompleted || completion < minCompletionPercentage);
+    const resolved = !loading && !(requireProfileCompletion && profileLoading);
+
+    useEffect(() => {
+        if (resolved && isAuthenticated && profileIncomplete && profileIncompleteCallback) {
+            profileIncompleteCallback();
+        }
+    }, [resolved, isAuthenticated, profileIncomplete, profileIncompleteCallback]);
+
+    if (!resolved) {
+        if (fallback) return <>{fallback}</>;
+        return (
+            <div className="protected-route protected-route--loading">
+                <div className="protected-route__loading-spinner">
+                    <LoadingSpinner message="Checking access..." />
+                </div>
+            </div>
+        );
+    }
+
+    if (!isAuthenticated) {
+        const returnTo = `${location.pathname}${location.search}${location.hash}`;
+        return <Navigate to={buildSignInPath(returnTo)} replace />;
+    }
+
+    if ((requireAdmin && !isAdmin) || (requireClient && !isClient)) {
+        return (
+            <div className="protected-route protected-route--unauthorized">
+                <div className="protected-route__container">
+                    <h2 className="protected-route__title">⛔ Access Denied</h2>
+                    <p className="protected-route__message">
+                        You don't have permission to view this page.
+                    </p>
+                    {user?.email && (
+                        <p className="protected-route__user-info">Signed in as {user.email}</p>
+                    )}
+                    <Link to="/" className="protected-route__action-button">
+                        Return to Homepage
+                    </Link>
+                </div>
+            </div>
+        );
+    }
+
+    if (profileIncomplete) {
+        const missingFields = getMissingFields(profile);
+
+        return (
+            <div className="protected-route protected-route--profile-incomplete">
+                <div className="protected-route__container">
+                    <h2 className="protected-route__title">📝 Complete Your Profile</h2>
+                    <p className="protected-route__message">
+                        This page needs a profile that is at least {minCompletionPercentage}% complete.
+                    </p>
+                    <div className="protected-route__profile-info">
+                        <h3 className="protected-route__profile-title">Profile progress</h3>
+                        <div className="protected-route__progress-bar">
+                            <div
+                                className="protected-route__progress-fill"
+                                style={{ width: `${Math.min(100, Math.max(0, completion))}%` }}
+                            />
+                        </div>
+                        <p className="protected-route__completion-text">{completion}% complete</p>
+                        {missingFields.length > 0 && (
+                            <ul className="protected-route__missing-fields">
+                                {missingFields.map(field => (
+                                    <li key={field} className="protected-route__missing-field">{field}</li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
     return <>{children}</>;
 };
 
@@ -28,6 +137,11 @@ interface AdminRouteProps {
     fallback?: ReactNode;
 }
 
+interface ClientRouteProps {
+    children: ReactNode;
+    fallback?: ReactNode;
+}
+
 interface ProfileRequiredRouteProps {
     children: ReactNode;
     minCompletionPercentage?: number;
@@ -35,12 +149,32 @@ interface ProfileRequiredRouteProps {
     onProfileIncomplete?: () => void;
 }
 
-export const AdminRoute = ({ children }: AdminRouteProps) => (
-    <>{children}</>
+export const AdminRoute = ({ children, fallback }: AdminRouteProps) => (
+    <ProtectedRoute requireAdmin fallback={fallback}>
+        {children}
+    </ProtectedRoute>
+);
+
+export const ClientRoute = ({ children, fallback }: ClientRouteProps) => (
+    <ProtectedRoute requireClient fallback={fallback}>
+        {children}
+    </ProtectedRoute>
 );
 
-export const ProfileRequiredRoute = ({ children }: ProfileRequiredRouteProps) => (
-    <>{children}</>
+export const ProfileRequiredRoute = ({
+    children,
+    minCompletionPercentage,
+    fallback,
+    onProfileIncomplete
+}: ProfileRequiredRouteProps) => (
+    <ProtectedRoute
+        requireProfileCompletion
+        minCompletionPercentage={minCompletionPercentage}
+        fallback={fallback}
+        profileIncompleteCallback={onProfileIncomplete}
+    >
+        {children}
+    </ProtectedRoute>
 );
 
-export default ProtectedRoute;
\ No newline at end of file
+export default ProtectedRoute;
@@ -0,0 +1,58 @@
+// components/auth/SignInPage.tsx - Sign-in prompt that returns the user to where they came from
+import { useState } from 'react';
+import { Navigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../../hooks/useAuth';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { sanitizeReturnPath, saveReturnPath } from '../../utils/authRedirect';
+import './ProtectedRoute.css';
+
+const SignInPage = () => {
+    const { loading, isAuthenticated, signInWithGoogle } = useAuth();
+    const [searchParams] = useSearchParams();
+    const [error, setError] = useState<string | null>(null);
+    const returnTo = sanitizeReturnPath(searchParams.get('returnTo'));
+
+    if (loading) {
+        return (
+            <div className="protected-route protected-route--loading">
+                <div className="protected-route__loading-spinner">
+                    <LoadingSpinner message="Checking your session..." />
+                </div>
+            </div>
+        );
+    }
+
+    if (isAuthenticated) {
+        return <Navigate to={returnTo} replace />;
+    }
+
+    const handleSignIn = async () => {
+        setError(null);
+        saveReturnPath(returnTo);
+
+        const result = await signInWithGoogle();
+        if (!result.success) {
+            setError(result.error?.message || 'Sign-in failed. Please try again.');
+        }
+    };
+
+    return (
+        <div className="protected-route protected-route--unauthenticated">
+            <div className="protected-route__container">
+                <h2 className="protected-route__title">🔐 Sign In Required</h2>
+                <p className="protected-route__message">
+                    Please sign in to continue. You'll be brought straight back afterwards.
+                </p>
+                {error && <p className="protected-route__user-info">{error}</p>}
+                <button
+                    onClick={handleSignIn}
+                    className="protected-route__action-button"
+                >
+                    Continue with Google
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default SignInPage;
@@ -8,6 +8,7 @@ import {
   checkImageExists,
   type ResponsiveImageProps 
 } from '../../utils/imageUtils';
+import MediaUploadService from '../../services/MediaUploadService';
 
 interface ResponsiveImageState {
   isLoaded: boolean;
@@ -26,6 +27,8 @@ const ResponsiveImage: React.FC<ResponsiveImageProps> = ({
   alt,
   className = '',
   style,
+  src,
+  sizes: sizesProp,
   ...imgProps
 }) => {
   const imgRef = useRef<HTMLImageElement>(null);
@@ -36,10 +39,11 @@ const ResponsiveImage: React.FC<ResponsiveImageProps> = ({
     retryCount: 0
   });
 
-  // Generate image sources
-  const thumbnailSrc = getThumbnailSrc(projectName);
-  const srcSet = generateSrcSet(projectName, imageIndex);
-  const sizes = generateSizes();
+  // Generate image sources; an explicit src (e.g. a media library upload)
+  // takes precedence over the bundled project asset folders
+  const thumbnailSrc = src || getThumbnailSrc(projectName);
+  const srcSet = src ? MediaUploadService.getVariantSrcSet(src) : generateSrcSet(projectName, imageIndex);
+  const sizes = srcSet ? (sizesProp || generateSizes()) : undefined;
   const fallbackSrc = getFallbackImage(projectName, category);
 
   // Intersection Observer for lazy loading
@@ -190,8 +194,8 @@ const ResponsiveImage: React.FC<ResponsiveImageProps> = ({
       <img
         ref={imgRef}
         src={getImageSrc()}
-        srcSet={!state.hasError ? srcSet : undefined}
-        sizes={!state.hasError ? sizes : undefined}
+        srcSet={!state.hasError && state.retryCount === 0 ? srcSet : undefined}
+        sizes={!state.hasError && state.retryCount === 0 ? sizes : undefined}
         alt={alt || `${projectName} project screenshot`}
         className={`responsive-image ${className} ${state.isLoaded ? 'loaded' : ''} ${state.hasError ? 'fallback' : ''}`}
         style={{
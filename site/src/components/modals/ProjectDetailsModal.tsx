@@ -1,45 +1,58 @@
 import React, { useEffect, useRef, useCallback } from 'react';
+import { useProjectTimeline, usePublishedTestimonials } from '../../hooks/useRealtimeData';
+import ProjectTimeline from '../ui/ProjectTimeline';
+import TestimonialsCarousel from '../ui/TestimonialsCarousel';
 import './ProjectDetailsModal.css';
 
 interface ProjectDetailsModalProps {
     isOpen: boolean;
     onClose: () => void;
+    /** 'page' renders the same details inline, e.g. for /projects/:slug */
+    variant?: 'modal' | 'page';
     project: {
         id?: string;
+        slug?: string;
         title?: string;
         description?: string;
-        detailed_description?: string;
+        detailed_description?: string | null;
         image?: string;
-        image_url?: string;
+        image_url?: string | null;
         category?: string;
         status?: string;
         year?: number;
-        technologies?: string[];
+        technologies?: string[] | null;
         client?: string;
-        client_name?: string;
-        team_size?: number;
-        duration_months?: number;
-        achievements?: string[];
-        view_count?: number;
-        featured?: boolean;
-        external_link?: string;
+        client_name?: string | null;
+        team_size?: number | null;
+        duration_months?: number | null;
+        achievements?: string[] | null;
+        view_count?: number | null;
+        featured?: boolean | null;
+        external_link?: string | null;
         link?: string;
-        github_url?: string;
-        case_study_url?: string;
+        github_url?: string | null;
+        case_study_url?: string | null;
         caseStudy?: string;
-        created_at?: string;
-        updated_at?: string;
+        created_at?: string | null;
+        updated_at?: string | null;
     } | null;
 }
 
 const ProjectDetailsModal: React.FC<ProjectDetailsModalProps> = ({
     isOpen,
     onClose,
+    variant = 'modal',
     project
 }) => {
+    const isModal = variant === 'modal';
     const modalRef = useRef<HTMLDivElement>(null);
     const overlayRef = useRef<HTMLDivElement>(null);
     const contentRef = useRef<HTMLDivElement>(null);
+    const { testimonials } = usePublishedTestimonials({
+        projectId: project?.id,
+        enabled: isOpen && Boolean(project?.id)
+    });
+    const timeline = useProjectTimeline(project?.id, { enabled: isOpen });
 
     // Handle escape key press
     useEffect(() => {
@@ -49,6 +62,8 @@ const ProjectDetailsModal: React.FC<ProjectDetailsModalProps> = ({
             }
         };
 
+        if (!isModal) return;
+
         if (isOpen) {
             document.addEventListener('keydown', handleEscape);
             document.body.style.overflow = 'hidden';
@@ -60,7 +75,7 @@ const ProjectDetailsModal: React.FC<ProjectDetailsModalProps> = ({
             document.removeEventListener('keydown', handleEscape);
             document.body.style.overflow = '';
         };
-    }, [isOpen, onClose]);
+    }, [isOpen, onClose, isModal]);
 
     // Handle click outside modal
     const handleOverlayClick = useCallback((e: React.MouseEvent) => {
@@ -192,6 +207,184 @@ const ProjectDetailsModal: React.FC<ProjectDetailsModalProps> = ({
     const projectData = getProjectData();
     if (!projectData) return null;
 
+    const details = (
+        <>
+            <div className="modal-header">
+                <div className="modal-image-container">
+                    <img 
+                        src={projectData.image}
+                        alt={`${projectData.title} project screenshot`}
+                        className="modal-image"
+                        onError={(e) => {
+                            const target = e.target as HTMLImageElement;
+                            target.src = generateFallbackImage();
+                        }}
+                    />
+                    <div className="modal-image-overlay">
+                        <div className="modal-status-badges">
+                            <span className={`status-badge status-badge--${projectData.status.toLowerCase().replace(/\s+/g, '-')}`}>
+                                {getStatusDisplay(projectData.status)}
+                            </span>
+                            {projectData.featured && (
+                                <span className="featured-badge">
+                                    <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+                                        <path d="M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z"/>
+                                    </svg>
+                                    Featured
+                                </span>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            
+                <div className="modal-title-section">
+                    <h1 id="modal-title" className="modal-title">{projectData.title}</h1>
+                    <div className="modal-meta">
+                        <span className="modal-category">{projectData.category}</span>
+                        <span className="modal-year">{projectData.year}</span>
+                        {projectData.viewCount && (
+                            <span className="modal-views">👁️ {projectData.viewCount} views</span>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            <div className="modal-body">
+                <div className="modal-description">
+                    <h2>About This Project</h2>
+                    <p>{projectData.description}</p>
+                </div>
+
+                {projectData.achievements.length > 0 && (
+                    <div className="modal-achievements">
+                        <h3>Key Achievements</h3>
+                        <ul>
+                            {projectData.achievements.map((achievement, index) => (
+                                <li key={index}>{achievement}</li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                <div className="modal-details-grid">
+                    {projectData.client && (
+                        <div className="modal-detail">
+                            <h4>Client</h4>
+                            <p>{projectData.client}</p>
+                        </div>
+                    )}
+
+                    {projectData.teamSize && (
+                        <div className="modal-detail">
+                            <h4>Team Size</h4>
+                            <p>{projectData.teamSize} developers</p>
+                        </div>
+                    )}
+
+                    {projectData.duration && (
+                        <div className="modal-detail">
+                            <h4>Duration</h4>
+                            <p>{projectData.duration} months</p>
+                        </div>
+                    )}
+
+                    {projectData.dates.updated && (
+                        <div className="modal-detail">
+                            <h4>Last Updated</h4>
+                            <p>{new Date(projectData.dates.updated).toLocaleDateString()}</p>
+                        </div>
+                    )}
+                </div>
+
+                {projectData.technologies.length > 0 && (
+                    <div className="modal-technologies">
+                        <h3>Technologies Used</h3>
+                        <div className="tech-tags">
+                            {projectData.technologies.map((tech, index) => (
+                                <span key={index} className="tech-tag">{tech}</span>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {(timeline.milestones.length > 0 || timeline.updates.length > 0) && (
+                    <div className="modal-timeline">
+                        <h3>Development Timeline</h3>
+                        <ProjectTimeline
+                            milestones={timeline.milestones}
+                            updates={timeline.updates}
+                            label={`${projectData.title} development timeline`}
+                        />
+                    </div>
+                )}
+
+                {testimonials.length > 0 && (
+                    <div className="modal-testimonials">
+                        <h3>What the Client Says</h3>
+                        <TestimonialsCarousel
+                            testimonials={testimonials}
+                            label={`Testimonials for ${projectData.title}`}
+                        />
+                    </div>
+                )}
+
+                <div className="modal-actions">
+                    {projectData.links.external && (
+                        <a 
+                            href={projectData.links.external}
+                            className="modal-action modal-action--primary"
+                            target="_blank"
+                            rel="noopener noreferrer"
+                        >
+                            <svg width="20" height="20" viewBox="0 0 24 24" fill="none">
+                                <path d="M7 17L17 7M17 7H7M17 7V17" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                            </svg>
+                            View Project
+                        </a>
+                    )}
+
+                    {projectData.links.github && (
+                        <a 
+                            href={projectData.links.github}
+                            className="modal-action modal-action--secondary"
+                            target="_blank"
+                            rel="noopener noreferrer"
+                        >
+                            <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+                                <path d="M12 0c-6.626 0-12 5.373-12 12 0 5.302 3.438 9.8 8.207 11.387.599.111.793-.261.793-.577v-2.234c-3.338.726-4.033-1.416-4.033-1.416-.546-1.387-1.333-1.756-1.333-1.756-1.089-.745.083-.729.083-.729 1.205.084 1.839 1.237 1.839 1.237 1.07 1.834 2.807 1.304 3.492.997.107-.775.418-1.305.762-1.604-2.665-.305-5.467-1.334-5.467-5.931 0-1.311.469-2.381 1.236-3.221-.124-.303-.535-1.524.117-3.176 0 0 1.008-.322 3.301 1.23.957-.266 1.983-.399 3.003-.404 1.02.005 2.047.138 3.006.404 2.291-1.552 3.297-1.23 3.297-1.23.653 1.653.242 2.874.118 3.176.77.84 1.235 1.911 1.235 3.221 0 4.609-2.807 5.624-5.479 5.921.43.372.823 1.102.823 2.222v3.293c0 .319.192.694.801.576 4.765-1.589 8.199-6.086 8.199-11.386 0-6.627-5.373-12-12-12z"/>
+                            </svg>
+                            GitHub
+                        </a>
+                    )}
+
+                    {projectData.links.caseStudy && (
+                        <a 
+                            href={projectData.links.caseStudy}
+                            className="modal-action modal-action--outline"
+                        >
+                            <svg width="20" height="20" viewBox="0 0 24 24" fill="none">
+                                <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                                <polyline points="14,2 14,8 20,8" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                                <line x1="16" y1="13" x2="8" y2="13" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                                <line x1="16" y1="17" x2="8" y2="17" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                                <polyline points="10,9 9,9 8,9" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                            </svg>
+                            Case Study
+                        </a>
+                    )}
+                </div>
+            </div>
+        </>
+    );
+
+    if (!isModal) {
+        return (
+            <article className="modal-content modal-content--page" aria-labelledby="modal-title">
+                {details}
+            </article>
+        );
+    }
+
     return (
         <div 
             ref={modalRef}
@@ -223,150 +416,7 @@ const ProjectDetailsModal: React.FC<ProjectDetailsModalProps> = ({
                     </svg>
                 </button>
 
-                <div className="modal-header">
-                    <div className="modal-image-container">
-                        <img 
-                            src={projectData.image}
-                            alt={`${projectData.title} project screenshot`}
-                            className="modal-image"
-                            onError={(e) => {
-                                const target = e.target as HTMLImageElement;
-                                target.src = generateFallbackImage();
-                            }}
-                        />
-                        <div className="modal-image-overlay">
-                            <div className="modal-status-badges">
-                                <span className={`status-badge status-badge--${projectData.status.toLowerCase().replace(/\s+/g, '-')}`}>
-                                    {getStatusDisplay(projectData.status)}
-                                </span>
-                                {projectData.featured && (
-                                    <span className="featured-badge">
-                                        <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
-                                            <path d="M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z"/>
-                                        </svg>
-                                        Featured
-                                    </span>
-                                )}
-                            </div>
-                        </div>
-                    </div>
-                    
-                    <div className="modal-title-section">
-                        <h1 id="modal-title" className="modal-title">{projectData.title}</h1>
-                        <div className="modal-meta">
-                            <span className="modal-category">{projectData.category}</span>
-                            <span className="modal-year">{projectData.year}</span>
-                            {projectData.viewCount && (
-                                <span className="modal-views">👁️ {projectData.viewCount} views</span>
-                            )}
-                        </div>
-                    </div>
-                </div>
-
-                <div className="modal-body">
-                    <div className="modal-description">
-                        <h2>About This Project</h2>
-                        <p>{projectData.description}</p>
-                    </div>
-
-                    {projectData.achievements.length > 0 && (
-                        <div className="modal-achievements">
-                            <h3>Key Achievements</h3>
-                            <ul>
-                                {projectData.achievements.map((achievement, index) => (
-                                    <li key={index}>{achievement}</li>
-                                ))}
-                            </ul>
-                        </div>
-                    )}
-
-                    <div className="modal-details-grid">
-                        {projectData.client && (
-                            <div className="modal-detail">
-                                <h4>Client</h4>
-                                <p>{projectData.client}</p>
-                            </div>
-                        )}
-
-                        {projectData.teamSize && (
-                            <div className="modal-detail">
-                                <h4>Team Size</h4>
-                                <p>{projectData.teamSize} developers</p>
-                            </div>
-                        )}
-
-                        {projectData.duration && (
-                            <div className="modal-detail">
-                                <h4>Duration</h4>
-                                <p>{projectData.duration} months</p>
-                            </div>
-                        )}
-
-                        {projectData.dates.updated && (
-                            <div className="modal-detail">
-                                <h4>Last Updated</h4>
-                                <p>{new Date(projectData.dates.updated).toLocaleDateString()}</p>
-                            </div>
-                        )}
-                    </div>
-
-                    {projectData.technologies.length > 0 && (
-                        <div className="modal-technologies">
-                            <h3>Technologies Used</h3>
-                            <div className="tech-tags">
-                                {projectData.technologies.map((tech, index) => (
-                                    <span key={index} className="tech-tag">{tech}</span>
-                                ))}
-                            </div>
-                        </div>
-                    )}
-
-                    <div className="modal-actions">
-                        {projectData.links.external && (
-                            <a 
-                                href={projectData.links.external}
-                                className="modal-action modal-action--primary"
-                                target="_blank"
-                                rel="noopener noreferrer"
-                            >
-                                <svg width="20" height="20" viewBox="0 0 24 24" fill="none">
-                                    <path d="M7 17L17 7M17 7H7M17 7V17" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                                </svg>
-                                View Project
-                            </a>
-                        )}
-
-                        {projectData.links.github && (
-                            <a 
-                                href={projectData.links.github}
-                                className="modal-action modal-action--secondary"
-                                target="_blank"
-                                rel="noopener noreferrer"
-                            >
-                                <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
-                                    <path d="M12 0c-6.626 0-12 5.373-12 12 0 5.302 3.438 9.8 8.207 11.387.599.111.793-.261.793-.577v-2.234c-3.338.726-4.033-1.416-4.033-1.416-.546-1.387-1.333-1.756-1.333-1.756-1.089-.745.083-.729.083-.729 1.205.084 1.839 1.237 1.839 1.237 1.07 1.834 2.807 1.304 3.492.997.107-.775.418-1.305.762-1.604-2.665-.305-5.467-1.334-5.467-5.931 0-1.311.469-2.381 1.236-3.221-.124-.303-.535-1.524.117-3.176 0 0 1.008-.322 3.301 1.23.957-.266 1.983-.399 3.003-.404 1.02.005 2.047.138 3.006.404 2.291-1.552 3.297-1.23 3.297-1.23.653 1.653.242 2.874.118 3.176.77.84 1.235 1.911 1.235 3.221 0 4.609-2.807 5.624-5.479 5.921.43.372.823 1.102.823 2.222v3.293c0 .319.192.694.801.576 4.765-1.589 8.199-6.086 8.199-11.386 0-6.627-5.373-12-12-12z"/>
-                                </svg>
-                                GitHub
-                            </a>
-                        )}
-
-                        {projectData.links.caseStudy && (
-                            <a 
-                                href={projectData.links.caseStudy}
-                                className="modal-action modal-action--outline"
-                            >
-                                <svg width="20" height="20" viewBox="0 0 24 24" fill="none">
-                                    <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                                    <polyline points="14,2 14,8 20,8" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                                    <line x1="16" y1="13" x2="8" y2="13" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                                    <line x1="16" y1="17" x2="8" y2="17" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                                    <polyline points="10,9 9,9 8,9" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                                </svg>
-                                Case Study
-                            </a>
-                        )}
-                    </div>
-                </div>
+                {details}
             </div>
         </div>
     );
@@ -18,7 +18,7 @@ const ProfileDropdown: React.FC<ProfileDropdownProps> = ({
     const dropdownRef = useRef<HTMLDivElement>(null);
     const buttonRef = useRef<HTMLButtonElement>(null);
     const navigate = useNavigate();
-    const { user, isAdmin, isAuthenticated, signOut, signInWithGoogle } = useAuth();
+    const { user, isAdmin, isClient, isAuthenticated, signOut, signInWithGoogle } = useAuth();
     
     // Authentication transition management
     const reducedMotion = useReducedMotion();
@@ -110,6 +110,11 @@ const ProfileDropdown: React.FC<ProfileDropdownProps> = ({
         window.open('/admin', '_blank', 'noopener,noreferrer');
     }, []);
 
+    const handlePortalClick = useCallback(() => {
+        setIsOpen(false);
+        navigate('/portal');
+    }, [navigate]);
+
     // Get user initials
     const getUserInitials = useCallback(() => {
         if (!user?.email) return 'U';
@@ -220,8 +225,8 @@ const ProfileDropdown: React.FC<ProfileDropdownProps> = ({
                             <div className="profile-dropdown__user-email">
                                 {user?.email}
                             </div>
-                            <div className={`profile-dropdown__user-role ${isAdmin ? 'profile-dropdown__user-role--admin' : 'profile-dropdown__user-role--user'}`}>
-                                {isAdmin ? 'Admin' : 'User'}
+                            <div className={`profile-dropdown__user-role profile-dropdown__user-role--${isAdmin ? 'admin' : isClient ? 'client' : 'user'}`}>
+                                {isAdmin ? 'Admin' : isClient ? 'Client' : 'User'}
                             </div>
                         </div>
                     </div>
@@ -261,6 +266,27 @@ const ProfileDropdown: React.FC<ProfileDropdownProps> = ({
                             </button>
                         )}
 
+                        {isClient && (
+                            <button
+                                className="profile-dropdown__item"
+                                onClick={handlePortalClick}
+                                role="menuitem"
+                                type="button"
+                            >
+                                <span className="profile-dropdown__item-icon">
+                                    <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
+                                        <path
+                                            d="M1.5 4.5C1.5 3.67157 2.17157 3 3 3H6L7.5 4.5H13C13.8284 4.5 14.5 5.17157 14.5 6V12C14.5 12.8284 13.8284 13.5 13 13.5H3C2.17157 13.5 1.5 12.8284 1.5 12V4.5Z"
+                                            stroke="currentColor"
+                                            strokeWidth="1.5"
+                                            strokeLinejoin="round"
+                                        />
+                                    </svg>
+                                </span>
+                                <span className="profile-dropdown__item-text">My Projects</span>
+                            </button>
+                        )}
+
                         <div className="profile-dropdown__divider" />
 
                         <button
@@ -1,23 +1,75 @@
 // components/router/AppRouter.tsx - Main application router
-import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
+import { BrowserRouter as Router, Routes, Route, useLocation } from 'react-router-dom';
 import App from '../../App';
 import OAuthCallback from '../auth/OAuthCallback';
+import SignInPage from '../auth/SignInPage';
+import { AdminRoute, ClientRoute } from '../auth/ProtectedRoute';
 import Terraceon3 from '../../pages/Terraceon3/Terraceon3';
 import SoulFit from '../../pages/SoulFit/SoulFit';
 import AdminDashboard from '../../pages/admin/AdminDashboard';
+import ArticlePage from '../../pages/ArticlePage/ArticlePage';
+import ProjectPage from '../../pages/ProjectPage/ProjectPage';
+import ClientPortal from '../../pages/ClientPortal/ClientPortal';
+import ProjectModalRoute, { type ProjectRouteState } from './ProjectModalRoute';
+
+const adminLoadingFallback = (
+    <div className="admin-loading">
+        <div className="loading-spinner"></div>
+        <p>Checking admin access...</p>
+    </div>
+);
+
+const AppRoutes = () => {
+    const location = useLocation();
+    const state = location.state as Partial<ProjectRouteState> | null;
+
+    // When a project is opened from the grid, keep the originating page rendered
+    // and show the project in a modal; a direct visit gets the full page instead.
+    const backgroundLocation = state?.backgroundLocation;
 
-const AppRouter = () => {
     return (
-        <Router>
-            <Routes>
+        <>
+            <Routes location={backgroundLocation || location}>
                 <Route path="/auth/callback" element={<OAuthCallback />} />
-                <Route path="/admin/*" element={<AdminDashboard />} />
+                <Route path="/auth/signin" element={<SignInPage />} />
+                <Route
+                    path="/admin/*"
+                    element={
+                        <AdminRoute fallback={adminLoadingFallback}>
+                            <AdminDashboard />
+                        </AdminRoute>
+                    }
+                />
+                <Route
+                    path="/portal"
+                    element={
+                        <ClientRoute>
+                            <ClientPortal />
+                        </ClientRoute>
+                    }
+                />
+                <Route path="/articles/:slug" element={<ArticlePage />} />
+                <Route path="/projects/:slug" element={<ProjectPage />} />
                 <Route path="/terraceon3" element={<Terraceon3 />} />
                 <Route path="/soulfit" element={<SoulFit />} />
                 <Route path="/*" element={<App />} />
             </Routes>
+
+            {backgroundLocation && (
+                <Routes>
+                    <Route path="/projects/:slug" element={<ProjectModalRoute />} />
+                </Routes>
+            )}
+        </>
+    );
+};
+
+const AppRouter = () => {
+    return (
+        <Router>
+            <AppRoutes />
         </Router>
     );
 };
 
-export default AppRouter;
\ No newline at end of file
+export default AppRouter;
@@ -0,0 +1,56 @@
+// components/router/ProjectModalRoute.tsx - /projects/:slug opened as a modal over the page it came from
+import { useCallback, useMemo } from 'react';
+import { useLocation, useNavigate, useParams, type Location } from 'react-router-dom';
+import ProjectDetailsModal from '../modals/ProjectDetailsModal';
+import { useProject } from '../../hooks/useRealtimeData';
+import { usePageMeta } from '../../hooks/usePageMeta';
+import { generateSEOForProject } from '../../utils/seo';
+import type { DatabaseProject } from '../../services/DatabaseService';
+
+/**
+ * History state set when a project is opened from the grid. The router keeps
+ * rendering `backgroundLocation` underneath and shows the project as a modal.
+ */
+export interface ProjectRouteState {
+    backgroundLocation: Location;
+    project?: DatabaseProject;
+}
+
+const ProjectModalRoute = () => {
+    const { slug = '' } = useParams<{ slug: string }>();
+    const location = useLocation();
+    const navigate = useNavigate();
+    const state = location.state as ProjectRouteState | null;
+
+    // Show the card's data straight away; the fetch refreshes it and counts the view
+    const { project: fetchedProject, loading } = useProject(slug);
+    const project = fetchedProject ?? (loading ? state?.project ?? null : null);
+
+    const seoData = useMemo(
+        () => (project?.published ? generateSEOForProject(project) : null),
+        [project]
+    );
+    usePageMeta(seoData);
+
+    const handleClose = useCallback(() => {
+        // Go back when we pushed the modal entry ourselves, otherwise (e.g. after
+        // a reload with stale state) swap it for the background page
+        if ((window.history.state?.idx ?? 0) > 0) {
+            navigate(-1);
+        } else if (state?.backgroundLocation) {
+            navigate(state.backgroundLocation, { replace: true });
+        } else {
+            navigate('/', { replace: true });
+        }
+    }, [navigate, state]);
+
+    return (
+        <ProjectDetailsModal
+            isOpen={!!project?.published}
+            onClose={handleClose}
+            project={project}
+        />
+    );
+};
+
+export default ProjectModalRoute;
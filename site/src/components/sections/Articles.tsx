@@ -1,4 +1,5 @@
 import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useContentManager } from '../../hooks/useContentManager';
 import { useLazyLoad } from '../../hooks/useLazyLoad';
 import ArticleService, { ArticleData } from '../../services/ArticleService';
@@ -273,6 +274,7 @@ const ArticleTimelineItem: React.FC<ArticleTimelineItemProps> = ({
     observeImage
 }) => {
     const imgRef = useRef<HTMLImageElement>(null);
+    const navigate = useNavigate();
     const isEven = index % 2 === 0;
 
     useEffect(() => {
@@ -282,7 +284,7 @@ const ArticleTimelineItem: React.FC<ArticleTimelineItemProps> = ({
     }, [observeImage, article.image]);
 
     const handleReadMore = (): void => {
-        console.log('Reading article:', article.id);
+        navigate(`/articles/${article.slug}`);
     };
 
     return (
@@ -359,6 +361,7 @@ const ArticleGridItem: React.FC<ArticleGridItemProps> = ({
     observeImage
 }) => {
     const imgRef = useRef<HTMLImageElement>(null);
+    const navigate = useNavigate();
 
     useEffect(() => {
         if (imgRef.current && article.image) {
@@ -367,7 +370,7 @@ const ArticleGridItem: React.FC<ArticleGridItemProps> = ({
     }, [observeImage, article.image]);
 
     const handleReadMore = (): void => {
-        console.log('Reading article:', article.id);
+        navigate(`/articles/${article.slug}`);
     };
 
     return (
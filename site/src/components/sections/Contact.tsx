@@ -1,5 +1,28 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { useContentManager } from '../../hooks/useContentManager';
+import { useContactForm } from '../../hooks/useRealtimeData';
+import {
+    BUDGET_LABELS,
+    PROJECT_TYPE_LABELS,
+    formatInquiryReference,
+    getThrottleDelay,
+    isLikelySpam,
+    recordSubmission,
+    validateInquiryForm,
+    type InquiryFieldErrors,
+    type InquiryFormFields
+} from '../../utils/inquiryGuard';
+import {
+    formatQuoteDuration,
+    formatQuoteRange,
+    getQuoteBudget,
+    getQuoteProjectType,
+    getQuoteTimelineLabel,
+    subscribeToQuoteRequests,
+    summarizeQuote,
+    takePendingQuoteRequest
+} from '../../utils/quoteEstimator';
+import type { QuoteConfiguration } from '../../types/quote';
 import './Contact.css';
 
 interface ContactMethod {
@@ -10,14 +33,7 @@ interface ContactMethod {
     description?: string;
 }
 
-interface ContactFormData {
-    name: string;
-    email: string;
-    company: string;
-    projectType: string;
-    budget: string;
-    message: string;
-}
+type ContactFormData = InquiryFormFields;
 
 interface ContactProps {
     showForm?: boolean;
@@ -55,22 +71,31 @@ const defaultContactMethods: ContactMethod[] = [
     }
 ];
 
+const emptyFormData: ContactFormData = {
+    name: '',
+    email: '',
+    company: '',
+    projectType: '',
+    budget: '',
+    message: ''
+};
+
 const Contact: React.FC<ContactProps> = ({
     showForm = true,
     customMethods
 }) => {
     const contactRef = useRef<HTMLElement>(null);
     const { setCurrentSection } = useContentManager();
-    const [formData, setFormData] = useState<ContactFormData>({
-        name: '',
-        email: '',
-        company: '',
-        projectType: '',
-        budget: '',
-        message: ''
-    });
-    const [isSubmitting, setIsSubmitting] = useState(false);
+    const { submitInquiry, submitting: isSubmitting } = useContactForm();
+    const [formData, setFormData] = useState<ContactFormData>(emptyFormData);
+    const [fieldErrors, setFieldErrors] = useState<InquiryFieldErrors>({});
+    const [honeypot, setHoneypot] = useState('');
     const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
+    const [submitError, setSubmitError] = useState<string | null>(null);
+    const [inquiryReference, setInquiryReference] = useState<string | null>(null);
+    const [quote, setQuote] = useState<QuoteConfiguration | null>(null);
+    const quoteSummary = useRef<string | null>(null);
+    const formStartedAt = useRef(Date.now());
     const [visibleItems, setVisibleItems] = useState<number[]>([]);
 
     const contactMethods = customMethods || defaultContactMethods;
@@ -98,41 +123,134 @@ const Contact: React.FC<ContactProps> = ({
         return () => observer.disconnect();
     }, [setCurrentSection, contactMethods]);
 
+    // Pre-fill from the services quote estimator
+    useEffect(() => {
+        const applyQuote = (nextQuote: QuoteConfiguration): void => {
+            const summary = summarizeQuote(nextQuote);
+            setQuote(nextQuote);
+            setSubmitStatus('idle');
+            setFormData(prev => ({
+                ...prev,
+                projectType: getQuoteProjectType(nextQuote),
+                budget: getQuoteBudget(nextQuote) || prev.budget,
+                // Only replace the message if the visitor hasn't written their own
+                message: !prev.message.trim() || prev.message === quoteSummary.current
+                    ? summary
+                    : prev.message
+            }));
+            setFieldErrors(prev => ({ ...prev, projectType: undefined, budget: undefined, message: undefined }));
+            quoteSummary.current = summary;
+        };
+
+        const pendingQuote = takePendingQuoteRequest();
+        if (pendingQuote) {
+            applyQuote(pendingQuote);
+        }
+
+        return subscribeToQuoteRequests(applyQuote);
+    }, []);
+
+    const handleRemoveQuote = (): void => {
+        setQuote(null);
+        setFormData(prev => ({
+            ...prev,
+            message: prev.message === quoteSummary.current ? '' : prev.message
+        }));
+        quoteSummary.current = null;
+    };
+
     const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>): void => {
         const { name, value } = e.target;
         setFormData(prev => ({
             ...prev,
             [name]: value
         }));
+
+        // Clear the error for a field as soon as the user edits it
+        if (fieldErrors[name as keyof ContactFormData]) {
+            setFieldErrors(prev => ({ ...prev, [name]: undefined }));
+        }
+    };
+
+    const resetForm = (): void => {
+        setFormData(emptyFormData);
+        setFieldErrors({});
+        setHoneypot('');
+        setSubmitStatus('idle');
+        setSubmitError(null);
+        setInquiryReference(null);
+        setQuote(null);
+        quoteSummary.current = null;
+        formStartedAt.current = Date.now();
     };
 
     const handleSubmit = async (e: React.FormEvent): Promise<void> => {
         e.preventDefault();
-        setIsSubmitting(true);
         setSubmitStatus('idle');
+        setSubmitError(null);
 
-        try {
-            // Simulate form submission - replace with actual API call
-            await new Promise(resolve => setTimeout(resolve, 2000));
+        const errors = validateInquiryForm(formData);
+        setFieldErrors(errors);
+        if (Object.keys(errors).length > 0) {
+            return;
+        }
 
-            console.log('Form submitted:', formData);
+        // Bots get a normal-looking confirmation so they have nothing to tune against
+        if (isLikelySpam({ honeypot, startedAt: formStartedAt.current, message: formData.message })) {
+            console.warn('Contact form submission rejected by spam heuristics');
+            setInquiryReference(null);
             setSubmitStatus('success');
-            setFormData({
-                name: '',
-                email: '',
-                company: '',
-                projectType: '',
-                budget: '',
-                message: ''
-            });
-        } catch (error) {
-            console.error('Form submission error:', error);
+            return;
+        }
+
+        const throttleDelay = getThrottleDelay();
+        if (throttleDelay > 0) {
+            const minutes = Math.ceil(throttleDelay / 60000);
+            setSubmitError(`You've sent several messages recently. Please try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`);
+            setSubmitStatus('error');
+            return;
+        }
+
+        const projectTypeLabel = PROJECT_TYPE_LABELS[formData.projectType];
+        const result = await submitInquiry({
+            name: formData.name.trim(),
+            email: formData.email.trim(),
+            company: formData.company.trim() || undefined,
+            subject: quote
+                ? `Quote request: ${quote.services.map(s => s.title).join(', ')}`
+                : `Project inquiry: ${projectTypeLabel}`,
+            message: formData.message.trim(),
+            projectType: formData.projectType,
+            serviceId: quote?.services[0]?.id,
+            projectBudget: formData.budget
+                ? BUDGET_LABELS[formData.budget]
+                : (quote && formatQuoteRange(quote.estimate)) || undefined,
+            timeline: quote ? getQuoteTimelineLabel(quote) : undefined,
+            quoteConfig: quote ?? undefined
+        });
+
+        if (result.success && result.inquiryId) {
+            recordSubmission();
+            setInquiryReference(formatInquiryReference(result.inquiryId));
+            setFormData(emptyFormData);
+            setQuote(null);
+            quoteSummary.current = null;
+            setSubmitStatus('success');
+        } else {
+            setSubmitError('Please try again or contact us directly.');
             setSubmitStatus('error');
-        } finally {
-            setIsSubmitting(false);
         }
     };
 
+    const renderFieldError = (field: keyof ContactFormData) => fieldErrors[field] && (
+        <p id={`contact-${field}-error`} className="contact__form-error" role="alert">
+            {fieldErrors[field]}
+        </p>
+    );
+
+    const fieldClassName = (base: string, field: keyof ContactFormData): string =>
+        fieldErrors[field] ? `${base} ${base}--error` : base;
+
     const handleContactMethod = (action: string): void => {
         if (action.startsWith('mailto:') || action.startsWith('tel:')) {
             window.location.href = action;
@@ -214,132 +332,206 @@ const Contact: React.FC<ContactProps> = ({
                                 <p className="contact__form-subtitle">Fill out the form below and we'll get back to you within 24 hours</p>
                             </div>
 
-                            <form className="contact__form" onSubmit={handleSubmit}>
-                                <div className="contact__form-grid">
-                                    <div className="contact__form-group">
-                                        <label className="contact__form-label">Full Name *</label>
+                            {submitStatus === 'success' ? (
+                                <div className="contact__confirmation" role="status" aria-live="polite">
+                                    <div className="contact__form-status contact__form-status--success">
+                                        <div className="contact__form-status-icon">✓</div>
+                                        <div className="contact__form-status-content">
+                                            <p className="contact__form-status-title">Message sent successfully!</p>
+                                            <p className="contact__form-status-text">We'll get back to you within 24 hours.</p>
+                                        </div>
+                                    </div>
+                                    {inquiryReference && (
+                                        <p className="contact__confirmation-reference">
+                                            Your reference: <strong className="contact__confirmation-code">{inquiryReference}</strong>
+                                            <span className="contact__confirmation-hint">Quote this if you follow up by email.</span>
+                                        </p>
+                                    )}
+                                    <button
+                                        type="button"
+                                        className="contact__confirmation-button"
+                                        onClick={resetForm}
+                                    >
+                                        Send another message
+                                    </button>
+                                </div>
+                            ) : (
+                                <form className="contact__form" onSubmit={handleSubmit} noValidate>
+                                    {/* Honeypot - hidden from people, tempting for bots */}
+                                    <div className="contact__form-honeypot" aria-hidden="true">
+                                        <label htmlFor="contact-website">Website</label>
                                         <input
+                                            id="contact-website"
                                             type="text"
-                                            name="name"
-                                            value={formData.name}
-                                            onChange={handleInputChange}
-                                            className="contact__form-input"
-                                            required
+                                            name="website"
+                                            value={honeypot}
+                                            onChange={(e) => setHoneypot(e.target.value)}
+                                            tabIndex={-1}
+                                            autoComplete="off"
                                         />
                                     </div>
 
-                                    <div className="contact__form-group">
-                                        <label className="contact__form-label">Email Address *</label>
-                                        <input
-                                            type="email"
-                                            name="email"
-                                            value={formData.email}
-                                            onChange={handleInputChange}
-                                            className="contact__form-input"
-                                            required
-                                        />
-                                    </div>
+                                    {quote && (
+                                        <div className="contact__quote" role="status">
+                                            <div className="contact__quote-content">
+                                                <p className="contact__quote-title">Estimate attached</p>
+                                                <p className="contact__quote-text">
+                                                    {quote.services.map(s => s.title).join(', ')}
+                                                    {[formatQuoteRange(quote.estimate), formatQuoteDuration(quote.estimate)]
+                                                        .filter(Boolean)
+                                                        .map(part => ` · ${part}`)
+                                                        .join('')}
+                                                </p>
+                                            </div>
+                                            <button
+                                                type="button"
+                                                className="contact__quote-remove"
+                                                onClick={handleRemoveQuote}
+                                                aria-label="Remove attached estimate"
+                                            >
+                                                ×
+                                            </button>
+                                        </div>
+                                    )}
 
-                                    <div className="contact__form-group">
-                                        <label className="contact__form-label">Company</label>
-                                        <input
-                                            type="text"
-                                            name="company"
-                                            value={formData.company}
-                                            onChange={handleInputChange}
-                                            className="contact__form-input"
-                                        />
-                                    </div>
+                                    <div className="contact__form-grid">
+                                        <div className="contact__form-group">
+                                            <label className="contact__form-label" htmlFor="contact-name">Full Name *</label>
+                                            <input
+                                                id="contact-name"
+                                                type="text"
+                                                name="name"
+                                                value={formData.name}
+                                                onChange={handleInputChange}
+                                                className={fieldClassName('contact__form-input', 'name')}
+                                                aria-invalid={!!fieldErrors.name}
+                                                aria-describedby={fieldErrors.name ? 'contact-name-error' : undefined}
+                                                autoComplete="name"
+                                                required
+                                            />
+                                            {renderFieldError('name')}
+                                        </div>
 
-                                    <div className="contact__form-group">
-                                        <label className="contact__form-label">Project Type *</label>
-                                        <select
-                                            name="projectType"
-                                            value={formData.projectType}
-                                            onChange={handleInputChange}
-                                            className="contact__form-select"
-                                            required
-                                        >
-                                            <option value="">Select project type</option>
-                                            <option value="mobile-game">Mobile Game Development</option>
-                                            <option value="pc-game">PC Game Development</option>
-                                            <option value="console-game">Console Game Development</option>
-                                            <option value="vr-ar">VR/AR Experience</option>
-                                            <option value="consulting">Game Development Consulting</option>
-                                            <option value="other">Other</option>
-                                        </select>
-                                    </div>
+                                        <div className="contact__form-group">
+                                            <label className="contact__form-label" htmlFor="contact-email">Email Address *</label>
+                                            <input
+                                                id="contact-email"
+                                                type="email"
+                                                name="email"
+                                                value={formData.email}
+                                                onChange={handleInputChange}
+                                                className={fieldClassName('contact__form-input', 'email')}
+                                                aria-invalid={!!fieldErrors.email}
+                                                aria-describedby={fieldErrors.email ? 'contact-email-error' : undefined}
+                                                autoComplete="email"
+                                                required
+                                            />
+                                            {renderFieldError('email')}
+                                        </div>
 
-                                    <div className="contact__form-group">
-                                        <label className="contact__form-label">Budget Range</label>
-                                        <select
-                                            name="budget"
-                                            value={formData.budget}
-                                            onChange={handleInputChange}
-                                            className="contact__form-select"
-                                        >
-                                            <option value="">Select budget range</option>
-                                            <option value="under-10k">Under $10,000</option>
-                                            <option value="10k-50k">$10,000 - $50,000</option>
-                                            <option value="50k-100k">$50,000 - $100,000</option>
-                                            <option value="100k-500k">$100,000 - $500,000</option>
-                                            <option value="over-500k">Over $500,000</option>
-                                        </select>
-                                    </div>
+                                        <div className="contact__form-group">
+                                            <label className="contact__form-label" htmlFor="contact-company">Company</label>
+                                            <input
+                                                id="contact-company"
+                                                type="text"
+                                                name="company"
+                                                value={formData.company}
+                                                onChange={handleInputChange}
+                                                className={fieldClassName('contact__form-input', 'company')}
+                                                aria-invalid={!!fieldErrors.company}
+                                                aria-describedby={fieldErrors.company ? 'contact-company-error' : undefined}
+                                                autoComplete="organization"
+                                            />
+                                            {renderFieldError('company')}
+                                        </div>
 
-                                    <div className="contact__form-group contact__form-group--full">
-                                        <label className="contact__form-label">Project Description *</label>
-                                        <textarea
-                                            name="message"
-                                            value={formData.message}
-                                            onChange={handleInputChange}
-                                            className="contact__form-textarea"
-                                            rows={6}
-                                            placeholder="Tell us about your project goals, timeline, and any specific requirements..."
-                                            required
-                                        />
-                                    </div>
-                                </div>
+                                        <div className="contact__form-group">
+                                            <label className="contact__form-label" htmlFor="contact-projectType">Project Type *</label>
+                                            <select
+                                                id="contact-projectType"
+                                                name="projectType"
+                                                value={formData.projectType}
+                                                onChange={handleInputChange}
+                                                className={fieldClassName('contact__form-select', 'projectType')}
+                                                aria-invalid={!!fieldErrors.projectType}
+                                                aria-describedby={fieldErrors.projectType ? 'contact-projectType-error' : undefined}
+                                                required
+                                            >
+                                                <option value="">Select project type</option>
+                                                {Object.entries(PROJECT_TYPE_LABELS).map(([value, label]) => (
+                                                    <option key={value} value={value}>{label}</option>
+                                                ))}
+                                            </select>
+                                            {renderFieldError('projectType')}
+                                        </div>
 
-                                <div className="contact__form-submit">
-                                    <button
-                                        type="submit"
-                                        className="contact__form-button"
-                                        disabled={isSubmitting}
-                                    >
-                                        <span className="contact__form-button-text">
-                                            {isSubmitting ? 'Sending Message...' : 'Send Message'}
-                                        </span>
-                                        {!isSubmitting && (
-                                            <span className="contact__form-button-icon">
-                                                <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
-                                                    <path d="M2 8L14 8M14 8L8 2M14 8L8 14" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-                                                </svg>
-                                            </span>
-                                        )}
-                                    </button>
+                                        <div className="contact__form-group">
+                                            <label className="contact__form-label" htmlFor="contact-budget">Budget Range</label>
+                                            <select
+                                                id="contact-budget"
+                                                name="budget"
+                                                value={formData.budget}
+                                                onChange={handleInputChange}
+                                                className={fieldClassName('contact__form-select', 'budget')}
+                                                aria-invalid={!!fieldErrors.budget}
+                                                aria-describedby={fieldErrors.budget ? 'contact-budget-error' : undefined}
+                                            >
+                                                <option value="">Select budget range</option>
+                                                {Object.entries(BUDGET_LABELS).map(([value, label]) => (
+                                                    <option key={value} value={value}>{label}</option>
+                                                ))}
+                                            </select>
+                                            {renderFieldError('budget')}
+                                        </div>
 
-                                    {submitStatus === 'success' && (
-                                        <div className="contact__form-status contact__form-status--success">
-                                            <div className="contact__form-status-icon">✓</div>
-                                            <div className="contact__form-status-content">
-                                                <p className="contact__form-status-title">Message sent successfully!</p>
-                                                <p className="contact__form-status-text">We'll get back to you within 24 hours.</p>
-                                            </div>
+                                        <div className="contact__form-group contact__form-group--full">
+                                            <label className="contact__form-label" htmlFor="contact-message">Project Description *</label>
+                                            <textarea
+                                                id="contact-message"
+                                                name="message"
+                                                value={formData.message}
+                                                onChange={handleInputChange}
+                                                className={fieldClassName('contact__form-textarea', 'message')}
+                                                aria-invalid={!!fieldErrors.message}
+                                                aria-describedby={fieldErrors.message ? 'contact-message-error' : undefined}
+                                                rows={6}
+                                                placeholder="Tell us about your project goals, timeline, and any specific requirements..."
+                                                required
+                                            />
+                                            {renderFieldError('message')}
                                         </div>
-                                    )}
+                                    </div>
 
-                                    {submitStatus === 'error' && (
-                                        <div className="contact__form-status contact__form-status--error">
-                                            <div className="contact__form-status-icon">⚠</div>
-                                            <div className="contact__form-status-content">
-                                                <p className="contact__form-status-title">Something went wrong</p>
-                                                <p className="contact__form-status-text">Please try again or contact us directly.</p>
+                                    <div className="contact__form-submit">
+                                        <button
+                                            type="submit"
+                                            className="contact__form-button"
+                                            disabled={isSubmitting}
+                                        >
+                                            <span className="contact__form-button-text">
+                                                {isSubmitting ? 'Sending Message...' : 'Send Message'}
+                                            </span>
+                                            {!isSubmitting && (
+                                                <span className="contact__form-button-icon">
+                                                    <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
+                                                        <path d="M2 8L14 8M14 8L8 2M14 8L8 14" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                                                    </svg>
+                                                </span>
+                                            )}
+                                        </button>
+
+                                        {submitStatus === 'error' && (
+                                            <div className="contact__form-status contact__form-status--error" role="alert">
+                                                <div className="contact__form-status-icon">⚠</div>
+                                                <div className="contact__form-status-content">
+                                                    <p className="contact__form-status-title">Something went wrong</p>
+                                                    <p className="contact__form-status-text">{submitError}</p>
+                                                </div>
                                             </div>
-                                        </div>
-                                    )}
-                                </div>
-                            </form>
+                                        )}
+                                    </div>
+                                </form>
+                            )}
                         </div>
                     )}
                 </div>
@@ -1,13 +1,15 @@
 // components/sections/PaginatedProjects.tsx - Projects section with pagination
 import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useContentManager } from '../../hooks/useContentManager';
 import { useLazyLoad } from '../../hooks/useLazyLoad';
 import { usePaginatedProjects } from '../../hooks/useRealtimeData';
 import ResponsiveImage from '../common/ResponsiveImage';
+import MediaUploadService from '../../services/MediaUploadService';
 import Pagination from '../ui/Pagination';
-import ProjectDetailsModal from '../modals/ProjectDetailsModal';
 import { getProjectFolderName, hasProjectAssets } from '../../utils/projectImageMap';
 import type { DatabaseProject } from '../../services/DatabaseService';
+import type { ProjectRouteState } from '../router/ProjectModalRoute';
 import './Projects.css';
 
 interface PaginatedProjectsProps {
@@ -28,8 +30,8 @@ const PaginatedProjects: React.FC<PaginatedProjectsProps> = ({
     const [filter, setFilter] = useState<'all' | DatabaseProject['category']>('all');
     const [isAnimating, setIsAnimating] = useState(false);
     const [hasAnimated, setHasAnimated] = useState(false);
-    const [selectedProject, setSelectedProject] = useState<DatabaseProject | null>(null);
-    const [isModalOpen, setIsModalOpen] = useState(false);
+    const navigate = useNavigate();
+    const location = useLocation();
 
     // Use paginated projects hook
     const { 
@@ -248,22 +250,12 @@ const PaginatedProjects: React.FC<PaginatedProjectsProps> = ({
         handleRefresh();
     }, [handleRefresh]);
 
-    // Handle project click for modal
+    // Open the project at its shareable URL; the router shows it as a modal
+    // over this section because we pass the current location as background
     const handleProjectClick = useCallback((project: DatabaseProject) => {
-        console.log('🔥 PaginatedProjects - handleProjectClick called with project:', project);
-        console.log('🔥 Project title:', project.title);
-        console.log('🔥 Project ID:', project.id);
-        setSelectedProject(project);
-        setIsModalOpen(true);
-        console.log('🔥 Modal state updated - isModalOpen should be true');
-    }, []);
-
-    // Handle modal close
-    const handleCloseModal = useCallback(() => {
-        console.log('🔥 Closing project modal');
-        setIsModalOpen(false);
-        setSelectedProject(null);
-    }, []);
+        const state: ProjectRouteState = { backgroundLocation: location, project };
+        navigate(`/projects/${project.slug}`, { state });
+    }, [navigate, location]);
 
     // Error boundary fallback with animations
     if (dataError) {
@@ -456,18 +448,14 @@ const PaginatedProjects: React.FC<PaginatedProjectsProps> = ({
                     </div>
                 )}
             </div>
-
-            {/* Project Details Modal */}
-            <ProjectDetailsModal
-                isOpen={isModalOpen}
-                onClose={handleCloseModal}
-                project={selectedProject}
-            />
         </section>
     );
 };
 
 // Reuse the existing EnhancedProjectCard component logic
+// Matches the projects__grid minmax(380px, 1fr) columns
+const PROJECT_CARD_IMAGE_SIZES = '(max-width: 820px) 100vw, (max-width: 1240px) 50vw, 420px';
+
 interface EnhancedProjectCardProps {
     project: DatabaseProject;
     observeImage?: (img: HTMLImageElement) => void;
@@ -619,6 +607,13 @@ const EnhancedProjectCard: React.FC<EnhancedProjectCardProps> = ({
         return processedUrl;
     }, [project.image_url, processImageUrl, imageError, imageRetryCount, generateFallbackImage]);
 
+    // Resized variants only exist for media library uploads; retries go
+    // straight to the original in case a variant is missing
+    const imageSrcSet = useMemo(() => {
+        if (imageRetryCount > 0 || imageError) return undefined;
+        return MediaUploadService.getVariantSrcSet(processImageUrl(project.image_url));
+    }, [project.image_url, processImageUrl, imageError, imageRetryCount]);
+
     // Safe image observation
     useEffect(() => {
         if (imgRef.current && observeImage) {
@@ -640,6 +635,19 @@ const EnhancedProjectCard: React.FC<EnhancedProjectCardProps> = ({
         return statusMap[status] || status;
     }, []);
 
+    const handleCardClick = useCallback((e: React.MouseEvent) => {
+        // External project links inside the card keep their own behaviour
+        if ((e.target as HTMLElement).closest('a')) return;
+        onClick?.(project);
+    }, [onClick, project]);
+
+    const handleCardKeyDown = useCallback((e: React.KeyboardEvent) => {
+        if (e.target === e.currentTarget && (e.key === 'Enter' || e.key === ' ')) {
+            e.preventDefault();
+            onClick?.(project);
+        }
+    }, [onClick, project]);
+
     // Safe link handler
     const handleLinkClick = useCallback((e: React.MouseEvent, url: string | null | undefined) => {
         try {
@@ -663,6 +671,10 @@ const EnhancedProjectCard: React.FC<EnhancedProjectCardProps> = ({
         }
     }, []);
 
+    const technologies = project.technologies ?? [];
+    const achievements = project.achievements ?? [];
+    const updatedAt = project.updated_at ? new Date(project.updated_at) : null;
+
     return (
         <article
             ref={cardRef}
@@ -670,6 +682,11 @@ const EnhancedProjectCard: React.FC<EnhancedProjectCardProps> = ({
             style={{ animationDelay: `${Math.max(0, index * 0.1)}s` }}
             onMouseEnter={handleMouseEnter}
             onMouseLeave={handleMouseLeave}
+            onClick={handleCardClick}
+            onKeyDown={handleCardKeyDown}
+            role="link"
+            tabIndex={0}
+            aria-label={`View details for ${project.title}`}
         >
             <div className="projects__card-image">
                 {(() => {
@@ -706,6 +723,8 @@ const EnhancedProjectCard: React.FC<EnhancedProjectCardProps> = ({
                                 <img
                                     ref={imgRef}
                                     src={imageSource}
+                                    srcSet={imageSrcSet}
+                                    sizes={imageSrcSet ? PROJECT_CARD_IMAGE_SIZES : undefined}
                                     alt={project.image_alt || `${project.title} - ${project.category} game project screenshot`}
                                     className={`projects__image ${imageLoaded ? 'projects__image--loaded' : ''} ${!imageSource || (imageError && imageRetryCount >= 2) ? 'projects__image--fallback' : ''}`}
                                     loading="lazy"
@@ -809,9 +828,9 @@ const EnhancedProjectCard: React.FC<EnhancedProjectCardProps> = ({
                     )}
                 </div>
 
-                {project.technologies.length > 0 && (
+                {technologies.length > 0 && (
                     <div className="projects__technologies" role="list" aria-label="Technologies used">
-                        {project.technologies.map((tech, techIndex) => (
+                        {technologies.map((tech, techIndex) => (
                             <span
                                 key={`tech-${techIndex}-${tech}`}
                                 className="projects__tech-tag"
@@ -823,11 +842,11 @@ const EnhancedProjectCard: React.FC<EnhancedProjectCardProps> = ({
                     </div>
                 )}
 
-                {project.achievements.length > 0 && (
+                {achievements.length > 0 && (
                     <div className="projects__achievements">
                         <h4>Key Achievements:</h4>
                         <ul>
-                            {project.achievements.map((achievement, idx) => (
+                            {achievements.map((achievement, idx) => (
                                 <li key={idx}>{achievement}</li>
                             ))}
                         </ul>
@@ -851,12 +870,14 @@ const EnhancedProjectCard: React.FC<EnhancedProjectCardProps> = ({
                             {project.year}
                         </time>
                     </div>
-                    <div className="projects__meta-item projects__meta-item--updated" title={`Last updated: ${new Date(project.updated_at).toLocaleDateString()}`}>
-                        <span className="projects__meta-icon">🔄</span>
-                        <span className="projects__updated-short">
-                            {new Date(project.updated_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
-                        </span>
-                    </div>
+                    {updatedAt && (
+                        <div className="projects__meta-item projects__meta-item--updated" title={`Last updated: ${updatedAt.toLocaleDateString()}`}>
+                            <span className="projects__meta-icon">🔄</span>
+                            <span className="projects__updated-short">
+                                {updatedAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                            </span>
+                        </div>
+                    )}
                 </div>
             </div>
         </article>
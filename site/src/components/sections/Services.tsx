@@ -2,6 +2,7 @@ import React, { useEffect, useState, useMemo } from 'react';
 import { useContentManager } from '../../hooks/useContentManager';
 import { useIntersectionObserver } from '../../hooks/useIntersectionObserver';
 import { useServicesData, ServiceData } from '../../hooks/useServicesData';
+import QuoteEstimator from '../ui/QuoteEstimator';
 import './Services.css';
 
 interface ServicesProps {
@@ -29,6 +30,7 @@ const Services: React.FC<ServicesProps> = ({
         data: servicesResponse,
         loading,
         error,
+        source: servicesSource,
         loadServices,
         getFeaturedServices,
         getServicesByCategory,
@@ -176,8 +178,13 @@ const Services: React.FC<ServicesProps> = ({
                     </div>
                 )}
 
+                {/* Quote Estimator - needs live pricing, so not shown with offline data */}
+                {isReady && !showFeaturedOnly && servicesSource === 'database' && (
+                    <QuoteEstimator />
+                )}
+
                 {/* Process Section - only show on full services page */}
-                {isReady && !showFeaturedOnly && servicesResponse?.process && (
+                {isReady && !showFeaturedOnly && !!servicesResponse?.process?.length && (
                     <ServiceProcess process={servicesResponse.process} />
                 )}
             </div>
@@ -0,0 +1,33 @@
+// components/sections/Testimonials.tsx - Client testimonials carousel for the home page
+import React from 'react';
+import { usePublishedTestimonials } from '../../hooks/useRealtimeData';
+import TestimonialsCarousel from '../ui/TestimonialsCarousel';
+import './Testimonials.css';
+
+interface TestimonialsProps {
+    maxTestimonials?: number;
+}
+
+const Testimonials: React.FC<TestimonialsProps> = ({ maxTestimonials = 8 }) => {
+    const { testimonials, loading } = usePublishedTestimonials();
+
+    // Nothing to show yet: keep the page flowing straight into the next section
+    if (loading || testimonials.length === 0) return null;
+
+    return (
+        <section id="testimonials" className="testimonials" aria-labelledby="testimonials-title">
+            <div className="testimonials__container">
+                <header className="testimonials__header">
+                    <h2 id="testimonials-title" className="testimonials__title">What Our Clients Say</h2>
+                    <p className="testimonials__subtitle">
+                        Studios and teams we've helped ship their games
+                    </p>
+                </header>
+
+                <TestimonialsCarousel testimonials={testimonials.slice(0, maxTestimonials)} />
+            </div>
+        </section>
+    );
+};
+
+export default Testimonials;
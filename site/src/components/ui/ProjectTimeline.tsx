@@ -0,0 +1,150 @@
+// components/ui/ProjectTimeline.tsx - Milestones and progress update posts on one dated timeline
+import React, { useMemo } from 'react';
+import type { ProjectMilestone, ProjectUpdate } from '../../types/portal';
+import {
+    buildTimeline,
+    formatDueDate,
+    getAttachmentKind,
+    getAttachmentName,
+    getMilestonePercent,
+    getMilestoneStateLabel,
+    isMilestoneOverdue
+} from '../../utils/projectProgress';
+import './ProjectTimeline.css';
+
+interface ProjectTimelineProps {
+    milestones: ProjectMilestone[];
+    updates: ProjectUpdate[];
+    label?: string;
+    className?: string;
+}
+
+const formatPostedDate = (value: string) => new Date(value).toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+});
+
+const ProjectTimeline: React.FC<ProjectTimelineProps> = ({
+    milestones,
+    updates,
+    label = 'Project timeline',
+    className = ''
+}) => {
+    const entries = useMemo(() => buildTimeline(milestones, updates), [milestones, updates]);
+
+    if (entries.length === 0) return null;
+
+    return (
+        <ol className={`project-timeline ${className}`} aria-label={label}>
+            {entries.map(entry => {
+                if (entry.kind === 'milestone') {
+                    const { milestone } = entry;
+                    const percent = getMilestonePercent(milestone);
+                    const overdue = isMilestoneOverdue(milestone);
+
+                    return (
+                        <li
+                            key={`milestone-${entry.id}`}
+                            className={`project-timeline__entry project-timeline__entry--milestone project-timeline__entry--${milestone.state}`}
+                        >
+                            <span className="project-timeline__marker" aria-hidden="true">◆</span>
+                            <div className="project-timeline__content">
+                                <div className="project-timeline__meta">
+                                    <span className={`project-timeline__date ${overdue ? 'project-timeline__date--overdue' : ''}`}>
+                                        {milestone.due_date
+                                            ? `${overdue ? 'Overdue · ' : 'Due '}${formatDueDate(milestone.due_date)}`
+                                            : 'Not scheduled'}
+                                    </span>
+                                    <span className={`project-timeline__state project-timeline__state--${milestone.state}`}>
+                                        {getMilestoneStateLabel(milestone.state)}
+                                    </span>
+                                </div>
+                                <h4 className="project-timeline__title">{milestone.title}</h4>
+                                {milestone.description && (
+                                    <p className="project-timeline__text">{milestone.description}</p>
+                                )}
+                                <div
+                                    className="project-timeline__progress"
+                                    role="progressbar"
+                                    aria-valuemin={0}
+                                    aria-valuemax={100}
+                                    aria-valuenow={percent}
+                                    aria-label={`${milestone.title} progress`}
+                                >
+                                    <div className="project-timeline__progress-fill" style={{ width: `${percent}%` }} />
+                                </div>
+                                <span className="project-timeline__percent">{percent}% complete</span>
+                            </div>
+                        </li>
+                    );
+                }
+
+                const { update } = entry;
+                return (
+                    <li key={`update-${entry.id}`} className="project-timeline__entry project-timeline__entry--update">
+                        <span className="project-timeline__marker" aria-hidden="true">●</span>
+                        <article className="project-timeline__content">
+                            <div className="project-timeline__meta">
+                                <time className="project-timeline__date" dateTime={entry.date}>
+                                    {formatPostedDate(entry.date)}
+                                </time>
+                            </div>
+                            <h4 className="project-timeline__title">{update.title}</h4>
+                            <p className="project-timeline__text project-timeline__text--body">{update.body}</p>
+
+                            {update.attachments?.length > 0 && (
+                                <div className="project-timeline__attachments">
+                                    {update.attachments.map(url => {
+                                        const kind = getAttachmentKind(url);
+                                        const name = getAttachmentName(url);
+
+                                        if (kind === 'image') {
+                                            return (
+                                                <a
+                                                    key={url}
+                                                    href={url}
+                                                    target="_blank"
+                                                    rel="noopener noreferrer"
+                                                    className="project-timeline__attachment project-timeline__attachment--image"
+                                                >
+                                                    <img src={url} alt={name} loading="lazy" />
+                                                </a>
+                                            );
+                                        }
+
+                                        if (kind === 'video') {
+                                            return (
+                                                <video
+                                                    key={url}
+                                                    src={url}
+                                                    controls
+                                                    preload="metadata"
+                                                    className="project-timeline__attachment project-timeline__attachment--video"
+                                                />
+                                            );
+                                        }
+
+                                        return (
+                                            <a
+                                                key={url}
+                                                href={url}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                                className="project-timeline__attachment project-timeline__attachment--file"
+                                            >
+                                                📄 {name}
+                                            </a>
+                                        );
+                                    })}
+                                </div>
+                            )}
+                        </article>
+                    </li>
+                );
+            })}
+        </ol>
+    );
+};
+
+export default ProjectTimeline;
@@ -0,0 +1,222 @@
+// components/ui/QuoteEstimator.tsx - Interactive price and duration estimate for selected services
+import React, { useId, useMemo, useState } from 'react';
+import { useRealtimeServices } from '../../hooks/useRealtimeData';
+import type { QuoteAddOn, QuoteConfiguration, QuotePlatform, QuoteTeamSize, QuoteTimeline } from '../../types/quote';
+import {
+    QUOTE_ADD_ONS,
+    QUOTE_PLATFORMS,
+    QUOTE_TEAM_SIZES,
+    QUOTE_TIMELINES,
+    estimateQuote,
+    formatQuoteDuration,
+    formatQuoteRange,
+    requestQuote,
+    toServiceSnapshot
+} from '../../utils/quoteEstimator';
+import './QuoteEstimator.css';
+
+interface QuoteEstimatorProps {
+    className?: string;
+}
+
+const toggleValue = <T,>(values: T[], value: T): T[] =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+const QuoteEstimator: React.FC<QuoteEstimatorProps> = ({ className = '' }) => {
+    const headingId = useId();
+    const { data: serviceRows, loading } = useRealtimeServices();
+    const [selectedServiceIds, setSelectedServiceIds] = useState<string[]>([]);
+    const [platforms, setPlatforms] = useState<QuotePlatform[]>([]);
+    const [teamSize, setTeamSize] = useState<QuoteTeamSize>('small');
+    const [timeline, setTimeline] = useState<QuoteTimeline>('standard');
+    const [addOns, setAddOns] = useState<QuoteAddOn[]>([]);
+
+    // Realtime changes can bring in unpublished rows and don't preserve order
+    const services = useMemo(() => serviceRows
+        .filter(s => s.published)
+        .sort((a, b) => a.order_priority - b.order_priority), [serviceRows]);
+
+    // Keep the visitor's selection order, and drop services that were unpublished meanwhile
+    const selectedServices = useMemo(() => selectedServiceIds
+        .map(id => services.find(s => s.id === id))
+        .filter((s): s is NonNullable<typeof s> => Boolean(s))
+        .map(toServiceSnapshot), [selectedServiceIds, services]);
+
+    const estimate = useMemo(
+        () => estimateQuote(selectedServices, platforms, teamSize, timeline, addOns),
+        [selectedServices, platforms, teamSize, timeline, addOns]
+    );
+
+    const priceRange = formatQuoteRange(estimate);
+    const duration = formatQuoteDuration(estimate);
+    const hasSelection = selectedServices.length > 0;
+
+    const handleRequestQuote = (): void => {
+        const quote: QuoteConfiguration = {
+            version: 1,
+            services: selectedServices,
+            platforms,
+            teamSize,
+            timeline,
+            addOns,
+            estimate,
+            created_at: new Date().toISOString()
+        };
+        requestQuote(quote);
+
+        const contactSection = document.getElementById('contact');
+        if (contactSection) {
+            contactSection.scrollIntoView({ behavior: 'smooth' });
+            const firstInput = contactSection.querySelector('input:not([tabindex="-1"]), textarea') as HTMLElement;
+            firstInput?.focus({ preventScroll: true });
+        }
+    };
+
+    // Nothing to estimate until live services have loaded
+    if (loading || services.length === 0) return null;
+
+    return (
+        <section className={`quote-estimator ${className}`} aria-labelledby={headingId}>
+            <header className="quote-estimator__header">
+                <h3 id={headingId} className="quote-estimator__title">Estimate Your Project</h3>
+                <p className="quote-estimator__subtitle">
+                    Pick the services and scope you have in mind for an indicative price and timeline.
+                </p>
+            </header>
+
+            <div className="quote-estimator__body">
+                <div className="quote-estimator__options">
+                    <fieldset className="quote-estimator__group">
+                        <legend className="quote-estimator__legend">Services</legend>
+                        <div className="quote-estimator__choices quote-estimator__choices--services">
+                            {services.map(service => (
+                                <label key={service.id} className="quote-estimator__choice">
+                                    <input
+                                        type="checkbox"
+                                        checked={selectedServiceIds.includes(service.id)}
+                                        onChange={() => setSelectedServiceIds(prev => toggleValue(prev, service.id))}
+                                    />
+                                    <span className="quote-estimator__choice-label">
+                                        {service.icon && <span aria-hidden="true">{service.icon} </span>}
+                                        {service.title}
+                                    </span>
+                                </label>
+                            ))}
+                        </div>
+                    </fieldset>
+
+                    <fieldset className="quote-estimator__group">
+                        <legend className="quote-estimator__legend">Platforms</legend>
+                        <div className="quote-estimator__choices">
+                            {QUOTE_PLATFORMS.map(platform => (
+                                <label key={platform.value} className="quote-estimator__choice" title={platform.description}>
+                                    <input
+                                        type="checkbox"
+                                        checked={platforms.includes(platform.value)}
+                                        onChange={() => setPlatforms(prev => toggleValue(prev, platform.value))}
+                                    />
+                                    <span className="quote-estimator__choice-label">{platform.label}</span>
+                                </label>
+                            ))}
+                        </div>
+                    </fieldset>
+
+                    <fieldset className="quote-estimator__group">
+                        <legend className="quote-estimator__legend">Team size</legend>
+                        <div className="quote-estimator__choices">
+                            {QUOTE_TEAM_SIZES.map(option => (
+                                <label key={option.value} className="quote-estimator__choice">
+                                    <input
+                                        type="radio"
+                                        name={`${headingId}-team`}
+                                        checked={teamSize === option.value}
+                                        onChange={() => setTeamSize(option.value)}
+                                    />
+                                    <span className="quote-estimator__choice-label">
+                                        {option.label}
+                                        <small>{option.description}</small>
+                                    </span>
+                                </label>
+                            ))}
+                        </div>
+                    </fieldset>
+
+                    <fieldset className="quote-estimator__group">
+                        <legend className="quote-estimator__legend">Timeline</legend>
+                        <div className="quote-estimator__choices">
+                            {QUOTE_TIMELINES.map(option => (
+                                <label key={option.value} className="quote-estimator__choice">
+                                    <input
+                                        type="radio"
+                                        name={`${headingId}-timeline`}
+                                        checked={timeline === option.value}
+                                        onChange={() => setTimeline(option.value)}
+                                    />
+                                    <span className="quote-estimator__choice-label">
+                                        {option.label}
+                                        <small>{option.description}</small>
+                                    </span>
+                                </label>
+                            ))}
+                        </div>
+                    </fieldset>
+
+                    <fieldset className="quote-estimator__group">
+                        <legend className="quote-estimator__legend">Add-ons</legend>
+                        <div className="quote-estimator__choices">
+                            {QUOTE_ADD_ONS.map(addOn => (
+                                <label key={addOn.value} className="quote-estimator__choice">
+                                    <input
+                                        type="checkbox"
+                                        checked={addOns.includes(addOn.value)}
+                                        onChange={() => setAddOns(prev => toggleValue(prev, addOn.value))}
+                                    />
+                                    <span className="quote-estimator__choice-label">{addOn.label}</span>
+                                </label>
+                            ))}
+                        </div>
+                    </fieldset>
+                </div>
+
+                <aside className="quote-estimator__summary" aria-live="polite">
+                    {hasSelection ? (
+                        <>
+                            <p className="quote-estimator__summary-label">Indicative price</p>
+                            <p className="quote-estimator__price">{priceRange ?? 'Custom quote'}</p>
+                            {duration && (
+                                <>
+                                    <p className="quote-estimator__summary-label">Estimated duration</p>
+                                    <p className="quote-estimator__duration">{duration}</p>
+                                </>
+                            )}
+                            {estimate.unpricedServices.length > 0 && (
+                                <p className="quote-estimator__note">
+                                    Not included: {estimate.unpricedServices.join(', ')} (quoted individually)
+                                </p>
+                            )}
+                            {selectedServices.some(s => s.pricing_model === 'hourly') && (
+                                <p className="quote-estimator__note">Hourly services are estimated from their typical duration.</p>
+                            )}
+                        </>
+                    ) : (
+                        <p className="quote-estimator__placeholder">Select at least one service to see an estimate.</p>
+                    )}
+
+                    <button
+                        type="button"
+                        className="quote-estimator__cta"
+                        onClick={handleRequestQuote}
+                        disabled={!hasSelection}
+                    >
+                        Request This Quote
+                    </button>
+                    <p className="quote-estimator__disclaimer">
+                        Estimates are a rough guide. We'll confirm scope and pricing after we hear from you.
+                    </p>
+                </aside>
+            </div>
+        </section>
+    );
+};
+
+export default QuoteEstimator;
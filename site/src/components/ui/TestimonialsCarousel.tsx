@@ -0,0 +1,183 @@
+// components/ui/TestimonialsCarousel.tsx - Accessible rotating carousel of client testimonials
+import React, { useCallback, useEffect, useId, useState } from 'react';
+import type { DatabaseTestimonial } from '../../services/DatabaseService';
+import './TestimonialsCarousel.css';
+
+interface TestimonialsCarouselProps {
+    testimonials: DatabaseTestimonial[];
+    label?: string;
+    autoPlayInterval?: number;
+    className?: string;
+}
+
+const prefersReducedMotion = (): boolean =>
+    typeof window !== 'undefined' &&
+    window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+
+const TestimonialsCarousel: React.FC<TestimonialsCarouselProps> = ({
+    testimonials,
+    label = 'Client testimonials',
+    autoPlayInterval = 7000,
+    className = ''
+}) => {
+    const carouselId = useId();
+    const [activeIndex, setActiveIndex] = useState(0);
+    // Rotation is opt-out: it stops for reduced motion, on hover/focus, or when the user pauses it
+    const [isPlaying, setIsPlaying] = useState(() => !prefersReducedMotion());
+    const [isInteracting, setIsInteracting] = useState(false);
+
+    const count = testimonials.length;
+    const isRotating = isPlaying && !isInteracting && count > 1;
+
+    // Realtime updates can shrink the list under the current slide
+    useEffect(() => {
+        if (activeIndex >= count && count > 0) {
+            setActiveIndex(count - 1);
+        }
+    }, [activeIndex, count]);
+
+    const goTo = useCallback((index: number) => {
+        if (count === 0) return;
+        setActiveIndex((index + count) % count);
+    }, [count]);
+
+    useEffect(() => {
+        if (!isRotating) return;
+        const timer = setInterval(() => {
+            setActiveIndex(prev => (prev + 1) % count);
+        }, autoPlayInterval);
+        return () => clearInterval(timer);
+    }, [isRotating, count, autoPlayInterval]);
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowLeft') {
+            e.preventDefault();
+            goTo(activeIndex - 1);
+        } else if (e.key === 'ArrowRight') {
+            e.preventDefault();
+            goTo(activeIndex + 1);
+        }
+    };
+
+    if (count === 0) return null;
+
+    return (
+        <section
+            className={`testimonials-carousel ${className}`}
+            aria-roledescription="carousel"
+            aria-label={label}
+            onMouseEnter={() => setIsInteracting(true)}
+            onMouseLeave={() => setIsInteracting(false)}
+            onFocus={() => setIsInteracting(true)}
+            onBlur={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+                    setIsInteracting(false);
+                }
+            }}
+            onKeyDown={handleKeyDown}
+        >
+            {count > 1 && (
+                <div className="testimonials-carousel__controls">
+                    <button
+                        type="button"
+                        className="testimonials-carousel__control"
+                        onClick={() => setIsPlaying(prev => !prev)}
+                        aria-label={isPlaying ? 'Stop automatic slide show' : 'Start automatic slide show'}
+                    >
+                        {isPlaying ? '❚❚' : '▶'}
+                    </button>
+                    <button
+                        type="button"
+                        className="testimonials-carousel__control"
+                        onClick={() => goTo(activeIndex - 1)}
+                        aria-controls={carouselId}
+                        aria-label="Previous testimonial"
+                    >
+                        ‹
+                    </button>
+                    <button
+                        type="button"
+                        className="testimonials-carousel__control"
+                        onClick={() => goTo(activeIndex + 1)}
+                        aria-controls={carouselId}
+                        aria-label="Next testimonial"
+                    >
+                        ›
+                    </button>
+                </div>
+            )}
+
+            <div
+                id={carouselId}
+                className="testimonials-carousel__viewport"
+                aria-live={isRotating ? 'off' : 'polite'}
+            >
+                {testimonials.map((testimonial, index) => {
+                    const isActive = index === activeIndex;
+                    const rating = Math.max(0, Math.min(5, Math.round(testimonial.rating || 0)));
+                    return (
+                        <figure
+                            key={testimonial.id}
+                            className={`testimonials-carousel__slide ${isActive ? 'testimonials-carousel__slide--active' : ''}`}
+                            role="group"
+                            aria-roledescription="slide"
+                            aria-label={`${index + 1} of ${count}`}
+                            hidden={!isActive}
+                        >
+                            {rating > 0 && (
+                                <div
+                                    className="testimonials-carousel__rating"
+                                    role="img"
+                                    aria-label={`Rated ${rating} out of 5`}
+                                >
+                                    {'★'.repeat(rating)}
+                                    <span className="testimonials-carousel__rating-empty">
+                                        {'★'.repeat(5 - rating)}
+                                    </span>
+                                </div>
+                            )}
+                            <blockquote className="testimonials-carousel__quote">
+                                <p>{testimonial.content}</p>
+                            </blockquote>
+                            <figcaption className="testimonials-carousel__author">
+                                {testimonial.avatar_url && (
+                                    <img
+                                        src={testimonial.avatar_url}
+                                        alt=""
+                                        className="testimonials-carousel__avatar"
+                                        loading="lazy"
+                                    />
+                                )}
+                                <span>
+                                    <span className="testimonials-carousel__name">{testimonial.name}</span>
+                                    {(testimonial.position || testimonial.company) && (
+                                        <span className="testimonials-carousel__role">
+                                            {[testimonial.position, testimonial.company].filter(Boolean).join(', ')}
+                                        </span>
+                                    )}
+                                </span>
+                            </figcaption>
+                        </figure>
+                    );
+                })}
+            </div>
+
+            {count > 1 && (
+                <div className="testimonials-carousel__dots" role="group" aria-label="Choose testimonial">
+                    {testimonials.map((testimonial, index) => (
+                        <button
+                            key={testimonial.id}
+                            type="button"
+                            className={`testimonials-carousel__dot ${index === activeIndex ? 'testimonials-carousel__dot--active' : ''}`}
+                            onClick={() => goTo(index)}
+                            aria-label={`Show testimonial ${index + 1} from ${testimonial.name}`}
+                            aria-current={index === activeIndex ? 'true' : undefined}
+                        />
+                    ))}
+                </div>
+            )}
+        </section>
+    );
+};
+
+export default TestimonialsCarousel;
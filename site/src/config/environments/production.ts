@@ -5,6 +5,7 @@ export const productionConfig = {
         retries: 2
     },
     supabase: {
+        backend: 'supabase' as 'local' | 'supabase',
         url: import.meta.env.VITE_SUPABASE_URL!,
         anonKey: import.meta.env.VITE_SUPABASE_ANON_KEY!,
         auth: {
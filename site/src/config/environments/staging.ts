@@ -5,6 +5,8 @@ export const stagingConfig = {
         retries: 2
     },
     supabase: {
+        // 'local' runs against the in-memory backend in services/local, with no network
+        backend: (import.meta.env.VITE_DATA_BACKEND === 'local' ? 'local' : 'supabase') as 'local' | 'supabase',
         url: import.meta.env.VITE_SUPABASE_URL!,
         anonKey: import.meta.env.VITE_SUPABASE_ANON_KEY!,
         auth: {
@@ -169,7 +169,7 @@ if (isDevelopment) {
             issues.push('Analytics enabled but trackingId is missing');
         }
 
-        if (config.supabase && (!config.supabase.url || !config.supabase.anonKey)) {
+        if (config.supabase && config.supabase.backend !== 'local' && (!config.supabase.url || !config.supabase.anonKey)) {
             issues.push('Supabase configuration incomplete');
         }
 
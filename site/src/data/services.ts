@@ -108,6 +108,41 @@ export const servicesData: ServiceData[] = [
     }
 ];
 
+export interface ProcessStep {
+    number: number;
+    title: string;
+    description: string;
+    duration: string;
+}
+
+// How an engagement runs, shown under the services list
+export const serviceProcess: ProcessStep[] = [
+    {
+        number: 1,
+        title: 'Discovery',
+        description: 'We learn your goals, audience and target platforms, then agree on scope and budget',
+        duration: '1-2 weeks'
+    },
+    {
+        number: 2,
+        title: 'Prototyping',
+        description: 'Core mechanics and interfaces are prototyped and playtested before production starts',
+        duration: '2-4 weeks'
+    },
+    {
+        number: 3,
+        title: 'Development',
+        description: 'Production in milestones, each with a playable build for you to review',
+        duration: 'Per project'
+    },
+    {
+        number: 4,
+        title: 'Testing & Launch',
+        description: 'QA, performance tuning and store submission on every target platform',
+        duration: '2-3 weeks'
+    }
+];
+
 export const getServicesByCategory = (category: ServiceData['category']): ServiceData[] => {
     return servicesData.filter(service => service.category === category);
 };
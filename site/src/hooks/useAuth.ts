@@ -1,12 +1,41 @@
 // hooks/useAuth.ts - Functional auth hook with Google OAuth
 import { useState, useCallback, useEffect } from 'react';
 import { Session, User } from '@supabase/supabase-js';
-import { UserProfile, ExtendedAuthState, ProfileCompletionStatus } from '../types/profile';
+import { UserProfile, ExtendedAuthState, ProfileCompletionStatus, PROFILE_COMPLETION_REQUIREMENTS } from '../types/profile';
 import { AuthResult } from '../types/auth';
 import AuthService from '../services/AuthService';
+import UserProfileService from '../services/UserProfileService';
 
 // Using types from profile.ts for consistency
 type AuthState = ExtendedAuthState;
+type ProfileState = Pick<AuthState, 'profile' | 'profileCompleted' | 'profileCompletionPercentage'>;
+
+const isFieldFilled = (profile: UserProfile, field: keyof UserProfile): boolean => {
+    const value = profile[field];
+    return typeof value === 'string' ? value.trim() !== '' : value != null;
+};
+
+// Share of the required and optional profile fields that are filled in
+const getCompletionPercentage = (profile: UserProfile | null): number => {
+    if (!profile) return 0;
+    const { required_fields, optional_fields } = PROFILE_COMPLETION_REQUIREMENTS;
+    const fields = [...required_fields, ...optional_fields];
+    return Math.round((fields.filter(field => isFieldFilled(profile, field)).length / fields.length) * 100);
+};
+
+// A missing or unreadable profile counts as incomplete rather than blocking sign-in
+const fetchProfileState = async (userId: string): Promise<ProfileState> => {
+    const { profile, error } = await UserProfileService.getUserProfile(userId);
+    if (error) {
+        console.warn('⚠️ Profile could not be loaded, treating it as incomplete:', error);
+    }
+
+    return {
+        profile,
+        profileCompleted: !!profile && PROFILE_COMPLETION_REQUIREMENTS.required_fields.every(field => isFieldFilled(profile, field)),
+        profileCompletionPercentage: getCompletionPercentage(profile)
+    };
+};
 
 export const useAuth = () => {
     const [authState, setAuthState] = useState<AuthState>({
@@ -15,6 +44,7 @@ export const useAuth = () => {
         loading: true,
         isAuthenticated: false,
         isAdmin: false,
+        isClient: false,
         profile: null,
         profileLoading: false,
         profileCompleted: false,
@@ -142,6 +172,7 @@ export const useAuth = () => {
                     loading: false,
                     isAuthenticated: false,
                     isAdmin: false,
+                    isClient: false,
                     profile: null,
                     profileLoading: false,
                     profileCompleted: false,
@@ -166,6 +197,7 @@ export const useAuth = () => {
             // Check admin status - profiles are created automatically by database triggers
             console.log('🔍 Checking admin status...');
             let isAdmin = false;
+            let isClient = false;
             
             try {
                 isAdmin = await AuthService.isAdmin(session.user.id);
@@ -178,15 +210,17 @@ export const useAuth = () => {
                     // Add any admin-specific initialization here
                 } else {
                     console.log('👤 Regular user - applying user adjustments');
-                    // Add any user-specific initialization here
+                    // Clients get the /portal area
+                    isClient = (await AuthService.getUserRole(session.user.id)) === 'client';
                 }
                 
             } catch (adminError) {
                 console.warn('⚠️ Admin check failed, defaulting to false:', adminError);
                 isAdmin = false;
+                isClient = false;
             }
             
-            console.log('🔍 CHECKPOINT 4: Profile operations complete, setting final state...');
+            console.log('🔍 CHECKPOINT 4: Role checks complete, setting state while the profile loads...');
 
             const newState = {
                 user: session.user,
@@ -194,10 +228,11 @@ export const useAuth = () => {
                 loading: false,
                 isAuthenticated: true,
                 isAdmin,
+                isClient,
                 profile: null,
-                profileLoading: false,
-                profileCompleted: true, // Profiles are automatically created and considered complete
-                profileCompletionPercentage: 100 // Auto-created profiles are considered 100% complete
+                profileLoading: true,
+                profileCompleted: false,
+                profileCompletionPercentage: 0
             };
             
             console.log('🔓 Auth state set to:', {
@@ -211,7 +246,9 @@ export const useAuth = () => {
             
             console.log('🔍 CHECKPOINT 5: About to call setAuthState...');
             setAuthState(newState);
-            console.log('🔍 CHECKPOINT 6: setAuthState called successfully - auth flow COMPLETE');
+
+            await loadUserProfile(session.user.id);
+            console.log('🔍 CHECKPOINT 6: Profile loaded - auth flow COMPLETE');
 
         } catch (error) {
             console.error('❌ processAuthState: Failed to update auth state:', error);
@@ -226,25 +263,18 @@ export const useAuth = () => {
     const [profileStatus] = useState<ProfileCompletionStatus | null>(null);
 
     // Functional auth methods
-    const loadUserProfile = useCallback(async (userId: string, forceRefresh: boolean = false): Promise<void> => {
-        // Profile loading implementation can be added later if needed
-        console.log('loadUserProfile called for:', userId);
+    const loadUserProfile = useCallback(async (userId: string): Promise<void> => {
+        setAuthState(prev => prev.user?.id === userId ? { ...prev, profileLoading: true } : prev);
+        const profileState = await fetchProfileState(userId);
+
+        // Drop the result if the user signed out or switched accounts meanwhile
+        setAuthState(prev => prev.user?.id === userId
+            ? { ...prev, ...profileState, profileLoading: false }
+            : prev);
     }, []);
     
     const calculateProfileCompletionPercentage = useCallback((profile: UserProfile): number => {
-        // Simple profile completion calculation
-        if (!profile) return 0;
-        let completed = 0;
-        let total = 0;
-        
-        // Check required fields
-        if (profile.full_name) completed++;
-        total++;
-        
-        if (profile.email) completed++;
-        total++;
-        
-        return Math.round((completed / total) * 100);
+        return getCompletionPercentage(profile);
     }, []);
 
     const signInWithGoogle = useCallback(async (): Promise<AuthResult> => {
@@ -305,6 +335,7 @@ export const useAuth = () => {
                 loading: false,
                 isAuthenticated: false,
                 isAdmin: false,
+                isClient: false,
                 profile: null,
                 profileLoading: false,
                 profileCompleted: false,
@@ -344,13 +375,13 @@ export const useAuth = () => {
         }
         
         try {
-            await updateAuthState(authState.session);
+            await loadUserProfile(authState.user.id);
             return { success: true };
         } catch (error) {
             console.error('useAuth: Profile refresh failed:', error);
             return { success: false, error: { message: 'Profile refresh failed' } };
         }
-    }, [authState.user, authState.session]);
+    }, [authState.user, loadUserProfile]);
 
     const completeProfile = useCallback(async (additionalData?: Record<string, any>): Promise<AuthResult> => {
         return { success: false, error: { message: 'Profile completion not implemented' } };
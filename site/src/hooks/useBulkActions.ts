@@ -0,0 +1,129 @@
+import { useState, useEffect, useCallback } from 'react';
+
+export interface BulkItemResult {
+    id: string;
+    label: string;
+    error?: string;
+}
+
+export interface BulkRunResult {
+    action: string;
+    succeeded: BulkItemResult[];
+    failed: BulkItemResult[];
+}
+
+export interface BulkProgress {
+    action: string;
+    done: number;
+    total: number;
+}
+
+/**
+ * Multi-select over the rows that match the current filters. Rows that stop
+ * matching (filter change, row removed) drop out of the selection, so a bulk
+ * action never touches rows the admin can no longer see.
+ */
+export const useBulkSelection = (matchingIds: string[]) => {
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const matchingKey = matchingIds.join(',');
+
+    // Keyed on the joined ids because callers rebuild the array on every render
+    useEffect(() => {
+        const matching = new Set(matchingKey ? matchingKey.split(',') : []);
+        setSelected(prev => {
+            const next = new Set([...prev].filter(id => matching.has(id)));
+            return next.size === prev.size ? prev : next;
+        });
+    }, [matchingKey]);
+
+    const toggle = useCallback((id: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    }, []);
+
+    const selectAllMatching = useCallback(() => {
+        setSelected(new Set(matchingKey ? matchingKey.split(',') : []));
+    }, [matchingKey]);
+
+    const clear = useCallback(() => setSelected(new Set()), []);
+
+    const deselect = useCallback((ids: string[]) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            ids.forEach(id => next.delete(id));
+            return next;
+        });
+    }, []);
+
+    return {
+        selectedIds: [...selected],
+        count: selected.size,
+        matchingCount: matchingIds.length,
+        isSelected: (id: string) => selected.has(id),
+        allSelected: matchingIds.length > 0 && selected.size === matchingIds.length,
+        toggle,
+        selectAllMatching,
+        clear,
+        deselect
+    };
+};
+
+// Supabase errors are plain objects with a message rather than Error instances
+const getErrorMessage = (error: unknown): string => {
+    if (error instanceof Error) return error.message;
+    if (typeof error === 'object' && error !== null && 'message' in error && typeof error.message === 'string') {
+        return error.message || 'Unknown error';
+    }
+    return 'Unknown error';
+};
+
+/**
+ * Runs one async task per item, one at a time, keeping going past failures.
+ * Progress is exposed while it runs; the per-item outcome stays available
+ * until dismissed so partial failures can be reviewed.
+ */
+export const useBulkRunner = () => {
+    const [progress, setProgress] = useState<BulkProgress | null>(null);
+    const [result, setResult] = useState<BulkRunResult | null>(null);
+
+    const run = useCallback(async <T extends { id: string }>(
+        action: string,
+        items: T[],
+        getLabel: (item: T) => string,
+        task: (item: T) => Promise<unknown>
+    ): Promise<BulkRunResult> => {
+        const outcome: BulkRunResult = { action, succeeded: [], failed: [] };
+        setResult(null);
+        setProgress({ action, done: 0, total: items.length });
+
+        for (const item of items) {
+            try {
+                await task(item);
+                outcome.succeeded.push({ id: item.id, label: getLabel(item) });
+            } catch (error) {
+                console.error(`Bulk "${action}" failed for ${item.id}:`, error);
+                outcome.failed.push({
+                    id: item.id,
+                    label: getLabel(item),
+                    error: getErrorMessage(error)
+                });
+            }
+            setProgress({ action, done: outcome.succeeded.length + outcome.failed.length, total: items.length });
+        }
+
+        setProgress(null);
+        setResult(outcome);
+        return outcome;
+    }, []);
+
+    const dismiss = useCallback(() => setResult(null), []);
+
+    return { progress, result, running: progress !== null, run, dismiss };
+};
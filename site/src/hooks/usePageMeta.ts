@@ -0,0 +1,19 @@
+import { useEffect } from 'react';
+import { updateMetaTags, type SEOData } from '../utils/seo';
+
+/**
+ * Applies page-level meta tags while the calling component is mounted and
+ * restores the previous document title afterwards. Pass null to skip.
+ */
+export const usePageMeta = (seoData: SEOData | null) => {
+    useEffect(() => {
+        if (!seoData) return;
+
+        const previousTitle = document.title;
+        updateMetaTags(seoData);
+
+        return () => {
+            document.title = previousTitle;
+        };
+    }, [seoData]);
+};
@@ -1,19 +1,25 @@
 // hooks/useRealtimeData.ts - Real-time data synchronization hooks
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import databaseService from '../services/DatabaseService';
 import supabaseService from '../services/SupabaseService';
+import projectProgressService from '../services/ProjectProgressService';
 import type { 
     DatabaseProject, 
-    DatabaseService as DBService, 
+    IDatabaseService as DBService, 
     DatabaseArticle,
     DatabaseTestimonial,
     IQueryOptions,
     IPaginationResult,
     IPaginationOptions 
 } from '../services/DatabaseService';
+import type { QuoteConfiguration } from '../types/quote';
+import type { ProjectMilestone, ProjectUpdate } from '../types/portal';
 
 // ===== GENERIC REALTIME HOOK =====
+// Supabase reuses channels with the same topic, so each hook instance needs its own
+let realtimeChannelCounter = 0;
+
 interface UseRealtimeDataOptions<T> {
     tableName: string;
     initialFetch: () => Promise<T[]>;
@@ -38,13 +44,14 @@ function useRealtimeData<T extends { id: string }>({
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const channelRef = useRef<RealtimeChannel | null>(null);
+    const [channelId] = useState(() => ++realtimeChannelCounter);
 
     const handleInsert = useCallback((payload: RealtimePostgresChangesPayload<T>) => {
         setData(prevData => {
-            const newRecord = payload.new as T;
+            const newRecord = payload.new as T & { deleted_at?: string | null };
             const exists = prevData.some(item => item.id === newRecord.id);
             
-            if (!exists) {
+            if (!exists && !newRecord.deleted_at) {
                 return [...prevData, newRecord];
             }
             return prevData;
@@ -52,9 +59,17 @@ function useRealtimeData<T extends { id: string }>({
     }, []);
 
     const handleUpdate = useCallback((payload: RealtimePostgresChangesPayload<T>) => {
+        const updated = payload.new as T & { deleted_at?: string | null };
+
+        // Moving a row to the trash is an UPDATE, but for readers it's a delete
+        if (updated.deleted_at) {
+            setData(prevData => prevData.filter(item => item.id !== updated.id));
+            return;
+        }
+
         setData(prevData => 
             prevData.map(item => 
-                item.id === payload.new.id ? payload.new as T : item
+                item.id === updated.id ? updated : item
             )
         );
     }, []);
@@ -99,7 +114,7 @@ function useRealtimeData<T extends { id: string }>({
         // Set up real-time subscription
         const client = supabaseService.getClient();
         const channel = client
-            .channel(`${tableName}_changes`)
+            .channel(`${tableName}_changes_${channelId}`)
             .on(
                 'postgres_changes',
                 {
@@ -143,7 +158,7 @@ function useRealtimeData<T extends { id: string }>({
                 channelRef.current = null;
             }
         };
-    }, [tableName, fetchData, handleInsert, handleUpdate, handleDelete, enabled]);
+    }, [tableName, channelId, fetchData, handleInsert, handleUpdate, handleDelete, enabled]);
 
     return {
         data,
@@ -227,7 +242,7 @@ export const usePaginatedProjects = (options: UsePaginatedProjectsOptions = {}):
             setLoading(true);
             setError(null);
 
-            const paginationOptions: IPaginationOptions = {
+            const paginationOptions: IPaginationOptions<'projects'> = {
                 page,
                 itemsPerPage,
                 orderBy: 'created_at',
@@ -467,6 +482,30 @@ export const useRealtimeTestimonials = (options?: {
     });
 };
 
+/**
+ * Published testimonials for public display, featured and best-rated first.
+ * Realtime inserts/updates aren't filtered server-side, so drafts are
+ * dropped here as well.
+ */
+export const usePublishedTestimonials = (options?: {
+    projectId?: string;
+    enabled?: boolean;
+}) => {
+    const { data, loading, error, refresh } = useRealtimeTestimonials({ enabled: options?.enabled });
+    const projectId = options?.projectId;
+
+    const testimonials = useMemo(() => data
+        .filter(testimonial => testimonial.published)
+        .filter(testimonial => !projectId || testimonial.project_id === projectId)
+        .sort((a, b) =>
+            Number(b.featured) - Number(a.featured) ||
+            (b.rating || 0) - (a.rating || 0) ||
+            b.created_at.localeCompare(a.created_at)
+        ), [data, projectId]);
+
+    return { testimonials, loading, error, refresh };
+};
+
 // ===== PROJECT-SPECIFIC HOOKS =====
 
 export const useProject = (slug: string, options?: { enabled?: boolean }) => {
@@ -486,8 +525,8 @@ export const useProject = (slug: string, options?: { enabled?: boolean }) => {
             const result = await databaseService.projects.getBySlug(slug);
             setProject(result);
 
-            // Increment view count
-            if (result?.id) {
+            // Increment view count (drafts previewed by admins don't count)
+            if (result?.id && result.published) {
                 await databaseService.projects.incrementViewCount(result.id);
             }
         } catch (err) {
@@ -508,6 +547,45 @@ export const useProject = (slug: string, options?: { enabled?: boolean }) => {
     return { project, loading, error, refresh: fetchProject };
 };
 
+/**
+ * Public devlog for a project: its milestones and the update posts marked public
+ */
+export const useProjectTimeline = (projectId?: string, options?: { enabled?: boolean }) => {
+    const [milestones, setMilestones] = useState<ProjectMilestone[]>([]);
+    const [updates, setUpdates] = useState<ProjectUpdate[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const enabled = options?.enabled ?? true;
+
+    const fetchTimeline = useCallback(async () => {
+        if (!projectId || !enabled) {
+            setMilestones([]);
+            setUpdates([]);
+            return;
+        }
+
+        try {
+            setLoading(true);
+            setError(null);
+            const result = await projectProgressService.getPublicTimeline(projectId);
+            setMilestones(result.milestones);
+            setUpdates(result.updates);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Failed to fetch project timeline';
+            setError(errorMessage);
+            console.error('Error fetching project timeline:', err);
+        } finally {
+            setLoading(false);
+        }
+    }, [projectId, enabled]);
+
+    useEffect(() => {
+        fetchTimeline();
+    }, [fetchTimeline]);
+
+    return { milestones, updates, loading, error, refresh: fetchTimeline };
+};
+
 export const useService = (slug: string, options?: { enabled?: boolean }) => {
     const [service, setService] = useState<DBService | null>(null);
     const [loading, setLoading] = useState(true);
@@ -559,8 +637,8 @@ export const useArticle = (slug: string, options?: { enabled?: boolean }) => {
             const result = await databaseService.articles.getBySlug(slug);
             setArticle(result);
 
-            // Increment view count
-            if (result?.id) {
+            // Increment view count (drafts previewed by admins don't count)
+            if (result?.id && result.published) {
                 await databaseService.articles.incrementViewCount(result.id);
             }
         } catch (err) {
@@ -594,28 +672,32 @@ export const useContactForm = () => {
         phone?: string;
         subject: string;
         message: string;
-        serviceInterest?: string;
+        projectType?: string;
+        serviceId?: string;             // First service of an attached quote
         projectBudget?: string;
         timeline?: string;
+        quoteConfig?: QuoteConfiguration;
     }) => {
         try {
             setSubmitting(true);
             setError(null);
 
-            await databaseService.inquiries.submitInquiry({
+            const inquiry = await databaseService.inquiries.submitInquiry({
                 name: formData.name,
                 email: formData.email,
                 company: formData.company,
                 phone: formData.phone,
                 subject: formData.subject,
                 message: formData.message,
-                service_interest: formData.serviceInterest,
+                project_type: formData.projectType,
+                service_interest: formData.serviceId,
                 project_budget: formData.projectBudget,
-                timeline: formData.timeline
+                timeline: formData.timeline,
+                quote_config: formData.quoteConfig ?? null
             });
 
             setSubmitted(true);
-            return { success: true };
+            return { success: true, inquiryId: inquiry.id };
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : 'Failed to submit inquiry';
             setError(errorMessage);
@@ -1,9 +1,15 @@
 import { useState, useEffect, useCallback } from 'react';
+import databaseService from '../services/DatabaseService';
+import type { IDatabaseService } from '../services/DatabaseService';
+import { serviceProcess } from '../data/services';
+import type { ProcessStep } from '../data/services';
+
+export type { ProcessStep };
 
 export interface ServiceData {
     id: string;
     title: string;
-    category: 'development' | 'consulting' | 'optimization' | 'design';
+    category: IDatabaseService['category'];
     description: string;
     features: string[];
     pricing: string;
@@ -18,23 +24,19 @@ export interface ServiceCategory {
     count: number;
 }
 
-export interface ProcessStep {
-    number: number;
-    title: string;
-    description: string;
-    duration: string;
-}
-
 export interface ServicesDataResponse {
     services: ServiceData[];
     categories: ServiceCategory[];
     process: ProcessStep[];
 }
 
+export type ServicesDataSource = 'database' | 'fallback';
+
 interface UseServicesDataState {
     data: ServicesDataResponse | null;
     loading: boolean;
     error: string | null;
+    source: ServicesDataSource | null;
 }
 
 interface UseServicesDataOptions {
@@ -43,6 +45,95 @@ interface UseServicesDataOptions {
     retryDelay?: number;
 }
 
+const FALLBACK_URL = './data/services.json';
+
+const formatPricing = (service: IDatabaseService): string => {
+    if (service.base_price == null) {
+        return service.pricing_model || 'Contact for pricing';
+    }
+
+    const price = new Intl.NumberFormat(undefined, {
+        style: 'currency',
+        currency: service.currency || 'USD',
+        maximumFractionDigits: 0
+    }).format(service.base_price);
+
+    return service.pricing_model === 'hourly' ? `${price}/hour` : `From ${price}`;
+};
+
+const toServiceData = (service: IDatabaseService): ServiceData => ({
+    id: service.slug || service.id,
+    title: service.title,
+    category: service.category,
+    description: service.short_description,
+    features: service.features || [],
+    pricing: formatPricing(service),
+    icon: service.icon || '🎮',
+    featured: service.featured,
+    priority: service.order_priority
+});
+
+const buildCategories = (services: ServiceData[]): ServiceCategory[] => {
+    const counts = new Map<string, number>();
+    services.forEach(service => {
+        counts.set(service.category, (counts.get(service.category) || 0) + 1);
+    });
+
+    return [
+        { id: 'all', label: 'All Services', count: services.length },
+        ...Array.from(counts, ([id, count]) => ({
+            id,
+            label: id.charAt(0).toUpperCase() + id.slice(1),
+            count
+        }))
+    ];
+};
+
+const fetchFallbackData = async (): Promise<ServicesDataResponse> => {
+    const response = await fetch(FALLBACK_URL, {
+        headers: {
+            'Accept': 'application/json',
+            'Cache-Control': 'public, max-age=300' // 5 minute cache
+        }
+    });
+
+    if (!response.ok) {
+        throw new Error(`Failed to load services data: ${response.status} ${response.statusText}`);
+    }
+
+    const data: ServicesDataResponse = await response.json();
+
+    // Validate data structure
+    if (!data.services || !Array.isArray(data.services)) {
+        throw new Error('Invalid services data structure');
+    }
+
+    return data;
+};
+
+/**
+ * Published services come from the database. The static JSON file is only
+ * used when the database can't be reached; the process steps always come
+ * from data/services.ts, as they have no table of their own.
+ */
+const fetchServicesData = async (): Promise<{ data: ServicesDataResponse; source: ServicesDataSource }> => {
+    let rows: IDatabaseService[];
+    try {
+        rows = await databaseService.services.getPublished();
+    } catch (error) {
+        console.warn('Services unavailable from database, using offline data:', error);
+        const fallback = await fetchFallbackData();
+        return { data: { ...fallback, process: serviceProcess }, source: 'fallback' };
+    }
+
+    const services = rows.map(toServiceData);
+
+    return {
+        data: { services, categories: buildCategories(services), process: serviceProcess },
+        source: 'database'
+    };
+};
+
 export const useServicesData = (options: UseServicesDataOptions = {}) => {
     const {
         loadOnMount = false,
@@ -53,7 +144,8 @@ export const useServicesData = (options: UseServicesDataOptions = {}) => {
     const [state, setState] = useState<UseServicesDataState>({
         data: null,
         loading: false,
-        error: null
+        error: null,
+        source: null
     });
 
     const loadServices = useCallback(async (attempt = 0): Promise<void> => {
@@ -65,23 +157,7 @@ export const useServicesData = (options: UseServicesDataOptions = {}) => {
                 await new Promise(resolve => setTimeout(resolve, 300));
             }
 
-            const response = await fetch('./data/services.json', {
-                headers: {
-                    'Accept': 'application/json',
-                    'Cache-Control': 'public, max-age=300' // 5 minute cache
-                }
-            });
-
-            if (!response.ok) {
-                throw new Error(`Failed to load services data: ${response.status} ${response.statusText}`);
-            }
-
-            const data: ServicesDataResponse = await response.json();
-
-            // Validate data structure
-            if (!data.services || !Array.isArray(data.services)) {
-                throw new Error('Invalid services data structure');
-            }
+            const { data, source } = await fetchServicesData();
 
             // Sort services by priority
             data.services.sort((a, b) => a.priority - b.priority);
@@ -89,7 +165,8 @@ export const useServicesData = (options: UseServicesDataOptions = {}) => {
             setState({
                 data,
                 loading: false,
-                error: null
+                error: null,
+                source
             });
 
         } catch (error) {
@@ -108,7 +185,8 @@ export const useServicesData = (options: UseServicesDataOptions = {}) => {
             setState({
                 data: null,
                 loading: false,
-                error: errorMessage
+                error: errorMessage,
+                source: null
             });
         }
     }, [retryCount, retryDelay]);
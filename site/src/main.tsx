@@ -2,10 +2,19 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import './styles/themes/all-themes.css'
-import AppRouter from './components/router/AppRouter.tsx'
+import { loadDataBackend } from './services/supabaseClient'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <AppRouter />
-  </StrictMode>,
-)
+// The services take the Supabase client when their modules load, so the
+// router (and everything behind it) is imported once the backend is ready
+const start = async () => {
+  await loadDataBackend()
+  const { default: AppRouter } = await import('./components/router/AppRouter.tsx')
+
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <AppRouter />
+    </StrictMode>,
+  )
+}
+
+start()
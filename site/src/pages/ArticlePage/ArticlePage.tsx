@@ -0,0 +1,142 @@
+// pages/ArticlePage/ArticlePage.tsx - Full article view for /articles/:slug
+import React, { useEffect, useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useArticle } from '../../hooks/useRealtimeData';
+import { usePageMeta } from '../../hooks/usePageMeta';
+import { LoadingSpinner } from '../../components/ui/LoadingSpinner';
+import { renderMarkdown, estimateReadingTime } from '../../utils/markdown';
+import './ArticlePage.css';
+
+const formatPublishDate = (date?: string): string | null => {
+    if (!date) return null;
+    return new Date(date).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric'
+    });
+};
+
+const ArticlePage: React.FC = () => {
+    const { slug = '' } = useParams<{ slug: string }>();
+    const { article, loading, error } = useArticle(slug);
+
+    // Unpublished drafts are only reachable through the admin panel
+    const visibleArticle = article && article.published ? article : null;
+
+    const contentHtml = useMemo(
+        () => (visibleArticle ? renderMarkdown(visibleArticle.content) : ''),
+        [visibleArticle]
+    );
+
+    const readingTime = visibleArticle
+        ? visibleArticle.reading_time_minutes || estimateReadingTime(visibleArticle.content)
+        : 0;
+
+    const seoData = useMemo(() => visibleArticle && {
+        title: `${visibleArticle.seo_title || visibleArticle.title} | GamingDronzz`,
+        description: visibleArticle.seo_description || visibleArticle.excerpt || visibleArticle.title,
+        keywords: visibleArticle.tags ?? undefined,
+        image: visibleArticle.featured_image ?? undefined,
+        url: window.location.href,
+        type: 'article' as const
+    }, [visibleArticle]);
+
+    usePageMeta(seoData);
+
+    useEffect(() => {
+        window.scrollTo(0, 0);
+    }, [slug]);
+
+    if (loading) {
+        return (
+            <div className="article-page article-page--loading">
+                <LoadingSpinner size="lg" message="Loading article..." />
+            </div>
+        );
+    }
+
+    if (error || !visibleArticle) {
+        return (
+            <div className="article-page article-page--not-found">
+                <div className="article-page__container article-page__empty">
+                    <span className="article-page__empty-icon" aria-hidden="true">📄</span>
+                    <h1 className="article-page__empty-title">
+                        {error ? 'Unable to load article' : 'Article not found'}
+                    </h1>
+                    <p className="article-page__empty-text">
+                        {error
+                            ? 'Something went wrong while loading this article. Please try again later.'
+                            : "The article you're looking for doesn't exist or is no longer available."}
+                    </p>
+                    <Link to="/#articles" className="article-page__back-link">
+                        ← Back to articles
+                    </Link>
+                </div>
+            </div>
+        );
+    }
+
+    const publishedOn = visibleArticle.published_at || visibleArticle.created_at || undefined;
+    const publishDate = formatPublishDate(publishedOn);
+    const tags = visibleArticle.tags ?? [];
+
+    return (
+        <div className="article-page">
+            <article className="article-page__container">
+                <nav className="article-page__nav" aria-label="Article navigation">
+                    <Link to="/#articles" className="article-page__back-link">
+                        ← Back to articles
+                    </Link>
+                </nav>
+
+                <header className="article-page__header">
+                    {visibleArticle.category && (
+                        <span className="article-page__category">{visibleArticle.category}</span>
+                    )}
+                    <h1 className="article-page__title">{visibleArticle.title}</h1>
+                    {visibleArticle.excerpt && (
+                        <p className="article-page__excerpt">{visibleArticle.excerpt}</p>
+                    )}
+                    <div className="article-page__meta">
+                        {publishDate && (
+                            <time
+                                className="article-page__date"
+                                dateTime={publishedOn}
+                            >
+                                {publishDate}
+                            </time>
+                        )}
+                        <span className="article-page__read-time">{readingTime} min read</span>
+                    </div>
+                </header>
+
+                {visibleArticle.featured_image && (
+                    <figure className="article-page__figure">
+                        <img
+                            src={visibleArticle.featured_image}
+                            alt={visibleArticle.image_alt || visibleArticle.title}
+                            className="article-page__image"
+                        />
+                    </figure>
+                )}
+
+                <div
+                    className="article-page__content"
+                    dangerouslySetInnerHTML={{ __html: contentHtml }}
+                />
+
+                {tags.length > 0 && (
+                    <footer className="article-page__footer">
+                        <ul className="article-page__tags" aria-label="Tags">
+                            {tags.map(tag => (
+                                <li key={tag} className="article-page__tag">{tag}</li>
+                            ))}
+                        </ul>
+                    </footer>
+                )}
+            </article>
+        </div>
+    );
+};
+
+export default ArticlePage;
@@ -0,0 +1,237 @@
+// pages/ClientPortal/ClientPortal.tsx - Project status, milestones, files and updates for signed-in clients
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { LoadingSpinner } from '../../components/ui/LoadingSpinner';
+import ProjectTimeline from '../../components/ui/ProjectTimeline';
+import { useAuth } from '../../hooks/useAuth';
+import ClientPortalService from '../../services/ClientPortalService';
+import type { ClientProject, ProjectFile } from '../../types/portal';
+import { formatFileSize, getMediaFileIcon, getMediaFileType } from '../../utils/mediaFiles';
+import { getProjectProgress } from '../../utils/projectProgress';
+import './ClientPortal.css';
+
+const STATUS_LABELS: Record<string, string> = {
+    planning: 'Planning',
+    ongoing: 'In Progress',
+    completed: 'Completed'
+};
+
+const formatDate = (value: string | null) => value ? new Date(value).toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+}) : 'Unknown';
+
+const ClientPortal: React.FC = () => {
+    const { user } = useAuth();
+    const [projects, setProjects] = useState<ClientProject[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [openingFileId, setOpeningFileId] = useState<string | null>(null);
+
+    const userId = user?.id;
+
+    const loadProjects = useCallback(async () => {
+        if (!userId) return;
+
+        try {
+            setLoading(true);
+            setError(null);
+            const data = await ClientPortalService.getClientProjects(userId);
+            setProjects(data);
+            setSelectedId(prev => prev && data.some(p => p.project.id === prev)
+                ? prev
+                : data[0]?.project.id ?? null);
+        } catch (err) {
+            console.error('Error loading client projects:', err);
+            setError('We could not load your projects. Please try again in a moment.');
+        } finally {
+            setLoading(false);
+        }
+    }, [userId]);
+
+    useEffect(() => {
+        loadProjects();
+    }, [loadProjects]);
+
+    const handleOpenFile = async (file: ProjectFile) => {
+        try {
+            setOpeningFileId(file.id);
+            const url = await ClientPortalService.getFileUrl(file);
+            window.open(url, '_blank', 'noopener,noreferrer');
+        } catch (err) {
+            console.error('Error opening file:', err);
+            alert('Could not open this file. Please try again.');
+        } finally {
+            setOpeningFileId(null);
+        }
+    };
+
+    const displayName = user?.user_metadata?.full_name || user?.user_metadata?.name || user?.email;
+    const selected = projects.find(p => p.project.id === selectedId) ?? null;
+
+    const renderContent = () => {
+        if (loading) {
+            return (
+                <div className="client-portal__state">
+                    <LoadingSpinner size="lg" message="Loading your projects..." />
+                </div>
+            );
+        }
+
+        if (error) {
+            return (
+                <div className="client-portal__state">
+                    <p className="client-portal__state-text">{error}</p>
+                    <button type="button" className="client-portal__button" onClick={loadProjects}>
+                        Try Again
+                    </button>
+                </div>
+            );
+        }
+
+        if (!selected) {
+            return (
+                <div className="client-portal__state">
+                    <span className="client-portal__state-icon" aria-hidden="true">📁</span>
+                    <h2 className="client-portal__state-title">No projects yet</h2>
+                    <p className="client-portal__state-text">
+                        Once we start working together, your projects will show up here.
+                    </p>
+                    <Link to="/#contact" className="client-portal__button">Get in Touch</Link>
+                </div>
+            );
+        }
+
+        const { project, milestones, updates, files } = selected;
+        const progress = getProjectProgress(milestones);
+
+        return (
+            <article className="client-portal__project" aria-labelledby="client-portal-project-title">
+                <header className="client-portal__project-header">
+                    <div>
+                        <h2 id="client-portal-project-title" className="client-portal__project-title">
+                            {project.title}
+                        </h2>
+                        <p className="client-portal__project-meta">
+                            Last updated {formatDate(project.updated_at)}
+                        </p>
+                    </div>
+                    <span className={`client-portal__status client-portal__status--${project.status}`}>
+                        {STATUS_LABELS[project.status] || project.status}
+                    </span>
+                </header>
+
+                {project.description && (
+                    <p className="client-portal__project-description">{project.description}</p>
+                )}
+
+                {progress.total > 0 && (
+                    <div className="client-portal__progress">
+                        <div className="client-portal__progress-label">
+                            <span>Progress</span>
+                            <span>{progress.percent}% · {progress.completed} of {progress.total} milestones done</span>
+                        </div>
+                        <div
+                            className="client-portal__progress-bar"
+                            role="progressbar"
+                            aria-valuemin={0}
+                            aria-valuemax={100}
+                            aria-valuenow={progress.percent}
+                            aria-label="Overall progress"
+                        >
+                            <div className="client-portal__progress-fill" style={{ width: `${progress.percent}%` }} />
+                        </div>
+                    </div>
+                )}
+
+                <div className="client-portal__grid">
+                    <section className="client-portal__section" aria-labelledby="client-portal-timeline">
+                        <h3 id="client-portal-timeline" className="client-portal__section-title">Timeline</h3>
+                        {milestones.length === 0 && updates.length === 0 ? (
+                            <p className="client-portal__empty">
+                                Milestones and progress updates will appear here once the plan is set.
+                            </p>
+                        ) : (
+                            <ProjectTimeline
+                                milestones={milestones}
+                                updates={updates}
+                                label={`${project.title} timeline`}
+                            />
+                        )}
+                    </section>
+
+                    <section className="client-portal__section" aria-labelledby="client-portal-files">
+                        <h3 id="client-portal-files" className="client-portal__section-title">Shared Files</h3>
+                        {files.length === 0 ? (
+                            <p className="client-portal__empty">No files have been shared yet.</p>
+                        ) : (
+                            <ul className="client-portal__files">
+                                {files.map(file => (
+                                    <li key={file.id} className="client-portal__file">
+                                        <span className="client-portal__file-icon" aria-hidden="true">
+                                            {getMediaFileIcon(getMediaFileType(file.mime_type || ''))}
+                                        </span>
+                                        <div className="client-portal__file-info">
+                                            <span className="client-portal__file-name">{file.name}</span>
+                                            <span className="client-portal__file-meta">
+                                                {file.file_size ? `${formatFileSize(file.file_size)} · ` : ''}
+                                                {formatDate(file.created_at)}
+                                            </span>
+                                        </div>
+                                        <button
+                                            type="button"
+                                            className="client-portal__file-button"
+                                            onClick={() => handleOpenFile(file)}
+                                            disabled={openingFileId === file.id}
+                                            aria-label={`Download ${file.name}`}
+                                        >
+                                            {openingFileId === file.id ? 'Opening...' : 'Download'}
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </section>
+                </div>
+            </article>
+        );
+    };
+
+    return (
+        <div className="client-portal">
+            <div className="client-portal__container">
+                <nav className="client-portal__nav" aria-label="Portal navigation">
+                    <Link to="/" className="client-portal__back-link">← Back to site</Link>
+                </nav>
+
+                <header className="client-portal__header">
+                    <h1 className="client-portal__title">Client Portal</h1>
+                    {displayName && <p className="client-portal__subtitle">Welcome back, {displayName}</p>}
+                </header>
+
+                {!loading && !error && projects.length > 1 && (
+                    <div className="client-portal__tabs" role="tablist" aria-label="Your projects">
+                        {projects.map(({ project }) => (
+                            <button
+                                key={project.id}
+                                type="button"
+                                role="tab"
+                                aria-selected={project.id === selectedId}
+                                className={`client-portal__tab ${project.id === selectedId ? 'client-portal__tab--active' : ''}`}
+                                onClick={() => setSelectedId(project.id)}
+                            >
+                                {project.title}
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                {renderContent()}
+            </div>
+        </div>
+    );
+};
+
+export default ClientPortal;
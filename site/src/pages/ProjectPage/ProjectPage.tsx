@@ -0,0 +1,80 @@
+// pages/ProjectPage/ProjectPage.tsx - Shareable full-page project view for /projects/:slug
+import React, { useCallback, useEffect, useMemo } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import ProjectDetailsModal from '../../components/modals/ProjectDetailsModal';
+import { LoadingSpinner } from '../../components/ui/LoadingSpinner';
+import { useProject } from '../../hooks/useRealtimeData';
+import { usePageMeta } from '../../hooks/usePageMeta';
+import { generateSEOForProject } from '../../utils/seo';
+import './ProjectPage.css';
+
+const ProjectPage: React.FC = () => {
+    const { slug = '' } = useParams<{ slug: string }>();
+    const navigate = useNavigate();
+    const { project, loading, error } = useProject(slug);
+
+    // Unpublished projects are only reachable through the admin panel
+    const visibleProject = project && project.published ? project : null;
+
+    const seoData = useMemo(
+        () => (visibleProject ? generateSEOForProject(visibleProject) : null),
+        [visibleProject]
+    );
+    usePageMeta(seoData);
+
+    useEffect(() => {
+        window.scrollTo(0, 0);
+    }, [slug]);
+
+    const handleBack = useCallback(() => {
+        navigate('/#projects');
+    }, [navigate]);
+
+    if (loading) {
+        return (
+            <div className="project-page project-page--loading">
+                <LoadingSpinner size="lg" message="Loading project..." />
+            </div>
+        );
+    }
+
+    if (error || !visibleProject) {
+        return (
+            <div className="project-page project-page--not-found">
+                <div className="project-page__empty">
+                    <span className="project-page__empty-icon" aria-hidden="true">📁</span>
+                    <h1 className="project-page__empty-title">
+                        {error ? 'Unable to load project' : 'Project not found'}
+                    </h1>
+                    <p className="project-page__empty-text">
+                        {error
+                            ? 'Something went wrong while loading this project. Please try again later.'
+                            : "The project you're looking for doesn't exist or is no longer available."}
+                    </p>
+                    <Link to="/#projects" className="project-page__back-link">
+                        ← Back to projects
+                    </Link>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="project-page">
+            <nav className="project-page__nav" aria-label="Project navigation">
+                <Link to="/#projects" className="project-page__back-link">
+                    ← Back to projects
+                </Link>
+            </nav>
+
+            <ProjectDetailsModal
+                variant="page"
+                isOpen={true}
+                onClose={handleBack}
+                project={visibleProject}
+            />
+        </div>
+    );
+};
+
+export default ProjectPage;
@@ -6,12 +6,18 @@ import AdminHeader from '../../components/admin/AdminHeader';
 import AdminOverview from '../../components/admin/AdminOverview';
 import ProjectsManager from '../../components/admin/ProjectsManager';
 import ArticlesManager from '../../components/admin/ArticlesManager';
+import ServicesManager from '../../components/admin/ServicesManager';
 import InquiriesManager from '../../components/admin/InquiriesManager';
 import MediaManager from '../../components/admin/MediaManager';
 import AnalyticsView from '../../components/admin/AnalyticsView';
+import UsersManager from '../../components/admin/UsersManager';
+import TestimonialsManager from '../../components/admin/TestimonialsManager';
+import ActivityView from '../../components/admin/ActivityView';
+import BackupView from '../../components/admin/BackupView';
+import TrashService from '../../services/TrashService';
 import './AdminDashboard.css';
 
-type AdminView = 'overview' | 'projects' | 'articles' | 'inquiries' | 'media' | 'analytics';
+type AdminView = 'overview' | 'projects' | 'services' | 'articles' | 'inquiries' | 'testimonials' | 'media' | 'users' | 'analytics' | 'activity' | 'backup';
 
 const AdminDashboard: React.FC = () => {
   const { user, profile, loading, isAdmin, isAuthenticated } = useAuth();
@@ -85,6 +91,14 @@ const AdminDashboard: React.FC = () => {
     }
   }, [isAuthenticated, loading]);
 
+  // Purge trashed rows that are past the retention period
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    TrashService.purgeExpired()
+      .catch(error => console.error('Error purging expired trash:', error));
+  }, [isAdmin]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -150,19 +164,29 @@ const AdminDashboard: React.FC = () => {
   const renderActiveView = () => {
     switch (activeView) {
       case 'overview':
-        return <AdminOverview />;
+        return <AdminOverview onViewActivity={() => setActiveView('activity')} />;
       case 'projects':
         return <ProjectsManager />;
+      case 'services':
+        return <ServicesManager />;
       case 'articles':
         return <ArticlesManager />;
       case 'inquiries':
         return <InquiriesManager />;
+      case 'testimonials':
+        return <TestimonialsManager />;
       case 'media':
         return <MediaManager />;
+      case 'users':
+        return <UsersManager />;
       case 'analytics':
         return <AnalyticsView />;
+      case 'activity':
+        return <ActivityView />;
+      case 'backup':
+        return <BackupView />;
       default:
-        return <AdminOverview />;
+        return <AdminOverview onViewActivity={() => setActiveView('activity')} />;
     }
   };
 
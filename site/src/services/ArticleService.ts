@@ -3,6 +3,7 @@ import DatabaseService, { DatabaseArticle } from './DatabaseService';
 
 export interface ArticleData {
     id: string;
+    slug: string;
     title: string;
     excerpt: string;
     category: string;
@@ -33,17 +34,14 @@ class ArticleService {
 
     // Transform database article to frontend format
     private transformArticle(dbArticle: DatabaseArticle): ArticleData {
-        const publishDate = dbArticle.published_at 
-            ? new Date(dbArticle.published_at).toLocaleDateString('en-US', {
+        const date = dbArticle.published_at || dbArticle.created_at;
+        const publishDate = date
+            ? new Date(date).toLocaleDateString('en-US', {
                 year: 'numeric',
                 month: 'long',
                 day: 'numeric'
             })
-            : new Date(dbArticle.created_at).toLocaleDateString('en-US', {
-                year: 'numeric',
-                month: 'long',
-                day: 'numeric'
-            });
+            : '';
 
         const readTime = dbArticle.reading_time_minutes 
             ? `${dbArticle.reading_time_minutes} min`
@@ -51,15 +49,16 @@ class ArticleService {
 
         return {
             id: dbArticle.id,
+            slug: dbArticle.slug,
             title: dbArticle.title,
             excerpt: dbArticle.excerpt || this.generateExcerpt(dbArticle.content),
             category: dbArticle.category || 'General',
             author: 'Gaming Dronzz Team', // Could be extended to fetch author details
             publishDate,
             readTime,
-            image: dbArticle.featured_image,
+            image: dbArticle.featured_image ?? undefined,
             tags: dbArticle.tags || [],
-            featured: dbArticle.featured
+            featured: !!dbArticle.featured
         };
     }
 
@@ -172,7 +171,7 @@ class ArticleService {
             const categories = Array.from(new Set(
                 articles
                     .map(article => article.category)
-                    .filter(category => category && category.trim() !== '')
+                    .filter((category): category is string => !!category && category.trim() !== '')
             ));
 
             console.log('✅ ArticleService: Found categories:', categories);
@@ -199,7 +198,7 @@ class ArticleService {
             const filteredArticles = articles.filter(article => 
                 article.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
                 (article.excerpt && article.excerpt.toLowerCase().includes(searchTerm.toLowerCase())) ||
-                article.tags.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase())) ||
+                (article.tags ?? []).some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase())) ||
                 (article.category && article.category.toLowerCase().includes(searchTerm.toLowerCase()))
             );
 
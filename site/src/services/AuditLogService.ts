@@ -0,0 +1,169 @@
+// services/AuditLogService.ts - Reads the admin audit log
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseClient } from './supabaseClient';
+import type { AuditAction, AuditChange, AuditEntityType, AuditEntry, AuditLogFilters } from '../types/audit';
+import type { Database, Json, Tables } from '../types/database';
+
+export const AUDIT_ACTIONS: Array<{ value: AuditAction; label: string; icon: string }> = [
+    { value: 'create', label: 'Created', icon: '➕' },
+    { value: 'update', label: 'Updated', icon: '✏️' },
+    { value: 'publish', label: 'Published', icon: '🌐' },
+    { value: 'unpublish', label: 'Unpublished', icon: '🙈' },
+    { value: 'trash', label: 'Moved to trash', icon: '🗑️' },
+    { value: 'restore', label: 'Restored', icon: '♻️' },
+    { value: 'delete', label: 'Deleted permanently', icon: '❌' },
+    { value: 'role_change', label: 'Changed role', icon: '🔑' }
+];
+
+// Keep in sync with the trigger list in database/audit_log.sql
+export const AUDIT_ENTITY_TYPES: Array<{ value: AuditEntityType; label: string }> = [
+    { value: 'project', label: 'Project' },
+    { value: 'article', label: 'Article' },
+    { value: 'service', label: 'Service' },
+    { value: 'testimonial', label: 'Testimonial' },
+    { value: 'inquiry', label: 'Inquiry' },
+    { value: 'inquiry_note', label: 'Inquiry note' },
+    { value: 'media', label: 'Media file' },
+    { value: 'user', label: 'User' },
+    { value: 'milestone', label: 'Milestone' },
+    { value: 'project_update', label: 'Progress update' },
+    { value: 'client_file', label: 'Client file' },
+    { value: 'setting', label: 'Setting' }
+];
+
+export const AUDIT_LOG_CONFIG = {
+    pageSize: 50
+} as const;
+
+export const getAuditActionLabel = (action: AuditAction): string =>
+    AUDIT_ACTIONS.find(a => a.value === action)?.label ?? action;
+
+export const getAuditActionIcon = (action: AuditAction): string =>
+    AUDIT_ACTIONS.find(a => a.value === action)?.icon ?? '•';
+
+export const getAuditEntityLabel = (entityType: AuditEntityType): string =>
+    AUDIT_ENTITY_TYPES.find(t => t.value === entityType)?.label ?? entityType;
+
+const isAuditAction = (value: string): value is AuditAction =>
+    AUDIT_ACTIONS.some(a => a.value === value);
+
+const isAuditEntityType = (value: string): value is AuditEntityType =>
+    AUDIT_ENTITY_TYPES.some(t => t.value === value);
+
+const isJsonObject = (value: Json | undefined): value is { [key: string]: Json | undefined } =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// changes is { column: { before, after } }; anything else in the JSON is ignored
+const readChanges = (changes: Json): Record<string, AuditChange> => {
+    if (!isJsonObject(changes)) return {};
+    const result: Record<string, AuditChange> = {};
+    Object.entries(changes).forEach(([field, change]) => {
+        if (isJsonObject(change)) {
+            result[field] = { before: change.before ?? null, after: change.after ?? null };
+        }
+    });
+    return result;
+};
+
+// Rows from an older trigger with an action or entity type this build doesn't know are left out
+const toAuditEntry = (row: Tables<'audit_log'>): AuditEntry[] => {
+    const { action, entity_type } = row;
+    if (!isAuditAction(action) || !isAuditEntityType(entity_type)) {
+        console.warn(`Skipping audit entry ${row.id}: unknown action "${action}" or entity type "${entity_type}"`);
+        return [];
+    }
+    return [{ ...row, action, entity_type, changes: readChanges(row.changes) }];
+};
+
+/**
+ * Entries are written by a database trigger on every admin insert, update and
+ * delete of the managed tables (database/audit_log.sql), so the log also covers
+ * writes that bypass SupabaseService. This service only reads it.
+ */
+class AuditLogService {
+    private static instance: AuditLogService;
+    private client: SupabaseClient<Database>;
+
+    constructor() {
+        this.client = getSupabaseClient();
+    }
+
+    static getInstance(): AuditLogService {
+        if (!AuditLogService.instance) {
+            AuditLogService.instance = new AuditLogService();
+        }
+        return AuditLogService.instance;
+    }
+
+    async getEntries(
+        filters: AuditLogFilters = {},
+        page: number = 1
+    ): Promise<{ entries: AuditEntry[]; total: number }> {
+        const offset = (page - 1) * AUDIT_LOG_CONFIG.pageSize;
+
+        let query = this.client
+            .from('audit_log')
+            .select('*', { count: 'exact' });
+
+        if (filters.action) query = query.eq('action', filters.action);
+        if (filters.entityType) query = query.eq('entity_type', filters.entityType);
+        if (filters.actorId) query = query.eq('actor_id', filters.actorId);
+        if (filters.search) query = query.ilike('entity_label', `%${filters.search}%`);
+        if (filters.from) query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+        if (filters.to) query = query.lte('created_at', new Date(`${filters.to}T23:59:59.999`).toISOString());
+
+        const { data, error, count } = await query
+            .order('created_at', { ascending: false })
+            .range(offset, offset + AUDIT_LOG_CONFIG.pageSize - 1);
+
+        if (error) {
+            console.error('Error fetching audit log:', error);
+            throw error;
+        }
+
+        return { entries: (data || []).flatMap(toAuditEntry), total: count || 0 };
+    }
+
+    async getRecent(limit: number = 5): Promise<AuditEntry[]> {
+        const { data, error } = await this.client
+            .from('audit_log')
+            .select('*')
+            .order('created_at', { ascending: false })
+            .limit(limit);
+
+        if (error) {
+            console.error('Error fetching recent activity:', error);
+            throw error;
+        }
+
+        return (data || []).flatMap(toAuditEntry);
+    }
+
+    /**
+     * Admins who appear in the log, for the actor filter. Names come from the
+     * entries themselves so former admins are still listed.
+     */
+    async getActors(): Promise<Array<{ id: string; name: string }>> {
+        const { data, error } = await this.client
+            .from('audit_log')
+            .select('actor_id, actor_name')
+            .not('actor_id', 'is', null)
+            .order('created_at', { ascending: false })
+            .limit(1000);
+
+        if (error) {
+            console.error('Error fetching audit actors:', error);
+            throw error;
+        }
+
+        const actors = new Map<string, string>();
+        for (const row of data || []) {
+            if (row.actor_id && !actors.has(row.actor_id)) {
+                actors.set(row.actor_id, row.actor_name || 'Unknown admin');
+            }
+        }
+        return [...actors].map(([id, name]) => ({ id, name }));
+    }
+}
+
+export default AuditLogService.getInstance();
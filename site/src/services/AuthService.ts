@@ -7,45 +7,14 @@ import {
     AuthChangeEvent 
 } from '@supabase/supabase-js';
 import { getSupabaseClient } from './supabaseClient';
-import { UserProfile } from '../types/profile';
+import { UserRole, UserRolePayload, isValidUserRole } from '../types/profile';
 import { 
     AuthResult, 
     OAuthCallbackResult, 
     SessionInfo,
     ProfileCreationResult
 } from '../types/auth';
-
-interface Database {
-    public: {
-        Tables: {
-            profiles: {
-                Row: UserProfile;
-                Insert: Partial<UserProfile>;
-                Update: Partial<UserProfile>;
-            };
-        };
-        Functions: {
-            is_admin_user: {
-                Args: { user_id_input?: string };
-                Returns: boolean;
-            };
-            update_user_login: {
-                Args: { user_id_input?: string };
-                Returns: {
-                    success: boolean;
-                    error?: string;
-                };
-            };
-            get_user_role: {
-                Args: { user_id_input?: string };
-                Returns: {
-                    is_admin: boolean;
-                    role: string;
-                };
-            };
-        };
-    };
-}
+import type { Database } from '../types/database';
 
 class AuthService {
     private client: SupabaseClient<Database>;
@@ -346,6 +315,25 @@ class AuthService {
         }
     }
 
+    async getUserRole(userId: string): Promise<UserRole | null> {
+        try {
+            const { data, error } = await this.client.rpc('get_user_role', {
+                user_id_input: userId
+            });
+
+            if (error) {
+                console.warn('Role check RPC error:', error);
+                return null;
+            }
+
+            const result = data as UserRolePayload | null;
+            return result && isValidUserRole(result.role) ? result.role : null;
+        } catch (error) {
+            console.warn('Failed to check user role:', error);
+            return null;
+        }
+    }
+
     // ===== PASSWORD RESET =====
     async resetPassword(email: string): Promise<AuthResult> {
         try {
@@ -0,0 +1,302 @@
+// services/BackupService.ts - Site content backup archive and idempotent restore
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseClient } from './supabaseClient';
+import SupabaseService from './SupabaseService';
+import { BACKUP_CONFIG } from '../utils/backupArchive';
+import { matchProfiles, resolveReferences, type ReferenceTargets } from '../utils/backupReferences';
+import type {
+    BackupArchive,
+    BackupManifest,
+    BackupRow,
+    BackupTable,
+    RestorePlan,
+    RestoreRowChange,
+    RestoreTablePlan,
+    RestoreTableResult
+} from '../types/backup';
+import type { Database, TablesInsert } from '../types/database';
+import { isValidUserRole, type UserRole } from '../types/profile';
+
+// Profiles are tied to auth users, so only what's needed to put roles back is kept
+const PROFILE_COLUMNS = 'id, email, full_name, role';
+
+// Maintained by triggers or live traffic; never compared or written back
+const IGNORED_COLUMNS = ['updated_at', 'view_count'];
+
+const SLUG_TABLES: BackupTable[] = ['projects', 'services', 'articles'];
+
+// First column that holds non-empty text, for naming a row
+const textOf = (row: BackupRow, ...keys: string[]): string => {
+    for (const key of keys) {
+        const value = row[key];
+        if (typeof value === 'string' && value) return value;
+    }
+    return row.id;
+};
+
+const getRowLabel = (table: BackupTable, row: BackupRow): string => {
+    switch (table) {
+        case 'testimonials': return textOf(row, 'name');
+        case 'media_files': return textOf(row, 'original_filename', 'filename');
+        case 'profiles': return textOf(row, 'email');
+        default: return textOf(row, 'title', 'slug');
+    }
+};
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+    JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * A backup is one JSON archive: a manifest (format, schema version, row
+ * counts) plus every row of the content tables, trashed rows included.
+ * Restoring upserts rows by id and only touches rows that differ, so
+ * applying the same archive twice leaves the second run with nothing to do.
+ * Profiles are never created; only the role of an existing user (matched
+ * by id, then email) is restored, and never the restoring admin's own.
+ * References to users are pointed at the matching user here; rows whose
+ * referenced user or content is missing are skipped, or the optional
+ * reference is cleared (see utils/backupReferences.ts).
+ */
+class BackupService {
+    private static instance: BackupService;
+    private client: SupabaseClient<Database>;
+
+    constructor() {
+        this.client = getSupabaseClient();
+    }
+
+    static getInstance(): BackupService {
+        if (!BackupService.instance) {
+            BackupService.instance = new BackupService();
+        }
+        return BackupService.instance;
+    }
+
+    async createBackup(): Promise<BackupArchive> {
+        const data = {} as BackupArchive['data'];
+        for (const table of BACKUP_CONFIG.tables) {
+            data[table] = await this.fetchAll(table);
+        }
+
+        const { user } = await SupabaseService.getUser();
+        const manifest: BackupManifest = {
+            format: BACKUP_CONFIG.format,
+            schemaVersion: BACKUP_CONFIG.schemaVersion,
+            createdAt: new Date().toISOString(),
+            createdBy: user?.email || null,
+            tables: Object.fromEntries(BACKUP_CONFIG.tables.map(table => [table, data[table].length])) as BackupManifest['tables']
+        };
+
+        return { manifest, data };
+    }
+
+    getBackupFileName(archive: BackupArchive): string {
+        return `site-backup-${archive.manifest.createdAt.slice(0, 10)}.json`;
+    }
+
+    /** Dry run: compares the archive with the database without writing anything */
+    async previewRestore(archive: BackupArchive): Promise<RestorePlan> {
+        const { user } = await SupabaseService.getUser();
+        const warnings: string[] = [];
+        const tables: RestoreTablePlan[] = [];
+        const targets: ReferenceTargets = {
+            profiles: new Map(),
+            projects: new Set(),
+            services: new Set(),
+            inquiries: await this.fetchInquiryIds()
+        };
+
+        // Tables are planned in restore order, so targets hold every row a later table can point at
+        for (const table of BACKUP_CONFIG.tables) {
+            const current = await this.fetchAll(table);
+            const plan = table === 'profiles'
+                ? this.planProfiles(archive.data.profiles, current, user?.id)
+                : this.planTable(table, archive.data[table], current, targets);
+            tables.push(plan);
+
+            if (table === 'profiles') {
+                current.forEach(row => targets.profiles.set(row.id, row.id));
+                matchProfiles(archive.data.profiles, current).forEach((match, archivedId) => targets.profiles.set(archivedId, match.id));
+            } else if (table === 'projects' || table === 'services') {
+                const skipped = new Set(plan.skipped.map(row => row.id));
+                current.forEach(row => targets[table].add(row.id));
+                archive.data[table].filter(row => !skipped.has(row.id)).forEach(row => targets[table].add(row.id));
+            }
+        }
+
+        const media = tables.find(plan => plan.table === 'media_files');
+        if (media && media.create.length > 0) {
+            warnings.push('Media is restored as metadata only; the files themselves must still be in storage');
+        }
+
+        return { manifest: archive.manifest, tables, warnings };
+    }
+
+    async applyRestore(plan: RestorePlan): Promise<RestoreTableResult[]> {
+        const results: RestoreTableResult[] = [];
+
+        for (const tablePlan of plan.tables) {
+            const result: RestoreTableResult = { table: tablePlan.table, created: 0, updated: 0, failed: [] };
+            const changes = [...tablePlan.create, ...tablePlan.update];
+
+            if (tablePlan.table === 'profiles') {
+                for (const change of changes) {
+                    const { error } = await this.client
+                        .from('profiles')
+                        // Planned only for archived roles that passed isValidUserRole
+                        .update({ role: change.row.role as UserRole })
+                        .eq('id', change.targetId);
+                    if (error) {
+                        console.error('Error restoring role:', error);
+                        result.failed.push({ id: change.id, label: change.label, error: error.message });
+                    } else {
+                        result.updated++;
+                    }
+                }
+            } else {
+                for (let i = 0; i < changes.length; i += BACKUP_CONFIG.writeChunkSize) {
+                    await this.upsertChunk(tablePlan.table, changes.slice(i, i + BACKUP_CONFIG.writeChunkSize), result);
+                }
+            }
+
+            results.push(result);
+        }
+
+        return results;
+    }
+
+    // A failed chunk is retried row by row so one bad row doesn't block the rest
+    private async upsertChunk(table: BackupTable, changes: RestoreRowChange[], result: RestoreTableResult) {
+        // New rows are planned with no changed fields
+        const count = (change: RestoreRowChange) => {
+            if (change.changedFields.length === 0) result.created++;
+            else result.updated++;
+        };
+
+        const { error } = await this.client
+            .from(table)
+            // Archive rows were validated against the manifest, not the generated schema
+            .upsert(changes.map(change => change.row as TablesInsert<BackupTable>), { onConflict: 'id' });
+        if (!error) {
+            changes.forEach(count);
+            return;
+        }
+        if (changes.length === 1) {
+            console.error(`Error restoring ${table} row:`, error);
+            result.failed.push({ id: changes[0].id, label: changes[0].label, error: error.message });
+            return;
+        }
+
+        for (const change of changes) {
+            await this.upsertChunk(table, [change], result);
+        }
+    }
+
+    private planTable(table: BackupTable, rows: BackupRow[], current: BackupRow[], targets: ReferenceTargets): RestoreTablePlan {
+        const plan: RestoreTablePlan = { table, create: [], update: [], unchanged: 0, skipped: [] };
+        const currentById = new Map(current.map(row => [row.id, row]));
+        const slugOwners = new Map(current.map(row => [row.slug, row.id]));
+
+        rows.forEach(archived => {
+            const label = getRowLabel(table, archived);
+            const existing = currentById.get(archived.id);
+
+            // Upserting on id would trip the unique slug index
+            if (SLUG_TABLES.includes(table) && slugOwners.has(archived.slug) && slugOwners.get(archived.slug) !== archived.id) {
+                plan.skipped.push({ id: archived.id, label, reason: `Slug "${archived.slug}" is used by a different row` });
+                return;
+            }
+
+            const resolved = resolveReferences(
+                table,
+                Object.fromEntries(Object.entries(archived).filter(([key]) => !IGNORED_COLUMNS.includes(key))),
+                targets
+            );
+            if ('skipReason' in resolved) {
+                plan.skipped.push({ id: archived.id, label, reason: resolved.skipReason });
+                return;
+            }
+            const { row, notes } = resolved;
+
+            if (!existing) {
+                plan.create.push({ id: archived.id, targetId: archived.id, label, row, changedFields: [], notes });
+                return;
+            }
+
+            const changedFields = Object.keys(row).filter(key => !sameValue(row[key], existing[key]));
+            if (changedFields.length === 0) {
+                plan.unchanged++;
+            } else {
+                plan.update.push({ id: archived.id, targetId: archived.id, label, row, changedFields, notes });
+            }
+        });
+
+        return plan;
+    }
+
+    private planProfiles(rows: BackupRow[], current: BackupRow[], currentUserId?: string): RestoreTablePlan {
+        const plan: RestoreTablePlan = { table: 'profiles', create: [], update: [], unchanged: 0, skipped: [] };
+        const matches = matchProfiles(rows, current);
+
+        rows.forEach(archived => {
+            const label = getRowLabel('profiles', archived);
+            const existing = matches.get(archived.id);
+
+            if (typeof archived.role !== 'string' || !isValidUserRole(archived.role)) {
+                plan.skipped.push({ id: archived.id, label, reason: `"${String(archived.role)}" is not a known role` });
+            } else if (!existing) {
+                plan.skipped.push({ id: archived.id, label, reason: 'No matching user; users must sign up before a role can be restored' });
+            } else if (existing.role === archived.role) {
+                plan.unchanged++;
+            } else if (existing.id === currentUserId) {
+                plan.skipped.push({ id: archived.id, label, reason: 'Your own role is never changed by a restore' });
+            } else {
+                plan.update.push({ id: archived.id, targetId: existing.id, label, row: { role: archived.role }, changedFields: ['role'], notes: [] });
+            }
+        });
+
+        return plan;
+    }
+
+    // Inquiries aren't backed up, but restored projects can point at them
+    private async fetchInquiryIds(): Promise<Set<string>> {
+        const ids = new Set<string>();
+        for (let from = 0; ; from += BACKUP_CONFIG.pageSize) {
+            const { data, error } = await this.client
+                .from('inquiries')
+                .select('id')
+                .order('id')
+                .range(from, from + BACKUP_CONFIG.pageSize - 1);
+
+            if (error) {
+                console.error('Error reading inquiries for restore:', error);
+                throw error;
+            }
+
+            (data || []).forEach(row => ids.add(row.id));
+            if (!data || data.length < BACKUP_CONFIG.pageSize) return ids;
+        }
+    }
+
+    private async fetchAll(table: BackupTable): Promise<BackupRow[]> {
+        const rows: BackupRow[] = [];
+        for (let from = 0; ; from += BACKUP_CONFIG.pageSize) {
+            const { data, error } = await this.client
+                .from(table)
+                .select(table === 'profiles' ? PROFILE_COLUMNS : '*')
+                .order('id')
+                .range(from, from + BACKUP_CONFIG.pageSize - 1);
+
+            if (error) {
+                console.error(`Error reading ${table} for backup:`, error);
+                throw error;
+            }
+
+            // Every backed-up table has a string id; the select string just hides the row type
+            rows.push(...(data as unknown as BackupRow[]));
+            if (!data || data.length < BACKUP_CONFIG.pageSize) return rows;
+        }
+    }
+}
+
+export default BackupService.getInstance();
@@ -0,0 +1,163 @@
+// services/ClientPortalService.ts - Client portal data and shared project files
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseClient } from './supabaseClient';
+import type { DatabaseProject } from './DatabaseService';
+import type { ClientProject, ProjectFile, ProjectMilestone, ProjectUpdate } from '../types/portal';
+import type { Database } from '../types/database';
+
+export const CLIENT_FILES_CONFIG = {
+    bucket: 'client-files',
+    maxFileSize: 50 * 1024 * 1024,   // 50 MB, matches the bucket limit
+    signedUrlExpiry: 10 * 60         // Seconds a download link stays valid
+} as const;
+
+/**
+ * Reads for the /portal area and file sharing for admins. Access is enforced
+ * by RLS (see database/client_portal.sql); the explicit client_id filter
+ * still matters because admin policies can read every project.
+ */
+class ClientPortalService {
+    private static instance: ClientPortalService;
+    private client: SupabaseClient<Database>;
+
+    constructor() {
+        this.client = getSupabaseClient();
+    }
+
+    static getInstance(): ClientPortalService {
+        if (!ClientPortalService.instance) {
+            ClientPortalService.instance = new ClientPortalService();
+        }
+        return ClientPortalService.instance;
+    }
+
+    async getClientProjects(clientId: string): Promise<ClientProject[]> {
+        const { data: projects, error } = await this.client
+            .from('projects')
+            .select('*')
+            .eq('client_id', clientId)
+            .is('deleted_at', null)
+            .order('updated_at', { ascending: false });
+
+        if (error) {
+            console.error('Error fetching client projects:', error);
+            throw error;
+        }
+        if (!projects || projects.length === 0) return [];
+
+        const projectIds = projects.map(p => p.id);
+        const [milestones, updates, files] = await Promise.all([
+            this.getForProjects<ProjectMilestone>('project_milestones', projectIds, 'sort_order', true),
+            this.getForProjects<ProjectUpdate>('project_updates', projectIds, 'posted_at', false),
+            this.getForProjects<ProjectFile>('project_files', projectIds, 'created_at', false)
+        ]);
+
+        return (projects as DatabaseProject[]).map(project => ({
+            project,
+            milestones: milestones.filter(m => m.project_id === project.id),
+            updates: updates.filter(u => u.project_id === project.id),
+            files: files.filter(f => f.project_id === project.id)
+        }));
+    }
+
+    async getFileUrl(file: ProjectFile): Promise<string> {
+        const { data, error } = await this.client.storage
+            .from(CLIENT_FILES_CONFIG.bucket)
+            .createSignedUrl(file.storage_path, CLIENT_FILES_CONFIG.signedUrlExpiry, { download: file.name });
+
+        if (error || !data) {
+            console.error('Error creating file link:', error);
+            throw error || new Error('Could not create download link');
+        }
+
+        return data.signedUrl;
+    }
+
+    // ===== ADMIN: SHARED FILES ===== //
+    async getProjectFiles(projectId: string): Promise<ProjectFile[]> {
+        return this.getForProjects<ProjectFile>('project_files', [projectId], 'created_at', false);
+    }
+
+    async uploadProjectFile(projectId: string, file: File, uploadedBy?: string): Promise<ProjectFile> {
+        if (file.size > CLIENT_FILES_CONFIG.maxFileSize) {
+            throw new Error(`${file.name} is larger than ${CLIENT_FILES_CONFIG.maxFileSize / (1024 * 1024)} MB`);
+        }
+
+        const safeName = file.name.toLowerCase().replace(/[^a-z0-9.]+/g, '-').slice(-80);
+        const storagePath = `${projectId}/${crypto.randomUUID().slice(0, 8)}-${safeName}`;
+
+        const { error: uploadError } = await this.client.storage
+            .from(CLIENT_FILES_CONFIG.bucket)
+            .upload(storagePath, file, { contentType: file.type || undefined, upsert: false });
+
+        if (uploadError) {
+            console.error('Error uploading client file:', uploadError);
+            throw uploadError;
+        }
+
+        const { data, error } = await this.client
+            .from('project_files')
+            .insert([{
+                project_id: projectId,
+                name: file.name,
+                storage_path: storagePath,
+                mime_type: file.type || null,
+                file_size: file.size,
+                uploaded_by: uploadedBy || null
+            }])
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error recording client file:', error);
+            // Don't leave an orphaned object behind
+            await this.client.storage.from(CLIENT_FILES_CONFIG.bucket).remove([storagePath]);
+            throw error;
+        }
+
+        return data;
+    }
+
+    async deleteProjectFile(file: ProjectFile): Promise<void> {
+        const { error } = await this.client
+            .from('project_files')
+            .delete()
+            .eq('id', file.id);
+
+        if (error) {
+            console.error('Error deleting client file:', error);
+            throw error;
+        }
+
+        const { error: storageError } = await this.client.storage
+            .from(CLIENT_FILES_CONFIG.bucket)
+            .remove([file.storage_path]);
+
+        // The row is gone, so the file is no longer listed; a stray object is harmless
+        if (storageError) {
+            console.warn('Client file removed from the list but not from storage:', storageError);
+        }
+    }
+
+    private async getForProjects<T>(
+        table: 'project_milestones' | 'project_updates' | 'project_files',
+        projectIds: string[],
+        orderBy: string,
+        ascending: boolean
+    ): Promise<T[]> {
+        const { data, error } = await this.client
+            .from(table)
+            .select('*')
+            .in('project_id', projectIds)
+            .order(orderBy, { ascending });
+
+        if (error) {
+            console.error(`Error fetching ${table}:`, error);
+            throw error;
+        }
+
+        return (data || []) as T[];
+    }
+}
+
+export default ClientPortalService.getInstance();
@@ -0,0 +1,71 @@
+// services/ContentTransferService.ts - Writes planned import rows for admin content
+import SupabaseService from './SupabaseService';
+import type { ImportRowPlan, TransferEntity } from '../types/transfer';
+import type { Tables, TablesInsert, TablesUpdate } from '../types/database';
+
+type Writer<T extends TransferEntity> = {
+    create: (values: TablesInsert<T>) => Promise<Tables<T>>;
+    update: (id: string, values: TablesUpdate<T>) => Promise<Tables<T>>;
+};
+
+const WRITERS: { [T in TransferEntity]: Writer<T> } = {
+    projects: {
+        create: values => SupabaseService.createProject(values),
+        update: (id, values) => SupabaseService.updateProject(id, values)
+    },
+    articles: {
+        create: values => SupabaseService.createArticle(values),
+        update: (id, values) => SupabaseService.updateArticle(id, values)
+    },
+    services: {
+        create: values => SupabaseService.createService(values),
+        update: (id, values) => SupabaseService.updateService(id, values)
+    },
+    testimonials: {
+        create: values => SupabaseService.createTestimonial(values),
+        update: (id, values) => SupabaseService.updateTestimonial(id, values)
+    },
+    inquiries: {
+        create: values => SupabaseService.createInquiry(values),
+        update: (id, values) => SupabaseService.updateInquiry(id, values)
+    }
+};
+
+/**
+ * Planning and validation happen up front in utils/contentTransfer.ts, so
+ * this only performs the write each planned row asked for. Rows go through
+ * the normal create/update paths, which keeps revisions and the audit log
+ * in step with hand edits.
+ */
+class ContentTransferService {
+    private static instance: ContentTransferService;
+
+    static getInstance(): ContentTransferService {
+        if (!ContentTransferService.instance) {
+            ContentTransferService.instance = new ContentTransferService();
+        }
+        return ContentTransferService.instance;
+    }
+
+    async importRow<T extends TransferEntity>(entity: T, row: ImportRowPlan): Promise<Tables<T>> {
+        const writer: Writer<T> = WRITERS[entity];
+
+        // Planned values only hold the entity's TRANSFER_FIELDS columns, already validated
+        if (row.action === 'update' && row.targetId) {
+            return writer.update(row.targetId, row.values as TablesUpdate<T>);
+        }
+        if (row.action !== 'create') {
+            throw new Error(`Row ${row.row} is not importable`);
+        }
+
+        const values = { ...row.values };
+        // Articles need an author; imported ones belong to whoever imports them
+        if (entity === 'articles' && !values.author_id) {
+            const { user } = await SupabaseService.getUser();
+            if (user) values.author_id = user.id;
+        }
+        return writer.create(values as TablesInsert<T>);
+    }
+}
+
+export default ContentTransferService.getInstance();
@@ -1,22 +1,21 @@
 // services/DatabaseService.ts - Data Access Layer following SOLID principles
-import { SupabaseClient } from '@supabase/supabase-js';
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
 import supabaseService from './SupabaseService';
+import type { QuoteConfiguration } from '../types/quote';
+import type { Database, Json, Tables, TablesInsert } from '../types/database';
 
 // ===== INTERFACES (Dependency Inversion) =====
-export interface IRepository<T> {
-    getAll(): Promise<T[]>;
-    getById(id: string): Promise<T | null>;
-    create(data: Omit<T, 'id' | 'created_at' | 'updated_at'>): Promise<T>;
-    update(id: string, data: Partial<T>): Promise<T>;
-    delete(id: string): Promise<void>;
-}
+type TableName = keyof Database['public']['Tables'];
+
+type ColumnName<TName extends TableName> = Extract<keyof Tables<TName>, string>;
 
-export interface IQueryOptions {
+// Filters and sort keys are checked against the table's columns
+export interface IQueryOptions<TName extends TableName = TableName> {
     limit?: number;
     offset?: number;
-    orderBy?: string;
+    orderBy?: ColumnName<TName>;
     ascending?: boolean;
-    filters?: Record<string, unknown>;
+    filters?: Partial<Tables<TName>>;
 }
 
 export interface IPaginationResult<T> {
@@ -29,175 +28,131 @@ export interface IPaginationResult<T> {
     hasPreviousPage: boolean;
 }
 
-export interface IPaginationOptions {
+export interface IPaginationOptions<TName extends TableName = TableName> {
     page?: number;
     itemsPerPage?: number;
-    orderBy?: string;
+    orderBy?: ColumnName<TName>;
     ascending?: boolean;
-    filters?: Record<string, unknown>;
+    filters?: Partial<Tables<TName>>;
 }
 
-export interface ISearchOptions extends IQueryOptions {
+export interface ISearchOptions<TName extends TableName = TableName> extends IQueryOptions<TName> {
     searchTerm?: string;
-    searchFields?: string[];
+    searchFields?: ColumnName<TName>[];
 }
 
 // ===== DATABASE TYPES =====
-export interface DatabaseProject {
-    id: string;
-    title: string;
-    slug: string;
-    description: string;
-    detailed_description?: string;
-    image_url?: string;
-    image_alt?: string;
-    technologies: string[];
-    category: 'mobile' | 'pc' | 'console' | 'vr' | 'ar';
-    status: 'completed' | 'ongoing' | 'planning';
-    client_name?: string;
-    client_id?: string;
-    year: number;
-    featured: boolean;
-    published: boolean;
-    external_link?: string;
-    case_study_url?: string;
-    github_url?: string;
-    demo_url?: string;
-    screenshots: string[];
-    team_size?: number;
-    duration_months?: number;
-    budget_range?: string;
-    challenges: string[];
-    achievements: string[];
-    testimonial?: string;
-    testimonial_author?: string;
-    seo_title?: string;
-    seo_description?: string;
-    view_count: number;
-    created_at: string;
-    updated_at: string;
-    created_by?: string;
-}
+// Rows come from the generated schema; these only narrow what it can't see,
+// the values allowed by CHECK constraints and the shape of JSONB columns
 
-export interface IDatabaseService {
-    id: string;
-    title: string;
-    slug: string;
-    short_description: string;
-    detailed_description?: string;
-    icon?: string;
-    category: 'development' | 'consulting' | 'design' | 'testing';
-    features: string[];
-    technologies: string[];
-    pricing_model?: string;
-    base_price?: number;
-    currency: string;
-    duration_estimate?: string;
-    deliverables: string[];
-    requirements: string[];
-    published: boolean;
-    featured: boolean;
-    order_priority: number;
-    seo_title?: string;
-    seo_description?: string;
-    created_at: string;
-    updated_at: string;
-    created_by?: string;
-}
+const PROJECT_CATEGORIES = ['mobile', 'pc', 'console', 'vr', 'ar'] as const;
+const PROJECT_STATUSES = ['completed', 'ongoing', 'planning'] as const;
+const SERVICE_CATEGORIES = ['development', 'consulting', 'design', 'testing'] as const;
+
+export type DatabaseProject = Omit<Tables<'projects'>, 'category' | 'status'> & {
+    category: typeof PROJECT_CATEGORIES[number];
+    status: typeof PROJECT_STATUSES[number];
+};
+
+export type IDatabaseService = Omit<Tables<'services'>, 'category'> & {
+    category: typeof SERVICE_CATEGORIES[number];
+};
+
+export type DatabaseArticle = Tables<'articles'>;
+
+// quote_config is left as Json: read it through isQuoteConfiguration (utils/quoteEstimator)
+export type DatabaseInquiry = Tables<'inquiries'>;
+
+export type DatabaseTestimonial = Tables<'testimonials'>;
+
+// What the contact form sends; id, status and timestamps are filled in on submit
+type InquirySubmission = Omit<TablesInsert<'inquiries'>, 'id' | 'created_at' | 'updated_at' | 'status' | 'priority' | 'quote_config'> & {
+    quote_config?: QuoteConfiguration | null;
+};
 
-export interface DatabaseArticle {
-    id: string;
-    title: string;
-    slug: string;
-    excerpt?: string;
-    content: string;
-    featured_image?: string;
-    image_alt?: string;
-    tags: string[];
-    category?: string;
-    published: boolean;
-    featured: boolean;
-    view_count: number;
-    reading_time_minutes?: number;
-    seo_title?: string;
-    seo_description?: string;
-    published_at?: string;
-    created_at: string;
-    updated_at: string;
-    author_id: string;
+interface ViewCountResult {
+    success: boolean;
+    error?: string;
 }
 
-export interface DatabaseInquiry {
-    id: string;
-    name: string;
-    email: string;
-    company?: string;
-    phone?: string;
-    subject: string;
-    message: string;
-    service_interest?: string;
-    project_budget?: string;
-    timeline?: string;
-    status: string;
-    priority: number;
-    notes?: string;
-    created_at: string;
-    updated_at: string;
-    assigned_to?: string;
+const isOneOf = <T extends string>(values: readonly T[], value: string): value is T =>
+    (values as readonly string[]).includes(value);
+
+// A row outside the CHECK constraint can't be shown, so it is dropped with a warning
+const toDatabaseProject = (row: Tables<'projects'>): DatabaseProject | null => {
+    const { category, status } = row;
+    if (isOneOf(PROJECT_CATEGORIES, category) && isOneOf(PROJECT_STATUSES, status)) {
+        return { ...row, category, status };
+    }
+    console.warn(`Skipping project ${row.slug}: unknown category "${category}" or status "${status}"`);
+    return null;
+};
+
+const toDatabaseService = (row: Tables<'services'>): IDatabaseService | null => {
+    const { category } = row;
+    if (isOneOf(SERVICE_CATEGORIES, category)) {
+        return { ...row, category };
+    }
+    console.warn(`Skipping service ${row.slug}: unknown category "${category}"`);
+    return null;
+};
+
+const narrowRows = <TRow, T>(rows: TRow[], narrow: (row: TRow) => T | null): T[] =>
+    rows.flatMap(row => {
+        const narrowed = narrow(row);
+        return narrowed ? [narrowed] : [];
+    });
+
+// ===== BASE REPOSITORY CLASS =====
+
+// The query-builder calls applyQueryOptions makes, with columns checked against one table
+interface IOptionsQuery<TName extends TableName, Q> {
+    match(filters: Partial<Tables<TName>>): Q;
+    order(column: ColumnName<TName>, options?: { ascending?: boolean }): Q;
+    limit(count: number): Q;
+    range(from: number, to: number): Q;
 }
 
-export interface DatabaseTestimonial {
-    id: string;
-    name: string;
-    company?: string;
-    position?: string;
-    content: string;
-    rating: number;
-    avatar_url?: string;
-    project_id?: string;
-    service_id?: string;
-    published: boolean;
-    featured: boolean;
-    created_at: string;
-    updated_at: string;
+interface IQueryResult<R> {
+    data: R | null;
+    error: PostgrestError | null;
 }
 
-// ===== BASE REPOSITORY CLASS =====
-abstract class BaseRepository<T> implements IRepository<T> {
-    protected client: SupabaseClient;
-    protected tableName: string;
+// Subclasses build their queries from this.client.from('<table>') so rows and
+// columns stay typed; the base class only applies options and handles results
+abstract class BaseRepository<TName extends TableName> {
+    protected client: SupabaseClient<Database>;
+    protected tableName: TName;
 
-    constructor(tableName: string) {
+    constructor(tableName: TName) {
         this.client = supabaseService.getClient();
         this.tableName = tableName;
     }
 
-    async getAll(options?: IQueryOptions): Promise<T[]> {
-        try {
-            let query = this.client.from(this.tableName).select('*');
+    protected applyQueryOptions<Q extends IOptionsQuery<TName, Q>>(query: Q, options: IQueryOptions<TName> = {}): Q {
+        let result = options.filters ? query.match(options.filters) : query;
 
-            if (options?.filters) {
-                Object.entries(options.filters).forEach(([key, value]) => {
-                    query = query.eq(key, value);
-                });
-            }
+        if (options.orderBy) {
+            result = result.order(options.orderBy, {
+                ascending: options.ascending ?? false
+            });
+        }
 
-            if (options?.orderBy) {
-                query = query.order(options.orderBy, { 
-                    ascending: options.ascending ?? false 
-                });
-            }
+        if (options.limit) {
+            result = result.limit(options.limit);
+        }
 
-            if (options?.limit) {
-                query = query.limit(options.limit);
-            }
+        if (options.offset) {
+            result = result.range(options.offset,
+                options.offset + (options.limit ?? 50) - 1
+            );
+        }
 
-            if (options?.offset) {
-                query = query.range(options.offset, 
-                    options.offset + (options.limit ?? 50) - 1
-                );
-            }
+        return result;
+    }
 
+    protected async fetchRows<R>(method: string, query: PromiseLike<IQueryResult<R[]>>): Promise<R[]> {
+        try {
             const { data, error } = await query;
 
             if (error) {
@@ -205,125 +160,45 @@ abstract class BaseRepository<T> implements IRepository<T> {
                 throw new Error(`Failed to fetch ${this.tableName}: ${error.message}`);
             }
 
-            return data as T[];
+            return data ?? [];
         } catch (error) {
-            console.error(`Repository error in getAll for ${this.tableName}:`, error);
+            console.error(`Repository error in ${method} for ${this.tableName}:`, error);
             throw error;
         }
     }
 
-    async getById(id: string): Promise<T | null> {
+    // Resolves to null when no row matches
+    protected async fetchRow<R>(method: string, query: PromiseLike<IQueryResult<R>>): Promise<R | null> {
         try {
-            const { data, error } = await this.client
-                .from(this.tableName)
-                .select('*')
-                .eq('id', id)
-                .single();
+            const { data, error } = await query;
 
             if (error) {
                 if (error.code === 'PGRST116') {
                     return null; // Not found
                 }
-                console.error(`Error fetching ${this.tableName} by id:`, error);
+                console.error(`Error fetching ${this.tableName}:`, error);
                 throw new Error(`Failed to fetch ${this.tableName}: ${error.message}`);
             }
 
-            return data as T;
-        } catch (error) {
-            console.error(`Repository error in getById for ${this.tableName}:`, error);
-            throw error;
-        }
-    }
-
-    async create(data: Omit<T, 'id' | 'created_at' | 'updated_at'>): Promise<T> {
-        try {
-            const { data: result, error } = await this.client
-                .from(this.tableName)
-                .insert(data)
-                .select()
-                .single();
-
-            if (error) {
-                console.error(`Error creating ${this.tableName}:`, error);
-                throw new Error(`Failed to create ${this.tableName}: ${error.message}`);
-            }
-
-            return result as T;
+            return data;
         } catch (error) {
-            console.error(`Repository error in create for ${this.tableName}:`, error);
+            console.error(`Repository error in ${method} for ${this.tableName}:`, error);
             throw error;
         }
     }
 
-    async update(id: string, data: Partial<T>): Promise<T> {
+    // countQuery and dataQuery must carry the same filters
+    protected async fetchPage<R>(
+        options: IPaginationOptions<TName>,
+        countQuery: PromiseLike<IQueryResult<unknown> & { count: number | null }>,
+        dataQuery: (from: number, to: number) => PromiseLike<IQueryResult<R[]>>
+    ): Promise<IPaginationResult<R>> {
         try {
-            const { data: result, error } = await this.client
-                .from(this.tableName)
-                .update(data)
-                .eq('id', id)
-                .select()
-                .single();
-
-            if (error) {
-                console.error(`Error updating ${this.tableName}:`, error);
-                throw new Error(`Failed to update ${this.tableName}: ${error.message}`);
-            }
-
-            return result as T;
-        } catch (error) {
-            console.error(`Repository error in update for ${this.tableName}:`, error);
-            throw error;
-        }
-    }
-
-    async delete(id: string): Promise<void> {
-        try {
-            const { error } = await this.client
-                .from(this.tableName)
-                .delete()
-                .eq('id', id);
-
-            if (error) {
-                console.error(`Error deleting ${this.tableName}:`, error);
-                throw new Error(`Failed to delete ${this.tableName}: ${error.message}`);
-            }
-        } catch (error) {
-            console.error(`Repository error in delete for ${this.tableName}:`, error);
-            throw error;
-        }
-    }
-
-    async getPaginated(options: IPaginationOptions = {}): Promise<IPaginationResult<T>> {
-        try {
-            const {
-                page = 1,
-                itemsPerPage = 10,
-                orderBy,
-                ascending = false,
-                filters
-            } = options;
+            const { page = 1, itemsPerPage = 10 } = options;
 
             // Calculate offset
             const offset = (page - 1) * itemsPerPage;
 
-            // Build base query for count
-            let countQuery = this.client
-                .from(this.tableName)
-                .select('*', { count: 'exact', head: true });
-
-            // Build base query for data
-            let dataQuery = this.client
-                .from(this.tableName)
-                .select('*');
-
-            // Apply filters to both queries
-            if (filters) {
-                Object.entries(filters).forEach(([key, value]) => {
-                    countQuery = countQuery.eq(key, value);
-                    dataQuery = dataQuery.eq(key, value);
-                });
-            }
-
             // Get total count
             const { count: totalCount, error: countError } = await countQuery;
 
@@ -332,15 +207,8 @@ abstract class BaseRepository<T> implements IRepository<T> {
                 throw new Error(`Failed to count ${this.tableName}: ${countError.message}`);
             }
 
-            // Apply ordering, pagination to data query
-            if (orderBy) {
-                dataQuery = dataQuery.order(orderBy, { ascending });
-            }
-
-            dataQuery = dataQuery.range(offset, offset + itemsPerPage - 1);
-
             // Execute data query
-            const { data, error: dataError } = await dataQuery;
+            const { data, error: dataError } = await dataQuery(offset, offset + itemsPerPage - 1);
 
             if (dataError) {
                 console.error(`Error fetching paginated ${this.tableName}:`, dataError);
@@ -350,7 +218,7 @@ abstract class BaseRepository<T> implements IRepository<T> {
             const totalPages = Math.ceil((totalCount || 0) / itemsPerPage);
 
             return {
-                data: data as T[],
+                data: data ?? [],
                 totalCount: totalCount || 0,
                 currentPage: page,
                 totalPages,
@@ -367,12 +235,32 @@ abstract class BaseRepository<T> implements IRepository<T> {
 
 // ===== SPECIALIZED REPOSITORIES =====
 
-class ProjectsRepository extends BaseRepository<DatabaseProject> {
+class ProjectsRepository extends BaseRepository<'projects'> {
     constructor() {
         super('projects');
     }
 
-    async getPublished(options?: IQueryOptions): Promise<DatabaseProject[]> {
+    // Every read path starts here so trashed rows never leak into the site
+    private selectLive(options?: { count: 'exact'; head: true }) {
+        return this.client.from('projects').select('*', options).is('deleted_at', null);
+    }
+
+    private async getAll(options: IQueryOptions<'projects'>): Promise<DatabaseProject[]> {
+        const rows = await this.fetchRows('getAll', this.applyQueryOptions(this.selectLive(), options));
+        return narrowRows(rows, toDatabaseProject);
+    }
+
+    private async getPaginated(options: IPaginationOptions<'projects'>): Promise<IPaginationResult<DatabaseProject>> {
+        const { filters, orderBy, ascending = false } = options;
+        const page = await this.fetchPage(
+            options,
+            this.applyQueryOptions(this.selectLive({ count: 'exact', head: true }), { filters }),
+            (from, to) => this.applyQueryOptions(this.selectLive(), { filters, orderBy, ascending }).range(from, to)
+        );
+        return { ...page, data: narrowRows(page.data, toDatabaseProject) };
+    }
+
+    async getPublished(options?: IQueryOptions<'projects'>): Promise<DatabaseProject[]> {
         return this.getAll({
             ...options,
             filters: { published: true, ...options?.filters }
@@ -396,23 +284,8 @@ class ProjectsRepository extends BaseRepository<DatabaseProject> {
     }
 
     async getBySlug(slug: string): Promise<DatabaseProject | null> {
-        try {
-            const { data, error } = await this.client
-                .from(this.tableName)
-                .select('*')
-                .eq('slug', slug)
-                .single();
-
-            if (error) {
-                if (error.code === 'PGRST116') return null;
-                throw new Error(`Failed to fetch project: ${error.message}`);
-            }
-
-            return data as DatabaseProject;
-        } catch (error) {
-            console.error('Repository error in getBySlug:', error);
-            throw error;
-        }
+        const row = await this.fetchRow('getBySlug', this.selectLive().eq('slug', slug).single());
+        return row && toDatabaseProject(row);
     }
 
     async incrementViewCount(id: string): Promise<void> {
@@ -421,52 +294,32 @@ class ProjectsRepository extends BaseRepository<DatabaseProject> {
                 table_type: 'projects',
                 record_id: id
             });
-            
-            if (error || !data?.success) {
-                console.warn('Failed to increment view count:', error || data?.error);
+
+            const result = data as ViewCountResult | null;
+            if (error || !result?.success) {
+                console.warn('Failed to increment view count:', error || result?.error);
             }
         } catch (error) {
             console.warn('Failed to increment view count:', error);
         }
     }
 
-    async search(options: ISearchOptions): Promise<DatabaseProject[]> {
-        try {
-            let query = this.client
-                .from(this.tableName)
-                .select('*')
-                .eq('published', true);
-
-            if (options.searchTerm) {
-                query = query.or(`title.ilike.%${options.searchTerm}%,description.ilike.%${options.searchTerm}%`);
-            }
-
-            if (options.filters) {
-                Object.entries(options.filters).forEach(([key, value]) => {
-                    query = query.eq(key, value);
-                });
-            }
+    async search(options: ISearchOptions<'projects'>): Promise<DatabaseProject[]> {
+        let query = this.selectLive().eq('published', true);
 
-            if (options.orderBy) {
-                query = query.order(options.orderBy, { 
-                    ascending: options.ascending ?? false 
-                });
-            }
-
-            const { data, error } = await query;
-
-            if (error) {
-                throw new Error(`Search failed: ${error.message}`);
-            }
-
-            return data as DatabaseProject[];
-        } catch (error) {
-            console.error('Repository error in search:', error);
-            throw error;
+        if (options.searchTerm) {
+            query = query.or(`title.ilike.%${options.searchTerm}%,description.ilike.%${options.searchTerm}%`);
         }
+
+        const rows = await this.fetchRows('search', this.applyQueryOptions(query, {
+            filters: options.filters,
+            orderBy: options.orderBy,
+            ascending: options.ascending
+        }));
+        return narrowRows(rows, toDatabaseProject);
     }
 
-    async getPublishedPaginated(options: IPaginationOptions = {}): Promise<IPaginationResult<DatabaseProject>> {
+    async getPublishedPaginated(options: IPaginationOptions<'projects'> = {}): Promise<IPaginationResult<DatabaseProject>> {
         return this.getPaginated({
             ...options,
             filters: { published: true, ...options.filters },
@@ -475,7 +328,7 @@ class ProjectsRepository extends BaseRepository<DatabaseProject> {
         });
     }
 
-    async getFeaturedPaginated(options: IPaginationOptions = {}): Promise<IPaginationResult<DatabaseProject>> {
+    async getFeaturedPaginated(options: IPaginationOptions<'projects'> = {}): Promise<IPaginationResult<DatabaseProject>> {
         return this.getPaginated({
             ...options,
             filters: { published: true, featured: true, ...options.filters },
@@ -484,7 +337,7 @@ class ProjectsRepository extends BaseRepository<DatabaseProject> {
         });
     }
 
-    async getByCategoryPaginated(category: string, options: IPaginationOptions = {}): Promise<IPaginationResult<DatabaseProject>> {
+    async getByCategoryPaginated(category: string, options: IPaginationOptions<'projects'> = {}): Promise<IPaginationResult<DatabaseProject>> {
         return this.getPaginated({
             ...options,
             filters: { published: true, category, ...options.filters },
@@ -494,12 +347,18 @@ class ProjectsRepository extends BaseRepository<DatabaseProject> {
     }
 }
 
-class ServicesRepository extends BaseRepository<DatabaseService> {
+class ServicesRepository extends BaseRepository<'services'> {
     constructor() {
         super('services');
     }
 
-    async getPublished(options?: IQueryOptions): Promise<DatabaseService[]> {
+    private async getAll(options: IQueryOptions<'services'>): Promise<IDatabaseService[]> {
+        const query = this.client.from('services').select('*');
+        const rows = await this.fetchRows('getAll', this.applyQueryOptions(query, options));
+        return narrowRows(rows, toDatabaseService);
+    }
+
+    async getPublished(options?: IQueryOptions<'services'>): Promise<IDatabaseService[]> {
         return this.getAll({
             ...options,
             filters: { published: true, ...options?.filters },
@@ -508,7 +367,7 @@ class ServicesRepository extends BaseRepository<DatabaseService> {
         });
     }
 
-    async getFeatured(): Promise<DatabaseService[]> {
+    async getFeatured(): Promise<IDatabaseService[]> {
         return this.getAll({
             filters: { published: true, featured: true },
             orderBy: 'order_priority',
@@ -516,7 +375,7 @@ class ServicesRepository extends BaseRepository<DatabaseService> {
         });
     }
 
-    async getByCategory(category: string): Promise<DatabaseService[]> {
+    async getByCategory(category: string): Promise<IDatabaseService[]> {
         return this.getAll({
             filters: { published: true, category },
             orderBy: 'order_priority',
@@ -524,68 +383,43 @@ class ServicesRepository extends BaseRepository<DatabaseService> {
         });
     }
 
-    async getBySlug(slug: string): Promise<DatabaseService | null> {
-        try {
-            const { data, error } = await this.client
-                .from(this.tableName)
-                .select('*')
-                .eq('slug', slug)
-                .single();
-
-            if (error) {
-                if (error.code === 'PGRST116') return null;
-                throw new Error(`Failed to fetch service: ${error.message}`);
-            }
-
-            return data as DatabaseService;
-        } catch (error) {
-            console.error('Repository error in getBySlug:', error);
-            throw error;
-        }
+    async getBySlug(slug: string): Promise<IDatabaseService | null> {
+        const query = this.client.from('services').select('*').eq('slug', slug).single();
+        const row = await this.fetchRow('getBySlug', query);
+        return row && toDatabaseService(row);
     }
 }
 
-class ArticlesRepository extends BaseRepository<DatabaseArticle> {
+class ArticlesRepository extends BaseRepository<'articles'> {
     constructor() {
         super('articles');
     }
 
-    async getPublished(options?: IQueryOptions): Promise<DatabaseArticle[]> {
-        return this.getAll({
+    // Every read path starts here so trashed rows never leak into the site
+    private selectLive() {
+        return this.client.from('articles').select('*').is('deleted_at', null);
+    }
+
+    async getPublished(options?: IQueryOptions<'articles'>): Promise<DatabaseArticle[]> {
+        return this.fetchRows('getPublished', this.applyQueryOptions(this.selectLive(), {
             ...options,
             filters: { published: true, ...options?.filters },
             orderBy: 'published_at',
             ascending: false
-        });
+        }));
     }
 
     async getFeatured(): Promise<DatabaseArticle[]> {
-        return this.getAll({
+        return this.fetchRows('getFeatured', this.applyQueryOptions(this.selectLive(), {
             filters: { published: true, featured: true },
             orderBy: 'published_at',
             ascending: false,
             limit: 3
-        });
+        }));
     }
 
     async getBySlug(slug: string): Promise<DatabaseArticle | null> {
-        try {
-            const { data, error } = await this.client
-                .from(this.tableName)
-                .select('*')
-                .eq('slug', slug)
-                .single();
-
-            if (error) {
-                if (error.code === 'PGRST116') return null;
-                throw new Error(`Failed to fetch article: ${error.message}`);
-            }
-
-            return data as DatabaseArticle;
-        } catch (error) {
-            console.error('Repository error in getBySlug:', error);
-            throw error;
-        }
+        return this.fetchRow('getBySlug', this.selectLive().eq('slug', slug).single());
     }
 
     async incrementViewCount(id: string): Promise<void> {
@@ -594,9 +428,10 @@ class ArticlesRepository extends BaseRepository<DatabaseArticle> {
                 table_type: 'articles',
                 record_id: id
             });
-            
-            if (error || !data?.success) {
-                console.warn('Failed to increment view count:', error || data?.error);
+
+            const result = data as ViewCountResult | null;
+            if (error || !result?.success) {
+                console.warn('Failed to increment view count:', error || result?.error);
             }
         } catch (error) {
             console.warn('Failed to increment view count:', error);
@@ -604,47 +439,68 @@ class ArticlesRepository extends BaseRepository<DatabaseArticle> {
     }
 }
 
-class InquiriesRepository extends BaseRepository<DatabaseInquiry> {
+class InquiriesRepository extends BaseRepository<'inquiries'> {
     constructor() {
         super('inquiries');
     }
 
-    async submitInquiry(data: Omit<DatabaseInquiry, 'id' | 'created_at' | 'updated_at' | 'status' | 'priority'>): Promise<DatabaseInquiry> {
-        return this.create({
+    async submitInquiry(data: InquirySubmission): Promise<InquirySubmission & Pick<DatabaseInquiry, 'id' | 'status' | 'priority' | 'created_at' | 'updated_at'>> {
+        // Visitors can insert inquiries but not read them back (RLS), so the id
+        // is generated here rather than relying on insert(...).select().
+        const inquiry = {
             ...data,
+            id: crypto.randomUUID(),
             status: 'new',
             priority: 0
-        } as Omit<DatabaseInquiry, 'id' | 'created_at' | 'updated_at'>);
+        };
+
+        try {
+            const { error } = await this.client
+                .from('inquiries')
+                .insert({ ...inquiry, quote_config: (inquiry.quote_config ?? null) as unknown as Json });
+
+            if (error) {
+                console.error(`Error creating ${this.tableName}:`, error);
+                throw new Error(`Failed to submit inquiry: ${error.message}`);
+            }
+
+            const now = new Date().toISOString();
+            return { ...inquiry, created_at: now, updated_at: now };
+        } catch (error) {
+            console.error(`Repository error in submitInquiry for ${this.tableName}:`, error);
+            throw error;
+        }
     }
 
     async getByStatus(status: string): Promise<DatabaseInquiry[]> {
-        return this.getAll({
+        const query = this.client.from('inquiries').select('*').is('deleted_at', null);
+        return this.fetchRows('getByStatus', this.applyQueryOptions(query, {
             filters: { status },
             orderBy: 'created_at',
             ascending: false
-        });
+        }));
     }
 }
 
-class TestimonialsRepository extends BaseRepository<DatabaseTestimonial> {
+class TestimonialsRepository extends BaseRepository<'testimonials'> {
     constructor() {
         super('testimonials');
     }
 
     async getPublished(): Promise<DatabaseTestimonial[]> {
-        return this.getAll({
+        return this.fetchRows('getPublished', this.applyQueryOptions(this.client.from('testimonials').select('*'), {
             filters: { published: true },
             orderBy: 'created_at',
             ascending: false
-        });
+        }));
     }
 
     async getFeatured(): Promise<DatabaseTestimonial[]> {
-        return this.getAll({
+        return this.fetchRows('getFeatured', this.applyQueryOptions(this.client.from('testimonials').select('*'), {
             filters: { published: true, featured: true },
             orderBy: 'rating',
             ascending: false
-        });
+        }));
     }
 }
 
@@ -0,0 +1,347 @@
+// services/MediaUploadService.ts - Uploads files to Supabase Storage and records them in media_files
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseClient } from './supabaseClient';
+import SupabaseService from './SupabaseService';
+import { config } from '../config';
+import { MediaFile, MediaUploadError } from '../types/media';
+import {
+    IMAGE_SIZES,
+    UNIVERSAL_IMAGE_FORMAT,
+    generateSrcSet,
+    getAllVariantPaths,
+    getImageMimeType,
+    getVariantPath,
+    getVariantSizes
+} from '../utils/ImageOptimization';
+import { canGenerateVariants, generateImageVariants } from '../utils/imageVariants';
+import type { Database } from '../types/database';
+
+export const MEDIA_UPLOAD_CONFIG = {
+    bucket: 'media',
+    folder: 'uploads',
+    maxFileSize: 50 * 1024 * 1024,   // 50 MB for video/audio/documents
+    maxImageSize: 10 * 1024 * 1024,  // 10 MB for images
+    allowedMimeTypes: [
+        'image/jpeg',
+        'image/png',
+        'image/webp',
+        'image/avif',
+        'image/gif',
+        'video/mp4',
+        'video/webm',
+        'audio/mpeg',
+        'audio/wav',
+        'audio/ogg',
+        'application/pdf'
+    ]
+} as const;
+
+export interface UploadTask {
+    promise: Promise<MediaFile>;
+    cancel: () => void;
+}
+
+type ProgressCallback = (progress: number, phase: 'uploading' | 'optimizing' | 'saving') => void;
+
+class MediaUploadService {
+    private static instance: MediaUploadService;
+    private client: SupabaseClient<Database>;
+
+    constructor() {
+        this.client = getSupabaseClient();
+    }
+
+    static getInstance(): MediaUploadService {
+        if (!MediaUploadService.instance) {
+            MediaUploadService.instance = new MediaUploadService();
+        }
+        return MediaUploadService.instance;
+    }
+
+    /**
+     * Returns a user-facing error message, or null if the file can be uploaded
+     */
+    validateFile(file: File): string | null {
+        const allowed: readonly string[] = MEDIA_UPLOAD_CONFIG.allowedMimeTypes;
+        if (!allowed.includes(file.type)) {
+            return `${file.name}: file type ${file.type || 'unknown'} is not supported`;
+        }
+
+        const limit = file.type.startsWith('image/')
+            ? MEDIA_UPLOAD_CONFIG.maxImageSize
+            : MEDIA_UPLOAD_CONFIG.maxFileSize;
+
+        if (file.size > limit) {
+            return `${file.name}: file is larger than ${Math.round(limit / (1024 * 1024))} MB`;
+        }
+
+        if (file.size === 0) {
+            return `${file.name}: file is empty`;
+        }
+
+        return null;
+    }
+
+    /**
+     * Uploads a file and creates its media_files row. The returned task can be
+     * cancelled while the bytes are still in flight.
+     */
+    upload(file: File, onProgress?: ProgressCallback): UploadTask {
+        let xhr: XMLHttpRequest | null = null;
+        let cancelled = false;
+
+        const promise = (async (): Promise<MediaFile> => {
+            const validationError = this.validateFile(file);
+            if (validationError) {
+                throw new MediaUploadError(validationError, 'VALIDATION');
+            }
+
+            const { data: { session } } = await this.client.auth.getSession();
+            if (!session) {
+                throw new MediaUploadError('You must be signed in to upload files', 'AUTH');
+            }
+
+            const dimensions = await this.readImageDimensions(file);
+            const storagePath = this.buildStoragePath(file, dimensions?.width);
+
+            if (config.supabase.backend === 'local') {
+                // The offline backend has no upload endpoint to report progress from
+                const { error } = await this.client.storage
+                    .from(MEDIA_UPLOAD_CONFIG.bucket)
+                    .upload(storagePath, file, { contentType: file.type });
+                if (error) {
+                    throw new MediaUploadError(`Storage upload failed: ${error.message}`, 'STORAGE', error);
+                }
+                onProgress?.(100, 'uploading');
+            } else {
+                await new Promise<void>((resolve, reject) => {
+                    if (cancelled) {
+                        reject(new MediaUploadError('Upload cancelled', 'CANCELLED'));
+                        return;
+                    }
+
+                    xhr = new XMLHttpRequest();
+                    xhr.open('POST', this.getObjectUrl(storagePath));
+                    xhr.setRequestHeader('Authorization', `Bearer ${session.access_token}`);
+                    xhr.setRequestHeader('apikey', config.supabase.anonKey);
+                    xhr.setRequestHeader('Content-Type', file.type);
+                    xhr.setRequestHeader('x-upsert', 'false');
+                    xhr.setRequestHeader('cache-control', 'max-age=31536000');
+
+                    xhr.upload.onprogress = (event) => {
+                        if (event.lengthComputable) {
+                            onProgress?.(Math.round((event.loaded / event.total) * 100), 'uploading');
+                        }
+                    };
+                    xhr.onload = () => {
+                        if (xhr && xhr.status >= 200 && xhr.status < 300) {
+                            resolve();
+                        } else {
+                            reject(new MediaUploadError(
+                                `Storage upload failed (${xhr?.status}): ${this.parseStorageError(xhr?.responseText)}`,
+                                'STORAGE'
+                            ));
+                        }
+                    };
+                    xhr.onerror = () => reject(new MediaUploadError('Network error during upload', 'NETWORK'));
+                    xhr.onabort = () => reject(new MediaUploadError('Upload cancelled', 'CANCELLED'));
+
+                    xhr.send(file);
+                });
+            }
+
+            let variantPaths: string[] = [];
+            if (canGenerateVariants(file.type)) {
+                onProgress?.(100, 'optimizing');
+                variantPaths = await this.uploadVariants(file, storagePath);
+            }
+
+            if (cancelled) {
+                await this.removeObjects([storagePath, ...variantPaths]);
+                throw new MediaUploadError('Upload cancelled', 'CANCELLED');
+            }
+
+            onProgress?.(100, 'saving');
+
+            try {
+                const record = await SupabaseService.createMediaFile({
+                    filename: storagePath,
+                    original_filename: file.name,
+                    file_path: this.getPublicUrl(storagePath),
+                    file_size: file.size,
+                    mime_type: file.type,
+                    width: dimensions?.width,
+                    height: dimensions?.height,
+                    uploaded_by: session.user.id
+                });
+                return record as MediaFile;
+            } catch (error) {
+                // Don't leave an orphaned object behind if the row couldn't be written
+                await this.removeObjects([storagePath, ...variantPaths]);
+                const message = error instanceof Error ? error.message : 'Failed to save media record';
+                throw new MediaUploadError(message, 'DATABASE', error);
+            }
+        })();
+
+        return {
+            promise,
+            cancel: () => {
+                cancelled = true;
+                xhr?.abort();
+            }
+        };
+    }
+
+    /**
+     * Removes a media file's stored object(s), including any resized variants.
+     * Files that don't live in our bucket (e.g. external URLs) are left alone.
+     */
+    async deleteStoredFile(file: MediaFile): Promise<void> {
+        if (!this.isStoredInBucket(file)) return;
+
+        const paths = canGenerateVariants(file.mime_type)
+            ? [file.filename, ...getAllVariantPaths(file.filename)]
+            : [file.filename];
+        await this.removeObjects(paths);
+    }
+
+    /**
+     * srcset for an image uploaded through the media library, or undefined for
+     * anything else (static assets, external URLs, files without a recorded
+     * width) that has no variants we know of. Only sizes up to the original width exist; an original narrower than the
+     * largest size is listed itself so wide layouts don't get a smaller variant.
+     */
+    getVariantSrcSet(url: string | null | undefined): string | undefined {
+        if (!url || !url.startsWith(this.getPublicUrl(`${MEDIA_UPLOAD_CONFIG.folder}/`))) {
+            return undefined;
+        }
+
+        const extension = url.split('.').pop()?.toLowerCase();
+        if (!extension || !['jpg', 'jpeg', 'png', 'webp', 'avif'].includes(extension)) {
+            return undefined;
+        }
+
+        const width = this.parseStoredWidth(url);
+        if (width === null) return undefined;
+
+        const sizes = getVariantSizes(width);
+        const sources = sizes.length > 0 ? [generateSrcSet(url, [UNIVERSAL_IMAGE_FORMAT], sizes)] : [];
+        const largest = IMAGE_SIZES[IMAGE_SIZES.length - 1].width;
+        if (width < largest && !sizes.some(size => size.width === width)) {
+            sources.push(`${url} ${width}w`);
+        }
+
+        return sources.length > 0 ? sources.join(', ') : undefined;
+    }
+
+    isStoredInBucket(file: MediaFile): boolean {
+        return file.filename.startsWith(`${MEDIA_UPLOAD_CONFIG.folder}/`) &&
+            file.file_path === this.getPublicUrl(file.filename);
+    }
+
+    getPublicUrl(storagePath: string): string {
+        return this.client.storage
+            .from(MEDIA_UPLOAD_CONFIG.bucket)
+            .getPublicUrl(storagePath).data.publicUrl;
+    }
+
+    private async removeObjects(paths: string[]): Promise<void> {
+        const { error } = await this.client.storage
+            .from(MEDIA_UPLOAD_CONFIG.bucket)
+            .remove(paths);
+
+        if (error) {
+            console.warn('Failed to remove storage objects:', paths, error);
+        }
+    }
+
+    /**
+     * Generates and uploads the resized variants next to the original, named
+     * the way getVariantSrcSet expects. Variants are an
+     * optimisation, so failures are logged rather than failing the upload.
+     */
+    private async uploadVariants(file: File, storagePath: string): Promise<string[]> {
+        const uploaded: string[] = [];
+
+        try {
+            const variants = await generateImageVariants(file);
+
+            for (const variant of variants) {
+                const variantPath = getVariantPath(storagePath, variant.size, variant.format);
+                const { error } = await this.client.storage
+                    .from(MEDIA_UPLOAD_CONFIG.bucket)
+                    .upload(variantPath, variant.blob, {
+                        contentType: getImageMimeType(variant.format.format),
+                        cacheControl: '31536000',
+                        upsert: false
+                    });
+
+                if (error) {
+                    console.warn('Failed to upload image variant:', variantPath, error);
+                } else {
+                    uploaded.push(variantPath);
+                }
+            }
+        } catch (error) {
+            console.warn('Could not generate image variants:', file.name, error);
+        }
+
+        return uploaded;
+    }
+
+    private getObjectUrl(storagePath: string): string {
+        const encodedPath = storagePath.split('/').map(encodeURIComponent).join('/');
+        return `${config.supabase.url}/storage/v1/object/${MEDIA_UPLOAD_CONFIG.bucket}/${encodedPath}`;
+    }
+
+    /**
+     * Images carry their width in the path (`<id>-<width>w-<name>`), since
+     * pages only have the URL when they build a srcset
+     */
+    private buildStoragePath(file: File, width?: number): string {
+        const now = new Date();
+        const month = String(now.getMonth() + 1).padStart(2, '0');
+        const extension = (file.name.split('.').pop() || 'bin').toLowerCase();
+        const baseName = file.name
+            .replace(/\.[^/.]+$/, '')
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-+|-+$/g, '')
+            .slice(0, 60) || 'file';
+
+        const widthTag = width ? `${width}w-` : '';
+
+        return `${MEDIA_UPLOAD_CONFIG.folder}/${now.getFullYear()}/${month}/${crypto.randomUUID().slice(0, 8)}-${widthTag}${baseName}.${extension}`;
+    }
+
+    private parseStoredWidth(url: string): number | null {
+        const match = url.match(/\/[0-9a-f]{8}-(\d+)w-[^/]*$/);
+        return match ? Number(match[1]) : null;
+    }
+
+    private async readImageDimensions(file: File): Promise<{ width: number; height: number } | null> {
+        if (!file.type.startsWith('image/')) return null;
+
+        try {
+            const bitmap = await createImageBitmap(file);
+            const dimensions = { width: bitmap.width, height: bitmap.height };
+            bitmap.close();
+            return dimensions;
+        } catch (error) {
+            console.warn('Could not read image dimensions:', file.name, error);
+            return null;
+        }
+    }
+
+    private parseStorageError(responseText?: string): string {
+        if (!responseText) return 'Unknown error';
+        try {
+            const parsed = JSON.parse(responseText);
+            return parsed.message || parsed.error || responseText;
+        } catch {
+            return responseText;
+        }
+    }
+}
+
+export default MediaUploadService.getInstance();
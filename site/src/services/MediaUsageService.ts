@@ -0,0 +1,162 @@
+// services/MediaUsageService.ts - Finds where media library files are referenced
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseClient } from './supabaseClient';
+import { MediaFile, MediaUsage } from '../types/media';
+import { getAllVariantPaths } from '../utils/ImageOptimization';
+import type { Database, Tables } from '../types/database';
+
+export type MediaUsageIndex = Map<string, MediaUsage[]>;
+
+type ProjectRow = Pick<Tables<'projects'>, 'id' | 'title' | 'slug' | 'image_url' | 'screenshots' | 'detailed_description' | 'deleted_at'>;
+type ArticleRow = Pick<Tables<'articles'>, 'id' | 'title' | 'slug' | 'featured_image' | 'content' | 'deleted_at'>;
+type TestimonialRow = Pick<Tables<'testimonials'>, 'id' | 'name' | 'company' | 'avatar_url' | 'content'>;
+type ProjectUpdateRow = Pick<Tables<'project_updates'>, 'id' | 'title' | 'body' | 'attachments'>;
+
+interface UsageCandidate {
+    usage: Omit<MediaUsage, 'field'>;
+    fields: Array<[field: string, value: string | string[] | null | undefined]>;
+}
+
+class MediaUsageService {
+    private static instance: MediaUsageService;
+    private client: SupabaseClient<Database>;
+
+    constructor() {
+        this.client = getSupabaseClient();
+    }
+
+    static getInstance(): MediaUsageService {
+        if (!MediaUsageService.instance) {
+            MediaUsageService.instance = new MediaUsageService();
+        }
+        return MediaUsageService.instance;
+    }
+
+    /**
+     * Scans projects, articles, testimonials and project update posts
+     * (published or not) and maps each media file id to the places that
+     * reference it. Trashed projects and articles count too, since they can
+     * still be restored. Files with no references get an empty list.
+     */
+    async buildIndex(files: MediaFile[]): Promise<MediaUsageIndex> {
+        const [projects, articles, testimonials, updates] = await Promise.all([
+            this.fetchRows<ProjectRow>('projects', this.client.from('projects')
+                .select('id, title, slug, image_url, screenshots, detailed_description, deleted_at')),
+            this.fetchRows<ArticleRow>('articles', this.client.from('articles')
+                .select('id, title, slug, featured_image, content, deleted_at')),
+            this.fetchRows<TestimonialRow>('testimonials', this.client.from('testimonials')
+                .select('id, name, company, avatar_url, content')),
+            this.fetchRows<ProjectUpdateRow>('project_updates', this.client.from('project_updates')
+                .select('id, title, body, attachments'))
+        ]);
+
+        const candidates = [
+            ...projects.map(this.fromProject),
+            ...articles.map(this.fromArticle),
+            ...testimonials.map(this.fromTestimonial),
+            ...updates.map(this.fromProjectUpdate)
+        ];
+
+        const index: MediaUsageIndex = new Map();
+        files.forEach(file => {
+            index.set(file.id, this.findUsages(file, candidates));
+        });
+        return index;
+    }
+
+    private findUsages(file: MediaFile, candidates: UsageCandidate[]): MediaUsage[] {
+        // Content may embed a resized variant rather than the original
+        const urls = [file.file_path, ...getAllVariantPaths(file.file_path)];
+        const references = (value: string) => urls.some(url => value.includes(url));
+
+        const usages: MediaUsage[] = [];
+        candidates.forEach(({ usage, fields }) => {
+            fields.forEach(([field, value]) => {
+                const values = Array.isArray(value) ? value : [value];
+                if (values.some(v => typeof v === 'string' && references(v))) {
+                    usages.push({ ...usage, field });
+                }
+            });
+        });
+        return usages;
+    }
+
+    private async fetchRows<T>(
+        table: keyof Database['public']['Tables'],
+        query: PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+    ): Promise<T[]> {
+        const { data, error } = await query;
+
+        if (error) {
+            console.error(`Error scanning ${table} for media usage:`, error);
+            throw error;
+        }
+
+        return data || [];
+    }
+
+    private fromProject(project: ProjectRow): UsageCandidate {
+        const trashed = !!project.deleted_at;
+        return {
+            usage: {
+                source: 'project',
+                id: project.id,
+                title: project.title,
+                href: trashed ? undefined : `/projects/${project.slug}`,
+                trashed
+            },
+            fields: [
+                ['image_url', project.image_url],
+                ['screenshots', project.screenshots],
+                ['detailed_description', project.detailed_description]
+            ]
+        };
+    }
+
+    private fromArticle(article: ArticleRow): UsageCandidate {
+        const trashed = !!article.deleted_at;
+        return {
+            usage: {
+                source: 'article',
+                id: article.id,
+                title: article.title,
+                href: trashed ? undefined : `/articles/${article.slug}`,
+                trashed
+            },
+            fields: [
+                ['featured_image', article.featured_image],
+                ['content', article.content]
+            ]
+        };
+    }
+
+    private fromTestimonial(testimonial: TestimonialRow): UsageCandidate {
+        return {
+            usage: {
+                source: 'testimonial',
+                id: testimonial.id,
+                title: testimonial.company ? `${testimonial.name} (${testimonial.company})` : testimonial.name
+            },
+            fields: [
+                ['avatar_url', testimonial.avatar_url],
+                ['content', testimonial.content]
+            ]
+        };
+    }
+
+    private fromProjectUpdate(update: ProjectUpdateRow): UsageCandidate {
+        return {
+            usage: {
+                source: 'project_update',
+                id: update.id,
+                title: update.title
+            },
+            fields: [
+                ['attachments', update.attachments],
+                ['body', update.body]
+            ]
+        };
+    }
+}
+
+export default MediaUsageService.getInstance();
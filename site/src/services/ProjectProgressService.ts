@@ -0,0 +1,197 @@
+// services/ProjectProgressService.ts - Project milestones and progress update posts
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseClient } from './supabaseClient';
+import type { ProjectMilestone, ProjectUpdate } from '../types/portal';
+import type { Database } from '../types/database';
+
+type MilestoneInput = Pick<ProjectMilestone, 'title' | 'description' | 'due_date' | 'state' | 'percent_complete'>;
+type UpdateInput = Pick<ProjectUpdate, 'title' | 'body' | 'visibility' | 'attachments' | 'posted_at'>;
+
+export interface ProjectTimelineData {
+    milestones: ProjectMilestone[];
+    updates: ProjectUpdate[];
+}
+
+/**
+ * Admin management of milestones and update posts, plus the public devlog
+ * read. Which rows a visitor gets is decided by RLS (database/project_progress.sql);
+ * the visibility filter on public reads keeps admins from seeing client-only
+ * posts on the public page.
+ */
+class ProjectProgressService {
+    private static instance: ProjectProgressService;
+    private client: SupabaseClient<Database>;
+
+    constructor() {
+        this.client = getSupabaseClient();
+    }
+
+    static getInstance(): ProjectProgressService {
+        if (!ProjectProgressService.instance) {
+            ProjectProgressService.instance = new ProjectProgressService();
+        }
+        return ProjectProgressService.instance;
+    }
+
+    async getPublicTimeline(projectId: string): Promise<ProjectTimelineData> {
+        const [milestones, updates] = await Promise.all([
+            this.getMilestones(projectId),
+            this.fetchUpdates(projectId, true)
+        ]);
+        return { milestones, updates };
+    }
+
+    // ===== MILESTONES ===== //
+    async getMilestones(projectId: string): Promise<ProjectMilestone[]> {
+        const { data, error } = await this.client
+            .from('project_milestones')
+            .select('*')
+            .eq('project_id', projectId)
+            .order('sort_order', { ascending: true })
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            console.error('Error fetching milestones:', error);
+            throw error;
+        }
+
+        return (data || []) as ProjectMilestone[];
+    }
+
+    async createMilestone(projectId: string, milestone: MilestoneInput, sortOrder: number): Promise<ProjectMilestone> {
+        const { data, error } = await this.client
+            .from('project_milestones')
+            .insert([{ ...this.normalizeMilestone(milestone), project_id: projectId, sort_order: sortOrder }])
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error creating milestone:', error);
+            throw error;
+        }
+
+        return data as ProjectMilestone;
+    }
+
+    async updateMilestone(id: string, milestone: Partial<MilestoneInput>): Promise<ProjectMilestone> {
+        const { data, error } = await this.client
+            .from('project_milestones')
+            .update(this.normalizeMilestone(milestone))
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error updating milestone:', error);
+            throw error;
+        }
+
+        return data as ProjectMilestone;
+    }
+
+    async reorderMilestones(milestoneIds: string[]): Promise<void> {
+        const results = await Promise.all(milestoneIds.map((id, index) =>
+            this.client.from('project_milestones').update({ sort_order: index }).eq('id', id)
+        ));
+
+        const failed = results.find(result => result.error);
+        if (failed?.error) {
+            console.error('Error reordering milestones:', failed.error);
+            throw failed.error;
+        }
+    }
+
+    async deleteMilestone(id: string): Promise<void> {
+        const { error } = await this.client
+            .from('project_milestones')
+            .delete()
+            .eq('id', id);
+
+        if (error) {
+            console.error('Error deleting milestone:', error);
+            throw error;
+        }
+    }
+
+    // ===== UPDATE POSTS ===== //
+    async getUpdates(projectId: string): Promise<ProjectUpdate[]> {
+        return this.fetchUpdates(projectId, false);
+    }
+
+    async createUpdate(projectId: string, update: UpdateInput, createdBy?: string): Promise<ProjectUpdate> {
+        const { data, error } = await this.client
+            .from('project_updates')
+            .insert([{ ...update, project_id: projectId, created_by: createdBy || null }])
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error creating project update:', error);
+            throw error;
+        }
+
+        return data as ProjectUpdate;
+    }
+
+    async updateUpdate(id: string, update: Partial<UpdateInput>): Promise<ProjectUpdate> {
+        const { data, error } = await this.client
+            .from('project_updates')
+            .update(update)
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error updating project update:', error);
+            throw error;
+        }
+
+        return data as ProjectUpdate;
+    }
+
+    async deleteUpdate(id: string): Promise<void> {
+        const { error } = await this.client
+            .from('project_updates')
+            .delete()
+            .eq('id', id);
+
+        if (error) {
+            console.error('Error deleting project update:', error);
+            throw error;
+        }
+    }
+
+    private async fetchUpdates(projectId: string, publicOnly: boolean): Promise<ProjectUpdate[]> {
+        let query = this.client
+            .from('project_updates')
+            .select('*')
+            .eq('project_id', projectId);
+
+        if (publicOnly) {
+            query = query.eq('visibility', 'public');
+        }
+
+        const { data, error } = await query.order('posted_at', { ascending: false });
+
+        if (error) {
+            console.error('Error fetching project updates:', error);
+            throw error;
+        }
+
+        return (data || []) as ProjectUpdate[];
+    }
+
+    // Completed milestones always count as 100%
+    private normalizeMilestone<T extends Partial<MilestoneInput>>(milestone: T): T {
+        const result = { ...milestone };
+        if (result.percent_complete !== undefined) {
+            result.percent_complete = Math.min(100, Math.max(0, Math.round(result.percent_complete)));
+        }
+        if (result.state === 'completed') {
+            result.percent_complete = 100;
+        }
+        return result;
+    }
+}
+
+export default ProjectProgressService.getInstance();
@@ -0,0 +1,77 @@
+// services/RevisionService.ts - Revision history and restore for projects and articles
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseClient } from './supabaseClient';
+import SupabaseService from './SupabaseService';
+import { pickRestorableFields } from '../utils/revisions';
+import type { ContentRevision, RevisionEntityType } from '../types/revision';
+import type { Database, Json, Tables } from '../types/database';
+
+export const REVISIONS_CONFIG = {
+    // Revisions listed per item; older ones stay in the table
+    historyLimit: 50
+} as const;
+
+// The trigger stores to_jsonb(NEW), so a snapshot is always a JSON object
+const isSnapshot = (value: Json): value is { [key: string]: Json | undefined } =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Revisions are written by database triggers on every insert/update
+ * (database/content_revisions.sql), so nothing here records them. Restoring
+ * writes the snapshot's form fields back through the normal update path,
+ * which in turn records the restore as the newest revision.
+ */
+class RevisionService {
+    private static instance: RevisionService;
+    private client: SupabaseClient<Database>;
+
+    constructor() {
+        this.client = getSupabaseClient();
+    }
+
+    static getInstance(): RevisionService {
+        if (!RevisionService.instance) {
+            RevisionService.instance = new RevisionService();
+        }
+        return RevisionService.instance;
+    }
+
+    async getRevisions(entityType: RevisionEntityType, entityId: string): Promise<ContentRevision[]> {
+        const { data, error } = await this.client
+            .from('content_revisions')
+            .select('*')
+            .eq('entity_type', entityType)
+            .eq('entity_id', entityId)
+            .order('created_at', { ascending: false })
+            .limit(REVISIONS_CONFIG.historyLimit);
+
+        if (error) {
+            console.error('Error fetching revisions:', error);
+            throw error;
+        }
+
+        return (data || []).map(row => ({
+            ...row,
+            entity_type: entityType,
+            snapshot: isSnapshot(row.snapshot) ? row.snapshot : {}
+        }));
+    }
+
+    /**
+     * Returns the updated row so forms and lists can show the restored content
+     */
+    async restoreRevision(revision: ContentRevision): Promise<Tables<'projects'> | Tables<'articles'>> {
+        const fields = pickRestorableFields(revision.entity_type, revision.snapshot);
+
+        try {
+            return revision.entity_type === 'project'
+                ? await SupabaseService.updateProject(revision.entity_id, fields)
+                : await SupabaseService.updateArticle(revision.entity_id, fields);
+        } catch (error) {
+            console.error('Error restoring revision:', error);
+            throw error;
+        }
+    }
+}
+
+export default RevisionService.getInstance();
@@ -15,12 +15,14 @@ export class StatisticsService {
                 client
                     .from('projects')
                     .select('id', { count: 'exact', head: true })
-                    .eq('published', true),
+                    .eq('published', true)
+                    .is('deleted_at', null),
                 
                 client
                     .from('articles')
                     .select('id', { count: 'exact', head: true })
-                    .eq('published', true),
+                    .eq('published', true)
+                    .is('deleted_at', null),
                 
                 client
                     .from('page_views')
@@ -31,6 +33,7 @@ export class StatisticsService {
                     .select('client_name')
                     .not('client_name', 'is', null)
                     .eq('published', true)
+                    .is('deleted_at', null)
             ]);
 
             return {
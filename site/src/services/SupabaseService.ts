@@ -1,6 +1,9 @@
 // services/SupabaseService.ts
 import { SupabaseClient, Session, User, AuthError, AuthChangeEvent } from '@supabase/supabase-js';
 import { getSupabaseClient } from './supabaseClient';
+import type { Database, TablesInsert, TablesUpdate } from '../types/database';
+import type { ProfileCreationResult, UserRolePayload } from '../types/profile';
+import { INQUIRY_SLA_CONFIG, clampSlaThreshold } from '../utils/inquiryPipeline';
 
 interface AuthResponse {
     data?: any;
@@ -19,7 +22,7 @@ interface UserResponse {
 
 class SupabaseService {
     private static instance: SupabaseService;
-    private client: SupabaseClient;
+    private client: SupabaseClient<Database>;
 
     constructor() {
         // Prevent multiple instances
@@ -279,7 +282,7 @@ class SupabaseService {
             }
 
             // Handle jsonb response from get_user_role function
-            const isAdminUser = Boolean(data?.is_admin);
+            const isAdminUser = Boolean((data as UserRolePayload | null)?.is_admin);
             console.log('🔍 ADMIN CHECK: Final result:', { isAdmin: isAdminUser });
             
             // Cache the result
@@ -311,7 +314,7 @@ class SupabaseService {
     }
 
     // ===== UTILITY METHODS ===== //
-    getClient(): SupabaseClient {
+    getClient(): SupabaseClient<Database> {
         return this.client;
     }
 
@@ -446,11 +449,12 @@ class SupabaseService {
                 };
             }
 
+            const profileResult = data as unknown as ProfileCreationResult;
             const result = {
-                success: data.success,
-                profileCreated: data.action === 'created',
-                profileCompleted: data.profile_completed,
-                error: data.error
+                success: profileResult.success,
+                profileCreated: profileResult.action === 'created',
+                profileCompleted: profileResult.profile_completed,
+                error: profileResult.error
             };
             
             // Cache the result
@@ -498,11 +502,12 @@ class SupabaseService {
                 };
             }
 
+            const profileResult = data as unknown as ProfileCreationResult;
             return {
-                success: data.success,
-                profileCreated: data.action === 'created',
-                profileCompleted: data.profile_completed,
-                error: data.error
+                success: profileResult.success,
+                profileCreated: profileResult.action === 'created',
+                profileCompleted: profileResult.profile_completed,
+                error: profileResult.error
             };
         } catch (err) {
             console.error('Login handling failed:', err);
@@ -597,12 +602,15 @@ class SupabaseService {
     }
 
     // ===== DATA CRUD OPERATIONS ===== //
+    // delete* on projects, articles, inquiries and media files only moves rows
+    // to the trash; TrashService restores or purges them
     
     // Projects CRUD
     async getProjects() {
         const { data, error } = await this.client
             .from('projects')
             .select('*')
+            .is('deleted_at', null)
             .order('created_at', { ascending: false });
         
         if (error) {
@@ -613,7 +621,22 @@ class SupabaseService {
         return data;
     }
     
-    async createProject(projectData: any) {
+    async getProject(id: string) {
+        const { data, error } = await this.client
+            .from('projects')
+            .select('*')
+            .eq('id', id)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error fetching project:', error);
+            throw error;
+        }
+
+        return data;
+    }
+
+    async createProject(projectData: TablesInsert<'projects'>) {
         const { data, error } = await this.client
             .from('projects')
             .insert([projectData])
@@ -628,7 +651,7 @@ class SupabaseService {
         return data;
     }
     
-    async updateProject(id: string, updates: any) {
+    async updateProject(id: string, updates: TablesUpdate<'projects'>) {
         const { data, error } = await this.client
             .from('projects')
             .update(updates)
@@ -647,7 +670,7 @@ class SupabaseService {
     async deleteProject(id: string) {
         const { error } = await this.client
             .from('projects')
-            .delete()
+            .update({ deleted_at: new Date().toISOString() })
             .eq('id', id);
         
         if (error) {
@@ -663,6 +686,7 @@ class SupabaseService {
         const { data, error } = await this.client
             .from('articles')
             .select('*')
+            .is('deleted_at', null)
             .order('created_at', { ascending: false });
         
         if (error) {
@@ -673,7 +697,7 @@ class SupabaseService {
         return data;
     }
     
-    async createArticle(articleData: any) {
+    async createArticle(articleData: TablesInsert<'articles'>) {
         const { data, error } = await this.client
             .from('articles')
             .insert([articleData])
@@ -688,7 +712,7 @@ class SupabaseService {
         return data;
     }
     
-    async updateArticle(id: string, updates: any) {
+    async updateArticle(id: string, updates: TablesUpdate<'articles'>) {
         const { data, error } = await this.client
             .from('articles')
             .update(updates)
@@ -707,7 +731,7 @@ class SupabaseService {
     async deleteArticle(id: string) {
         const { error } = await this.client
             .from('articles')
-            .delete()
+            .update({ deleted_at: new Date().toISOString() })
             .eq('id', id);
         
         if (error) {
@@ -723,6 +747,7 @@ class SupabaseService {
         const { data, error } = await this.client
             .from('inquiries')
             .select('*')
+            .is('deleted_at', null)
             .order('created_at', { ascending: false });
         
         if (error) {
@@ -733,7 +758,37 @@ class SupabaseService {
         return data;
     }
     
-    async updateInquiry(id: string, updates: any) {
+    async getInquiry(id: string) {
+        const { data, error } = await this.client
+            .from('inquiries')
+            .select('*')
+            .eq('id', id)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error fetching inquiry:', error);
+            throw error;
+        }
+
+        return data;
+    }
+
+    async createInquiry(inquiryData: TablesInsert<'inquiries'>) {
+        const { data, error } = await this.client
+            .from('inquiries')
+            .insert([inquiryData])
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error creating inquiry:', error);
+            throw error;
+        }
+
+        return data;
+    }
+
+    async updateInquiry(id: string, updates: TablesUpdate<'inquiries'>) {
         const { data, error } = await this.client
             .from('inquiries')
             .update(updates)
@@ -752,22 +807,262 @@ class SupabaseService {
     async deleteInquiry(id: string) {
         const { error } = await this.client
             .from('inquiries')
-            .delete()
+            .update({ deleted_at: new Date().toISOString() })
             .eq('id', id);
         
         if (error) {
             console.error('Error deleting inquiry:', error);
             throw error;
         }
+
+        return true;
+    }
+
+    /**
+     * Creates a draft project from an inquiry and links the two records.
+     * If the inquiry can't be updated the project is removed again, so a
+     * failed conversion can simply be retried.
+     */
+    async convertInquiryToProject(inquiryId: string, projectData: TablesInsert<'projects'>) {
+        const project = await this.createProject({ ...projectData, source_inquiry_id: inquiryId });
+
+        try {
+            const inquiry = await this.updateInquiry(inquiryId, {
+                project_id: project.id,
+                status: 'won',
+                last_activity_at: new Date().toISOString()
+            });
+            return { project, inquiry };
+        } catch (error) {
+            // Remove outright rather than trashing the half-finished draft
+            const { error: cleanupError } = await this.client
+                .from('projects')
+                .delete()
+                .eq('id', project.id);
+            if (cleanupError) {
+                console.error('Error removing project after failed conversion:', cleanupError);
+            }
+            throw error;
+        }
+    }
+
+    // Inquiry Notes
+    async getInquiryNotes(inquiryId: string) {
+        const { data, error } = await this.client
+            .from('inquiry_notes')
+            .select('*')
+            .eq('inquiry_id', inquiryId)
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            console.error('Error fetching inquiry notes:', error);
+            throw error;
+        }
+
+        return data;
+    }
+
+    // The insert trigger bumps inquiries.last_activity_at
+    async addInquiryNote(inquiryId: string, body: string, authorId: string) {
+        const { data, error } = await this.client
+            .from('inquiry_notes')
+            .insert([{ inquiry_id: inquiryId, body, author_id: authorId }])
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error adding inquiry note:', error);
+            throw error;
+        }
+
+        return data;
+    }
+
+    // Hours an open inquiry may go untouched before it is flagged, shared by all admins
+    async getInquirySlaHours(): Promise<number> {
+        const { data, error } = await this.client
+            .from('app_settings')
+            .select('value')
+            .eq('key', INQUIRY_SLA_CONFIG.settingKey)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error fetching inquiry SLA:', error);
+            throw error;
+        }
+
+        const hours = Number(data?.value);
+        return Number.isFinite(hours) && hours > 0 ? clampSlaThreshold(hours) : INQUIRY_SLA_CONFIG.defaultThresholdHours;
+    }
+
+    async setInquirySlaHours(hours: number, updatedBy?: string): Promise<number> {
+        const clamped = clampSlaThreshold(hours);
+
+        const { error } = await this.client
+            .from('app_settings')
+            .upsert({
+                key: INQUIRY_SLA_CONFIG.settingKey,
+                value: clamped,
+                updated_at: new Date().toISOString(),
+                updated_by: updatedBy || null
+            });
+
+        if (error) {
+            console.error('Error saving inquiry SLA:', error);
+            throw error;
+        }
+
+        return clamped;
+    }
+
+    // Testimonials CRUD
+    async getTestimonials() {
+        const { data, error } = await this.client
+            .from('testimonials')
+            .select('*')
+            .order('created_at', { ascending: false });
+        
+        if (error) {
+            console.error('Error fetching testimonials:', error);
+            throw error;
+        }
+        
+        return data;
+    }
+    
+    async createTestimonial(testimonialData: TablesInsert<'testimonials'>) {
+        const { data, error } = await this.client
+            .from('testimonials')
+            .insert([testimonialData])
+            .select()
+            .single();
+        
+        if (error) {
+            console.error('Error creating testimonial:', error);
+            throw error;
+        }
+        
+        return data;
+    }
+    
+    async updateTestimonial(id: string, updates: TablesUpdate<'testimonials'>) {
+        const { data, error } = await this.client
+            .from('testimonials')
+            .update(updates)
+            .eq('id', id)
+            .select()
+            .single();
+        
+        if (error) {
+            console.error('Error updating testimonial:', error);
+            throw error;
+        }
+        
+        return data;
+    }
+    
+    async deleteTestimonial(id: string) {
+        const { error } = await this.client
+            .from('testimonials')
+            .delete()
+            .eq('id', id);
+        
+        if (error) {
+            console.error('Error deleting testimonial:', error);
+            throw error;
+        }
         
         return true;
     }
     
+    // Services CRUD
+    async getServices() {
+        const { data, error } = await this.client
+            .from('services')
+            .select('*')
+            .order('order_priority', { ascending: true });
+        
+        if (error) {
+            console.error('Error fetching services:', error);
+            throw error;
+        }
+        
+        return data;
+    }
+    
+    async createService(serviceData: TablesInsert<'services'>) {
+        const { data, error } = await this.client
+            .from('services')
+            .insert([serviceData])
+            .select()
+            .single();
+        
+        if (error) {
+            console.error('Error creating service:', error);
+            throw error;
+        }
+        
+        return data;
+    }
+    
+    async updateService(id: string, updates: TablesUpdate<'services'>) {
+        const { data, error } = await this.client
+            .from('services')
+            .update(updates)
+            .eq('id', id)
+            .select()
+            .single();
+        
+        if (error) {
+            console.error('Error updating service:', error);
+            throw error;
+        }
+        
+        return data;
+    }
+    
+    async deleteService(id: string) {
+        const { error } = await this.client
+            .from('services')
+            .delete()
+            .eq('id', id);
+        
+        if (error) {
+            console.error('Error deleting service:', error);
+            throw error;
+        }
+        
+        return true;
+    }
+    
+    // Writes order_priority from the position of each id, skipping rows already in place
+    async reorderServices(orderedIds: string[], current: Record<string, number> = {}) {
+        const updates = orderedIds
+            .map((id, index) => ({ id, order_priority: index + 1 }))
+            .filter(({ id, order_priority }) => current[id] !== order_priority);
+        
+        const results = await Promise.all(updates.map(({ id, order_priority }) =>
+            this.client
+                .from('services')
+                .update({ order_priority })
+                .eq('id', id)
+        ));
+        
+        const failed = results.find(result => result.error);
+        if (failed?.error) {
+            console.error('Error reordering services:', failed.error);
+            throw failed.error;
+        }
+        
+        return updates.length;
+    }
+    
     // Media Files CRUD
     async getMediaFiles() {
         const { data, error } = await this.client
             .from('media_files')
             .select('*')
+            .is('deleted_at', null)
             .order('created_at', { ascending: false });
         
         if (error) {
@@ -777,8 +1072,23 @@ class SupabaseService {
         
         return data;
     }
-    
-    async updateMediaFile(id: string, updates: any) {
+
+    async createMediaFile(mediaData: TablesInsert<'media_files'>) {
+        const { data, error } = await this.client
+            .from('media_files')
+            .insert(mediaData)
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error creating media file:', error);
+            throw error;
+        }
+
+        return data;
+    }
+
+    async updateMediaFile(id: string, updates: TablesUpdate<'media_files'>) {
         const { data, error } = await this.client
             .from('media_files')
             .update(updates)
@@ -797,7 +1107,7 @@ class SupabaseService {
     async deleteMediaFile(id: string) {
         const { error } = await this.client
             .from('media_files')
-            .delete()
+            .update({ deleted_at: new Date().toISOString() })
             .eq('id', id);
         
         if (error) {
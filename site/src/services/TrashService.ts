@@ -0,0 +1,219 @@
+// services/TrashService.ts - Trash listing, restore, permanent purge and retention
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseClient } from './supabaseClient';
+import MediaUploadService from './MediaUploadService';
+import MediaUsageService from './MediaUsageService';
+import type { MediaFile } from '../types/media';
+import type { Database, Tables } from '../types/database';
+
+export type TrashTable = 'projects' | 'articles' | 'inquiries' | 'media_files';
+
+export interface TrashItem {
+    id: string;
+    label: string;
+    detail?: string;
+    deleted_at: string;
+    record: Tables<TrashTable>;
+}
+
+interface TrashLabel {
+    label: string;
+    detail?: string;
+}
+
+export const TRASH_CONFIG = {
+    defaultRetentionDays: 30,
+    minRetentionDays: 1,
+    maxRetentionDays: 365,
+    settingKey: 'trash_retention_days',
+    tables: ['projects', 'articles', 'inquiries', 'media_files'] as TrashTable[]
+} as const;
+
+// How a trashed row is named in the Trash view
+const TRASH_LABELS: { [T in TrashTable]: (row: Tables<T>) => TrashLabel } = {
+    projects: row => ({ label: row.title, detail: row.slug }),
+    articles: row => ({ label: row.title, detail: row.slug }),
+    inquiries: row => ({ label: row.subject || row.name, detail: `${row.name} · ${row.email}` }),
+    media_files: row => ({ label: row.original_filename || row.filename, detail: row.mime_type ?? undefined })
+};
+
+/**
+ * Rows are trashed by setting deleted_at (SupabaseService.delete*, BaseRepository.delete).
+ * Purging deletes the row; for media the stored objects go with it, so media
+ * files that content still references are kept unless the purge is forced
+ * (the admin confirmed it). Rows older than the retention period are purged
+ * by purgeExpired(), which the admin dashboard runs whenever an admin opens it.
+ */
+class TrashService {
+    private static instance: TrashService;
+    private client: SupabaseClient<Database>;
+    private purgeRun: Promise<number> | null = null;
+
+    constructor() {
+        this.client = getSupabaseClient();
+    }
+
+    static getInstance(): TrashService {
+        if (!TrashService.instance) {
+            TrashService.instance = new TrashService();
+        }
+        return TrashService.instance;
+    }
+
+    async getTrash(table: TrashTable): Promise<TrashItem[]> {
+        const { data, error } = await this.client
+            .from(table)
+            .select('*')
+            .not('deleted_at', 'is', null)
+            .order('deleted_at', { ascending: false });
+
+        if (error) {
+            console.error(`Error fetching trashed ${table}:`, error);
+            throw error;
+        }
+
+        // Rows come from `table`, so its label function fits them
+        const getLabel = TRASH_LABELS[table] as (row: Tables<TrashTable>) => TrashLabel;
+        return (data || []).map(row => ({
+            id: row.id,
+            ...getLabel(row),
+            // The query only returns trashed rows
+            deleted_at: row.deleted_at as string,
+            record: row
+        }));
+    }
+
+    async restore(table: TrashTable, id: string): Promise<void> {
+        const { error } = await this.client
+            .from(table)
+            .update({ deleted_at: null })
+            .eq('id', id);
+
+        if (error) {
+            console.error(`Error restoring ${table}:`, error);
+            throw error;
+        }
+    }
+
+    async purge(table: TrashTable, item: Pick<TrashItem, 'id' | 'record'>, { force = false } = {}): Promise<void> {
+        if (table === 'media_files' && !force) {
+            const usages = (await MediaUsageService.buildIndex([item.record as MediaFile])).get(item.id) || [];
+            if (usages.length > 0) {
+                throw new Error(`Still used in ${usages.length} ${usages.length === 1 ? 'place' : 'places'}`);
+            }
+        }
+
+        // Only ever purge rows that are actually in the trash
+        const { error } = await this.client
+            .from(table)
+            .delete()
+            .eq('id', item.id)
+            .not('deleted_at', 'is', null);
+
+        if (error) {
+            console.error(`Error purging ${table}:`, error);
+            throw error;
+        }
+
+        if (table === 'media_files') {
+            await MediaUploadService.deleteStoredFile(item.record as MediaFile).catch(storageError =>
+                console.warn('Media row purged but stored file could not be removed:', storageError)
+            );
+        }
+    }
+
+    // ===== RETENTION ===== //
+    async getRetentionDays(): Promise<number> {
+        const { data, error } = await this.client
+            .from('app_settings')
+            .select('value')
+            .eq('key', TRASH_CONFIG.settingKey)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error fetching trash retention:', error);
+            throw error;
+        }
+
+        const days = Number(data?.value);
+        return Number.isFinite(days) && days > 0 ? days : TRASH_CONFIG.defaultRetentionDays;
+    }
+
+    async setRetentionDays(days: number, updatedBy?: string): Promise<number> {
+        const clamped = Math.min(
+            TRASH_CONFIG.maxRetentionDays,
+            Math.max(TRASH_CONFIG.minRetentionDays, Math.round(days))
+        );
+
+        const { error } = await this.client
+            .from('app_settings')
+            .upsert({
+                key: TRASH_CONFIG.settingKey,
+                value: clamped,
+                updated_at: new Date().toISOString(),
+                updated_by: updatedBy || null
+            });
+
+        if (error) {
+            console.error('Error saving trash retention:', error);
+            throw error;
+        }
+
+        return clamped;
+    }
+
+    getPurgeDate(deletedAt: string, retentionDays: number): Date {
+        return new Date(new Date(deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000);
+    }
+
+    /**
+     * Purges everything trashed longer ago than the retention period.
+     * Returns the number of purged rows. Concurrent callers share one run.
+     */
+    purgeExpired(): Promise<number> {
+        if (!this.purgeRun) {
+            this.purgeRun = this.runPurge().finally(() => {
+                this.purgeRun = null;
+            });
+        }
+        return this.purgeRun;
+    }
+
+    private async runPurge(): Promise<number> {
+        const retentionDays = await this.getRetentionDays();
+        const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+        let purged = 0;
+
+        for (const table of TRASH_CONFIG.tables) {
+            const { data, error } = await this.client
+                .from(table)
+                .select('*')
+                .lt('deleted_at', cutoff);
+
+            if (error) {
+                console.error(`Error finding expired ${table} in trash:`, error);
+                continue;
+            }
+
+            // One usage scan for all expired media; files still referenced stay in the trash
+            const usage = table === 'media_files' && data && data.length > 0
+                ? await MediaUsageService.buildIndex(data as MediaFile[]).catch(() => null)
+                : null;
+            if (table === 'media_files' && !usage) continue;
+
+            for (const row of data || []) {
+                if (usage && (usage.get(row.id) || []).length > 0) continue;
+                try {
+                    await this.purge(table, { id: row.id, record: row }, { force: true });
+                    purged++;
+                } catch {
+                    // Already logged; the next run picks it up again
+                }
+            }
+        }
+
+        return purged;
+    }
+}
+
+export default TrashService.getInstance();
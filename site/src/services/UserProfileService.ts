@@ -7,12 +7,17 @@ import {
     ProfileCreationResult,
     ProfileUpdateData,
     UserRole,
-    AuthProvider
+    AuthProvider,
+    ProfileAnalyticsPayload,
+    MissingProfilesPayload,
+    ProfileSearchPayload,
+    RoleUpdatePayload
 } from '../types/profile';
+import type { Database } from '../types/database';
 
 
 class UserProfileService {
-    private client: SupabaseClient;
+    private client: SupabaseClient<Database>;
 
     constructor() {
         this.client = supabaseService.getClient();
@@ -39,7 +44,7 @@ class UserProfileService {
                 };
             }
 
-            return data as ProfileCreationResult;
+            return data as unknown as ProfileCreationResult;
         } catch (error: any) {
             console.error('Profile service error:', error);
             return {
@@ -69,7 +74,7 @@ class UserProfileService {
                 };
             }
 
-            return data as ProfileCreationResult;
+            return data as unknown as ProfileCreationResult;
         } catch (error: any) {
             console.error('Login profile service error:', error);
             return {
@@ -98,7 +103,7 @@ class UserProfileService {
                 };
             }
 
-            return data as ProfileCompletionStatus;
+            return data as unknown as ProfileCompletionStatus;
         } catch (error: any) {
             console.error('Profile completion service error:', error);
             return {
@@ -139,7 +144,7 @@ class UserProfileService {
      */
     async getUserProfiles(
         filters?: {
-            role?: string;
+            role?: UserRole;
             is_verified?: boolean;
             profile_completed?: boolean;
             limit?: number;
@@ -280,17 +285,18 @@ class UserProfileService {
                 };
             }
 
+            const analytics = data as ProfileAnalyticsPayload;
             return {
-                total_users: data.total_users || 0,
-                verified_users: data.verified_users || 0,
-                completed_profiles: data.completed_profiles || 0,
-                google_users: data.google_users || 0,
-                email_users: data.email_users || 0,
-                github_users: data.github_users || 0,
-                facebook_users: data.facebook_users || 0,
-                recent_signups: data.recent_signups || 0,
-                active_users_30d: data.active_users_30d || 0,
-                completion_rate: data.completion_rate || 0
+                total_users: analytics.total_users || 0,
+                verified_users: analytics.verified_users || 0,
+                completed_profiles: analytics.completed_profiles || 0,
+                google_users: analytics.google_users || 0,
+                email_users: analytics.email_users || 0,
+                github_users: analytics.github_users || 0,
+                facebook_users: analytics.facebook_users || 0,
+                recent_signups: analytics.recent_signups || 0,
+                active_users_30d: analytics.active_users_30d || 0,
+                completion_rate: analytics.completion_rate || 0
             };
         } catch (error: any) {
             console.error('Profile analytics service error:', error);
@@ -332,12 +338,13 @@ class UserProfileService {
                 };
             }
 
+            const result = data as MissingProfilesPayload;
             return {
-                created: data.created_count || 0,
-                errors: data.error_count || 0,
-                details: data.errors || [],
-                total_users: data.total_users || 0,
-                message: data.message || 'Profile creation completed'
+                created: result.created_count || 0,
+                errors: result.error_count || 0,
+                details: result.errors || [],
+                total_users: result.total_users || 0,
+                message: result.message || 'Profile creation completed'
             };
         } catch (error: any) {
             console.error('Bulk profile creation service error:', error);
@@ -390,10 +397,11 @@ class UserProfileService {
                 };
             }
 
+            const result = data as ProfileSearchPayload;
             return {
-                profiles: data.profiles || [],
-                total_count: data.total_count || 0,
-                has_more: data.has_more || false
+                profiles: result.profiles || [],
+                total_count: result.total_count || 0,
+                has_more: result.has_more || false
             };
         } catch (error: any) {
             console.error('Profile search service error:', error);
@@ -435,12 +443,13 @@ class UserProfileService {
                 };
             }
 
+            const result = data as RoleUpdatePayload;
             return {
-                success: data.success || false,
-                error: data.error,
-                message: data.message,
-                oldRole: data.old_role,
-                newRole: data.new_role
+                success: result.success || false,
+                error: result.error,
+                message: result.message,
+                oldRole: result.old_role,
+                newRole: result.new_role
             };
         } catch (error: any) {
             console.error('Role update service error:', error);
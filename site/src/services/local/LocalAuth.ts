@@ -0,0 +1,217 @@
+// services/local/LocalAuth.ts - Email/password sessions for the local data backend
+import type { Session } from '@supabase/supabase-js';
+import LocalDatabase, { LocalRow } from './LocalDatabase';
+
+export interface LocalAuthUser {
+    id: string;
+    email: string;
+    password: string;
+    provider: 'email' | 'google';
+    user_metadata: LocalRow;
+    created_at: string;
+}
+
+type AuthEvent = 'INITIAL_SESSION' | 'SIGNED_IN' | 'SIGNED_OUT' | 'TOKEN_REFRESHED' | 'USER_UPDATED' | 'PASSWORD_RECOVERY';
+type AuthListener = (event: AuthEvent, session: Session | null) => void;
+
+const SESSION_KEY = 'local-backend-session';
+const SESSION_LIFETIME_SECONDS = 60 * 60;
+
+const authError = (message: string, status = 400) => ({ name: 'AuthApiError', message, status });
+
+/** The name a user signed up with, which the profile trigger copies */
+export const metadataName = (user: LocalAuthUser): string | undefined => {
+    const name = user.user_metadata.full_name;
+    return typeof name === 'string' && name ? name : undefined;
+};
+
+/**
+ * Stands in for GoTrueClient. Users come from the fixtures plus anyone who
+ * signs up this page load; only the signed-in user id is kept in
+ * localStorage, so a reload keeps a fixture user signed in. There is no
+ * email confirmation, and OAuth sign-in logs straight in as the first
+ * fixture user instead of redirecting.
+ */
+export class LocalAuth {
+    private users: LocalAuthUser[];
+    private session: Session | null = null;
+    private listeners = new Map<string, AuthListener>();
+
+    constructor(users: LocalAuthUser[], private db: LocalDatabase) {
+        this.users = [...users];
+        const storedId = localStorage.getItem(SESSION_KEY);
+        const user = this.users.find(candidate => candidate.id === storedId);
+        if (user) {
+            this.session = this.buildSession(user);
+        }
+    }
+
+    async getSession() {
+        return { data: { session: this.session }, error: null };
+    }
+
+    async getUser() {
+        return this.session
+            ? { data: { user: this.session.user }, error: null }
+            : { data: { user: null }, error: { ...authError('Auth session missing!'), name: 'AuthSessionMissingError' } };
+    }
+
+    async signInWithPassword({ email, password }: { email: string; password: string }) {
+        const user = this.findByEmail(email);
+        if (!user || user.password !== password) {
+            return { data: { user: null, session: null }, error: authError('Invalid login credentials') };
+        }
+        return this.signIn(user);
+    }
+
+    async signInWithOAuth({ provider }: { provider: string }) {
+        await this.signIn(this.users[0]);
+        return { data: { provider, url: null }, error: null };
+    }
+
+    async signUp({ email, password, options }: { email: string; password: string; options?: { data?: LocalRow } }) {
+        if (this.findByEmail(email)) {
+            return { data: { user: null, session: null }, error: authError('User already registered', 422) };
+        }
+
+        const user: LocalAuthUser = {
+            id: crypto.randomUUID(),
+            email,
+            password,
+            provider: 'email',
+            user_metadata: options?.data || {},
+            created_at: new Date().toISOString()
+        };
+        this.users.push(user);
+        // What the on_auth_user_created trigger does in Supabase
+        this.db.insert('profiles', [{
+            id: user.id,
+            email,
+            full_name: metadataName(user) || email.split('@')[0],
+            provider: 'email',
+            provider_id: email
+        }]);
+
+        return this.signIn(user);
+    }
+
+    async signOut() {
+        this.session = null;
+        localStorage.removeItem(SESSION_KEY);
+        this.notify('SIGNED_OUT');
+        return { error: null };
+    }
+
+    async refreshSession() {
+        if (!this.session) {
+            return { data: { user: null, session: null }, error: authError('Auth session missing!') };
+        }
+        this.session = this.buildSession(this.currentUser()!);
+        this.notify('TOKEN_REFRESHED');
+        return { data: { user: this.session.user, session: this.session }, error: null };
+    }
+
+    async updateUser(attributes: { email?: string; password?: string; data?: LocalRow }) {
+        const user = this.currentUser();
+        if (!user) {
+            return { data: { user: null }, error: authError('Auth session missing!') };
+        }
+
+        if (attributes.email) user.email = attributes.email;
+        if (attributes.password) user.password = attributes.password;
+        if (attributes.data) user.user_metadata = { ...user.user_metadata, ...attributes.data };
+
+        this.session = this.buildSession(user);
+        this.notify('USER_UPDATED');
+        return { data: { user: this.session.user }, error: null };
+    }
+
+    // Nothing is emailed offline; these succeed so the forms can be exercised
+    async resetPasswordForEmail() {
+        return { data: {}, error: null };
+    }
+
+    async resend() {
+        return { data: { user: null, session: null }, error: null };
+    }
+
+    async exchangeCodeForSession() {
+        return { data: { user: this.session?.user || null, session: this.session }, error: null };
+    }
+
+    onAuthStateChange(callback: AuthListener) {
+        const id = crypto.randomUUID();
+        const session = this.session;
+        this.listeners.set(id, callback);
+        setTimeout(() => this.listeners.get(id)?.('INITIAL_SESSION', session), 0);
+
+        return {
+            data: {
+                subscription: {
+                    id,
+                    callback,
+                    unsubscribe: () => {
+                        this.listeners.delete(id);
+                    }
+                }
+            }
+        };
+    }
+
+    currentUserId(): string | null {
+        return this.session?.user.id || null;
+    }
+
+    findUser(id: string): LocalAuthUser | undefined {
+        return this.users.find(user => user.id === id);
+    }
+
+    allUsers(): LocalAuthUser[] {
+        return [...this.users];
+    }
+
+    private currentUser(): LocalAuthUser | undefined {
+        return this.session ? this.findUser(this.session.user.id) : undefined;
+    }
+
+    private findByEmail(email: string): LocalAuthUser | undefined {
+        return this.users.find(user => user.email.toLowerCase() === email.trim().toLowerCase());
+    }
+
+    private async signIn(user: LocalAuthUser) {
+        this.session = this.buildSession(user);
+        localStorage.setItem(SESSION_KEY, user.id);
+        this.notify('SIGNED_IN');
+        return { data: { user: this.session.user, session: this.session }, error: null };
+    }
+
+    private notify(event: AuthEvent) {
+        const session = this.session;
+        this.listeners.forEach(listener => setTimeout(() => listener(event, session), 0));
+    }
+
+    private buildSession(user: LocalAuthUser): Session {
+        const now = new Date().toISOString();
+        return {
+            access_token: `local-access-${user.id}`,
+            refresh_token: `local-refresh-${user.id}`,
+            token_type: 'bearer',
+            expires_in: SESSION_LIFETIME_SECONDS,
+            expires_at: Math.floor(Date.now() / 1000) + SESSION_LIFETIME_SECONDS,
+            user: {
+                id: user.id,
+                aud: 'authenticated',
+                role: 'authenticated',
+                email: user.email,
+                email_confirmed_at: user.created_at,
+                phone: '',
+                app_metadata: { provider: user.provider, providers: [user.provider] },
+                user_metadata: user.user_metadata,
+                identities: [],
+                created_at: user.created_at,
+                updated_at: now,
+                last_sign_in_at: now
+            }
+        };
+    }
+}
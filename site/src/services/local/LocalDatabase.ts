@@ -0,0 +1,157 @@
+// services/local/LocalDatabase.ts - In-memory tables behind the local data backend
+import type { Json } from '../../types/database';
+
+export type LocalRow = { [column: string]: Json | undefined };
+export type LocalChangeType = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface LocalChange {
+    table: string;
+    eventType: LocalChangeType;
+    new: LocalRow;
+    old: LocalRow;
+}
+
+/** Shaped like a PostgrestError so callers' error handling works unchanged */
+export interface LocalDbError {
+    message: string;
+    code: string;
+    details: string | null;
+    hint: string | null;
+}
+
+/**
+ * What the table's DDL would otherwise provide: the primary key, unique
+ * indexes and column DEFAULTs. Tables without an entry get an `id` key.
+ */
+export interface LocalTableSchema {
+    primaryKey?: string;
+    unique?: string[];
+    defaults?: () => LocalRow;
+}
+
+export const localError = (code: string, message: string, details: string | null = null): LocalDbError =>
+    ({ message, code, details, hint: null });
+
+export const isLocalError = (error: unknown): error is LocalDbError =>
+    !!error && typeof error === 'object' && 'code' in error && 'message' in error;
+
+// Rows are plain JSON, and callers must never hold a reference into the store
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+class LocalDatabase {
+    private tables = new Map<string, LocalRow[]>();
+    private listeners = new Set<(change: LocalChange) => void>();
+
+    constructor(private schemas: Record<string, LocalTableSchema>, fixtures: Record<string, LocalRow[]>) {
+        Object.entries(fixtures).forEach(([table, rows]) => {
+            this.tables.set(table, rows.map(row => this.withDefaults(table, row)));
+        });
+    }
+
+    primaryKey(table: string): string {
+        return this.schemas[table]?.primaryKey || 'id';
+    }
+
+    /** Copies of every row in the table; unknown tables read as empty */
+    rows(table: string): LocalRow[] {
+        return this.table(table).map(clone);
+    }
+
+    insert(table: string, rows: LocalRow[]): LocalRow[] {
+        const prepared = rows.map(row => this.withDefaults(table, clone(row)));
+        // Validate the whole batch first so a failed insert writes nothing, like one statement would
+        prepared.forEach((row, index) => this.checkUnique(table, row, [...this.table(table), ...prepared.slice(0, index)]));
+
+        this.table(table).push(...prepared);
+        prepared.forEach(row => this.emit({ table, eventType: 'INSERT', new: row, old: {} }));
+        return prepared.map(clone);
+    }
+
+    update(table: string, match: (row: LocalRow) => boolean, values: LocalRow): LocalRow[] {
+        const rows = this.table(table);
+        const targets = rows.filter(match);
+        const now = new Date().toISOString();
+
+        const updated = targets.map(row => ({
+            ...row,
+            ...clone(values),
+            // Stands in for the update_updated_at triggers
+            ...('updated_at' in row && !('updated_at' in values) ? { updated_at: now } : {})
+        }));
+        updated.forEach(row => this.checkUnique(table, row, rows.filter(other => !targets.includes(other))));
+
+        targets.forEach((row, index) => {
+            rows[rows.indexOf(row)] = updated[index];
+            this.emit({ table, eventType: 'UPDATE', new: updated[index], old: row });
+        });
+        return updated.map(clone);
+    }
+
+    /**
+     * INSERT ... ON CONFLICT (columns): rows that match an existing row on
+     * every conflict column update it, the rest are inserted.
+     */
+    upsert(table: string, rows: LocalRow[], conflictColumns: string[], ignoreDuplicates = false): LocalRow[] {
+        return rows.flatMap(row => {
+            const existing = this.table(table).find(current =>
+                conflictColumns.every(column => current[column] != null && current[column] === row[column]));
+
+            if (!existing) return this.insert(table, [row]);
+            if (ignoreDuplicates) return [];
+            return this.update(table, current => current === existing, row);
+        });
+    }
+
+    delete(table: string, match: (row: LocalRow) => boolean): LocalRow[] {
+        const rows = this.table(table);
+        const removed = rows.filter(match);
+        this.tables.set(table, rows.filter(row => !removed.includes(row)));
+        removed.forEach(row => this.emit({ table, eventType: 'DELETE', new: {}, old: row }));
+        return removed.map(clone);
+    }
+
+    subscribe(listener: (change: LocalChange) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private table(table: string): LocalRow[] {
+        if (!this.tables.has(table)) {
+            this.tables.set(table, []);
+        }
+        return this.tables.get(table)!;
+    }
+
+    private withDefaults(table: string, row: LocalRow): LocalRow {
+        const now = new Date().toISOString();
+        const primaryKey = this.primaryKey(table);
+        return {
+            ...(primaryKey === 'id' ? { id: crypto.randomUUID(), created_at: now } : {}),
+            ...this.schemas[table]?.defaults?.(),
+            ...row
+        };
+    }
+
+    private checkUnique(table: string, row: LocalRow, others: LocalRow[]) {
+        const columns = [this.primaryKey(table), ...(this.schemas[table]?.unique || [])];
+        columns.forEach(column => {
+            if (row[column] == null) return;
+            if (others.some(other => other !== row && other[column] === row[column])) {
+                throw localError(
+                    '23505',
+                    `duplicate key value violates unique constraint "${table}_${column}_key"`,
+                    `Key (${column})=(${row[column]}) already exists.`
+                );
+            }
+        });
+    }
+
+    private emit(change: LocalChange) {
+        const payload = clone(change);
+        this.listeners.forEach(listener => listener(payload));
+    }
+}
+
+export default LocalDatabase;
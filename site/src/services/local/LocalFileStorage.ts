@@ -0,0 +1,66 @@
+// services/local/LocalFileStorage.ts - Storage buckets kept as in-memory object URLs
+interface StoredObject {
+    blob: Blob;
+    url: string;
+}
+
+const storageError = (message: string, statusCode: string) => ({ name: 'StorageApiError', message, statusCode });
+
+/**
+ * Stands in for the storage client. Uploaded files live as blob: URLs for
+ * the rest of the page load; paths that were never uploaded get a
+ * placeholder URL under /local-storage so URL prefix checks still work.
+ */
+export class LocalFileStorage {
+    private objects = new Map<string, StoredObject>();
+
+    from(bucket: string) {
+        const key = (path: string) => `${bucket}/${path}`;
+
+        return {
+            upload: async (path: string, body: Blob, options: { upsert?: boolean; contentType?: string } = {}) => {
+                const existing = this.objects.get(key(path));
+                if (existing && !options.upsert) {
+                    return { data: null, error: storageError('The resource already exists', '409') };
+                }
+                if (existing) URL.revokeObjectURL(existing.url);
+
+                const blob = options.contentType && body.type !== options.contentType
+                    ? new Blob([body], { type: options.contentType })
+                    : body;
+                this.objects.set(key(path), { blob, url: URL.createObjectURL(blob) });
+                return { data: { id: key(path), path, fullPath: key(path) }, error: null };
+            },
+
+            remove: async (paths: string[]) => {
+                const removed = paths.filter(path => this.objects.has(key(path)));
+                removed.forEach(path => {
+                    URL.revokeObjectURL(this.objects.get(key(path))!.url);
+                    this.objects.delete(key(path));
+                });
+                return { data: removed.map(path => ({ name: path, bucket_id: bucket })), error: null };
+            },
+
+            download: async (path: string) => {
+                const object = this.objects.get(key(path));
+                return object
+                    ? { data: object.blob, error: null }
+                    : { data: null, error: storageError('Object not found', '404') };
+            },
+
+            getPublicUrl: (path: string) => ({
+                data: {
+                    publicUrl: this.objects.get(key(path))?.url ||
+                        `${window.location.origin}/local-storage/${bucket}/${path}`
+                }
+            }),
+
+            createSignedUrl: async (path: string) => {
+                const object = this.objects.get(key(path));
+                return object
+                    ? { data: { signedUrl: object.url }, error: null }
+                    : { data: null, error: storageError('Object not found', '404') };
+            }
+        };
+    }
+}
@@ -0,0 +1,334 @@
+// services/local/LocalQueryBuilder.ts - PostgREST-style query builder over the in-memory tables
+import LocalDatabase, { LocalDbError, LocalRow, isLocalError, localError } from './LocalDatabase';
+
+type Operation = 'select' | 'insert' | 'upsert' | 'update' | 'delete';
+type Filter = (row: LocalRow) => boolean;
+
+interface OrderBy {
+    column: string;
+    ascending: boolean;
+    nullsFirst: boolean;
+}
+
+export interface LocalQueryResult {
+    data: LocalRow | LocalRow[] | null;
+    error: LocalDbError | null;
+    count: number | null;
+    status: number;
+    statusText: string;
+}
+
+const sameValue = (actual: unknown, expected: unknown): boolean =>
+    actual === expected || (actual != null && expected != null && String(actual) === String(expected));
+
+// Nulls sort as larger than any value, as in Postgres
+const compareValues = (a: unknown, b: unknown): number => {
+    if (a == null || b == null) return a == null ? (b == null ? 0 : 1) : -1;
+    if (typeof a === 'number' || typeof b === 'number') return Number(a) - Number(b);
+    if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+    return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+};
+
+// LIKE patterns: % matches any run of characters, _ a single one
+const likePattern = (pattern: string, caseInsensitive: boolean): RegExp =>
+    new RegExp(
+        `^${pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.')}$`,
+        caseInsensitive ? 'is' : 's'
+    );
+
+// jsonb @> and array @>: every expected element or key is present
+const containsValue = (actual: unknown, expected: unknown): boolean => {
+    if (Array.isArray(expected)) {
+        return Array.isArray(actual) && expected.every(item => actual.some(value => containsValue(value, item)));
+    }
+    if (expected && typeof expected === 'object') {
+        return !!actual && typeof actual === 'object' &&
+            Object.entries(expected).every(([key, value]) => containsValue((actual as LocalRow)[key], value));
+    }
+    return sameValue(actual, expected);
+};
+
+// "(a,b,c)" as written in filter strings
+const parseList = (value: unknown): unknown[] => {
+    if (Array.isArray(value)) return value;
+    return String(value).replace(/^\(|\)$/g, '').split(',').map(item => item.trim().replace(/^"|"$/g, ''));
+};
+
+/**
+ * Applies one PostgREST operator. Values may come straight from JS (eq,
+ * ilike...) or as text from or()/not()/filter() strings.
+ */
+export const applyOperator = (row: LocalRow, column: string, operator: string, value: unknown): boolean => {
+    const actual = row[column];
+    switch (operator) {
+        case 'eq': return sameValue(actual, value);
+        case 'neq': return actual != null && !sameValue(actual, value);
+        case 'gt': return actual != null && compareValues(actual, value) > 0;
+        case 'gte': return actual != null && compareValues(actual, value) >= 0;
+        case 'lt': return actual != null && compareValues(actual, value) < 0;
+        case 'lte': return actual != null && compareValues(actual, value) <= 0;
+        case 'like': return actual != null && likePattern(String(value), false).test(String(actual));
+        case 'ilike': return actual != null && likePattern(String(value), true).test(String(actual));
+        case 'is':
+            if (value === null || value === 'null') return actual == null;
+            return String(actual) === String(value);
+        case 'in': return parseList(value).some(item => sameValue(actual, item));
+        case 'cs': return containsValue(actual, typeof value === 'string' ? JSON.parse(value) : value);
+        default:
+            throw localError('PGRST100', `Operator "${operator}" is not supported by the local backend`);
+    }
+};
+
+// Splits on commas that aren't inside parentheses, e.g. "a.in.(1,2),b.eq.3"
+const splitConditions = (expression: string): string[] => {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of expression) {
+        if (char === '(') depth++;
+        if (char === ')') depth--;
+        if (char === ',' && depth === 0) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    return [...parts, current].filter(part => part.trim());
+};
+
+// "column.op.value" or "column.not.op.value"
+const parseCondition = (condition: string): Filter => {
+    const [column, ...rest] = condition.trim().split('.');
+    const negated = rest[0] === 'not';
+    const [operator, ...valueParts] = negated ? rest.slice(1) : rest;
+    const value = valueParts.join('.');
+    return row => applyOperator(row, column, operator, value) !== negated;
+};
+
+/**
+ * Thenable like supabase-js's builders: chain filters and modifiers, then
+ * await it for `{ data, error, count }`. Errors are returned, never thrown.
+ */
+export class LocalQueryBuilder implements PromiseLike<LocalQueryResult> {
+    private operation: Operation = 'select';
+    private columns = '*';
+    private returning = false;
+    private filters: Filter[] = [];
+    private orders: OrderBy[] = [];
+    private offset = 0;
+    private limitCount: number | null = null;
+    private countMode: string | null = null;
+    private headOnly = false;
+    private singleMode: 'single' | 'maybeSingle' | null = null;
+    private values: LocalRow[] = [];
+    private conflictColumns: string[] = [];
+    private ignoreDuplicates = false;
+
+    constructor(private db: LocalDatabase, private table: string) {}
+
+    select(columns = '*', options: { count?: string; head?: boolean } = {}): this {
+        this.columns = columns;
+        if (this.operation === 'select') {
+            this.countMode = options.count || null;
+            this.headOnly = !!options.head;
+        } else {
+            this.returning = true;
+        }
+        return this;
+    }
+
+    insert(values: LocalRow | LocalRow[]): this {
+        this.operation = 'insert';
+        this.values = Array.isArray(values) ? values : [values];
+        return this;
+    }
+
+    upsert(values: LocalRow | LocalRow[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}): this {
+        this.operation = 'upsert';
+        this.values = Array.isArray(values) ? values : [values];
+        this.conflictColumns = options.onConflict
+            ? options.onConflict.split(',').map(column => column.trim())
+            : [this.db.primaryKey(this.table)];
+        this.ignoreDuplicates = !!options.ignoreDuplicates;
+        return this;
+    }
+
+    update(values: LocalRow): this {
+        this.operation = 'update';
+        this.values = [values];
+        return this;
+    }
+
+    delete(): this {
+        this.operation = 'delete';
+        return this;
+    }
+
+    eq(column: string, value: unknown): this { return this.where(column, 'eq', value); }
+    neq(column: string, value: unknown): this { return this.where(column, 'neq', value); }
+    gt(column: string, value: unknown): this { return this.where(column, 'gt', value); }
+    gte(column: string, value: unknown): this { return this.where(column, 'gte', value); }
+    lt(column: string, value: unknown): this { return this.where(column, 'lt', value); }
+    lte(column: string, value: unknown): this { return this.where(column, 'lte', value); }
+    like(column: string, pattern: string): this { return this.where(column, 'like', pattern); }
+    ilike(column: string, pattern: string): this { return this.where(column, 'ilike', pattern); }
+    is(column: string, value: unknown): this { return this.where(column, 'is', value); }
+    in(column: string, values: unknown[]): this { return this.where(column, 'in', values); }
+    contains(column: string, value: unknown): this { return this.where(column, 'cs', value); }
+
+    match(query: LocalRow): this {
+        Object.entries(query).forEach(([column, value]) => this.eq(column, value));
+        return this;
+    }
+
+    not(column: string, operator: string, value: unknown): this {
+        this.filters.push(row => !applyOperator(row, column, operator, value));
+        return this;
+    }
+
+    filter(column: string, operator: string, value: unknown): this {
+        return operator.startsWith('not.')
+            ? this.not(column, operator.slice(4), value)
+            : this.where(column, operator, value);
+    }
+
+    or(expression: string): this {
+        const conditions = splitConditions(expression).map(parseCondition);
+        this.filters.push(row => conditions.some(condition => condition(row)));
+        return this;
+    }
+
+    order(column: string, options: { ascending?: boolean; nullsFirst?: boolean } = {}): this {
+        const ascending = options.ascending ?? true;
+        // Postgres puts nulls last when ascending and first when descending
+        this.orders.push({ column, ascending, nullsFirst: options.nullsFirst ?? !ascending });
+        return this;
+    }
+
+    range(from: number, to: number): this {
+        this.offset = from;
+        this.limitCount = to - from + 1;
+        return this;
+    }
+
+    limit(count: number): this {
+        this.limitCount = count;
+        return this;
+    }
+
+    single(): this {
+        this.singleMode = 'single';
+        return this;
+    }
+
+    maybeSingle(): this {
+        this.singleMode = 'maybeSingle';
+        return this;
+    }
+
+    then<TResult1 = LocalQueryResult, TResult2 = never>(
+        onfulfilled?: ((value: LocalQueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+        onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+    ): PromiseLike<TResult1 | TResult2> {
+        return this.execute().then(onfulfilled, onrejected);
+    }
+
+    private where(column: string, operator: string, value: unknown): this {
+        this.filters.push(row => applyOperator(row, column, operator, value));
+        return this;
+    }
+
+    private matches = (row: LocalRow): boolean => this.filters.every(filter => filter(row));
+
+    private async execute(): Promise<LocalQueryResult> {
+        // Settle on a later tick, as a round trip to the API would
+        await Promise.resolve();
+
+        try {
+            if (this.operation === 'select') {
+                return this.respond(this.runSelect(), 200);
+            }
+            if ((this.operation === 'update' || this.operation === 'delete') && this.filters.length === 0) {
+                throw localError('21000', `${this.operation.toUpperCase()} requires a WHERE clause`);
+            }
+
+            const written = this.runWrite();
+            return this.respond(
+                { rows: this.returning ? written : null, count: written.length },
+                this.operation === 'insert' ? 201 : this.returning ? 200 : 204
+            );
+        } catch (error) {
+            const dbError = isLocalError(error) ? error : localError('XX000', String(error));
+            return { data: null, error: dbError, count: null, status: 400, statusText: 'Bad Request' };
+        }
+    }
+
+    private runSelect(): { rows: LocalRow[] | null; count: number } {
+        const matched = this.db.rows(this.table).filter(this.matches);
+
+        if (this.orders.length > 0) {
+            matched.sort((a, b) => {
+                for (const { column, ascending, nullsFirst } of this.orders) {
+                    const aNull = a[column] == null;
+                    const bNull = b[column] == null;
+                    if (aNull !== bNull) return aNull === nullsFirst ? -1 : 1;
+                    const result = compareValues(a[column], b[column]);
+                    if (result !== 0) return ascending ? result : -result;
+                }
+                return 0;
+            });
+        }
+
+        // select('count') is the aggregate form the health check uses
+        if (this.columns.trim() === 'count') {
+            return { rows: [{ count: matched.length }], count: matched.length };
+        }
+
+        const end = this.limitCount === null ? undefined : this.offset + this.limitCount;
+        return { rows: this.headOnly ? null : matched.slice(this.offset, end), count: matched.length };
+    }
+
+    private runWrite(): LocalRow[] {
+        switch (this.operation) {
+            case 'insert': return this.db.insert(this.table, this.values);
+            case 'upsert': return this.db.upsert(this.table, this.values, this.conflictColumns, this.ignoreDuplicates);
+            case 'update': return this.db.update(this.table, this.matches, this.values[0]);
+            default: return this.db.delete(this.table, this.matches);
+        }
+    }
+
+    private respond({ rows, count }: { rows: LocalRow[] | null; count: number }, status: number): LocalQueryResult {
+        const data = rows && rows.map(row => this.project(row));
+        const result: LocalQueryResult = {
+            data,
+            error: null,
+            count: this.countMode ? count : null,
+            status,
+            statusText: status === 201 ? 'Created' : status === 204 ? 'No Content' : 'OK'
+        };
+
+        if (!this.singleMode || !data) return result;
+
+        if (data.length === 1) return { ...result, data: data[0] };
+        if (data.length === 0 && this.singleMode === 'maybeSingle') return { ...result, data: null };
+
+        return {
+            data: null,
+            error: localError(
+                'PGRST116',
+                'JSON object requested, multiple (or no) rows returned',
+                `The result contains ${data.length} rows`
+            ),
+            count: null,
+            status: 406,
+            statusText: 'Not Acceptable'
+        };
+    }
+
+    private project(row: LocalRow): LocalRow {
+        const columns = this.columns.split(',').map(column => column.trim()).filter(Boolean);
+        if (columns.length === 0 || columns.includes('*') || this.columns.trim() === 'count') return row;
+        return Object.fromEntries(columns.map(column => [column, row[column] ?? null]));
+    }
+}
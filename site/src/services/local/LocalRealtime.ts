@@ -0,0 +1,81 @@
+// services/local/LocalRealtime.ts - Realtime channels fed by writes to the in-memory tables
+import LocalDatabase, { LocalChange, LocalRow } from './LocalDatabase';
+import { applyOperator } from './LocalQueryBuilder';
+
+type SubscribeStatus = 'SUBSCRIBED' | 'CHANNEL_ERROR' | 'TIMED_OUT' | 'CLOSED';
+
+interface ChangeFilter {
+    event: '*' | 'INSERT' | 'UPDATE' | 'DELETE';
+    schema?: string;
+    table?: string;
+    filter?: string;            // "column=op.value", e.g. "project_id=eq.123"
+}
+
+interface ChangeBinding extends ChangeFilter {
+    callback: (payload: Record<string, unknown>) => void;
+}
+
+const matchesFilter = (filter: string | undefined, row: LocalRow): boolean => {
+    if (!filter) return true;
+    const [column, condition] = filter.split('=');
+    const [operator, ...value] = condition.split('.');
+    return applyOperator(row, column, operator, value.join('.'));
+};
+
+/**
+ * Stands in for a RealtimeChannel: `postgres_changes` bindings receive the
+ * same `{ eventType, new, old }` payloads Supabase sends, for every write
+ * made through the local client in this tab. Broadcast and presence bindings
+ * are accepted and never fire.
+ */
+export class LocalChannel {
+    state: 'closed' | 'joined' = 'closed';
+    private bindings: ChangeBinding[] = [];
+    private detach: (() => void) | null = null;
+
+    constructor(public topic: string, private db: LocalDatabase) {}
+
+    on(type: string, filter: ChangeFilter, callback: ChangeBinding['callback']): this {
+        if (type === 'postgres_changes') {
+            this.bindings.push({ ...filter, callback });
+        }
+        return this;
+    }
+
+    subscribe(callback?: (status: SubscribeStatus, error?: Error) => void): this {
+        if (!this.detach) {
+            this.detach = this.db.subscribe(change => this.dispatch(change));
+        }
+        this.state = 'joined';
+        setTimeout(() => callback?.('SUBSCRIBED'), 0);
+        return this;
+    }
+
+    async unsubscribe(): Promise<'ok'> {
+        this.detach?.();
+        this.detach = null;
+        this.state = 'closed';
+        return 'ok';
+    }
+
+    private dispatch(change: LocalChange) {
+        const row = change.eventType === 'DELETE' ? change.old : change.new;
+        const payload = {
+            schema: 'public',
+            table: change.table,
+            commit_timestamp: new Date().toISOString(),
+            eventType: change.eventType,
+            new: change.new,
+            old: change.old,
+            errors: null
+        };
+
+        this.bindings
+            .filter(binding =>
+                (binding.event === '*' || binding.event === change.eventType) &&
+                (!binding.table || binding.table === change.table) &&
+                matchesFilter(binding.filter, row))
+            // Delivered after the write's own promise settles, as a server push would be
+            .forEach(binding => setTimeout(() => binding.callback(payload), 0));
+    }
+}
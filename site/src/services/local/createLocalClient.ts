@@ -0,0 +1,44 @@
+// services/local/createLocalClient.ts - Offline stand-in for the Supabase client
+import LocalDatabase from './LocalDatabase';
+import { LocalAuth } from './LocalAuth';
+import { LocalChannel } from './LocalRealtime';
+import { LocalFileStorage } from './LocalFileStorage';
+import { LocalQueryBuilder } from './LocalQueryBuilder';
+import { callLocalRpc } from './localRpc';
+import { LOCAL_TABLE_SCHEMAS, LOCAL_USERS, buildLocalFixtures } from './localFixtures';
+
+/**
+ * Implements the part of SupabaseClient the services use: from() queries,
+ * rpc(), auth, storage and realtime channels, all against tables seeded
+ * from localFixtures on every page load. Select with VITE_DATA_BACKEND=local.
+ *
+ * Row level security, and the triggers behind the audit log and content
+ * revisions, are not emulated: every signed-in user can read and write
+ * everything, and those two views stay empty.
+ */
+export const createLocalClient = () => {
+    const db = new LocalDatabase(LOCAL_TABLE_SCHEMAS, buildLocalFixtures());
+    const auth = new LocalAuth(LOCAL_USERS, db);
+    const storage = new LocalFileStorage();
+    let channels: LocalChannel[] = [];
+
+    const removeChannel = async (channel: LocalChannel) => {
+        channels = channels.filter(candidate => candidate !== channel);
+        return channel.unsubscribe();
+    };
+
+    return {
+        from: (table: string) => new LocalQueryBuilder(db, table),
+        rpc: (name: string, args: Record<string, unknown> = {}) => callLocalRpc(name, args, db, auth),
+        auth,
+        storage,
+        channel: (name: string) => {
+            const channel = new LocalChannel(`realtime:${name}`, db);
+            channels.push(channel);
+            return channel;
+        },
+        getChannels: () => [...channels],
+        removeChannel,
+        removeAllChannels: () => Promise.all([...channels].map(removeChannel))
+    };
+};
@@ -0,0 +1,268 @@
+// services/local/localFixtures.ts - Seed data and table DDL stand-ins for the local data backend
+import { projectsData } from '../../data/projects';
+import { servicesData } from '../../data/services';
+import { SEED_CONFIG, mapProjectData, mapServiceData } from '../../utils/contentSeed';
+import type { LocalRow, LocalTableSchema } from './LocalDatabase';
+import type { LocalAuthUser } from './LocalAuth';
+
+// Stable ids so a reload seeds the same rows the signed-in session points at
+const fixtureId = (n: number) => `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`;
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const LOCAL_ADMIN_ID = fixtureId(1);
+const LOCAL_CLIENT_ID = fixtureId(2);
+
+export const LOCAL_USERS: LocalAuthUser[] = [
+    {
+        id: LOCAL_ADMIN_ID,
+        email: 'admin@localhost',
+        password: 'admin',
+        provider: 'email',
+        user_metadata: { full_name: 'Local Admin' },
+        created_at: daysAgo(90)
+    },
+    {
+        id: LOCAL_CLIENT_ID,
+        email: 'client@localhost',
+        password: 'client',
+        provider: 'email',
+        user_metadata: { full_name: 'Local Client' },
+        created_at: daysAgo(30)
+    }
+];
+
+const timestamps = () => {
+    const now = new Date().toISOString();
+    return { created_at: now, updated_at: now };
+};
+
+/** Column DEFAULTs and unique indexes from the Supabase schema */
+export const LOCAL_TABLE_SCHEMAS: Record<string, LocalTableSchema> = {
+    projects: {
+        unique: ['slug'],
+        defaults: () => ({
+            ...timestamps(),
+            technologies: [], screenshots: [], challenges: [], achievements: [],
+            featured: false, published: false, view_count: 0,
+            client_id: null, source_inquiry_id: null, deleted_at: null
+        })
+    },
+    services: {
+        unique: ['slug'],
+        defaults: () => ({
+            ...timestamps(),
+            features: [], technologies: [], deliverables: [], requirements: [],
+            currency: 'USD', featured: false, published: false, order_priority: 0
+        })
+    },
+    articles: {
+        unique: ['slug'],
+        defaults: () => ({
+            ...timestamps(),
+            tags: [], featured: false, published: false, view_count: 0, deleted_at: null
+        })
+    },
+    testimonials: {
+        defaults: () => ({ ...timestamps(), rating: 5, featured: false, published: false })
+    },
+    inquiries: {
+        defaults: () => ({
+            ...timestamps(),
+            status: 'new', priority: 0, last_activity_at: new Date().toISOString(),
+            assigned_to: null, project_id: null, quote_config: null, deleted_at: null
+        })
+    },
+    inquiry_notes: {},
+    media_files: {
+        defaults: () => ({ tags: [], deleted_at: null })
+    },
+    profiles: {
+        unique: ['email'],
+        defaults: () => ({
+            ...timestamps(),
+            role: 'user', provider: 'email', profile_completed: false, oauth_metadata: {}, preferences: {},
+            public_profile: true, email_notifications: true, marketing_emails: false,
+            is_active: true, is_verified: false, login_count: 0
+        })
+    },
+    app_settings: {
+        primaryKey: 'key',
+        defaults: () => ({ updated_at: new Date().toISOString(), updated_by: null })
+    },
+    project_milestones: {
+        defaults: () => ({ ...timestamps(), state: 'planned', percent_complete: 0, sort_order: 0 })
+    },
+    project_updates: {
+        defaults: () => ({ ...timestamps(), visibility: 'client', attachments: [], posted_at: new Date().toISOString() })
+    },
+    project_files: {
+        unique: ['storage_path']
+    },
+    audit_log: {
+        defaults: () => ({ changes: {} })
+    },
+    content_revisions: {
+        defaults: () => ({ changed_fields: [] })
+    },
+    page_views: {}
+};
+
+/**
+ * Projects and services go through the same mappers as the seed command,
+ * so offline pages show what a seeded project would. The rest is a small
+ * sample of each admin-managed table.
+ */
+export const buildLocalFixtures = (): Record<string, LocalRow[]> => {
+    const projects = projectsData.map((project, index) => ({
+        ...mapProjectData(project),
+        ...SEED_CONFIG.createOnly,
+        id: fixtureId(100 + index),
+        // The first project belongs to the client account, so the portal has something to show
+        client_id: index === 0 ? LOCAL_CLIENT_ID : null,
+        created_at: daysAgo(60 - index),
+        updated_at: daysAgo(10 - Math.min(index, 9))
+    }));
+    const portalProjectId = projects[0]?.id;
+
+    return {
+        projects,
+        services: servicesData.map((service, index) => ({
+            ...mapServiceData(service, index),
+            ...SEED_CONFIG.createOnly,
+            id: fixtureId(200 + index)
+        })),
+        app_settings: [
+            { key: 'trash_retention_days', value: 30 }
+        ],
+        profiles: [
+            {
+                id: LOCAL_ADMIN_ID,
+                email: 'admin@localhost',
+                full_name: 'Local Admin',
+                role: 'admin',
+                provider_id: 'admin@localhost',
+                profile_completed: true,
+                is_verified: true,
+                login_count: 12,
+                created_at: daysAgo(90)
+            },
+            {
+                id: LOCAL_CLIENT_ID,
+                email: 'client@localhost',
+                full_name: 'Local Client',
+                role: 'client',
+                company: 'Pixel Harbor Studios',
+                provider_id: 'client@localhost',
+                login_count: 3,
+                created_at: daysAgo(30)
+            }
+        ],
+        articles: [
+            {
+                id: fixtureId(300),
+                title: 'Profiling Frame Drops on Mid-Range Phones',
+                slug: 'profiling-frame-drops-mid-range-phones',
+                excerpt: 'How we track down stutters that only show up on the devices most players own.',
+                content: '## Start with the device, not the editor\n\nEditor profiling hides thermal throttling and slow storage. Capture on hardware first.',
+                tags: ['performance', 'mobile'],
+                category: 'Development',
+                published: true,
+                featured: true,
+                reading_time_minutes: 6,
+                published_at: daysAgo(14),
+                author_id: LOCAL_ADMIN_ID,
+                created_at: daysAgo(15)
+            },
+            {
+                id: fixtureId(301),
+                title: 'Designing Onboarding That Players Finish',
+                slug: 'designing-onboarding-players-finish',
+                excerpt: 'Short, skippable and playable: what our last three tutorials taught us.',
+                content: '## Teach by playing\n\nEvery screen of text we removed raised day-one retention.',
+                tags: ['design', 'ux'],
+                category: 'Design',
+                published: true,
+                reading_time_minutes: 4,
+                published_at: daysAgo(5),
+                author_id: LOCAL_ADMIN_ID,
+                created_at: daysAgo(6)
+            },
+            {
+                id: fixtureId(302),
+                title: 'Draft: Our Console Certification Checklist',
+                slug: 'console-certification-checklist',
+                content: 'Work in progress.',
+                tags: ['console'],
+                category: 'Development',
+                author_id: LOCAL_ADMIN_ID,
+                created_at: daysAgo(1)
+            }
+        ],
+        testimonials: [
+            {
+                id: fixtureId(400),
+                name: 'Maya Chen',
+                company: 'Pixel Harbor Studios',
+                position: 'Producer',
+                content: 'They shipped our port on time and the frame rate has been rock solid since launch.',
+                rating: 5,
+                published: true,
+                featured: true,
+                project_id: portalProjectId
+            },
+            {
+                id: fixtureId(401),
+                name: 'Jonas Weber',
+                company: 'Northlight Games',
+                position: 'Technical Director',
+                content: 'Clear communication and a codebase our own team could pick up straight away.',
+                rating: 4,
+                published: true
+            }
+        ],
+        inquiries: [
+            {
+                id: fixtureId(500),
+                name: 'Priya Nair',
+                email: 'priya@example.com',
+                company: 'Tidewater Interactive',
+                subject: 'VR prototype for a museum exhibit',
+                message: 'We need a short VR experience for an exhibit opening in the spring. Can you help?',
+                project_type: 'vr-ar',
+                project_budget: '25k-50k',
+                timeline: '3-6 months',
+                status: 'new',
+                created_at: daysAgo(2),
+                last_activity_at: daysAgo(2)
+            },
+            {
+                id: fixtureId(501),
+                name: 'Tom Okafor',
+                email: 'tom@example.com',
+                subject: 'Performance review of our Unity game',
+                message: 'Our mobile build drops frames in busy scenes. Looking for an audit.',
+                project_type: 'consulting',
+                status: 'contacted',
+                priority: 2,
+                assigned_to: LOCAL_ADMIN_ID,
+                created_at: daysAgo(9),
+                last_activity_at: daysAgo(4)
+            }
+        ],
+        project_milestones: portalProjectId ? [
+            { project_id: portalProjectId, title: 'Prototype', state: 'completed', percent_complete: 100, sort_order: 0, due_date: daysAgo(30).slice(0, 10) },
+            { project_id: portalProjectId, title: 'Content complete', state: 'in_progress', percent_complete: 60, sort_order: 1, due_date: daysAgo(-20).slice(0, 10) },
+            { project_id: portalProjectId, title: 'Launch', sort_order: 2, due_date: daysAgo(-60).slice(0, 10) }
+        ] : [],
+        project_updates: portalProjectId ? [
+            {
+                project_id: portalProjectId,
+                title: 'Prototype signed off',
+                body: 'The prototype passed review; level production starts next week.',
+                created_by: LOCAL_ADMIN_ID,
+                posted_at: daysAgo(12)
+            }
+        ] : []
+    };
+};
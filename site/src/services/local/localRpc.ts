@@ -0,0 +1,195 @@
+// services/local/localRpc.ts - The database functions the app calls, reimplemented over the in-memory tables
+import type { Database } from '../../types/database';
+import LocalDatabase, { LocalRow, isLocalError, localError } from './LocalDatabase';
+import { LocalAuth, metadataName } from './LocalAuth';
+
+type DbFunctions = Database['public']['Functions'];
+type RpcHandler<Args> = (args: Args, db: LocalDatabase, auth: LocalAuth) => unknown;
+type RpcHandlers = { [Name in keyof DbFunctions]?: RpcHandler<DbFunctions[Name]['Args']> };
+
+// Fields the profile completion check looks at, as in check_profile_completion
+const PROFILE_FIELDS = ['full_name', 'avatar_url', 'company', 'bio', 'location'];
+
+const findProfile = (db: LocalDatabase, id: string | null | undefined): LocalRow | undefined =>
+    db.rows('profiles').find(profile => profile.id === id);
+
+const byId = (id: string) => (row: LocalRow) => row.id === id;
+
+// Counters such as login_count and view_count start at zero when unset
+const countOf = (value: LocalRow[string]): number => typeof value === 'number' ? value : 0;
+
+const isAdmin = (db: LocalDatabase, id: string | null | undefined) => findProfile(db, id)?.role === 'admin';
+
+const ensureProfile = (db: LocalDatabase, auth: LocalAuth, userId: string) => {
+    const user = auth.findUser(userId);
+    if (!user) {
+        return { success: false, error: 'User not found in auth.users' };
+    }
+
+    const existing = findProfile(db, userId);
+    const now = new Date().toISOString();
+    if (existing) {
+        db.update('profiles', byId(userId), { last_login_at: now, login_count: countOf(existing.login_count) + 1 });
+        return { success: true, action: 'updated', profile_completed: !!existing.profile_completed };
+    }
+
+    const isGoogleUser = user.provider === 'google';
+    db.insert('profiles', [{
+        id: userId,
+        email: user.email,
+        full_name: metadataName(user) || user.email.split('@')[0],
+        provider: user.provider,
+        provider_id: user.email,
+        profile_completed: isGoogleUser,
+        profile_completion_date: isGoogleUser ? now : null,
+        last_login_at: now,
+        login_count: 1
+    }]);
+    return { success: true, action: 'created', profile_completed: isGoogleUser };
+};
+
+const isRow = (value: LocalRow[string]): value is LocalRow =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const RPC_HANDLERS: RpcHandlers = {
+    get_user_role: ({ user_id_input }, db, auth) => {
+        const role = findProfile(db, user_id_input || auth.currentUserId())?.role || 'user';
+        return { is_admin: role === 'admin', role };
+    },
+
+    is_admin_user: ({ user_id_input }, db, auth) => isAdmin(db, user_id_input || auth.currentUserId()),
+
+    auth_is_admin: (_args, db, auth) => isAdmin(db, auth.currentUserId()),
+
+    check_email_exists: ({ email_input }, _db, auth) =>
+        auth.allUsers().some(user => user.email.toLowerCase() === email_input.toLowerCase()),
+
+    update_user_login: ({ user_id_input }, db, auth) => {
+        const id = user_id_input || auth.currentUserId();
+        const profile = findProfile(db, id);
+        if (!id || !profile) return { success: false, error: 'Profile not found' };
+        db.update('profiles', byId(id), { last_login_at: new Date().toISOString(), login_count: countOf(profile.login_count) + 1 });
+        return { success: true };
+    },
+
+    ensure_user_profile: ({ user_id }, db, auth) => ensureProfile(db, auth, user_id),
+
+    check_profile_completion: ({ user_id }, db) => {
+        const profile = findProfile(db, user_id);
+        if (!profile) return { exists: false, completed: false, needs_creation: true };
+
+        const missing = PROFILE_FIELDS.filter(field => !profile[field]);
+        return {
+            exists: true,
+            completed: !!profile.profile_completed,
+            needs_creation: false,
+            completion_percentage: Math.round(((PROFILE_FIELDS.length - missing.length) / PROFILE_FIELDS.length) * 100),
+            missing_fields: missing,
+            has_full_name: !!profile.full_name,
+            has_avatar: !!profile.avatar_url,
+            is_verified: !!profile.is_verified
+        };
+    },
+
+    complete_user_profile: ({ user_id, additional_data }, db) => {
+        if (!findProfile(db, user_id)) return { success: false, error: 'Profile not found' };
+        db.update('profiles', byId(user_id), {
+            ...(isRow(additional_data) ? additional_data : {}),
+            profile_completed: true,
+            profile_completion_date: new Date().toISOString()
+        });
+        return { success: true, message: 'Profile completed' };
+    },
+
+    get_profile_analytics: (_args, db) => {
+        const profiles = db.rows('profiles');
+        const since = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+        const completed = profiles.filter(profile => profile.profile_completed).length;
+        return {
+            total_users: profiles.length,
+            verified_users: profiles.filter(profile => profile.is_verified).length,
+            completed_profiles: completed,
+            google_users: profiles.filter(profile => profile.provider === 'google').length,
+            email_users: profiles.filter(profile => profile.provider === 'email').length,
+            recent_signups: profiles.filter(profile => String(profile.created_at) >= since(7)).length,
+            active_users_30d: profiles.filter(profile => (profile.last_login_at || '') >= since(30)).length,
+            completion_rate: profiles.length ? Math.round((completed / profiles.length) * 100) : 0
+        };
+    },
+
+    create_missing_profiles: (_args, db, auth) => {
+        const missing = auth.allUsers().filter(user => !findProfile(db, user.id));
+        missing.forEach(user => ensureProfile(db, auth, user.id));
+        return {
+            created_count: missing.length,
+            error_count: 0,
+            errors: [],
+            total_users: auth.allUsers().length,
+            message: `Created ${missing.length} missing profiles`
+        };
+    },
+
+    search_profiles: ({ search_query, role_filter, provider_filter, verified_filter, completed_filter, limit_count, offset_count }, db) => {
+        const query = String(search_query || '').toLowerCase();
+        const matches = db.rows('profiles')
+            .filter(profile =>
+                (!query || [profile.email, profile.full_name, profile.company]
+                    .some(value => String(value || '').toLowerCase().includes(query))) &&
+                (!role_filter || profile.role === role_filter) &&
+                (!provider_filter || profile.provider === provider_filter) &&
+                (verified_filter == null || !!profile.is_verified === verified_filter) &&
+                (completed_filter == null || !!profile.profile_completed === completed_filter))
+            .sort((a, b) => String(b.created_at).localeCompare(String(a.created_at)));
+
+        const offset = offset_count || 0;
+        const limit = limit_count || 50;
+        return {
+            profiles: matches.slice(offset, offset + limit),
+            total_count: matches.length,
+            has_more: offset + limit < matches.length
+        };
+    },
+
+    update_user_role: ({ target_user_id, new_role, admin_user_id }, db, auth) => {
+        if (!isAdmin(db, admin_user_id || auth.currentUserId())) {
+            return { success: false, error: 'Only admins can change roles' };
+        }
+        const profile = findProfile(db, target_user_id);
+        if (!profile) return { success: false, error: 'User not found' };
+
+        db.update('profiles', byId(target_user_id), { role: new_role });
+        return { success: true, message: 'Role updated', old_role: profile.role, new_role };
+    },
+
+    increment_view_count: ({ table_type, record_id }, db) => {
+        if (table_type !== 'projects' && table_type !== 'articles') {
+            return { success: false, error: 'Invalid table type' };
+        }
+        const row = db.rows(table_type).find(candidate => candidate.id === record_id);
+        if (!row) return { success: false, error: 'Record not found' };
+
+        db.update(table_type, byId(record_id), { view_count: countOf(row.view_count) + 1, updated_at: row.updated_at });
+        return { success: true, view_count: countOf(row.view_count) + 1 };
+    }
+};
+
+/** Same result shape as supabase-js's rpc(); unknown functions fail like a missing function would */
+export const callLocalRpc = async (name: string, args: Record<string, unknown>, db: LocalDatabase, auth: LocalAuth) => {
+    await Promise.resolve();
+
+    // Services call rpc() through the typed client, so args already match the function's Args
+    const handler = (RPC_HANDLERS as Record<string, RpcHandler<Record<string, unknown>> | undefined>)[name];
+    if (!handler) {
+        const error = localError('PGRST202', `Could not find the function public.${name} in the local backend`);
+        return { data: null, error, count: null, status: 404, statusText: 'Not Found' };
+    }
+
+    try {
+        return { data: handler(args || {}, db, auth), error: null, count: null, status: 200, statusText: 'OK' };
+    } catch (error) {
+        const dbError = isLocalError(error)
+            ? error
+            : localError('P0001', error instanceof Error ? error.message : String(error));
+        return { data: null, error: dbError, count: null, status: 400, statusText: 'Bad Request' };
+    }
+};
@@ -1,47 +1,30 @@
 // services/supabaseClient.ts - Singleton Supabase Client
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { config } from '../config';
-
-interface Database {
-    public: {
-        Tables: {
-            profiles: {
-                Row: any;
-                Insert: any;
-                Update: any;
-            };
-            articles: {
-                Row: any;
-                Insert: any;
-                Update: any;
-            };
-        };
-        Functions: {
-            is_admin_user: {
-                Args: { user_id_input?: string };
-                Returns: boolean;
-            };
-            update_user_login: {
-                Args: { user_id_input?: string };
-                Returns: {
-                    success: boolean;
-                    error?: string;
-                };
-            };
-            get_user_role: {
-                Args: { user_id_input?: string };
-                Returns: {
-                    is_admin: boolean;
-                    role: string;
-                };
-            };
-        };
-    };
-}
+import type { Database } from '../types/database';
 
 let supabaseClient: SupabaseClient<Database> | null = null;
 
+/**
+ * Loads the in-memory backend when the config selects it. It is imported on
+ * demand so production bundles never include it or its fixture accounts;
+ * main.tsx awaits this before any service asks for the client.
+ */
+export const loadDataBackend = async (): Promise<void> => {
+    // MODE is replaced at build time, so production builds drop the import entirely
+    if (import.meta.env.MODE === 'production') return;
+    if (config.supabase.backend !== 'local' || supabaseClient) return;
+
+    const { createLocalClient } = await import('./local/createLocalClient');
+    // Same surface as far as the services are concerned; see services/local
+    supabaseClient = createLocalClient() as unknown as SupabaseClient<Database>;
+};
+
 export const getSupabaseClient = (): SupabaseClient<Database> => {
+    if (!supabaseClient && config.supabase.backend === 'local') {
+        throw new Error('Local data backend requested before loadDataBackend() resolved');
+    }
+
     if (!supabaseClient) {
         try {
             supabaseClient = createClient<Database>(
@@ -69,6 +52,3 @@ export const getSupabaseClient = (): SupabaseClient<Database> => {
 
     return supabaseClient;
 };
-
-// Export the client instance for backward compatibility
-export const supabase = getSupabaseClient();
\ No newline at end of file
@@ -0,0 +1,47 @@
+// types/audit.ts - Admin audit log type definitions
+import type { Tables } from './database';
+
+export type AuditAction =
+    | 'create'
+    | 'update'
+    | 'delete'
+    | 'publish'
+    | 'unpublish'
+    | 'trash'
+    | 'restore'
+    | 'role_change';
+
+export type AuditEntityType =
+    | 'project'
+    | 'article'
+    | 'service'
+    | 'testimonial'
+    | 'inquiry'
+    | 'inquiry_note'
+    | 'media'
+    | 'user'
+    | 'milestone'
+    | 'project_update'
+    | 'client_file'
+    | 'setting';
+
+export interface AuditChange {
+    before: unknown;
+    after: unknown;
+}
+
+// Written by the record_audit_entry trigger, so these values are always one of the above
+export type AuditEntry = Omit<Tables<'audit_log'>, 'action' | 'entity_type' | 'changes'> & {
+    action: AuditAction;
+    entity_type: AuditEntityType;
+    changes: Record<string, AuditChange>;
+};
+
+export interface AuditLogFilters {
+    action?: AuditAction;
+    entityType?: AuditEntityType;
+    actorId?: string;
+    search?: string;    // Matches the entity label
+    from?: string;      // YYYY-MM-DD, inclusive
+    to?: string;        // YYYY-MM-DD, inclusive
+}
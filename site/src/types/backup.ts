@@ -0,0 +1,55 @@
+// types/backup.ts - Site content backup archive and restore type definitions
+
+export type BackupTable = 'projects' | 'services' | 'articles' | 'testimonials' | 'media_files' | 'profiles';
+
+// One archived row; columns are checked against the database on restore, not here
+export type BackupRow = { id: string } & Record<string, unknown>;
+
+export interface BackupManifest {
+    format: string;
+    schemaVersion: number;
+    createdAt: string;
+    createdBy?: string | null;      // Email of the admin who made it
+    tables: Record<BackupTable, number>;  // Row count per table
+}
+
+export interface BackupArchive {
+    manifest: BackupManifest;
+    data: Record<BackupTable, BackupRow[]>;
+}
+
+export interface RestoreRowChange {
+    id: string;                     // Row id in the archive
+    targetId: string;               // Row written to; differs for profiles matched by email
+    label: string;
+    row: Record<string, unknown>;   // Values that will be written
+    changedFields: string[];        // Empty for new rows
+    notes: string[];                // References cleared because their target isn't on this site
+}
+
+export interface RestoreSkippedRow {
+    id: string;
+    label: string;
+    reason: string;
+}
+
+export interface RestoreTablePlan {
+    table: BackupTable;
+    create: RestoreRowChange[];
+    update: RestoreRowChange[];
+    unchanged: number;
+    skipped: RestoreSkippedRow[];
+}
+
+export interface RestorePlan {
+    manifest: BackupManifest;
+    tables: RestoreTablePlan[];
+    warnings: string[];
+}
+
+export interface RestoreTableResult {
+    table: BackupTable;
+    created: number;
+    updated: number;
+    failed: Array<{ id: string; label: string; error: string }>;
+}
@@ -0,0 +1,1104 @@
+// types/database.ts - Public schema types in the shape `supabase gen types` emits
+// Maintained by hand from info/supabase/db_schema.json and the migrations in database/;
+// keep nullability in step with the schema, or replace the file with `npm run db:types` output.
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      app_settings: {
+        Row: {
+          key: string
+          updated_at: string
+          updated_by: string | null
+          value: Json
+        }
+        Insert: {
+          key: string
+          updated_at?: string
+          updated_by?: string | null
+          value: Json
+        }
+        Update: {
+          key?: string
+          updated_at?: string
+          updated_by?: string | null
+          value?: Json
+        }
+        Relationships: []
+      }
+      articles: {
+        Row: {
+          author_id: string
+          category: string | null
+          content: string
+          created_at: string | null
+          deleted_at: string | null
+          excerpt: string | null
+          featured: boolean | null
+          featured_image: string | null
+          id: string
+          image_alt: string | null
+          published: boolean | null
+          published_at: string | null
+          reading_time_minutes: number | null
+          seo_description: string | null
+          seo_title: string | null
+          slug: string
+          tags: string[] | null
+          title: string
+          updated_at: string | null
+          view_count: number | null
+        }
+        Insert: {
+          author_id: string
+          category?: string | null
+          content: string
+          created_at?: string | null
+          deleted_at?: string | null
+          excerpt?: string | null
+          featured?: boolean | null
+          featured_image?: string | null
+          id?: string
+          image_alt?: string | null
+          published?: boolean | null
+          published_at?: string | null
+          reading_time_minutes?: number | null
+          seo_description?: string | null
+          seo_title?: string | null
+          slug: string
+          tags?: string[] | null
+          title: string
+          updated_at?: string | null
+          view_count?: number | null
+        }
+        Update: {
+          author_id?: string
+          category?: string | null
+          content?: string
+          created_at?: string | null
+          deleted_at?: string | null
+          excerpt?: string | null
+          featured?: boolean | null
+          featured_image?: string | null
+          id?: string
+          image_alt?: string | null
+          published?: boolean | null
+          published_at?: string | null
+          reading_time_minutes?: number | null
+          seo_description?: string | null
+          seo_title?: string | null
+          slug?: string
+          tags?: string[] | null
+          title?: string
+          updated_at?: string | null
+          view_count?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "articles_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          actor_name: string | null
+          changes: Json
+          created_at: string
+          entity_id: string | null
+          entity_label: string | null
+          entity_type: string
+          id: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          actor_name?: string | null
+          changes?: Json
+          created_at?: string
+          entity_id?: string | null
+          entity_label?: string | null
+          entity_type: string
+          id?: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          actor_name?: string | null
+          changes?: Json
+          created_at?: string
+          entity_id?: string | null
+          entity_label?: string | null
+          entity_type?: string
+          id?: string
+        }
+        Relationships: []
+      }
+      content_revisions: {
+        Row: {
+          changed_fields: string[]
+          created_at: string
+          created_by: string | null
+          entity_id: string
+          entity_type: string
+          id: string
+          snapshot: Json
+        }
+        Insert: {
+          changed_fields?: string[]
+          created_at?: string
+          created_by?: string | null
+          entity_id: string
+          entity_type: string
+          id?: string
+          snapshot: Json
+        }
+        Update: {
+          changed_fields?: string[]
+          created_at?: string
+          created_by?: string | null
+          entity_id?: string
+          entity_type?: string
+          id?: string
+          snapshot?: Json
+        }
+        Relationships: []
+      }
+      inquiries: {
+        Row: {
+          assigned_to: string | null
+          company: string | null
+          created_at: string | null
+          deleted_at: string | null
+          email: string
+          id: string
+          last_activity_at: string | null
+          message: string
+          name: string
+          notes: string | null
+          phone: string | null
+          priority: number | null
+          project_budget: string | null
+          project_id: string | null
+          project_type: string | null
+          quote_config: Json | null
+          service_interest: string | null
+          status: string | null
+          subject: string
+          timeline: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          assigned_to?: string | null
+          company?: string | null
+          created_at?: string | null
+          deleted_at?: string | null
+          email: string
+          id?: string
+          last_activity_at?: string | null
+          message: string
+          name: string
+          notes?: string | null
+          phone?: string | null
+          priority?: number | null
+          project_budget?: string | null
+          project_id?: string | null
+          project_type?: string | null
+          quote_config?: Json | null
+          service_interest?: string | null
+          status?: string | null
+          subject: string
+          timeline?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          assigned_to?: string | null
+          company?: string | null
+          created_at?: string | null
+          deleted_at?: string | null
+          email?: string
+          id?: string
+          last_activity_at?: string | null
+          message?: string
+          name?: string
+          notes?: string | null
+          phone?: string | null
+          priority?: number | null
+          project_budget?: string | null
+          project_id?: string | null
+          project_type?: string | null
+          quote_config?: Json | null
+          service_interest?: string | null
+          status?: string | null
+          subject?: string
+          timeline?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inquiries_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inquiries_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inquiries_service_interest_fkey"
+            columns: ["service_interest"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inquiry_notes: {
+        Row: {
+          author_id: string | null
+          body: string
+          created_at: string
+          id: string
+          inquiry_id: string
+        }
+        Insert: {
+          author_id?: string | null
+          body: string
+          created_at?: string
+          id?: string
+          inquiry_id: string
+        }
+        Update: {
+          author_id?: string | null
+          body?: string
+          created_at?: string
+          id?: string
+          inquiry_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inquiry_notes_inquiry_id_fkey"
+            columns: ["inquiry_id"]
+            isOneToOne: false
+            referencedRelation: "inquiries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      media_files: {
+        Row: {
+          alt_text: string | null
+          created_at: string | null
+          deleted_at: string | null
+          description: string | null
+          file_path: string
+          file_size: number | null
+          filename: string
+          height: number | null
+          id: string
+          mime_type: string | null
+          original_filename: string
+          tags: string[]
+          uploaded_by: string
+          width: number | null
+        }
+        Insert: {
+          alt_text?: string | null
+          created_at?: string | null
+          deleted_at?: string | null
+          description?: string | null
+          file_path: string
+          file_size: number | null
+          filename: string
+          height?: number | null
+          id?: string
+          mime_type: string | null
+          original_filename: string
+          tags?: string[]
+          uploaded_by: string
+          width?: number | null
+        }
+        Update: {
+          alt_text?: string | null
+          created_at?: string | null
+          deleted_at?: string | null
+          description?: string | null
+          file_path?: string
+          file_size?: number | null
+          filename?: string
+          height?: number | null
+          id?: string
+          mime_type?: string | null
+          original_filename?: string
+          tags?: string[]
+          uploaded_by?: string
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "media_files_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      migration_log: {
+        Row: {
+          executed_at: string | null
+          id: number
+          migration_name: string
+          notes: string | null
+          rollback_executed_at: string | null
+          rollback_script: string | null
+        }
+        Insert: {
+          executed_at?: string | null
+          id?: number
+          migration_name: string
+          notes?: string | null
+          rollback_executed_at?: string | null
+          rollback_script?: string | null
+        }
+        Update: {
+          executed_at?: string | null
+          id?: number
+          migration_name?: string
+          notes?: string | null
+          rollback_executed_at?: string | null
+          rollback_script?: string | null
+        }
+        Relationships: []
+      }
+      page_views: {
+        Row: {
+          created_at: string | null
+          id: string
+          ip_address: unknown | null
+          page_path: string
+          page_title: string | null
+          referrer: string | null
+          session_id: string | null
+          user_agent: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          ip_address?: unknown | null
+          page_path: string
+          page_title?: string | null
+          referrer?: string | null
+          session_id?: string | null
+          user_agent?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          ip_address?: unknown | null
+          page_path?: string
+          page_title?: string | null
+          referrer?: string | null
+          session_id?: string | null
+          user_agent?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "page_views_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          bio: string | null
+          company: string | null
+          created_at: string
+          email: string
+          email_notifications: boolean
+          full_name: string | null
+          id: string
+          is_active: boolean | null
+          is_verified: boolean | null
+          last_login_at: string | null
+          location: string | null
+          login_count: number
+          marketing_emails: boolean
+          oauth_metadata: Json
+          phone: string | null
+          preferences: Json
+          profile_completed: boolean
+          profile_completion_date: string | null
+          provider: Database["public"]["Enums"]["auth_provider"]
+          provider_id: string | null
+          public_profile: boolean
+          role: Database["public"]["Enums"]["user_role"]
+          timezone: string | null
+          updated_at: string
+          user_id: string
+          website: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          bio?: string | null
+          company?: string | null
+          created_at?: string
+          email: string
+          email_notifications?: boolean
+          full_name?: string | null
+          id: string
+          is_active?: boolean | null
+          is_verified?: boolean | null
+          last_login_at?: string | null
+          location?: string | null
+          login_count?: number
+          marketing_emails?: boolean
+          oauth_metadata?: Json
+          phone?: string | null
+          preferences?: Json
+          profile_completed?: boolean
+          profile_completion_date?: string | null
+          provider?: Database["public"]["Enums"]["auth_provider"]
+          provider_id?: string | null
+          public_profile?: boolean
+          role?: Database["public"]["Enums"]["user_role"]
+          timezone?: string | null
+          updated_at?: string
+          user_id: string
+          website?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          bio?: string | null
+          company?: string | null
+          created_at?: string
+          email?: string
+          email_notifications?: boolean
+          full_name?: string | null
+          id?: string
+          is_active?: boolean | null
+          is_verified?: boolean | null
+          last_login_at?: string | null
+          location?: string | null
+          login_count?: number
+          marketing_emails?: boolean
+          oauth_metadata?: Json
+          phone?: string | null
+          preferences?: Json
+          profile_completed?: boolean
+          profile_completion_date?: string | null
+          provider?: Database["public"]["Enums"]["auth_provider"]
+          provider_id?: string | null
+          public_profile?: boolean
+          role?: Database["public"]["Enums"]["user_role"]
+          timezone?: string | null
+          updated_at?: string
+          user_id?: string
+          website?: string | null
+        }
+        Relationships: []
+      }
+      project_files: {
+        Row: {
+          created_at: string
+          file_size: number | null
+          id: string
+          mime_type: string | null
+          name: string
+          project_id: string
+          storage_path: string
+          uploaded_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          file_size?: number | null
+          id?: string
+          mime_type?: string | null
+          name: string
+          project_id: string
+          storage_path: string
+          uploaded_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          file_size?: number | null
+          id?: string
+          mime_type?: string | null
+          name?: string
+          project_id?: string
+          storage_path?: string
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_files_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_milestones: {
+        Row: {
+          created_at: string
+          description: string | null
+          due_date: string | null
+          id: string
+          percent_complete: number
+          project_id: string
+          sort_order: number
+          state: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          due_date?: string | null
+          id?: string
+          percent_complete?: number
+          project_id: string
+          sort_order?: number
+          state?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          due_date?: string | null
+          id?: string
+          percent_complete?: number
+          project_id?: string
+          sort_order?: number
+          state?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_milestones_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_updates: {
+        Row: {
+          attachments: string[]
+          body: string
+          created_at: string
+          created_by: string | null
+          id: string
+          posted_at: string
+          project_id: string
+          title: string
+          updated_at: string
+          visibility: string
+        }
+        Insert: {
+          attachments?: string[]
+          body: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          posted_at?: string
+          project_id: string
+          title: string
+          updated_at?: string
+          visibility?: string
+        }
+        Update: {
+          attachments?: string[]
+          body?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          posted_at?: string
+          project_id?: string
+          title?: string
+          updated_at?: string
+          visibility?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_updates_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      projects: {
+        Row: {
+          achievements: string[] | null
+          budget_range: string | null
+          case_study_url: string | null
+          category: string
+          challenges: string[] | null
+          client_id: string | null
+          client_name: string | null
+          created_at: string | null
+          created_by: string | null
+          deleted_at: string | null
+          demo_url: string | null
+          description: string
+          detailed_description: string | null
+          duration_months: number | null
+          external_link: string | null
+          featured: boolean | null
+          github_url: string | null
+          id: string
+          image_alt: string | null
+          image_url: string | null
+          published: boolean | null
+          screenshots: string[] | null
+          seo_description: string | null
+          seo_title: string | null
+          slug: string
+          source_inquiry_id: string | null
+          status: string
+          team_size: number | null
+          technologies: string[] | null
+          testimonial: string | null
+          testimonial_author: string | null
+          title: string
+          updated_at: string | null
+          view_count: number
+          year: number
+        }
+        Insert: {
+          achievements?: string[] | null
+          budget_range?: string | null
+          case_study_url?: string | null
+          category: string
+          challenges?: string[] | null
+          client_id?: string | null
+          client_name?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          deleted_at?: string | null
+          demo_url?: string | null
+          description: string
+          detailed_description?: string | null
+          duration_months?: number | null
+          external_link?: string | null
+          featured?: boolean | null
+          github_url?: string | null
+          id?: string
+          image_alt?: string | null
+          image_url?: string | null
+          published?: boolean | null
+          screenshots?: string[] | null
+          seo_description?: string | null
+          seo_title?: string | null
+          slug: string
+          source_inquiry_id?: string | null
+          status?: string
+          team_size?: number | null
+          technologies?: string[] | null
+          testimonial?: string | null
+          testimonial_author?: string | null
+          title: string
+          updated_at?: string | null
+          view_count?: number
+          year: number
+        }
+        Update: {
+          achievements?: string[] | null
+          budget_range?: string | null
+          case_study_url?: string | null
+          category?: string
+          challenges?: string[] | null
+          client_id?: string | null
+          client_name?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          deleted_at?: string | null
+          demo_url?: string | null
+          description?: string
+          detailed_description?: string | null
+          duration_months?: number | null
+          external_link?: string | null
+          featured?: boolean | null
+          github_url?: string | null
+          id?: string
+          image_alt?: string | null
+          image_url?: string | null
+          published?: boolean | null
+          screenshots?: string[] | null
+          seo_description?: string | null
+          seo_title?: string | null
+          slug?: string
+          source_inquiry_id?: string | null
+          status?: string
+          team_size?: number | null
+          technologies?: string[] | null
+          testimonial?: string | null
+          testimonial_author?: string | null
+          title?: string
+          updated_at?: string | null
+          view_count?: number
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "projects_source_inquiry_id_fkey"
+            columns: ["source_inquiry_id"]
+            isOneToOne: false
+            referencedRelation: "inquiries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      services: {
+        Row: {
+          base_price: number | null
+          category: string
+          created_at: string
+          created_by: string | null
+          currency: string
+          deliverables: string[]
+          detailed_description: string | null
+          duration_estimate: string | null
+          featured: boolean
+          features: string[]
+          icon: string | null
+          id: string
+          order_priority: number
+          pricing_model: string | null
+          published: boolean
+          requirements: string[]
+          seo_description: string | null
+          seo_title: string | null
+          short_description: string
+          slug: string
+          technologies: string[]
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          base_price?: number | null
+          category: string
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          deliverables?: string[]
+          detailed_description?: string | null
+          duration_estimate?: string | null
+          featured?: boolean
+          features?: string[]
+          icon?: string | null
+          id?: string
+          order_priority?: number
+          pricing_model?: string | null
+          published?: boolean
+          requirements?: string[]
+          seo_description?: string | null
+          seo_title?: string | null
+          short_description: string
+          slug: string
+          technologies?: string[]
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          base_price?: number | null
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          deliverables?: string[]
+          detailed_description?: string | null
+          duration_estimate?: string | null
+          featured?: boolean
+          features?: string[]
+          icon?: string | null
+          id?: string
+          order_priority?: number
+          pricing_model?: string | null
+          published?: boolean
+          requirements?: string[]
+          seo_description?: string | null
+          seo_title?: string | null
+          short_description?: string
+          slug?: string
+          technologies?: string[]
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      testimonials: {
+        Row: {
+          avatar_url: string | null
+          company: string | null
+          content: string
+          created_at: string
+          featured: boolean
+          id: string
+          name: string
+          position: string | null
+          project_id: string | null
+          published: boolean
+          rating: number
+          service_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          company?: string | null
+          content: string
+          created_at?: string
+          featured?: boolean
+          id?: string
+          name: string
+          position?: string | null
+          project_id?: string | null
+          published?: boolean
+          rating?: number
+          service_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          avatar_url?: string | null
+          company?: string | null
+          content?: string
+          created_at?: string
+          featured?: boolean
+          id?: string
+          name?: string
+          position?: string | null
+          project_id?: string | null
+          published?: boolean
+          rating?: number
+          service_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "testimonials_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "testimonials_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      auth_is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      auth_is_project_client: {
+        Args: { project_id_input: string }
+        Returns: boolean
+      }
+      check_email_exists: {
+        Args: { email_input: string }
+        Returns: boolean
+      }
+      check_profile_completion: {
+        Args: { user_id: string }
+        Returns: Json
+      }
+      complete_user_profile: {
+        Args: { additional_data?: Json; user_id: string }
+        Returns: Json
+      }
+      create_missing_profiles: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      ensure_user_profile: {
+        Args: { action?: string; user_id: string }
+        Returns: Json
+      }
+      get_profile_analytics: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      get_user_role: {
+        Args: { return_format?: string; user_id_input?: string }
+        Returns: Json
+      }
+      increment_view_count: {
+        Args: { record_id: string; table_type: string }
+        Returns: Json
+      }
+      is_admin_user: {
+        Args: { user_id_input?: string }
+        Returns: boolean
+      }
+      search_profiles: {
+        Args: {
+          completed_filter?: boolean | null
+          limit_count?: number
+          offset_count?: number
+          provider_filter?: Database["public"]["Enums"]["auth_provider"] | null
+          role_filter?: Database["public"]["Enums"]["user_role"] | null
+          search_query?: string
+          verified_filter?: boolean | null
+        }
+        Returns: Json
+      }
+      update_user_login: {
+        Args: { user_id_input?: string }
+        Returns: Json
+      }
+      update_user_role: {
+        Args: {
+          admin_user_id?: string
+          new_role: Database["public"]["Enums"]["user_role"]
+          target_user_id: string
+        }
+        Returns: Json
+      }
+    }
+    Enums: {
+      auth_provider: "google" | "email" | "github" | "facebook"
+      user_role: "admin" | "client" | "user"
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DefaultSchema = Database[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof (Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        Database[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? (Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      Database[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    | keyof DefaultSchema["Enums"]
+    | { schema: keyof Database },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"]
+    : never = never,
+> = DefaultSchemaEnumNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"]
+    ? DefaultSchema["Enums"][DefaultSchemaEnumNameOrOptions]
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {
+      auth_provider: ["google", "email", "github", "facebook"],
+      user_role: ["admin", "client", "user"],
+    },
+  },
+} as const
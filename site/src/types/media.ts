@@ -0,0 +1,48 @@
+// types/media.ts - Media library type definitions
+import type { Tables } from './database';
+
+/**
+ * Row in the media_files table. `filename` is the object key inside the
+ * storage bucket, `file_path` is the public URL used for rendering.
+ */
+export type MediaFile = Tables<'media_files'>;
+
+export type MediaUploadStatus = 'queued' | 'uploading' | 'optimizing' | 'saving' | 'done' | 'error' | 'cancelled';
+
+/**
+ * Client-side state for a single file in the upload queue
+ */
+export interface MediaUploadItem {
+    id: string;
+    file: File;
+    status: MediaUploadStatus;
+    progress: number; // 0-100
+    error?: string;
+    result?: MediaFile;
+}
+
+// Error Types
+export class MediaUploadError extends Error {
+    constructor(
+        message: string,
+        public code: 'VALIDATION' | 'AUTH' | 'NETWORK' | 'STORAGE' | 'DATABASE' | 'CANCELLED',
+        public context?: unknown
+    ) {
+        super(message);
+        this.name = 'MediaUploadError';
+    }
+}
+
+export type MediaUsageSource = 'project' | 'article' | 'testimonial' | 'project_update';
+
+/**
+ * A single place where a media file's URL is referenced
+ */
+export interface MediaUsage {
+    source: MediaUsageSource;
+    id: string;
+    title: string;
+    field: string;
+    href?: string;
+    trashed?: boolean;              // The referencing row is in the trash but can still be restored
+}
@@ -0,0 +1,34 @@
+// types/portal.ts - Client portal and project progress type definitions
+import type { DatabaseProject } from '../services/DatabaseService';
+import type { Tables } from './database';
+
+export type MilestoneState = 'planned' | 'in_progress' | 'completed' | 'blocked';
+
+/** 'client' posts stay in the portal; 'public' posts also appear on the published project page */
+export type UpdateVisibility = 'public' | 'client';
+
+/** `due_date` is YYYY-MM-DD and `percent_complete` runs 0-100 */
+export type ProjectMilestone = Omit<Tables<'project_milestones'>, 'state'> & {
+    state: MilestoneState;
+};
+
+/** `attachments` holds media library URLs */
+export type ProjectUpdate = Omit<Tables<'project_updates'>, 'visibility'> & {
+    visibility: UpdateVisibility;
+};
+
+/**
+ * Row in the project_files table. `storage_path` is the object key in the
+ * private client-files bucket; files are opened through signed URLs.
+ */
+export type ProjectFile = Tables<'project_files'>;
+
+/**
+ * Everything the portal shows for one project
+ */
+export interface ClientProject {
+    project: DatabaseProject;
+    milestones: ProjectMilestone[];
+    updates: ProjectUpdate[];
+    files: ProjectFile[];
+}
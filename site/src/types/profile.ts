@@ -137,6 +137,50 @@ export interface ProfileAnalytics {
     error?: string;
 }
 
+/**
+ * JSONB payloads returned by the profile RPC functions. The generated
+ * schema can only type these as Json, so the services narrow to these.
+ */
+export interface ProfileAnalyticsPayload {
+    total_users?: number;
+    verified_users?: number;
+    completed_profiles?: number;
+    google_users?: number;
+    email_users?: number;
+    github_users?: number;
+    facebook_users?: number;
+    recent_signups?: number;
+    active_users_30d?: number;
+    completion_rate?: number;
+}
+
+export interface MissingProfilesPayload {
+    created_count?: number;
+    error_count?: number;
+    errors?: string[];
+    total_users?: number;
+    message?: string;
+}
+
+export interface ProfileSearchPayload {
+    profiles?: UserProfile[];
+    total_count?: number;
+    has_more?: boolean;
+}
+
+export interface RoleUpdatePayload {
+    success?: boolean;
+    error?: string;
+    message?: string;
+    old_role?: UserRole;
+    new_role?: UserRole;
+}
+
+export interface UserRolePayload {
+    role: UserRole;
+    is_admin: boolean;
+}
+
 /**
  * Profile query filters
  */
@@ -214,6 +258,7 @@ export interface ExtendedAuthState {
     loading: boolean;
     isAuthenticated: boolean;
     isAdmin: boolean;
+    isClient: boolean;
     profile: UserProfile | null;
     profileLoading: boolean;
     profileCompleted: boolean;
@@ -0,0 +1,47 @@
+// types/quote.ts - Service quote estimator type definitions
+
+export type QuotePlatform = 'mobile' | 'pc' | 'console' | 'vr' | 'ar';
+
+export type QuoteTeamSize = 'small' | 'medium' | 'large';
+
+export type QuoteTimeline = 'flexible' | 'standard' | 'rush';
+
+export type QuoteAddOn = 'multiplayer' | 'live-ops' | 'localization' | 'art-audio' | 'store-launch';
+
+/**
+ * Snapshot of a service at the time the estimate was made, so the inquiry
+ * still makes sense if the service is later repriced or removed.
+ */
+export interface QuoteServiceSnapshot {
+    id: string;
+    slug: string;
+    title: string;
+    pricing_model?: string;
+    base_price?: number | null;
+    currency: string;
+    duration_estimate?: string;
+}
+
+export interface QuoteEstimate {
+    currency: string;
+    minPrice: number;
+    maxPrice: number;
+    minWeeks: number;
+    maxWeeks: number;
+    // Services with no base price, or priced in a different currency
+    unpricedServices: string[];
+}
+
+/**
+ * Stored as-is in inquiries.quote_config
+ */
+export interface QuoteConfiguration {
+    version: 1;
+    services: QuoteServiceSnapshot[];
+    platforms: QuotePlatform[];
+    teamSize: QuoteTeamSize;
+    timeline: QuoteTimeline;
+    addOns: QuoteAddOn[];
+    estimate: QuoteEstimate;
+    created_at: string;
+}
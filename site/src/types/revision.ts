@@ -0,0 +1,27 @@
+// types/revision.ts - Content revision history type definitions
+import type { Tables } from './database';
+
+export type RevisionEntityType = 'project' | 'article';
+
+/** `changed_fields` lists the columns that differ from the previous save */
+export type ContentRevision = Omit<Tables<'content_revisions'>, 'entity_type' | 'snapshot'> & {
+    entity_type: RevisionEntityType;
+    snapshot: Record<string, unknown>;  // Full row as it was saved
+};
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+    op: DiffOp;
+    text: string;
+}
+
+/** One row of a side-by-side diff; left is the older version */
+export interface FieldDiff {
+    field: string;
+    label: string;
+    changed: boolean;
+    list: boolean;              // Array field; parts are whole items
+    left: DiffPart[];
+    right: DiffPart[];
+}
@@ -0,0 +1,64 @@
+// types/transfer.ts - Content import/export type definitions
+
+export type TransferEntity = 'projects' | 'articles' | 'services' | 'testimonials' | 'inquiries';
+
+export type TransferFieldType = 'string' | 'text' | 'number' | 'boolean' | 'list' | 'date' | 'email';
+
+export interface TransferField {
+    key: string;                // Database column
+    label: string;
+    type: TransferFieldType;
+    required?: boolean;         // Needed to create a row
+    readOnly?: boolean;         // Exported but never written on import
+    options?: string[];         // Allowed values
+    min?: number;
+    max?: number;
+}
+
+export type ImportFormat = 'csv' | 'json';
+
+/** Raw rows read from an import file, before mapping */
+export interface ImportSource {
+    format: ImportFormat;
+    fileName: string;
+    columns: string[];
+    records: Array<Record<string, unknown>>;
+}
+
+/** A row already in the database; trashed rows keep their slug, so they still conflict */
+export interface ImportExistingRow {
+    id: string;
+    slug?: string;
+    deleted_at?: string | null;
+}
+
+/** Field key -> source column ('' = not imported) */
+export type ImportMapping = Record<string, string>;
+
+export type ImportConflictMode = 'skip' | 'overwrite' | 'rename';
+
+export type ImportRowAction = 'create' | 'update' | 'skip' | 'error';
+
+export interface ImportRowPlan {
+    row: number;                // 1-based data row in the file
+    label: string;
+    action: ImportRowAction;
+    values: Record<string, unknown>;
+    targetId?: string;          // Existing row that will be overwritten
+    renamedFrom?: string;       // Original slug when renamed to avoid a conflict
+    errors: string[];
+    warnings: string[];
+}
+
+export interface ImportPlan {
+    entity: TransferEntity;
+    rows: ImportRowPlan[];
+    counts: Record<ImportRowAction, number>;
+}
+
+export interface ImportRowResult {
+    row: number;
+    label: string;
+    action: 'create' | 'update';
+    error?: string;
+}
@@ -9,10 +9,15 @@ export interface ImageSize {
     suffix?: string;
 }
 
+// Every browser can encode JPEG from a canvas, so uploaded images get their
+// variants in this format only; AVIF/WebP encoding support varies too much
+// to know which objects exist when the srcset is built.
+export const UNIVERSAL_IMAGE_FORMAT: ImageFormat = { format: 'jpg', quality: 90 };
+
 export const IMAGE_FORMATS: ImageFormat[] = [
     { format: 'avif', quality: 80 },
     { format: 'webp', quality: 85 },
-    { format: 'jpg', quality: 90 }
+    UNIVERSAL_IMAGE_FORMAT
 ];
 
 export const IMAGE_SIZES: ImageSize[] = [
@@ -22,13 +27,36 @@ export const IMAGE_SIZES: ImageSize[] = [
     { width: 1920, suffix: 'xl' }
 ];
 
-export const generateSrcSet = (basePath: string, formats = IMAGE_FORMATS): string => {
+export const getImageMimeType = (format: ImageFormat['format']): string =>
+    format === 'jpg' ? 'image/jpeg' : `image/${format}`;
+
+/**
+ * Sizes worth rendering for an image this wide; larger ones would only be upscaled
+ */
+export const getVariantSizes = (width: number): ImageSize[] =>
+    IMAGE_SIZES.filter(size => size.width <= width);
+
+/**
+ * Path of a resized variant, e.g. `photo.png` -> `photo-md.webp`
+ */
+export const getVariantPath = (path: string, size: ImageSize, format: ImageFormat): string => {
+    const basePath = path.replace(/\.[^/.]+$/, '');
+    return `${basePath}-${size.suffix}.${format.format}`;
+};
+
+/**
+ * Every variant path that may exist for an uploaded image; which of them do
+ * depends on the original's width
+ */
+export const getAllVariantPaths = (path: string): string[] =>
+    IMAGE_SIZES.map(size => getVariantPath(path, size, UNIVERSAL_IMAGE_FORMAT));
+
+export const generateSrcSet = (basePath: string, formats = IMAGE_FORMATS, sizes = IMAGE_SIZES): string => {
     const sources: string[] = [];
 
-    IMAGE_SIZES.forEach(size => {
+    sizes.forEach(size => {
         formats.forEach(format => {
-            const path = basePath.replace(/\.[^/.]+$/, '');
-            sources.push(`${path}-${size.suffix}.${format.format} ${size.width}w`);
+            sources.push(`${getVariantPath(basePath, size, format)} ${size.width}w`);
         });
     });
 
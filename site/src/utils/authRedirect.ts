@@ -0,0 +1,40 @@
+// utils/authRedirect.ts - Return-URL handling across the OAuth round trip
+
+export const SIGN_IN_PATH = '/auth/signin';
+const RETURN_PATH_KEY = 'auth_return_to';
+
+/**
+ * Only same-origin absolute paths are accepted so a crafted link can't bounce
+ * users to another site after sign-in.
+ */
+export const sanitizeReturnPath = (path: string | null | undefined): string => {
+    if (!path || !path.startsWith('/') || path.startsWith('//') || path.startsWith('/\\')) {
+        return '/';
+    }
+    if (path.startsWith(SIGN_IN_PATH) || path.startsWith('/auth/callback')) {
+        return '/';
+    }
+    return path;
+};
+
+export const buildSignInPath = (returnTo: string): string =>
+    `${SIGN_IN_PATH}?returnTo=${encodeURIComponent(sanitizeReturnPath(returnTo))}`;
+
+// The OAuth redirect URL is fixed, so the return path rides along in sessionStorage
+export const saveReturnPath = (path: string): void => {
+    try {
+        sessionStorage.setItem(RETURN_PATH_KEY, sanitizeReturnPath(path));
+    } catch (error) {
+        console.warn('Could not persist return path:', error);
+    }
+};
+
+export const consumeReturnPath = (): string => {
+    try {
+        const path = sessionStorage.getItem(RETURN_PATH_KEY);
+        sessionStorage.removeItem(RETURN_PATH_KEY);
+        return sanitizeReturnPath(path);
+    } catch {
+        return '/';
+    }
+};
@@ -0,0 +1,68 @@
+// utils/backupArchive.test.ts - Validation of uploaded backup archives
+import { describe, expect, it } from 'vitest';
+import { BACKUP_CONFIG, parseBackupArchive } from './backupArchive';
+
+const buildArchive = () => ({
+    manifest: {
+        format: BACKUP_CONFIG.format,
+        schemaVersion: BACKUP_CONFIG.schemaVersion,
+        createdAt: '2024-05-01T12:00:00.000Z',
+        createdBy: 'admin@example.com',
+        tables: { profiles: 1, media_files: 0, services: 0, projects: 2, articles: 0, testimonials: 0 }
+    },
+    data: {
+        profiles: [{ id: 'u1', email: 'admin@example.com', role: 'admin' }],
+        media_files: [],
+        services: [],
+        projects: [{ id: 'p1', slug: 'one' }, { id: 'p2', slug: 'two' }],
+        articles: [],
+        testimonials: []
+    }
+});
+
+const parse = (value: unknown) => parseBackupArchive(JSON.stringify(value));
+
+describe('parseBackupArchive', () => {
+    it('accepts a well-formed archive', () => {
+        const archive = parse(buildArchive());
+        expect(archive.manifest.createdBy).toBe('admin@example.com');
+        expect(archive.data.projects.map(row => row.id)).toEqual(['p1', 'p2']);
+    });
+
+    it('rejects files that are not backups', () => {
+        expect(() => parseBackupArchive('{ not json')).toThrow('The file is not valid JSON');
+        expect(() => parse([1, 2, 3])).toThrow('This file is not a site content backup');
+        expect(() => parse({ ...buildArchive(), manifest: { ...buildArchive().manifest, format: 'other' } }))
+            .toThrow('This file is not a site content backup');
+    });
+
+    it('rejects missing or newer schema versions', () => {
+        const archive = buildArchive();
+        expect(() => parse({ ...archive, manifest: { ...archive.manifest, schemaVersion: '1' } }))
+            .toThrow('The backup has no valid schema version');
+        expect(() => parse({ ...archive, manifest: { ...archive.manifest, schemaVersion: BACKUP_CONFIG.schemaVersion + 1 } }))
+            .toThrow(/newer than this site supports/);
+    });
+
+    it('rejects an invalid creation date', () => {
+        const archive = buildArchive();
+        expect(() => parse({ ...archive, manifest: { ...archive.manifest, createdAt: 'yesterday' } }))
+            .toThrow('The backup has no valid creation date');
+    });
+
+    it('rejects missing tables and rows without an id', () => {
+        const missing = buildArchive();
+        delete (missing.data as Partial<typeof missing.data>).services;
+        expect(() => parse(missing)).toThrow('The backup is missing services');
+
+        const noId = buildArchive();
+        noId.data.projects[1] = { id: '', slug: 'two' };
+        expect(() => parse(noId)).toThrow('Some projects rows have no id');
+    });
+
+    it('rejects row counts that differ from the manifest', () => {
+        const truncated = buildArchive();
+        truncated.data.projects.pop();
+        expect(() => parse(truncated)).toThrow("Projects row count doesn't match the manifest; the file may be truncated");
+    });
+});
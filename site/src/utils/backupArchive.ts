@@ -0,0 +1,83 @@
+// utils/backupArchive.ts - Backup archive format and validation of uploaded archives
+import type { BackupArchive, BackupManifest, BackupRow, BackupTable } from '../types/backup';
+
+export const BACKUP_CONFIG = {
+    format: 'gaming-dronzz-content-backup',
+    // Bump when a table's columns change in a way old archives can't express
+    schemaVersion: 1,
+    // Restore order: referenced rows (users, media, services) before the rows that point at them
+    tables: ['profiles', 'media_files', 'services', 'projects', 'articles', 'testimonials'] as BackupTable[],
+    pageSize: 1000,
+    writeChunkSize: 50
+} as const;
+
+export const BACKUP_TABLE_LABELS: Record<BackupTable, string> = {
+    projects: 'Projects',
+    services: 'Services',
+    articles: 'Articles',
+    testimonials: 'Testimonials',
+    media_files: 'Media metadata',
+    profiles: 'User roles'
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isBackupRow = (value: unknown): value is BackupRow =>
+    isRecord(value) && typeof value.id === 'string' && !!value.id;
+
+/**
+ * Checks an uploaded archive's format, schema version and row counts.
+ * Throws with a readable message when it can't be restored.
+ */
+export const parseBackupArchive = (text: string): BackupArchive => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON');
+    }
+
+    const manifest = isRecord(parsed) ? parsed.manifest : undefined;
+    if (!isRecord(manifest) || manifest.format !== BACKUP_CONFIG.format) {
+        throw new Error('This file is not a site content backup');
+    }
+    const { schemaVersion, createdAt } = manifest;
+    if (typeof schemaVersion !== 'number' || !Number.isInteger(schemaVersion) || schemaVersion < 1) {
+        throw new Error('The backup has no valid schema version');
+    }
+    if (schemaVersion > BACKUP_CONFIG.schemaVersion) {
+        throw new Error(`The backup uses schema version ${schemaVersion}, newer than this site supports (${BACKUP_CONFIG.schemaVersion})`);
+    }
+    if (typeof createdAt !== 'string' || Number.isNaN(Date.parse(createdAt))) {
+        throw new Error('The backup has no valid creation date');
+    }
+
+    const counts = isRecord(manifest.tables) ? manifest.tables : {};
+    const source = isRecord(parsed) && isRecord(parsed.data) ? parsed.data : {};
+    const data = {} as BackupArchive['data'];
+    for (const table of BACKUP_CONFIG.tables) {
+        const rows: unknown = source[table];
+        if (!Array.isArray(rows)) {
+            throw new Error(`The backup is missing ${BACKUP_TABLE_LABELS[table].toLowerCase()}`);
+        }
+        if (!rows.every(isBackupRow)) {
+            throw new Error(`Some ${BACKUP_TABLE_LABELS[table].toLowerCase()} rows have no id`);
+        }
+        if (counts[table] !== rows.length) {
+            throw new Error(`${BACKUP_TABLE_LABELS[table]} row count doesn't match the manifest; the file may be truncated`);
+        }
+        data[table] = rows;
+    }
+
+    return {
+        manifest: {
+            format: BACKUP_CONFIG.format,
+            schemaVersion,
+            createdAt,
+            createdBy: typeof manifest.createdBy === 'string' ? manifest.createdBy : null,
+            tables: Object.fromEntries(BACKUP_CONFIG.tables.map(table => [table, data[table].length])) as BackupManifest['tables']
+        },
+        data
+    };
+};
@@ -0,0 +1,67 @@
+// utils/backupReferences.test.ts - Foreign keys of rows planned for restore
+import { describe, expect, it } from 'vitest';
+import { matchProfiles, resolveReferences, type ReferenceTargets } from './backupReferences';
+
+const buildTargets = (): ReferenceTargets => ({
+    // u-old was archived under another id and matched here by email
+    profiles: new Map([['u1', 'u1'], ['u-old', 'u2']]),
+    projects: new Set(['p1']),
+    services: new Set(),
+    inquiries: new Set(['i1'])
+});
+
+describe('matchProfiles', () => {
+    it('matches by id first, then by email ignoring case', () => {
+        const current = [
+            { id: 'u1', email: 'admin@example.com' },
+            { id: 'u2', email: 'writer@example.com' }
+        ];
+        const matches = matchProfiles([
+            { id: 'u1', email: 'renamed@example.com' },
+            { id: 'u-old', email: 'Writer@Example.com' },
+            { id: 'u-gone', email: 'gone@example.com' }
+        ], current);
+
+        expect(matches.get('u1')?.id).toBe('u1');
+        expect(matches.get('u-old')?.id).toBe('u2');
+        expect(matches.has('u-gone')).toBe(false);
+    });
+});
+
+describe('resolveReferences', () => {
+    it('points a user reference at the matching user here', () => {
+        const resolved = resolveReferences('articles', { id: 'a1', author_id: 'u-old' }, buildTargets());
+        expect(resolved).toEqual({ row: { id: 'a1', author_id: 'u2' }, notes: [] });
+    });
+
+    it('skips a row whose required user has no account here', () => {
+        const articles = resolveReferences('articles', { id: 'a1', author_id: 'u-gone' }, buildTargets());
+        expect(articles).toEqual({ skipReason: 'Its author has no account here; they must sign up before it can be restored' });
+
+        const media = resolveReferences('media_files', { id: 'm1', uploaded_by: 'u-gone' }, buildTargets());
+        expect(media).toHaveProperty('skipReason');
+    });
+
+    it('clears optional references with no target and notes why', () => {
+        const resolved = resolveReferences('projects', {
+            id: 'p2', client_id: 'u-gone', source_inquiry_id: 'i-deleted'
+        }, buildTargets());
+        expect(resolved).toEqual({
+            row: { id: 'p2', client_id: null, source_inquiry_id: null },
+            notes: ['client cleared, not on this site', 'source inquiry cleared, not on this site']
+        });
+    });
+
+    it('keeps references to rows that exist and ignores empty ones', () => {
+        const project = resolveReferences('projects', { id: 'p2', client_id: null, source_inquiry_id: 'i1' }, buildTargets());
+        expect(project).toEqual({ row: { id: 'p2', client_id: null, source_inquiry_id: 'i1' }, notes: [] });
+
+        const testimonial = resolveReferences('testimonials', { id: 't1', project_id: 'p1', service_id: 's-skipped' }, buildTargets());
+        expect(testimonial).toEqual({ row: { id: 't1', project_id: 'p1', service_id: null }, notes: ['service cleared, not on this site'] });
+    });
+
+    it('leaves tables without references alone', () => {
+        expect(resolveReferences('services', { id: 's1', created_by: 'u-gone' }, buildTargets()))
+            .toEqual({ row: { id: 's1', created_by: 'u-gone' }, notes: [] });
+    });
+});
@@ -0,0 +1,95 @@
+// utils/backupReferences.ts - Foreign keys of restored rows, pointed at rows that exist on this site
+import type { BackupRow, BackupTable } from '../types/backup';
+
+export type ReferenceTarget = 'profiles' | 'projects' | 'services' | 'inquiries';
+
+interface BackupReference {
+    column: string;
+    target: ReferenceTarget;
+    label: string;                  // What the column points at, for skip reasons and notes
+    required?: boolean;             // NOT NULL, so a missing target means the row can't be written
+}
+
+// Keep in sync with the REFERENCES clauses on the backed-up tables
+export const BACKUP_REFERENCES: Partial<Record<BackupTable, BackupReference[]>> = {
+    media_files: [
+        { column: 'uploaded_by', target: 'profiles', label: 'uploader', required: true }
+    ],
+    projects: [
+        { column: 'client_id', target: 'profiles', label: 'client' },
+        { column: 'source_inquiry_id', target: 'inquiries', label: 'source inquiry' }
+    ],
+    articles: [
+        { column: 'author_id', target: 'profiles', label: 'author', required: true }
+    ],
+    testimonials: [
+        { column: 'project_id', target: 'projects', label: 'project' },
+        { column: 'service_id', target: 'services', label: 'service' }
+    ]
+};
+
+/**
+ * Rows that will exist once the restore is applied. Users are never created by
+ * a restore, so profiles map each archived user id to the matching user here.
+ */
+export interface ReferenceTargets {
+    profiles: Map<string, string>;
+    projects: Set<string>;
+    services: Set<string>;
+    inquiries: Set<string>;
+}
+
+export type ResolvedRow =
+    | { row: Record<string, unknown>; notes: string[] }
+    | { skipReason: string };
+
+const emailKey = (row: BackupRow): string | undefined =>
+    typeof row.email === 'string' && row.email ? row.email.toLowerCase() : undefined;
+
+/** Pairs archived profiles with users on this site: same id first, then same email */
+export const matchProfiles = (archived: BackupRow[], current: BackupRow[]): Map<string, BackupRow> => {
+    const byId = new Map(current.map(row => [row.id, row]));
+    const byEmail = new Map(current.flatMap(row => {
+        const key = emailKey(row);
+        return key ? [[key, row] as const] : [];
+    }));
+
+    return new Map(archived.flatMap(row => {
+        const email = emailKey(row);
+        const match = byId.get(row.id) || (email ? byEmail.get(email) : undefined);
+        return match ? [[row.id, match] as const] : [];
+    }));
+};
+
+const findTarget = (targets: ReferenceTargets, target: ReferenceTarget, id: string): string | undefined =>
+    target === 'profiles' ? targets.profiles.get(id) : targets[target].has(id) ? id : undefined;
+
+/**
+ * Points each reference at the row it will have after the restore. An optional
+ * reference with no target is cleared and noted; a required one skips the row.
+ */
+export const resolveReferences = (table: BackupTable, row: Record<string, unknown>, targets: ReferenceTargets): ResolvedRow => {
+    const resolved = { ...row };
+    const notes: string[] = [];
+
+    for (const { column, target, label, required } of BACKUP_REFERENCES[table] ?? []) {
+        const value = row[column];
+        if (typeof value !== 'string' || !value) continue;
+
+        const id = findTarget(targets, target, value);
+        if (id) {
+            resolved[column] = id;
+        } else if (required) {
+            return {
+                skipReason: target === 'profiles'
+                    ? `Its ${label} has no account here; they must sign up before it can be restored`
+                    : `Its ${label} is neither on this site nor in the backup`
+            };
+        } else {
+            resolved[column] = null;
+            notes.push(`${label} cleared, not on this site`);
+        }
+    }
+
+    return { row: resolved, notes };
+};
@@ -0,0 +1,45 @@
+// utils/contentOptions.ts - Category and status choices shared by the admin forms and bulk actions
+
+export const PROJECT_CATEGORIES = [
+    'Web Development',
+    'Game Development',
+    'Mobile App',
+    'Desktop Application',
+    'API Development',
+    'Consulting',
+    'Other'
+];
+
+export const PROJECT_STATUSES = [
+    'planning',
+    'in-development',
+    'testing',
+    'completed',
+    'maintenance',
+    'archived'
+];
+
+export const ARTICLE_CATEGORIES = [
+    'Game Development',
+    'Web Development',
+    'Technology',
+    'Programming',
+    'Design',
+    'Business',
+    'Tutorial',
+    'Case Study',
+    'Industry News',
+    'Other'
+];
+
+export const formatProjectStatus = (status: string): string =>
+    status.charAt(0).toUpperCase() + status.slice(1).replace('-', ' ');
+
+/**
+ * Known categories first, then any custom ones already in use, so bulk
+ * "set category" can also pick categories that only exist on old rows
+ */
+export const mergeCategories = (known: string[], inUse: Array<string | undefined | null>): string[] => [
+    ...known,
+    ...[...new Set(inUse.filter((c): c is string => !!c && !known.includes(c)))].sort()
+];
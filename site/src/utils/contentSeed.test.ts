@@ -0,0 +1,49 @@
+// utils/contentSeed.test.ts - Seed planning against existing rows
+import { describe, expect, it } from 'vitest';
+import { projectsData } from '../data/projects';
+import { SEED_CONFIG, mapProjectData, planSeedRows } from './contentSeed';
+
+type Row = Record<string, unknown>;
+
+// What the database hands back: undefined columns are dropped, stored columns are added
+const store = (rows: Row[]): Row[] =>
+    rows.map((row, index) => ({ id: `row-${index}`, updated_at: '2024-01-01T00:00:00Z', ...JSON.parse(JSON.stringify(row)) }));
+
+describe('planSeedRows', () => {
+    const rows: Row[] = projectsData.map(project => JSON.parse(JSON.stringify(mapProjectData(project))));
+
+    it('creates every row on the first run and nothing on the second', () => {
+        const first = planSeedRows(rows, [], 'slug');
+        expect(first.every(result => result.action === 'create')).toBe(true);
+        expect(first.map(result => result.key)).toEqual(projectsData.map(project => project.id));
+
+        const existing = store(rows.map(row => ({ ...row, ...SEED_CONFIG.createOnly })));
+        const second = planSeedRows(rows, existing, 'slug');
+        expect(second.every(result => result.action === 'unchanged')).toBe(true);
+    });
+
+    it('lists only the fields that differ', () => {
+        const existing = store([{ ...rows[0], title: 'Renamed in the dashboard', technologies: ['Other'] }]);
+        expect(planSeedRows([rows[0]], existing, 'slug')).toEqual([
+            { key: rows[0].slug, action: 'update', changedFields: ['title', 'technologies'] }
+        ]);
+    });
+
+    it('leaves columns the data module does not map alone', () => {
+        const existing = store([{ ...rows[0], published: false, detailed_description: 'Written by an admin' }]);
+        expect(planSeedRows([rows[0]], existing, 'slug')[0].action).toBe('unchanged');
+    });
+
+    it('ignores key order inside JSON values', () => {
+        const row = { key: 'studio', value: { name: 'Studio', contact: { email: 'a@b.co', phone: '1' } } };
+        const existing = [{ key: 'studio', value: { contact: { phone: '1', email: 'a@b.co' }, name: 'Studio' } }];
+        expect(planSeedRows([row], existing, 'key')[0].action).toBe('unchanged');
+    });
+
+    it('reports rows in the trash instead of updating them', () => {
+        const existing = store([{ ...rows[0], title: 'Old', deleted_at: '2024-02-01T00:00:00Z' }]);
+        expect(planSeedRows([rows[0]], existing, 'slug', 'deleted_at')).toEqual([
+            { key: rows[0].slug, action: 'trashed', changedFields: [] }
+        ]);
+    });
+});
@@ -0,0 +1,168 @@
+// utils/contentSeed.ts - Maps the static data modules to database rows and syncs them by slug
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import type { Database, TablesInsert } from '../types/database';
+import { projectsData, type ProjectData } from '../data/projects';
+import { servicesData, type ServiceData } from '../data/services';
+import type { DatabaseProject, IDatabaseService } from '../services/DatabaseService';
+
+// 'trashed' rows match by key but sit in the trash, so they are reported and left alone
+export type SeedAction = 'create' | 'update' | 'unchanged' | 'trashed';
+
+export interface SeedRowResult {
+    key: string;                    // Slug
+    action: SeedAction;
+    changedFields: string[];
+}
+
+export interface SeedTableReport {
+    table: 'projects' | 'services';
+    rows: SeedRowResult[];
+}
+
+export interface SeedOptions {
+    dryRun: boolean;
+}
+
+export const SEED_CONFIG = {
+    // Sent only when a row is created, so a sync never re-publishes something an admin unpublished
+    createOnly: { published: true }
+} as const;
+
+// ServiceForm's pricing models and categories differ from the static data's wording
+const SERVICE_PRICING: Record<ServiceData['pricing'], string> = {
+    'consultation': 'custom',
+    'project-based': 'project',
+    'hourly': 'hourly'
+};
+
+const SERVICE_CATEGORIES: Record<ServiceData['category'], IDatabaseService['category']> = {
+    development: 'development',
+    consulting: 'consulting',
+    design: 'design',
+    optimization: 'development'
+};
+
+type SeedRow = Record<string, unknown>;
+
+// Reads and writes one table by slug, through the typed client
+interface SeedStore<TRow> {
+    read(slugs: string[]): PromiseLike<{ data: SeedRow[] | null; error: PostgrestError | null }>;
+    write(row: TRow): PromiseLike<{ error: PostgrestError | null }>;
+    trashField?: string;            // Set on tables with soft delete
+}
+
+/**
+ * Only fields the data module knows about are mapped, so a sync never
+ * blanks columns that were filled in through the admin dashboard.
+ */
+export const mapProjectData = (project: ProjectData): TablesInsert<'projects'> & Pick<DatabaseProject, 'category' | 'status'> => ({
+    slug: project.id,
+    title: project.title,
+    description: project.description,
+    image_url: project.image,
+    technologies: project.technologies,
+    category: project.category,
+    status: project.status,
+    client_name: project.client,
+    year: project.year,
+    featured: project.featured,
+    external_link: project.link,
+    case_study_url: project.caseStudy
+});
+
+export const mapServiceData = (service: ServiceData, index: number): TablesInsert<'services'> & Pick<IDatabaseService, 'category'> => ({
+    slug: service.id,
+    title: service.title,
+    short_description: service.description,
+    icon: service.icon,
+    features: service.features,
+    pricing_model: SERVICE_PRICING[service.pricing],
+    category: SERVICE_CATEGORIES[service.category],
+    featured: service.featured,
+    // The data file's order is the order the site showed them in
+    order_priority: index + 1
+});
+
+// jsonb doesn't keep key order, so objects are compared with sorted keys
+const stableStringify = (value: unknown): string => {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).sort().map(key =>
+            `${JSON.stringify(key)}:${stableStringify((value as SeedRow)[key])}`).join(',')}}`;
+    }
+    return JSON.stringify(value ?? null);
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => stableStringify(a) === stableStringify(b);
+
+// Fields a data entry leaves out are not sent at all rather than sent as null
+const definedOnly = (row: object): SeedRow =>
+    Object.fromEntries(Object.entries(row).filter(([, value]) => value !== undefined));
+
+/** Compares mapped rows with the rows already stored under the same key */
+export const planSeedRows = (rows: SeedRow[], existing: SeedRow[], keyField: string, trashField?: string): SeedRowResult[] => {
+    const byKey = new Map(existing.map(row => [String(row[keyField]), row]));
+
+    return rows.map(row => {
+        const key = String(row[keyField]);
+        const current = byKey.get(key);
+        if (!current) return { key, action: 'create', changedFields: [] };
+        if (trashField && current[trashField]) return { key, action: 'trashed', changedFields: [] };
+
+        const changedFields = Object.keys(row).filter(field => !sameValue(row[field], current[field]));
+        return { key, action: changedFields.length > 0 ? 'update' : 'unchanged', changedFields };
+    });
+};
+
+const syncTable = async <TRow extends { slug: string }>(
+    table: SeedTableReport['table'],
+    rows: TRow[],
+    { read, write, trashField }: SeedStore<TRow>,
+    { dryRun }: SeedOptions
+): Promise<SeedTableReport> => {
+    const { data: existing, error } = await read(rows.map(row => row.slug));
+
+    if (error) {
+        console.error(`Error reading ${table}:`, error);
+        throw error;
+    }
+
+    const results = planSeedRows(rows.map(definedOnly), existing || [], 'slug', trashField);
+    const pending = rows.flatMap((row, index) => {
+        const { action } = results[index];
+        if (action === 'create') return [{ ...row, ...SEED_CONFIG.createOnly }];
+        return action === 'update' ? [row] : [];
+    });
+
+    // One row at a time: a bulk upsert would null the columns other rows leave out
+    for (const row of dryRun ? [] : pending) {
+        const { error: writeError } = await write(row);
+
+        if (writeError) {
+            console.error(`Error writing ${table} ${row.slug}:`, writeError);
+            throw writeError;
+        }
+    }
+
+    return { table, rows: results };
+};
+
+/**
+ * Upserts data/projects.ts and data/services.ts by slug. data/company.ts is
+ * not synced: the site renders it from the module, not from the database.
+ * Rows that already match are left untouched, so running
+ * it twice reports everything unchanged the second time. Projects in the
+ * trash are reported as trashed and not written; restore them first to sync
+ * them. With dryRun the report is built without writing anything.
+ */
+export const seedContent = async (client: SupabaseClient<Database>, options: SeedOptions): Promise<SeedTableReport[]> => [
+    await syncTable('projects', projectsData.map(mapProjectData), {
+        read: slugs => client.from('projects').select('*').in('slug', slugs),
+        write: row => client.from('projects').upsert(row, { onConflict: 'slug' }),
+        trashField: 'deleted_at'
+    }, options),
+    await syncTable('services', servicesData.map(mapServiceData), {
+        read: slugs => client.from('services').select('*').in('slug', slugs),
+        write: row => client.from('services').upsert(row, { onConflict: 'slug' })
+    }, options)
+];
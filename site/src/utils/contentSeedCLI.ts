@@ -0,0 +1,75 @@
+// utils/contentSeedCLI.ts - Node command that syncs the static data modules into Supabase
+//
+//   npm run seed -- [--dry-run] [--mode development|staging|production]
+//
+// Reads the Supabase URL from .env.<mode> (VITE_SUPABASE_URL, or SUPABASE_URL
+// to override) and needs SUPABASE_SERVICE_ROLE_KEY to write past RLS. Keep
+// the service role key in .env.<mode>.local or the shell, never in a VITE_
+// variable, which would ship it to the browser.
+import { createClient } from '@supabase/supabase-js';
+import { loadEnv } from 'vite';
+import { seedContent, type SeedTableReport } from './contentSeed';
+import type { Database } from '../types/database';
+
+const USAGE = `Usage: npm run seed -- [--dry-run] [--mode <mode>]
+
+  --dry-run       Report what would change without writing anything
+  --mode <mode>   Which .env.<mode> file to read (default: development)`;
+
+const ACTION_MARKERS = { create: '+', update: '~', unchanged: '=', trashed: '!' } as const;
+
+const parseArgs = (argv: string[]) => {
+    const modeIndex = argv.indexOf('--mode');
+    return {
+        dryRun: argv.includes('--dry-run'),
+        mode: modeIndex >= 0 ? argv[modeIndex + 1] : 'development',
+        help: argv.includes('--help') || argv.includes('-h')
+    };
+};
+
+const printReport = (reports: SeedTableReport[]) => {
+    reports.forEach(({ table, rows }) => {
+        const count = (action: keyof typeof ACTION_MARKERS) => rows.filter(row => row.action === action).length;
+        console.log(`\n${table}: ${count('create')} created, ${count('update')} updated, ${count('unchanged')} unchanged, ${count('trashed')} in trash`);
+        rows.forEach(row => {
+            const fields = row.action === 'trashed'
+                ? ' (in the trash, not synced; restore it to sync)'
+                : row.changedFields.length > 0 ? ` (${row.changedFields.join(', ')})` : '';
+            console.log(`  ${ACTION_MARKERS[row.action]} ${row.key}${fields}`);
+        });
+    });
+};
+
+const main = async () => {
+    const args = parseArgs(process.argv.slice(2));
+    if (args.help || !args.mode) {
+        console.log(USAGE);
+        return;
+    }
+
+    const env = loadEnv(args.mode, process.cwd(), '');
+    const url = env.SUPABASE_URL || env.VITE_SUPABASE_URL;
+    const serviceKey = env.SUPABASE_SERVICE_ROLE_KEY;
+    // A dry run can get by with the anon key, but RLS hides unpublished rows and settings from it
+    const key = serviceKey || (args.dryRun ? env.VITE_SUPABASE_ANON_KEY : undefined);
+
+    if (!url || !key) {
+        console.error(`Missing ${!url ? 'VITE_SUPABASE_URL' : 'SUPABASE_SERVICE_ROLE_KEY'} for mode "${args.mode}"`);
+        process.exitCode = 1;
+        return;
+    }
+    if (!serviceKey) {
+        console.warn('No SUPABASE_SERVICE_ROLE_KEY: using the anon key, so rows hidden by RLS will show as created');
+    }
+
+    console.log(`Syncing data modules to ${url}${args.dryRun ? ' (dry run)' : ''}`);
+    const client = createClient<Database>(url, key, { auth: { persistSession: false, autoRefreshToken: false } });
+    const reports = await seedContent(client, { dryRun: args.dryRun });
+    printReport(reports);
+    console.log(args.dryRun ? '\nDry run: nothing was written.' : '\nDone.');
+};
+
+main().catch(error => {
+    console.error('\nSeed failed:', error?.message || error);
+    process.exitCode = 1;
+});
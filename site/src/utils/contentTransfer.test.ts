@@ -0,0 +1,91 @@
+// utils/contentTransfer.test.ts - Import mapping and dry-run planning
+import { describe, expect, it } from 'vitest';
+import { buildImportPlan, exportRows, readImportSource, suggestMapping } from './contentTransfer';
+
+const projectCsv = [
+    'Title,Slug,Description,Category,Technologies,Year,Featured',
+    'Star Runner,star-runner,"Endless runner, in space",mobile,Unity; C#,2023,yes',
+    'New Game,,A fresh idea,pc,,2024,no'
+].join('\r\n');
+
+const existingProjects = [{ id: 'p1', slug: 'star-runner' }];
+
+describe('suggestMapping', () => {
+    it('matches columns by key or label, ignoring case and punctuation', () => {
+        const mapping = suggestMapping('projects', ['TITLE', 'client', 'Image-URL', 'Unrelated']);
+        expect(mapping.title).toBe('TITLE');
+        expect(mapping.client_name).toBe('client');
+        expect(mapping.image_url).toBe('Image-URL');
+        expect(mapping.description).toBe('');
+    });
+});
+
+describe('buildImportPlan', () => {
+    const source = readImportSource('projects.csv', projectCsv);
+    const mapping = suggestMapping('projects', source.columns);
+
+    it('coerces values and generates missing slugs', () => {
+        const plan = buildImportPlan('projects', source, mapping, [], 'skip');
+        expect(plan.counts).toEqual({ create: 2, update: 0, skip: 0, error: 0 });
+        expect(plan.rows[0].values).toMatchObject({
+            title: 'Star Runner',
+            technologies: ['Unity', 'C#'],
+            year: 2023,
+            featured: true
+        });
+        expect(plan.rows[1].values.slug).toBe('new-game');
+        expect(plan.rows[1].warnings).toContain('Slug generated from title: new-game');
+    });
+
+    it('skips, overwrites or renames rows that match an existing slug', () => {
+        const skipped = buildImportPlan('projects', source, mapping, existingProjects, 'skip');
+        expect(skipped.rows[0].action).toBe('skip');
+
+        const overwritten = buildImportPlan('projects', source, mapping, existingProjects, 'overwrite');
+        expect(overwritten.rows[0]).toMatchObject({ action: 'update', targetId: 'p1' });
+
+        const renamed = buildImportPlan('projects', source, mapping, existingProjects, 'rename');
+        expect(renamed.rows[0]).toMatchObject({ action: 'create', renamedFrom: 'star-runner' });
+        expect(renamed.rows[0].values.slug).toBe('star-runner-2');
+    });
+
+    it('treats a trashed row with the same slug as a conflict it never overwrites', () => {
+        const trashed = [{ id: 'p9', slug: 'star-runner', deleted_at: '2024-02-01T00:00:00Z' }];
+
+        const skipped = buildImportPlan('projects', source, mapping, trashed, 'skip');
+        expect(skipped.rows[0]).toMatchObject({ action: 'skip', warnings: ['Matches a project in the trash; skipped'] });
+
+        const overwritten = buildImportPlan('projects', source, mapping, trashed, 'overwrite');
+        expect(overwritten.rows[0]).toMatchObject({ action: 'error', errors: ['Matches a project in the trash; restore it before overwriting'] });
+
+        const renamed = buildImportPlan('projects', source, mapping, trashed, 'rename');
+        expect(renamed.rows[0].values.slug).toBe('star-runner-2');
+    });
+
+    it('reports invalid and missing values as errors', () => {
+        const bad = readImportSource('projects.csv', 'Title,Description,Category,Year\nBroken,,pc,nineteen');
+        const plan = buildImportPlan('projects', bad, suggestMapping('projects', bad.columns), [], 'skip');
+        expect(plan.rows[0].action).toBe('error');
+        expect(plan.rows[0].errors).toEqual(['Year must be a number', 'Description is required']);
+    });
+
+    it('treats a slug repeated within the file as a conflict', () => {
+        const repeated = readImportSource('projects.json', JSON.stringify([
+            { title: 'One', description: 'First', category: 'pc', slug: 'same' },
+            { title: 'Two', description: 'Second', category: 'pc', slug: 'same' }
+        ]));
+        const plan = buildImportPlan('projects', repeated, suggestMapping('projects', repeated.columns), [], 'overwrite');
+        expect(plan.rows.map(row => row.action)).toEqual(['create', 'error']);
+        expect(plan.rows[1].errors[0]).toMatch(/^Duplicate of row 1/);
+    });
+
+    it('plans the same rows as a re-import of its own export', () => {
+        const csv = exportRows('testimonials', [
+            { id: 't1', name: '=Eve', content: 'Great, "fast" work', rating: 5, featured: false, published: true }
+        ], 'csv');
+        const reread = readImportSource('testimonials.csv', csv);
+        const plan = buildImportPlan('testimonials', reread, suggestMapping('testimonials', reread.columns), [{ id: 't1' }], 'overwrite');
+        expect(plan.rows[0]).toMatchObject({ action: 'update', targetId: 't1' });
+        expect(plan.rows[0].values).toMatchObject({ name: '=Eve', content: 'Great, "fast" work', rating: 5 });
+    });
+});
@@ -0,0 +1,388 @@
+// utils/contentTransfer.ts - Field definitions, export formatting and import planning for admin content
+import { parseCsv, toCsv } from './csv';
+import { PROJECT_STATUSES } from './contentOptions';
+import { INQUIRY_PIPELINE } from './inquiryPipeline';
+import { PROJECT_TYPE_LABELS } from './inquiryGuard';
+import type {
+    ImportConflictMode,
+    ImportExistingRow,
+    ImportFormat,
+    ImportMapping,
+    ImportPlan,
+    ImportRowPlan,
+    ImportSource,
+    TransferEntity,
+    TransferField
+} from '../types/transfer';
+
+const ID_FIELD: TransferField = { key: 'id', label: 'ID', type: 'string', readOnly: true };
+const TIMESTAMP_FIELDS: TransferField[] = [
+    { key: 'created_at', label: 'Created', type: 'date', readOnly: true },
+    { key: 'updated_at', label: 'Updated', type: 'date', readOnly: true }
+];
+
+export const TRANSFER_FIELDS: Record<TransferEntity, TransferField[]> = {
+    projects: [
+        ID_FIELD,
+        { key: 'title', label: 'Title', type: 'string', required: true },
+        { key: 'slug', label: 'Slug', type: 'string' },
+        { key: 'description', label: 'Description', type: 'text', required: true },
+        { key: 'detailed_description', label: 'Detailed Description', type: 'text' },
+        { key: 'category', label: 'Category', type: 'string', required: true },
+        { key: 'status', label: 'Status', type: 'string', options: PROJECT_STATUSES },
+        { key: 'technologies', label: 'Technologies', type: 'list' },
+        { key: 'client_name', label: 'Client', type: 'string' },
+        { key: 'year', label: 'Year', type: 'number', min: 1990, max: 2100 },
+        { key: 'image_url', label: 'Image URL', type: 'string' },
+        { key: 'image_alt', label: 'Image Alt Text', type: 'string' },
+        { key: 'external_link', label: 'External Link', type: 'string' },
+        { key: 'case_study_url', label: 'Case Study URL', type: 'string' },
+        { key: 'github_url', label: 'GitHub URL', type: 'string' },
+        { key: 'demo_url', label: 'Demo URL', type: 'string' },
+        { key: 'featured', label: 'Featured', type: 'boolean' },
+        { key: 'published', label: 'Published', type: 'boolean' },
+        ...TIMESTAMP_FIELDS
+    ],
+    articles: [
+        ID_FIELD,
+        { key: 'title', label: 'Title', type: 'string', required: true },
+        { key: 'slug', label: 'Slug', type: 'string' },
+        { key: 'excerpt', label: 'Excerpt', type: 'text' },
+        { key: 'content', label: 'Content', type: 'text', required: true },
+        { key: 'category', label: 'Category', type: 'string' },
+        { key: 'tags', label: 'Tags', type: 'list' },
+        { key: 'featured_image', label: 'Featured Image', type: 'string' },
+        { key: 'image_alt', label: 'Image Alt Text', type: 'string' },
+        { key: 'reading_time_minutes', label: 'Reading Time (min)', type: 'number', min: 0 },
+        { key: 'seo_title', label: 'SEO Title', type: 'string' },
+        { key: 'seo_description', label: 'SEO Description', type: 'text' },
+        { key: 'featured', label: 'Featured', type: 'boolean' },
+        { key: 'published', label: 'Published', type: 'boolean' },
+        { key: 'published_at', label: 'Published At', type: 'date' },
+        { key: 'view_count', label: 'Views', type: 'number', readOnly: true },
+        ...TIMESTAMP_FIELDS
+    ],
+    services: [
+        ID_FIELD,
+        { key: 'title', label: 'Title', type: 'string', required: true },
+        { key: 'slug', label: 'Slug', type: 'string' },
+        { key: 'short_description', label: 'Short Description', type: 'text', required: true },
+        { key: 'icon', label: 'Icon', type: 'string' },
+        { key: 'category', label: 'Category', type: 'string' },
+        { key: 'features', label: 'Features', type: 'list' },
+        { key: 'deliverables', label: 'Deliverables', type: 'list' },
+        { key: 'pricing_model', label: 'Pricing Model', type: 'string' },
+        { key: 'base_price', label: 'Base Price', type: 'number', min: 0 },
+        { key: 'currency', label: 'Currency', type: 'string' },
+        { key: 'order_priority', label: 'Order', type: 'number' },
+        { key: 'featured', label: 'Featured', type: 'boolean' },
+        { key: 'published', label: 'Published', type: 'boolean' },
+        ...TIMESTAMP_FIELDS
+    ],
+    testimonials: [
+        ID_FIELD,
+        { key: 'name', label: 'Name', type: 'string', required: true },
+        { key: 'company', label: 'Company', type: 'string' },
+        { key: 'position', label: 'Position', type: 'string' },
+        { key: 'content', label: 'Testimonial', type: 'text', required: true },
+        { key: 'rating', label: 'Rating', type: 'number', min: 1, max: 5 },
+        { key: 'avatar_url', label: 'Avatar URL', type: 'string' },
+        { key: 'featured', label: 'Featured', type: 'boolean' },
+        { key: 'published', label: 'Published', type: 'boolean' },
+        ...TIMESTAMP_FIELDS
+    ],
+    inquiries: [
+        ID_FIELD,
+        { key: 'name', label: 'Name', type: 'string', required: true },
+        { key: 'email', label: 'Email', type: 'email', required: true },
+        { key: 'company', label: 'Company', type: 'string' },
+        { key: 'phone', label: 'Phone', type: 'string' },
+        { key: 'subject', label: 'Subject', type: 'string', required: true },
+        { key: 'message', label: 'Message', type: 'text', required: true },
+        { key: 'project_type', label: 'Project Type', type: 'string', options: Object.keys(PROJECT_TYPE_LABELS) },
+        { key: 'project_budget', label: 'Budget', type: 'string' },
+        { key: 'timeline', label: 'Timeline', type: 'string' },
+        { key: 'status', label: 'Status', type: 'string', options: INQUIRY_PIPELINE.map(stage => stage.status) },
+        { key: 'priority', label: 'Priority', type: 'number', min: 0 },
+        { key: 'last_activity_at', label: 'Last Activity', type: 'date', readOnly: true },
+        ...TIMESTAMP_FIELDS
+    ]
+};
+
+export const TRANSFER_LABELS: Record<TransferEntity, { singular: string; plural: string }> = {
+    projects: { singular: 'project', plural: 'projects' },
+    articles: { singular: 'article', plural: 'articles' },
+    services: { singular: 'service', plural: 'services' },
+    testimonials: { singular: 'testimonial', plural: 'testimonials' },
+    inquiries: { singular: 'inquiry', plural: 'inquiries' }
+};
+
+// Entities without a slug are matched on id instead
+const SLUG_ENTITIES: TransferEntity[] = ['projects', 'articles', 'services'];
+const LABEL_FIELD: Record<TransferEntity, string> = {
+    projects: 'title',
+    articles: 'title',
+    services: 'title',
+    testimonials: 'name',
+    inquiries: 'name'
+};
+
+// List cells are joined with "; " so items may contain commas
+const LIST_SEPARATOR = '; ';
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+export const hasSlug = (entity: TransferEntity): boolean => SLUG_ENTITIES.includes(entity);
+
+export const slugify = (value: string): string => value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+// ===== Export ===== //
+
+const formatCsvValue = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    if (Array.isArray(value)) return value.join(LIST_SEPARATOR);
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+export const exportRows = (entity: TransferEntity, rows: Array<Record<string, unknown>>, format: ImportFormat): string => {
+    const fields = TRANSFER_FIELDS[entity];
+
+    if (format === 'json') {
+        const records = rows.map(row => Object.fromEntries(fields.map(field => [field.key, row[field.key] ?? null])));
+        return JSON.stringify(records, null, 2);
+    }
+
+    return toCsv([
+        fields.map(field => field.key),
+        ...rows.map(row => fields.map(field => formatCsvValue(row[field.key])))
+    ]);
+};
+
+export const getExportFileName = (entity: TransferEntity, format: ImportFormat): string =>
+    `${entity}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
+
+// ===== Import ===== //
+
+/**
+ * Reads an uploaded CSV (first row is the header) or JSON (array of objects)
+ * file into records keyed by source column.
+ */
+export const readImportSource = (fileName: string, text: string): ImportSource => {
+    const format: ImportFormat = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text) ? 'json' : 'csv';
+
+    if (format === 'json') {
+        const parsed = JSON.parse(text);
+        if (!Array.isArray(parsed) || parsed.some(item => !item || typeof item !== 'object' || Array.isArray(item))) {
+            throw new Error('JSON imports must be an array of objects');
+        }
+        const columns = [...new Set(parsed.flatMap(item => Object.keys(item)))];
+        return { format, fileName, columns, records: parsed };
+    }
+
+    const [header, ...rows] = parseCsv(text);
+    if (!header) throw new Error('The file is empty');
+    const columns = header.map(column => column.trim());
+    const records = rows.map(cells => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ''])));
+    return { format, fileName, columns, records };
+};
+
+const normalizeHeader = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Matches source columns to fields by key or label, ignoring case and punctuation */
+export const suggestMapping = (entity: TransferEntity, columns: string[]): ImportMapping => {
+    const byHeader = new Map(columns.map(column => [normalizeHeader(column), column]));
+    return Object.fromEntries(TRANSFER_FIELDS[entity].map(field => [
+        field.key,
+        byHeader.get(normalizeHeader(field.key)) || byHeader.get(normalizeHeader(field.label)) || ''
+    ]));
+};
+
+const isBlank = (value: unknown): boolean =>
+    value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+/** Converts one cell to the field's type; returns an error message when it can't */
+const coerceValue = (field: TransferField, raw: unknown): { value?: unknown; error?: string } => {
+    if (isBlank(raw)) {
+        if (field.type === 'list') return { value: [] };
+        if (field.type === 'boolean') return {};
+        return { value: null };
+    }
+
+    switch (field.type) {
+        case 'number': {
+            const value = typeof raw === 'number' ? raw : Number(String(raw).trim());
+            if (!Number.isFinite(value)) return { error: `${field.label} must be a number` };
+            if (field.min !== undefined && value < field.min) return { error: `${field.label} must be at least ${field.min}` };
+            if (field.max !== undefined && value > field.max) return { error: `${field.label} must be at most ${field.max}` };
+            return { value };
+        }
+        case 'boolean': {
+            if (typeof raw === 'boolean') return { value: raw };
+            const text = String(raw).trim().toLowerCase();
+            if (TRUE_VALUES.includes(text)) return { value: true };
+            if (FALSE_VALUES.includes(text)) return { value: false };
+            return { error: `${field.label} must be true/false or yes/no` };
+        }
+        case 'list': {
+            const items = Array.isArray(raw) ? raw.map(String) : String(raw).split(/[;\n]/);
+            return { value: items.map(item => item.trim()).filter(Boolean) };
+        }
+        case 'date': {
+            const time = Date.parse(String(raw).trim());
+            if (Number.isNaN(time)) return { error: `${field.label} is not a valid date` };
+            return { value: new Date(time).toISOString() };
+        }
+        case 'email': {
+            const value = String(raw).trim();
+            if (!EMAIL_PATTERN.test(value)) return { error: `${field.label} is not a valid email address` };
+            return { value };
+        }
+        default: {
+            const value = typeof raw === 'string' ? raw.trim() : typeof raw === 'object' ? JSON.stringify(raw) : String(raw);
+            if (field.options && !field.options.includes(value)) {
+                return { error: `${field.label} must be one of: ${field.options.join(', ')}` };
+            }
+            return { value };
+        }
+    }
+};
+
+const nextFreeSlug = (slug: string, taken: Set<string>): string => {
+    let suffix = 2;
+    while (taken.has(`${slug}-${suffix}`)) suffix++;
+    return `${slug}-${suffix}`;
+};
+
+/**
+ * Dry run of an import: maps and validates every row and decides what it
+ * would do against the existing rows, without writing anything. Rows that
+ * collide with an existing slug (or id, for entities without slugs) are
+ * skipped, overwritten or given a free "-2" style slug depending on the
+ * conflict mode. Rows in the trash conflict too, since slugs are unique
+ * across them, but are never overwritten; restore them first. A slug
+ * repeated within the file counts as a conflict with the earlier row.
+ */
+export const buildImportPlan = (
+    entity: TransferEntity,
+    source: ImportSource,
+    mapping: ImportMapping,
+    existing: ImportExistingRow[],
+    conflictMode: ImportConflictMode
+): ImportPlan => {
+    const fields = TRANSFER_FIELDS[entity];
+    const slugged = hasSlug(entity);
+    const labelField = LABEL_FIELD[entity];
+    const existingByKey = new Map(existing.map(row => [slugged ? row.slug || '' : row.id, row]));
+    // Keys claimed by earlier rows in this file, plus every existing slug
+    const taken = new Set(existingByKey.keys());
+    const seenInFile = new Map<string, number>();
+
+    const rows = source.records.map((record, index): ImportRowPlan => {
+        const plan: ImportRowPlan = { row: index + 1, label: '', action: 'create', values: {}, errors: [], warnings: [] };
+
+        fields.forEach(field => {
+            const column = mapping[field.key];
+            if (!column || field.readOnly) return;
+            const { value, error } = coerceValue(field, record[column]);
+            if (error) {
+                plan.errors.push(error);
+            } else if (value !== undefined) {
+                plan.values[field.key] = value;
+            }
+        });
+
+        const rawLabel = mapping[labelField] ? record[mapping[labelField]] : undefined;
+        plan.label = isBlank(rawLabel) ? `Row ${plan.row}` : String(rawLabel).trim();
+
+        let key = '';
+        if (slugged) {
+            const rawSlug = typeof plan.values.slug === 'string' ? plan.values.slug : '';
+            const title = typeof plan.values.title === 'string' ? plan.values.title : '';
+            key = rawSlug || slugify(title);
+            if (!key) {
+                plan.errors.push('Slug is required (or a title to generate it from)');
+            } else if (!SLUG_PATTERN.test(key)) {
+                plan.errors.push('Slug may only contain lowercase letters, numbers and hyphens');
+            } else if (!rawSlug) {
+                plan.warnings.push(`Slug generated from title: ${key}`);
+            }
+            plan.values.slug = key;
+        } else if (mapping.id && !isBlank(record[mapping.id])) {
+            key = String(record[mapping.id]).trim();
+        }
+
+        const duplicateOf = key ? seenInFile.get(key) : undefined;
+        const existingRow = key ? existingByKey.get(key) : undefined;
+
+        if (key && (existingRow || duplicateOf) && plan.errors.length === 0) {
+            const { singular } = TRANSFER_LABELS[entity];
+            const conflict = duplicateOf
+                ? `Duplicate of row ${duplicateOf}`
+                : existingRow?.deleted_at ? `Matches a ${singular} in the trash` : `Matches an existing ${singular}`;
+            if (conflictMode === 'skip') {
+                plan.action = 'skip';
+                plan.warnings.push(`${conflict}; skipped`);
+            } else if (conflictMode === 'overwrite') {
+                if (duplicateOf) {
+                    plan.errors.push(`${conflict}; only one row per ${slugged ? 'slug' : 'id'} can overwrite`);
+                } else if (existingRow?.deleted_at) {
+                    plan.errors.push(`${conflict}; restore it before overwriting`);
+                } else {
+                    plan.action = 'update';
+                    plan.targetId = existingRow?.id;
+                }
+            } else if (slugged) {
+                const renamed = nextFreeSlug(key, taken);
+                plan.renamedFrom = key;
+                plan.values.slug = renamed;
+                plan.warnings.push(`${conflict}; imported as ${renamed}`);
+                key = renamed;
+            } else {
+                plan.warnings.push(`${conflict}; imported as a new ${singular}`);
+            }
+        }
+
+        // New rows need every required field; overwrites only touch mapped columns
+        if (plan.action === 'create') {
+            fields.filter(field => field.required).forEach(field => {
+                if (isBlank(plan.values[field.key]) && !plan.errors.some(error => error.startsWith(field.label))) {
+                    plan.errors.push(`${field.label} is required`);
+                }
+            });
+        } else if (plan.action === 'update') {
+            fields.filter(field => field.required && mapping[field.key]).forEach(field => {
+                if (isBlank(plan.values[field.key])) plan.errors.push(`${field.label} can't be empty`);
+            });
+        }
+
+        if (plan.errors.length > 0) {
+            plan.action = 'error';
+        } else if (key) {
+            taken.add(key);
+            if (!seenInFile.has(key)) seenInFile.set(key, plan.row);
+        }
+
+        return plan;
+    });
+
+    const counts = { create: 0, update: 0, skip: 0, error: 0 };
+    rows.forEach(row => counts[row.action]++);
+    return { entity, rows, counts };
+};
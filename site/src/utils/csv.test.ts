@@ -0,0 +1,58 @@
+// utils/csv.test.ts - CSV reading and writing
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from './csv';
+
+describe('parseCsv', () => {
+    it('splits plain cells and rows', () => {
+        expect(parseCsv('a,b,c\r\n1,2,3\n4,5,6')).toEqual([
+            ['a', 'b', 'c'],
+            ['1', '2', '3'],
+            ['4', '5', '6']
+        ]);
+    });
+
+    it('keeps commas, escaped quotes and line breaks inside quoted cells', () => {
+        const text = 'title,notes\r\n"Hello, world","She said ""hi""\r\nthen left"\r\n';
+        expect(parseCsv(text)).toEqual([
+            ['title', 'notes'],
+            ['Hello, world', 'She said "hi"\r\nthen left']
+        ]);
+    });
+
+    it('ignores a leading byte order mark', () => {
+        expect(parseCsv('\uFEFFname,email\nAda,ada@example.com')).toEqual([
+            ['name', 'email'],
+            ['Ada', 'ada@example.com']
+        ]);
+    });
+
+    it('drops blank lines but keeps rows of empty cells', () => {
+        expect(parseCsv('a,b\n\n,\n\r\n1,2\n')).toEqual([
+            ['a', 'b'],
+            ['', ''],
+            ['1', '2']
+        ]);
+    });
+});
+
+describe('toCsv', () => {
+    it('quotes cells with separators, quotes, line breaks or edge whitespace', () => {
+        expect(toCsv([['plain', 'a,b', 'say "x"', 'two\nlines', ' padded']]))
+            .toBe('plain,"a,b","say ""x""","two\nlines"," padded"');
+    });
+
+    it('neutralizes formula cells but leaves numbers alone', () => {
+        expect(toCsv([['=SUM(A1:A2)', '+1 555', '@cmd', '-12.5', '42']]))
+            .toBe("'=SUM(A1:A2),'+1 555,'@cmd,-12.5,42");
+    });
+
+    it('round-trips through parseCsv', () => {
+        const rows = [
+            ['name', 'message'],
+            ['=HYPERLINK("http://evil")', "'quoted already"],
+            ['Multi\r\nline, "quoted"', '-5'],
+            ['\tTabbed', '']
+        ];
+        expect(parseCsv(toCsv(rows))).toEqual(rows);
+    });
+});
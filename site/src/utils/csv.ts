@@ -0,0 +1,76 @@
+// utils/csv.ts - Minimal RFC 4180 CSV reading and writing
+
+// Spreadsheets run cells starting with these as formulas. Inquiry fields come
+// from anonymous visitors, so exported cells get a leading ' that Excel and
+// Sheets treat as "text", and parseCsv drops it again. A leading ' is escaped
+// the same way so values that really start with one survive the round trip.
+const FORMULA_TRIGGER = /^[=+\-@\t\r']/;
+const PLAIN_NUMBER = /^-?\d+(\.\d+)?$/;
+
+const neutralizeFormula = (value: string): string =>
+    FORMULA_TRIGGER.test(value) && !PLAIN_NUMBER.test(value) ? `'${value}` : value;
+
+const restoreFormula = (value: string): string =>
+    value.startsWith("'") && FORMULA_TRIGGER.test(value.slice(1)) ? value.slice(1) : value;
+
+const quoteCell = (value: string): string =>
+    /[",\r\n]/.test(value) || /^\s|\s$/.test(value)
+        ? `"${value.replace(/"/g, '""')}"`
+        : value;
+
+const escapeCell = (value: string): string => quoteCell(neutralizeFormula(value));
+
+export const toCsv = (rows: string[][]): string =>
+    rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+
+/**
+ * Parses CSV text into rows of cells. Handles quoted cells with embedded
+ * commas, quotes and line breaks; a leading byte order mark is ignored and
+ * blank lines are dropped. The ' that toCsv puts before formula-like cells
+ * is removed.
+ */
+export const parseCsv = (text: string): string[][] => {
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    const endRow = () => {
+        row.push(restoreFormula(cell));
+        if (row.length > 1 || row[0] !== '') rows.push(row);
+        row = [];
+        cell = '';
+    };
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (quoted) {
+            if (char === '"' && input[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+            continue;
+        }
+
+        if (char === '"' && cell === '') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(restoreFormula(cell));
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            endRow();
+        } else {
+            cell += char;
+        }
+    }
+
+    if (cell !== '' || row.length > 0) endRow();
+    return rows;
+};
@@ -0,0 +1,96 @@
+// utils/imageVariants.ts - Browser-side generation of resized image variants
+import {
+    UNIVERSAL_IMAGE_FORMAT,
+    ImageFormat,
+    ImageSize,
+    getImageMimeType,
+    getVariantSizes
+} from './ImageOptimization';
+
+export interface ImageVariant {
+    size: ImageSize;
+    format: ImageFormat;
+    width: number;
+    height: number;
+    blob: Blob;
+}
+
+type VariantCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+// Animated GIFs would lose their animation, so they're served as-is
+const VARIANT_SOURCE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/avif'];
+
+export const canGenerateVariants = (mimeType: string | null): boolean =>
+    !!mimeType && VARIANT_SOURCE_TYPES.includes(mimeType);
+
+const createCanvas = (width: number, height: number): VariantCanvas => {
+    if (typeof OffscreenCanvas !== 'undefined') {
+        return new OffscreenCanvas(width, height);
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+};
+
+const canvasToBlob = (canvas: VariantCanvas, type: string, quality: number): Promise<Blob | null> => {
+    if (canvas instanceof HTMLCanvasElement) {
+        return new Promise(resolve => canvas.toBlob(resolve, type, quality));
+    }
+    return canvas.convertToBlob({ type, quality }).catch(() => null);
+};
+
+const renderVariant = async (
+    bitmap: ImageBitmap,
+    width: number,
+    height: number,
+    format: ImageFormat
+): Promise<Blob | null> => {
+    const canvas = createCanvas(width, height);
+    const context = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+    if (!context) return null;
+
+    // JPEG has no alpha channel; flatten transparent areas onto white instead of black
+    if (format.format === 'jpg') {
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, width, height);
+    }
+
+    context.imageSmoothingEnabled = true;
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    const type = getImageMimeType(format.format);
+    const blob = await canvasToBlob(canvas, type, (format.quality ?? 90) / 100);
+
+    // Browsers silently fall back to PNG for formats they can't encode
+    return blob && blob.type === type ? blob : null;
+};
+
+/**
+ * Renders a JPEG variant for every IMAGE_SIZES width up to the original's.
+ * Images are never upscaled, so an original narrower than a size gets no
+ * variant for it.
+ */
+export const generateImageVariants = async (file: Blob): Promise<ImageVariant[]> => {
+    const bitmap = await createImageBitmap(file);
+    const variants: ImageVariant[] = [];
+    const format = UNIVERSAL_IMAGE_FORMAT;
+
+    try {
+        for (const size of getVariantSizes(bitmap.width)) {
+            const width = size.width;
+            const height = Math.max(1, Math.round((bitmap.height * width) / bitmap.width));
+
+            const blob = await renderVariant(bitmap, width, height, format);
+            if (blob) {
+                variants.push({ size, format, width, height, blob });
+            }
+        }
+    } finally {
+        bitmap.close();
+    }
+
+    return variants;
+};
@@ -0,0 +1,82 @@
+// utils/inquiryConversion.ts - Pre-fills a draft project from a won inquiry
+import type { DatabaseInquiry, DatabaseProject } from '../services/DatabaseService';
+import { isQuoteConfiguration, parseDurationWeeks } from './quoteEstimator';
+
+export type InquiryProjectDraft = Pick<DatabaseProject,
+    'title' | 'slug' | 'description' | 'detailed_description' | 'category' | 'status' |
+    'client_name' | 'year' | 'featured' | 'published' | 'budget_range' | 'duration_months' |
+    'technologies' | 'screenshots' | 'challenges' | 'achievements'
+>;
+
+type ConvertibleInquiry = Pick<DatabaseInquiry,
+    'id' | 'name' | 'company' | 'subject' | 'message' | 'project_type' |
+    'project_budget' | 'timeline' | 'quote_config'
+>;
+
+// Contact form project types (see PROJECT_TYPE_LABELS) mapped onto project categories
+const CATEGORY_HINTS: Record<string, DatabaseProject['category']> = {
+    'mobile-game': 'mobile',
+    'pc-game': 'pc',
+    'console-game': 'console',
+    'vr-ar': 'vr'
+};
+
+const DEFAULT_CATEGORY: DatabaseProject['category'] = 'pc';
+const WEEKS_PER_MONTH = 4.33;
+const DESCRIPTION_LENGTH = 280;
+
+// Set by the contact form when a quote estimate is attached
+const QUOTE_SUBJECT_PREFIX = /^quote request:\s*/i;
+
+const slugify = (value: string): string => value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+const getCategoryHint = (inquiry: ConvertibleInquiry): DatabaseProject['category'] => {
+    const platform = isQuoteConfiguration(inquiry.quote_config) ? inquiry.quote_config.platforms[0] : undefined;
+    if (platform) return platform;
+    return CATEGORY_HINTS[inquiry.project_type || ''] ?? DEFAULT_CATEGORY;
+};
+
+const getDurationMonths = (inquiry: ConvertibleInquiry): number | null => {
+    const quote = isQuoteConfiguration(inquiry.quote_config) ? inquiry.quote_config : null;
+    const weeks = parseDurationWeeks(inquiry.timeline)?.max || quote?.estimate.maxWeeks;
+    return weeks ? Math.max(1, Math.ceil(weeks / WEEKS_PER_MONTH)) : null;
+};
+
+const summarize = (message: string): string => {
+    const firstParagraph = message.trim().split(/\n\s*\n/)[0].replace(/\s+/g, ' ');
+    return firstParagraph.length > DESCRIPTION_LENGTH
+        ? `${firstParagraph.slice(0, DESCRIPTION_LENGTH - 1).trimEnd()}…`
+        : firstParagraph;
+};
+
+/**
+ * Draft project fields for an inquiry. The result is never published; it is
+ * a starting point for ProjectForm, not a finished portfolio entry.
+ */
+export const buildProjectFromInquiry = (inquiry: ConvertibleInquiry): InquiryProjectDraft => {
+    const client = inquiry.company ? `${inquiry.company} (${inquiry.name})` : inquiry.name;
+    const title = inquiry.subject.replace(QUOTE_SUBJECT_PREFIX, '').trim() || `${inquiry.company || inquiry.name} project`;
+
+    return {
+        title,
+        // The inquiry id suffix keeps drafts with the same subject from clashing
+        slug: `${slugify(title) || 'project'}-${inquiry.id.slice(0, 8)}`,
+        description: summarize(inquiry.message),
+        detailed_description: inquiry.message,
+        category: getCategoryHint(inquiry),
+        status: 'planning',
+        client_name: client,
+        year: new Date().getFullYear(),
+        featured: false,
+        published: false,
+        budget_range: inquiry.project_budget || null,
+        duration_months: getDurationMonths(inquiry),
+        technologies: [],
+        screenshots: [],
+        challenges: [],
+        achievements: []
+    };
+};
@@ -0,0 +1,140 @@
+// utils/inquiryGuard.ts - Validation and spam protection for public inquiry forms
+
+export interface InquiryFormFields {
+    name: string;
+    email: string;
+    company: string;
+    projectType: string;
+    budget: string;
+    message: string;
+}
+
+export type InquiryFieldErrors = Partial<Record<keyof InquiryFormFields, string>>;
+
+export const INQUIRY_GUARD_CONFIG = {
+    minFillTimeMs: 3000,           // Faster than this is almost certainly a bot
+    maxLinksInMessage: 3,
+    throttleWindowMs: 60 * 60 * 1000,
+    maxSubmissionsPerWindow: 3,
+    storageKey: 'gd_inquiry_submissions'
+} as const;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const LINK_PATTERN = /(https?:\/\/|www\.)/gi;
+
+export const PROJECT_TYPE_LABELS: Record<string, string> = {
+    'mobile-game': 'Mobile Game Development',
+    'pc-game': 'PC Game Development',
+    'console-game': 'Console Game Development',
+    'vr-ar': 'VR/AR Experience',
+    'consulting': 'Game Development Consulting',
+    'other': 'Other'
+};
+
+export const BUDGET_LABELS: Record<string, string> = {
+    'under-10k': 'Under $10,000',
+    '10k-50k': '$10,000 - $50,000',
+    '50k-100k': '$50,000 - $100,000',
+    '100k-500k': '$100,000 - $500,000',
+    'over-500k': 'Over $500,000'
+};
+
+// ===== FIELD VALIDATION =====
+export const validateInquiryForm = (fields: InquiryFormFields): InquiryFieldErrors => {
+    const errors: InquiryFieldErrors = {};
+    const name = fields.name.trim();
+    const email = fields.email.trim();
+    const message = fields.message.trim();
+
+    if (!name) {
+        errors.name = 'Please enter your name';
+    } else if (name.length < 2 || name.length > 100) {
+        errors.name = 'Name must be between 2 and 100 characters';
+    }
+
+    if (!email) {
+        errors.email = 'Please enter your email address';
+    } else if (!EMAIL_PATTERN.test(email) || email.length > 255) {
+        errors.email = 'Please enter a valid email address';
+    }
+
+    if (fields.company.trim().length > 100) {
+        errors.company = 'Company name must be 100 characters or fewer';
+    }
+
+    if (!PROJECT_TYPE_LABELS[fields.projectType]) {
+        errors.projectType = 'Please select a project type';
+    }
+
+    if (fields.budget && !BUDGET_LABELS[fields.budget]) {
+        errors.budget = 'Please select a valid budget range';
+    }
+
+    if (!message) {
+        errors.message = 'Please tell us about your project';
+    } else if (message.length < 20) {
+        errors.message = 'Please add a little more detail (at least 20 characters)';
+    } else if (message.length > 5000) {
+        errors.message = 'Message must be 5000 characters or fewer';
+    }
+
+    return errors;
+};
+
+// ===== SPAM HEURISTICS =====
+export const isLikelySpam = (options: {
+    honeypot: string;
+    startedAt: number;
+    message: string;
+    now?: number;
+}): boolean => {
+    const now = options.now ?? Date.now();
+
+    if (options.honeypot.trim() !== '') return true;
+    if (now - options.startedAt < INQUIRY_GUARD_CONFIG.minFillTimeMs) return true;
+
+    const links = options.message.match(LINK_PATTERN) || [];
+    return links.length > INQUIRY_GUARD_CONFIG.maxLinksInMessage;
+};
+
+// ===== PER-BROWSER THROTTLE =====
+const readSubmissionLog = (now: number): number[] => {
+    try {
+        const stored = localStorage.getItem(INQUIRY_GUARD_CONFIG.storageKey);
+        const parsed: unknown = stored ? JSON.parse(stored) : [];
+        if (!Array.isArray(parsed)) return [];
+
+        return parsed.filter((timestamp): timestamp is number =>
+            typeof timestamp === 'number' &&
+            now - timestamp < INQUIRY_GUARD_CONFIG.throttleWindowMs
+        );
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Returns the number of milliseconds until another submission is allowed,
+ * or 0 if this browser may submit now.
+ */
+export const getThrottleDelay = (now: number = Date.now()): number => {
+    const log = readSubmissionLog(now);
+    if (log.length < INQUIRY_GUARD_CONFIG.maxSubmissionsPerWindow) return 0;
+
+    const oldest = Math.min(...log);
+    return Math.max(0, oldest + INQUIRY_GUARD_CONFIG.throttleWindowMs - now);
+};
+
+export const recordSubmission = (now: number = Date.now()): void => {
+    try {
+        const log = readSubmissionLog(now);
+        log.push(now);
+        localStorage.setItem(INQUIRY_GUARD_CONFIG.storageKey, JSON.stringify(log));
+    } catch (error) {
+        console.warn('Could not record inquiry submission:', error);
+    }
+};
+
+// ===== REFERENCES =====
+export const formatInquiryReference = (inquiryId: string): string =>
+    `GD-${inquiryId.replace(/-/g, '').slice(0, 8).toUpperCase()}`;
@@ -0,0 +1,97 @@
+// utils/inquiryPipeline.ts - Inquiry pipeline stages and SLA tracking
+
+export type InquiryStatus = 'new' | 'contacted' | 'qualified' | 'proposal' | 'won' | 'lost';
+
+export interface InquiryStage {
+    status: InquiryStatus;
+    label: string;
+    color: 'blue' | 'yellow' | 'purple' | 'orange' | 'green' | 'gray';
+    // Closed stages don't count against the SLA
+    closed: boolean;
+}
+
+export const INQUIRY_PIPELINE: InquiryStage[] = [
+    { status: 'new', label: 'New', color: 'blue', closed: false },
+    { status: 'contacted', label: 'Contacted', color: 'yellow', closed: false },
+    { status: 'qualified', label: 'Qualified', color: 'purple', closed: false },
+    { status: 'proposal', label: 'Proposal', color: 'orange', closed: false },
+    { status: 'won', label: 'Won', color: 'green', closed: true },
+    { status: 'lost', label: 'Lost', color: 'gray', closed: true }
+];
+
+// Statuses used before the pipeline existed (see database/inquiry_pipeline.sql)
+const LEGACY_STATUSES: Record<string, InquiryStatus> = {
+    'in-progress': 'contacted',
+    'responded': 'contacted',
+    'closed': 'lost'
+};
+
+export const INQUIRY_SLA_CONFIG = {
+    defaultThresholdHours: 24,
+    minThresholdHours: 1,
+    maxThresholdHours: 24 * 14,
+    warningRatio: 0.75,            // "Due soon" once this share of the threshold has passed
+    settingKey: 'inquiry_sla_hours'
+} as const;
+
+export type SlaState = 'ok' | 'warning' | 'breached' | 'closed';
+
+export interface SlaStatus {
+    state: SlaState;
+    hoursSinceActivity: number;
+}
+
+// A missing status reads as 'new', the column default
+export const normalizeInquiryStatus = (status: string | null): InquiryStatus => {
+    if (!status) return 'new';
+    return LEGACY_STATUSES[status] ?? (INQUIRY_PIPELINE.some(s => s.status === status) ? status as InquiryStatus : 'new');
+};
+
+export const getInquiryStage = (status: string | null): InquiryStage => {
+    const normalized = normalizeInquiryStatus(status);
+    return INQUIRY_PIPELINE.find(s => s.status === normalized) ?? INQUIRY_PIPELINE[0];
+};
+
+interface InquiryActivity {
+    last_activity_at?: string | null;
+    updated_at?: string | null;
+    created_at: string | null;
+}
+
+/**
+ * Last time anyone touched the inquiry. Older rows may predate
+ * last_activity_at, so fall back to updated_at and created_at; a row with
+ * no timestamps at all counts as just touched rather than overdue.
+ */
+export const getLastActivity = (inquiry: InquiryActivity): Date => {
+    const latest = inquiry.last_activity_at || inquiry.updated_at || inquiry.created_at;
+    return latest ? new Date(latest) : new Date();
+};
+
+export const getSlaStatus = (
+    inquiry: InquiryActivity & { status: string | null },
+    thresholdHours: number,
+    now: number = Date.now()
+): SlaStatus => {
+    const hoursSinceActivity = Math.max(0, (now - getLastActivity(inquiry).getTime()) / 3600000);
+
+    if (getInquiryStage(inquiry.status).closed) {
+        return { state: 'closed', hoursSinceActivity };
+    }
+    if (hoursSinceActivity >= thresholdHours) {
+        return { state: 'breached', hoursSinceActivity };
+    }
+    if (hoursSinceActivity >= thresholdHours * INQUIRY_SLA_CONFIG.warningRatio) {
+        return { state: 'warning', hoursSinceActivity };
+    }
+    return { state: 'ok', hoursSinceActivity };
+};
+
+export const formatElapsed = (hours: number): string => {
+    if (hours < 1) return `${Math.max(1, Math.round(hours * 60))}m`;
+    if (hours < 48) return `${Math.round(hours)}h`;
+    return `${Math.round(hours / 24)}d`;
+};
+
+export const clampSlaThreshold = (hours: number): number =>
+    Math.min(INQUIRY_SLA_CONFIG.maxThresholdHours, Math.max(INQUIRY_SLA_CONFIG.minThresholdHours, hours));
@@ -0,0 +1,46 @@
+// utils/markdown.ts - Markdown rendering with HTML sanitisation
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+
+marked.setOptions({
+    gfm: true,
+    breaks: false
+});
+
+// Open external links in a new tab without handing the opener to the target page
+DOMPurify.addHook('afterSanitizeAttributes', (node) => {
+    if (node.tagName === 'A') {
+        const href = node.getAttribute('href') || '';
+        if (/^https?:\/\//i.test(href) && !href.startsWith(window.location.origin)) {
+            node.setAttribute('target', '_blank');
+            node.setAttribute('rel', 'noopener noreferrer');
+        }
+    }
+});
+
+/**
+ * Converts Markdown (or legacy HTML) content into sanitised HTML that is
+ * safe to pass to dangerouslySetInnerHTML.
+ */
+export const renderMarkdown = (content: string): string => {
+    const html = marked.parse(content || '', { async: false });
+
+    return DOMPurify.sanitize(html, {
+        USE_PROFILES: { html: true },
+        ADD_ATTR: ['target'],
+        FORBID_TAGS: ['style', 'form', 'input', 'button', 'textarea', 'select']
+    });
+};
+
+/**
+ * Plain-text word count of Markdown content, used for reading time estimates.
+ */
+export const countWords = (content: string): number =>
+    content
+        .replace(/<[^>]*>/g, ' ')
+        .replace(/[#>*_`~[\]()!-]/g, ' ')
+        .split(/\s+/)
+        .filter(Boolean).length;
+
+export const estimateReadingTime = (content: string, wordsPerMinute = 200): number =>
+    Math.max(1, Math.ceil(countWords(content) / wordsPerMinute));
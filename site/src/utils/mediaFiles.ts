@@ -0,0 +1,39 @@
+// utils/mediaFiles.ts - Shared helpers for displaying media library files
+
+export type MediaFileType = 'image' | 'video' | 'audio' | 'pdf' | 'document';
+
+export const MEDIA_FILE_TYPES: Array<'all' | MediaFileType> = ['all', 'image', 'video', 'audio', 'pdf', 'document'];
+
+// Files whose type wasn't recorded count as documents
+export const getMediaFileType = (mimeType: string | null): MediaFileType => {
+    if (!mimeType) return 'document';
+    if (mimeType.startsWith('image/')) return 'image';
+    if (mimeType.startsWith('video/')) return 'video';
+    if (mimeType.startsWith('audio/')) return 'audio';
+    if (mimeType.includes('pdf')) return 'pdf';
+    return 'document';
+};
+
+export const getMediaFileIcon = (type: string): string => {
+    switch (type) {
+        case 'image': return '🖼️';
+        case 'video': return '🎥';
+        case 'audio': return '🎵';
+        case 'pdf': return '📄';
+        default: return '📎';
+    }
+};
+
+export const formatFileSize = (bytes: number): string => {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+/** Tags are stored lower-case and trimmed so "Hero" and "hero " are the same tag */
+export const normalizeMediaTag = (tag: string): string => tag.trim().toLowerCase();
+
+export const parseMediaTags = (input: string): string[] =>
+    [...new Set(input.split(',').map(normalizeMediaTag).filter(Boolean))];
@@ -0,0 +1,101 @@
+// utils/projectProgress.ts - Milestone labels, progress and timeline entries for projects
+import type { MilestoneState, ProjectMilestone, ProjectUpdate, UpdateVisibility } from '../types/portal';
+
+export const MILESTONE_STATES: Array<{ value: MilestoneState; label: string }> = [
+    { value: 'planned', label: 'Planned' },
+    { value: 'in_progress', label: 'In Progress' },
+    { value: 'completed', label: 'Completed' },
+    { value: 'blocked', label: 'Blocked' }
+];
+
+export const UPDATE_VISIBILITIES: Array<{ value: UpdateVisibility; label: string }> = [
+    { value: 'client', label: 'Client only' },
+    { value: 'public', label: 'Public devlog' }
+];
+
+export const getMilestoneStateLabel = (state: MilestoneState): string =>
+    MILESTONE_STATES.find(s => s.value === state)?.label ?? state;
+
+/**
+ * due_date is a plain date, so compare against the end of that day locally
+ */
+export const isMilestoneOverdue = (milestone: ProjectMilestone, now: Date = new Date()): boolean => {
+    if (!milestone.due_date || milestone.state === 'completed') return false;
+    return new Date(`${milestone.due_date}T23:59:59`) < now;
+};
+
+export const formatDueDate = (dueDate: string): string =>
+    new Date(`${dueDate}T00:00:00`).toLocaleDateString(undefined, {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric'
+    });
+
+export const getMilestonePercent = (milestone: ProjectMilestone): number =>
+    milestone.state === 'completed' ? 100 : Math.min(100, Math.max(0, milestone.percent_complete || 0));
+
+/**
+ * Overall progress is the average milestone percentage, so partly done
+ * milestones move the bar before they are ticked off
+ */
+export const getProjectProgress = (milestones: ProjectMilestone[]): { completed: number; total: number; percent: number } => {
+    const completed = milestones.filter(m => m.state === 'completed').length;
+    const total = milestones.length;
+    const sum = milestones.reduce((acc, m) => acc + getMilestonePercent(m), 0);
+    return {
+        completed,
+        total,
+        percent: total > 0 ? Math.round(sum / total) : 0
+    };
+};
+
+export type TimelineEntry =
+    | { kind: 'milestone'; id: string; date: string | null; milestone: ProjectMilestone }
+    | { kind: 'update'; id: string; date: string; update: ProjectUpdate };
+
+/**
+ * Merges milestones (by due date) and update posts (by posting date), newest
+ * first. Milestones without a due date have no place on the axis and go last.
+ */
+export const buildTimeline = (milestones: ProjectMilestone[], updates: ProjectUpdate[]): TimelineEntry[] => {
+    const dated: TimelineEntry[] = [
+        ...milestones
+            .filter(milestone => milestone.due_date)
+            .map(milestone => ({
+                kind: 'milestone' as const,
+                id: milestone.id,
+                date: `${milestone.due_date}T23:59:59`,
+                milestone
+            })),
+        ...updates.map(update => ({
+            kind: 'update' as const,
+            id: update.id,
+            date: update.posted_at || update.created_at,
+            update
+        }))
+    ];
+
+    dated.sort((a, b) => new Date(b.date || 0).getTime() - new Date(a.date || 0).getTime());
+
+    const undated: TimelineEntry[] = milestones
+        .filter(milestone => !milestone.due_date)
+        .map(milestone => ({ kind: 'milestone' as const, id: milestone.id, date: null, milestone }));
+
+    return [...dated, ...undated];
+};
+
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'avif', 'svg'];
+const VIDEO_EXTENSIONS = ['mp4', 'webm', 'mov', 'ogv'];
+
+/**
+ * Attachments are stored as media library URLs, so the type comes from the extension
+ */
+export const getAttachmentKind = (url: string): 'image' | 'video' | 'file' => {
+    const extension = url.split('?')[0].split('.').pop()?.toLowerCase() || '';
+    if (IMAGE_EXTENSIONS.includes(extension)) return 'image';
+    if (VIDEO_EXTENSIONS.includes(extension)) return 'video';
+    return 'file';
+};
+
+export const getAttachmentName = (url: string): string =>
+    decodeURIComponent(url.split('?')[0].split('/').pop() || url);
@@ -0,0 +1,299 @@
+// utils/quoteEstimator.ts - Indicative pricing for the services quote estimator
+import type { IDatabaseService } from '../services/DatabaseService';
+import type {
+    QuoteAddOn,
+    QuoteConfiguration,
+    QuoteEstimate,
+    QuotePlatform,
+    QuoteServiceSnapshot,
+    QuoteTeamSize,
+    QuoteTimeline
+} from '../types/quote';
+import { BUDGET_LABELS } from './inquiryGuard';
+
+interface QuoteOption<T extends string> {
+    value: T;
+    label: string;
+    description?: string;
+}
+
+interface Multipliers {
+    cost: number;
+    duration: number;
+}
+
+// Same set as the project `category` column
+export const QUOTE_PLATFORMS: Array<QuoteOption<QuotePlatform> & { cost: number }> = [
+    { value: 'mobile', label: 'Mobile', cost: 1 },
+    { value: 'pc', label: 'PC', cost: 1 },
+    { value: 'console', label: 'Console', cost: 1.25, description: 'Includes platform certification' },
+    { value: 'vr', label: 'VR', cost: 1.3 },
+    { value: 'ar', label: 'AR', cost: 1.3 }
+];
+
+export const QUOTE_TEAM_SIZES: Array<QuoteOption<QuoteTeamSize> & Multipliers> = [
+    { value: 'small', label: 'Small', description: '1-3 people', cost: 1, duration: 1 },
+    { value: 'medium', label: 'Medium', description: '4-8 people', cost: 1.1, duration: 0.65 },
+    { value: 'large', label: 'Large', description: '9+ people', cost: 1.25, duration: 0.45 }
+];
+
+export const QUOTE_TIMELINES: Array<QuoteOption<QuoteTimeline> & Multipliers> = [
+    { value: 'flexible', label: 'Flexible', description: 'We schedule around other work', cost: 0.95, duration: 1.2 },
+    { value: 'standard', label: 'Standard', description: 'Typical delivery pace', cost: 1, duration: 1 },
+    { value: 'rush', label: 'Rush', description: 'Priority scheduling', cost: 1.3, duration: 0.8 }
+];
+
+export const QUOTE_ADD_ONS: Array<QuoteOption<QuoteAddOn> & { cost: number }> = [
+    { value: 'multiplayer', label: 'Multiplayer & backend', cost: 0.25 },
+    { value: 'art-audio', label: 'Art & audio package', cost: 0.2 },
+    { value: 'live-ops', label: 'Live ops support', cost: 0.15 },
+    { value: 'localization', label: 'Localization', cost: 0.08 },
+    { value: 'store-launch', label: 'Store launch & ASO', cost: 0.05 }
+];
+
+export const QUOTE_ESTIMATOR_CONFIG = {
+    additionalPlatformCost: 0.35,    // Each platform after the first
+    parallelWorkFactor: 0.5,         // Share of secondary services' duration added to the longest one
+    hoursPerWeek: 40,                // Converts hourly rates into a weekly cost
+    defaultWeeks: { min: 4, max: 8 },
+    priceSpread: { min: 0.85, max: 1.3 },
+    priceRounding: 500
+} as const;
+
+// Approximate USD bounds for the contact form budget ranges
+const BUDGET_BOUNDS: Array<[key: string, max: number]> = [
+    ['under-10k', 10000],
+    ['10k-50k', 50000],
+    ['50k-100k', 100000],
+    ['100k-500k', 500000],
+    ['over-500k', Infinity]
+];
+
+const WEEKS_PER_UNIT: Record<string, number> = {
+    day: 1 / 5,
+    week: 1,
+    month: 4.33
+};
+
+/**
+ * Parses free-text durations such as "4-8 weeks", "2 months" or "10 days"
+ */
+export const parseDurationWeeks = (text?: string | null): { min: number; max: number } | null => {
+    if (!text) return null;
+
+    const match = text.toLowerCase().match(/(\d+(?:\.\d+)?)\s*(?:-|–|to)?\s*(\d+(?:\.\d+)?)?\s*(day|week|month)/);
+    if (!match) return null;
+
+    const factor = WEEKS_PER_UNIT[match[3]];
+    const min = parseFloat(match[1]) * factor;
+    const max = (match[2] ? parseFloat(match[2]) : parseFloat(match[1])) * factor;
+    return { min, max: Math.max(min, max) };
+};
+
+export const toServiceSnapshot = (service: IDatabaseService): QuoteServiceSnapshot => ({
+    id: service.id,
+    slug: service.slug,
+    title: service.title,
+    pricing_model: service.pricing_model ?? undefined,
+    base_price: service.base_price ?? null,
+    currency: service.currency || 'USD',
+    duration_estimate: service.duration_estimate ?? undefined
+});
+
+const roundPrice = (value: number): number => {
+    const step = QUOTE_ESTIMATOR_CONFIG.priceRounding;
+    return Math.max(step, Math.round(value / step) * step);
+};
+
+/**
+ * Indicative price range and duration for a configuration. This is a rough
+ * guide for visitors; the real quote is prepared after the inquiry.
+ */
+export const estimateQuote = (
+    services: QuoteServiceSnapshot[],
+    platforms: QuotePlatform[],
+    teamSize: QuoteTeamSize,
+    timeline: QuoteTimeline,
+    addOns: QuoteAddOn[]
+): QuoteEstimate => {
+    const config = QUOTE_ESTIMATOR_CONFIG;
+    const currency = services.find(s => s.base_price != null)?.currency || 'USD';
+    const team = QUOTE_TEAM_SIZES.find(t => t.value === teamSize) ?? QUOTE_TEAM_SIZES[0];
+    const pace = QUOTE_TIMELINES.find(t => t.value === timeline) ?? QUOTE_TIMELINES[1];
+
+    const serviceWeeks = services.map(s => parseDurationWeeks(s.duration_estimate) ?? config.defaultWeeks);
+    const durations = [...serviceWeeks].sort((a, b) => b.max - a.max);
+
+    // The longest service sets the pace; the rest partly overlap with it
+    const combine = (key: 'min' | 'max') => durations.reduce(
+        (total, d, index) => total + (index === 0 ? d[key] : d[key] * config.parallelWorkFactor),
+        0
+    );
+    const durationFactor = team.duration * pace.duration;
+
+    const unpricedServices: string[] = [];
+    const baseCost = services.reduce((total, service, index) => {
+        if (service.base_price == null || service.currency !== currency) {
+            unpricedServices.push(service.title);
+            return total;
+        }
+        if (service.pricing_model === 'hourly') {
+            const weeks = serviceWeeks[index];
+            const averageWeeks = (weeks.min + weeks.max) / 2;
+            return total + service.base_price * config.hoursPerWeek * averageWeeks;
+        }
+        return total + service.base_price;
+    }, 0);
+
+    const platformCost = platforms.length === 0
+        ? 1
+        : Math.max(...platforms.map(p => QUOTE_PLATFORMS.find(o => o.value === p)?.cost ?? 1)) +
+          (platforms.length - 1) * config.additionalPlatformCost;
+    const addOnCost = 1 + addOns.reduce(
+        (total, addOn) => total + (QUOTE_ADD_ONS.find(o => o.value === addOn)?.cost ?? 0),
+        0
+    );
+
+    const total = baseCost * platformCost * team.cost * pace.cost * addOnCost;
+
+    return {
+        currency,
+        minPrice: total > 0 ? roundPrice(total * config.priceSpread.min) : 0,
+        maxPrice: total > 0 ? roundPrice(total * config.priceSpread.max) : 0,
+        minWeeks: services.length > 0 ? Math.max(1, Math.round(combine('min') * durationFactor)) : 0,
+        maxWeeks: services.length > 0 ? Math.max(1, Math.round(combine('max') * durationFactor)) : 0,
+        unpricedServices
+    };
+};
+
+export const formatQuotePrice = (amount: number, currency: string): string =>
+    new Intl.NumberFormat(undefined, {
+        style: 'currency',
+        currency,
+        maximumFractionDigits: 0
+    }).format(amount);
+
+export const formatQuoteRange = (estimate: QuoteEstimate): string | null => {
+    if (estimate.maxPrice <= 0) return null;
+    return `${formatQuotePrice(estimate.minPrice, estimate.currency)} - ${formatQuotePrice(estimate.maxPrice, estimate.currency)}`;
+};
+
+export const formatQuoteDuration = (estimate: QuoteEstimate): string | null => {
+    if (estimate.maxWeeks <= 0) return null;
+    return estimate.minWeeks === estimate.maxWeeks
+        ? `${estimate.maxWeeks} week${estimate.maxWeeks === 1 ? '' : 's'}`
+        : `${estimate.minWeeks}-${estimate.maxWeeks} weeks`;
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * The database only checks that inquiries.quote_config is a JSON object, and
+ * it comes from a visitor's form, so stored configs are narrowed with this
+ * before anything reads them.
+ */
+export const isQuoteConfiguration = (value: unknown): value is QuoteConfiguration => {
+    if (!value || typeof value !== 'object') return false;
+    const quote = value as Record<string, unknown>;
+    const estimate = quote.estimate as Record<string, unknown> | null;
+
+    return Array.isArray(quote.services)
+        && quote.services.every(service => typeof (service as QuoteServiceSnapshot | null)?.title === 'string')
+        && isStringArray(quote.platforms)
+        && isStringArray(quote.addOns)
+        && typeof quote.teamSize === 'string'
+        && typeof quote.timeline === 'string'
+        && !!estimate && typeof estimate === 'object'
+        && typeof estimate.currency === 'string'
+        && ['minPrice', 'maxPrice', 'minWeeks', 'maxWeeks'].every(key => typeof estimate[key] === 'number')
+        && isStringArray(estimate.unpricedServices);
+};
+
+const labelFor = <T extends string>(options: Array<QuoteOption<T>>, value: T): string =>
+    options.find(o => o.value === value)?.label ?? value;
+
+/**
+ * Plain-text summary used to pre-fill the contact message
+ */
+export const summarizeQuote = (quote: QuoteConfiguration): string => {
+    const team = QUOTE_TEAM_SIZES.find(t => t.value === quote.teamSize);
+    const lines = [
+        `Services: ${quote.services.map(s => s.title).join(', ')}`,
+        quote.platforms.length > 0 && `Platforms: ${quote.platforms.map(p => labelFor(QUOTE_PLATFORMS, p)).join(', ')}`,
+        team && `Team size: ${team.label} (${team.description})`,
+        `Timeline: ${labelFor(QUOTE_TIMELINES, quote.timeline)}`,
+        quote.addOns.length > 0 && `Add-ons: ${quote.addOns.map(a => labelFor(QUOTE_ADD_ONS, a)).join(', ')}`
+    ];
+
+    const range = formatQuoteRange(quote.estimate);
+    const duration = formatQuoteDuration(quote.estimate);
+    if (range || duration) {
+        lines.push(`Estimate: ${[range, duration].filter(Boolean).join(' over ')}`);
+    }
+
+    return lines.filter(Boolean).join('\n');
+};
+
+export const getQuoteTimelineLabel = (quote: QuoteConfiguration): string => {
+    const duration = formatQuoteDuration(quote.estimate);
+    const pace = labelFor(QUOTE_TIMELINES, quote.timeline);
+    return duration ? `${pace} (${duration})` : pace;
+};
+
+/**
+ * Maps a quote onto the contact form's project type select
+ */
+export const getQuoteProjectType = (quote: QuoteConfiguration): string => {
+    if (quote.platforms.some(p => p === 'vr' || p === 'ar')) return 'vr-ar';
+
+    const platform = quote.platforms[0];
+    if (platform) return `${platform}-game`;
+
+    return quote.services.every(s => s.slug.includes('consult')) ? 'consulting' : 'other';
+};
+
+/**
+ * Budget range whose bounds contain the estimate midpoint. Only USD
+ * estimates map onto the contact form ranges.
+ */
+export const getQuoteBudget = (quote: QuoteConfiguration): string => {
+    const { currency, minPrice, maxPrice } = quote.estimate;
+    if (currency !== 'USD' || maxPrice <= 0) return '';
+
+    const midpoint = (minPrice + maxPrice) / 2;
+    const match = BUDGET_BOUNDS.find(([, max]) => midpoint < max);
+    return match && BUDGET_LABELS[match[0]] ? match[0] : '';
+};
+
+// ===== HANDOFF TO THE CONTACT FORM =====
+type QuoteRequestListener = (quote: QuoteConfiguration) => void;
+
+const quoteRequestListeners = new Set<QuoteRequestListener>();
+let pendingQuote: QuoteConfiguration | null = null;
+
+/**
+ * Hands a configuration to the contact form. If the form isn't mounted yet,
+ * it picks the quote up with takePendingQuoteRequest() when it mounts.
+ */
+export const requestQuote = (quote: QuoteConfiguration): void => {
+    if (quoteRequestListeners.size === 0) {
+        pendingQuote = quote;
+        return;
+    }
+    pendingQuote = null;
+    quoteRequestListeners.forEach(listener => listener(quote));
+};
+
+export const subscribeToQuoteRequests = (listener: QuoteRequestListener): (() => void) => {
+    quoteRequestListeners.add(listener);
+    return () => {
+        quoteRequestListeners.delete(listener);
+    };
+};
+
+export const takePendingQuoteRequest = (): QuoteConfiguration | null => {
+    const quote = pendingQuote;
+    pendingQuote = null;
+    return quote;
+};
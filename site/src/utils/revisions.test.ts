@@ -0,0 +1,35 @@
+// utils/revisions.test.ts - Field-by-field revision comparison
+import { describe, expect, it } from 'vitest';
+import { buildFieldDiffs, pickRestorableFields } from './revisions';
+
+const changedFields = (diffs: ReturnType<typeof buildFieldDiffs>) =>
+    diffs.filter(diff => diff.changed).map(diff => diff.field);
+
+describe('buildFieldDiffs', () => {
+    it('ignores reordered tags but not reordered screenshots', () => {
+        expect(changedFields(buildFieldDiffs('article', { tags: ['a', 'b'] }, { tags: ['b', 'a'] }))).toEqual([]);
+        expect(changedFields(buildFieldDiffs('project', { screenshots: ['1.jpg', '2.jpg'] }, { screenshots: ['2.jpg', '1.jpg'] })))
+            .toEqual(['screenshots']);
+    });
+
+    it('treats duplicate set items and missing values as unchanged', () => {
+        expect(changedFields(buildFieldDiffs(
+            'project',
+            { technologies: ['Unity', 'Unity'], client_name: null },
+            { technologies: ['Unity'], client_name: '' }
+        ))).toEqual([]);
+    });
+
+    it('shows every filled field as added for the first revision', () => {
+        const diffs = buildFieldDiffs('article', null, { title: 'Hello', published: false });
+        expect(changedFields(diffs)).toEqual(['title', 'published']);
+        expect(diffs.find(diff => diff.field === 'published')?.right).toEqual([{ op: 'insert', text: 'No' }]);
+    });
+});
+
+describe('pickRestorableFields', () => {
+    it('keeps only the form fields present in the snapshot', () => {
+        expect(pickRestorableFields('article', { id: 'a1', title: 'Hello', view_count: 9, tags: [] }))
+            .toEqual({ title: 'Hello', tags: [] });
+    });
+});
@@ -0,0 +1,107 @@
+// utils/revisions.ts - Restorable fields and field-by-field comparison of content revisions
+import type { FieldDiff, RevisionEntityType } from '../types/revision';
+import { diffList, diffText } from './textDiff';
+
+interface RevisionField {
+    key: string;
+    label: string;
+    list?: boolean;
+    ordered?: boolean;              // List order is meaningful, e.g. the screenshot gallery
+}
+
+/**
+ * The fields each admin form edits. Only these are compared and written back
+ * on restore; ids, timestamps, counters and trash state are left alone.
+ */
+export const REVISION_FIELDS: Record<RevisionEntityType, RevisionField[]> = {
+    project: [
+        { key: 'title', label: 'Title' },
+        { key: 'slug', label: 'Slug' },
+        { key: 'description', label: 'Description' },
+        { key: 'detailed_description', label: 'Detailed Description' },
+        { key: 'image_url', label: 'Main Image' },
+        { key: 'image_alt', label: 'Image Alt Text' },
+        { key: 'screenshots', label: 'Screenshots', list: true, ordered: true },
+        { key: 'technologies', label: 'Technologies', list: true },
+        { key: 'category', label: 'Category' },
+        { key: 'status', label: 'Status' },
+        { key: 'client_name', label: 'Client Name' },
+        { key: 'client_id', label: 'Client Account' },
+        { key: 'year', label: 'Year' },
+        { key: 'featured', label: 'Featured' },
+        { key: 'published', label: 'Published' },
+        { key: 'external_link', label: 'External Link' },
+        { key: 'case_study_url', label: 'Case Study URL' },
+        { key: 'github_url', label: 'GitHub URL' },
+        { key: 'demo_url', label: 'Demo URL' }
+    ],
+    article: [
+        { key: 'title', label: 'Title' },
+        { key: 'slug', label: 'Slug' },
+        { key: 'excerpt', label: 'Excerpt' },
+        { key: 'content', label: 'Content' },
+        { key: 'featured_image', label: 'Featured Image' },
+        { key: 'image_alt', label: 'Image Alt Text' },
+        { key: 'tags', label: 'Tags', list: true },
+        { key: 'category', label: 'Category' },
+        { key: 'published', label: 'Published' },
+        { key: 'featured', label: 'Featured' },
+        { key: 'reading_time_minutes', label: 'Reading Time' },
+        { key: 'seo_title', label: 'SEO Title' },
+        { key: 'seo_description', label: 'SEO Description' }
+    ]
+};
+
+export const getRevisionFieldLabel = (entityType: RevisionEntityType, key: string): string =>
+    REVISION_FIELDS[entityType].find(f => f.key === key)?.label ?? key;
+
+const toText = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    return String(value);
+};
+
+const toList = (value: unknown): string[] => (Array.isArray(value) ? value.map(toText) : []);
+
+// Same semantics as diffList: ordered lists compare item by item, the rest as sets
+const listKey = (value: unknown, ordered?: boolean): string =>
+    (ordered ? toList(value) : [...new Set(toList(value))].sort()).join('\n');
+
+const sameValue = (field: RevisionField, a: unknown, b: unknown): boolean =>
+    field.list ? listKey(a, field.ordered) === listKey(b, field.ordered) : toText(a) === toText(b);
+
+/**
+ * Compares two snapshots over the entity's form fields. Pass `before = null`
+ * for the very first revision, which shows every field as added.
+ */
+export const buildFieldDiffs = (
+    entityType: RevisionEntityType,
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown>
+): FieldDiff[] =>
+    REVISION_FIELDS[entityType].map(field => {
+        const oldValue = before?.[field.key];
+        const newValue = after[field.key];
+        const { left, right } = field.list
+            ? diffList(toList(oldValue), toList(newValue), field.ordered)
+            : diffText(toText(oldValue), toText(newValue));
+
+        return {
+            field: field.key,
+            label: field.label,
+            changed: !sameValue(field, oldValue, newValue),
+            list: !!field.list,
+            left,
+            right
+        };
+    });
+
+/** The subset of a snapshot that restoring writes back to the row */
+export const pickRestorableFields = (
+    entityType: RevisionEntityType,
+    snapshot: Record<string, unknown>
+): Record<string, unknown> =>
+    REVISION_FIELDS[entityType].reduce<Record<string, unknown>>((fields, { key }) => {
+        if (key in snapshot) fields[key] = snapshot[key];
+        return fields;
+    }, {});
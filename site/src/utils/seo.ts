@@ -172,4 +172,21 @@ export const generateSEOForSection = (section: string): SEOData => {
                 keywords: ['game development', 'gaming', 'professional services']
             };
     }
-};
\ No newline at end of file
+};
+export const generateSEOForProject = (project: {
+    title: string;
+    slug: string;
+    description: string;
+    image_url?: string | null;
+    technologies?: string[] | null;
+    seo_title?: string | null;
+    seo_description?: string | null;
+}): SEOData => ({
+    title: project.seo_title || `${project.title} - GamingDronzz Portfolio`,
+    description: project.seo_description || project.description,
+    keywords: project.technologies ?? undefined,
+    image: project.image_url ?? undefined,
+    url: `https://gamingdronzz.com/projects/${project.slug}`,
+    type: 'article',
+    siteName: 'GamingDronzz'
+});
@@ -0,0 +1,73 @@
+// utils/textDiff.test.ts - Revision text and list diffs
+import { describe, expect, it } from 'vitest';
+import { diffList, diffText } from './textDiff';
+
+describe('diffText', () => {
+    it('diffs single-line text word by word', () => {
+        expect(diffText('the quick fox', 'the slow fox')).toEqual({
+            left: [
+                { op: 'equal', text: 'the ' },
+                { op: 'delete', text: 'quick' },
+                { op: 'equal', text: ' fox' }
+            ],
+            right: [
+                { op: 'equal', text: 'the ' },
+                { op: 'insert', text: 'slow' },
+                { op: 'equal', text: ' fox' }
+            ]
+        });
+    });
+
+    it('diffs multi-line text line by line', () => {
+        expect(diffText('a\nb\nc', 'a\nB\nc')).toEqual({
+            left: [
+                { op: 'equal', text: 'a\n' },
+                { op: 'delete', text: 'b\n' },
+                { op: 'equal', text: 'c' }
+            ],
+            right: [
+                { op: 'equal', text: 'a\n' },
+                { op: 'insert', text: 'B\n' },
+                { op: 'equal', text: 'c' }
+            ]
+        });
+    });
+
+    it('returns unchanged text as one part, and nothing for empty text', () => {
+        expect(diffText('same', 'same')).toEqual({
+            left: [{ op: 'equal', text: 'same' }],
+            right: [{ op: 'equal', text: 'same' }]
+        });
+        expect(diffText('', '')).toEqual({ left: [], right: [] });
+        expect(diffText('', 'new')).toEqual({ left: [], right: [{ op: 'insert', text: 'new' }] });
+    });
+});
+
+describe('diffList', () => {
+    it('compares unordered lists as sets', () => {
+        expect(diffList(['a', 'b'], ['b', 'a', 'c'])).toEqual({
+            left: [
+                { op: 'equal', text: 'a' },
+                { op: 'equal', text: 'b' }
+            ],
+            right: [
+                { op: 'equal', text: 'b' },
+                { op: 'equal', text: 'a' },
+                { op: 'insert', text: 'c' }
+            ]
+        });
+    });
+
+    it('shows a moved item in an ordered list as removed and re-added', () => {
+        expect(diffList(['x', 'y'], ['y', 'x'], true)).toEqual({
+            left: [
+                { op: 'delete', text: 'x' },
+                { op: 'equal', text: 'y' }
+            ],
+            right: [
+                { op: 'equal', text: 'y' },
+                { op: 'insert', text: 'x' }
+            ]
+        });
+    });
+});
@@ -0,0 +1,104 @@
+// utils/textDiff.ts - Line/word diffs for comparing content revisions side by side
+import type { DiffPart } from '../types/revision';
+
+// Above this many token pairs the LCS table gets too big; show a whole replace instead
+const MAX_DIFF_CELLS = 4_000_000;
+
+const tokenize = (text: string, byLine: boolean): string[] =>
+    byLine ? text.split(/(?<=\n)/) : text.split(/(\s+)/).filter(Boolean);
+
+/** Merges neighbouring parts with the same op so the UI renders fewer spans */
+const pushPart = (parts: DiffPart[], op: DiffPart['op'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.op === op) {
+        last.text += text;
+    } else {
+        parts.push({ op, text });
+    }
+};
+
+/**
+ * Walks two token lists along their longest common subsequence, reporting
+ * each token with the side it belongs to and whether it is kept or changed
+ */
+const walkLcs = (
+    a: string[],
+    b: string[],
+    emit: (side: 'left' | 'right', op: DiffPart['op'], text: string) => void
+) => {
+    // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+    const lcs: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            emit('left', 'equal', a[i++]);
+            emit('right', 'equal', b[j++]);
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            emit('left', 'delete', a[i++]);
+        } else {
+            emit('right', 'insert', b[j++]);
+        }
+    }
+    while (i < a.length) emit('left', 'delete', a[i++]);
+    while (j < b.length) emit('right', 'insert', b[j++]);
+};
+
+/**
+ * Diffs two strings by longest common subsequence. Multi-line text is compared
+ * line by line, anything else word by word. Returns the parts for each side:
+ * the left side holds 'equal' and 'delete', the right side 'equal' and 'insert'.
+ */
+export const diffText = (before: string, after: string): { left: DiffPart[]; right: DiffPart[] } => {
+    if (before === after) {
+        const same = before ? [{ op: 'equal' as const, text: before }] : [];
+        return { left: same, right: same };
+    }
+
+    const byLine = before.includes('\n') || after.includes('\n');
+    const a = tokenize(before, byLine);
+    const b = tokenize(after, byLine);
+
+    if (a.length * b.length > MAX_DIFF_CELLS) {
+        return {
+            left: before ? [{ op: 'delete', text: before }] : [],
+            right: after ? [{ op: 'insert', text: after }] : []
+        };
+    }
+
+    const left: DiffPart[] = [];
+    const right: DiffPart[] = [];
+    walkLcs(a, b, (side, op, text) => pushPart(side === 'left' ? left : right, op, text));
+    return { left, right };
+};
+
+/**
+ * Lists are shown one item per line. Ordered lists (screenshots) are diffed in
+ * order, so a moved item shows as removed and re-added; the rest (tags,
+ * technologies) are compared as sets, so reordering alone is not a change.
+ */
+export const diffList = (
+    before: string[],
+    after: string[],
+    ordered = false
+): { left: DiffPart[]; right: DiffPart[] } => {
+    if (ordered) {
+        const left: DiffPart[] = [];
+        const right: DiffPart[] = [];
+        walkLcs(before, after, (side, op, text) => (side === 'left' ? left : right).push({ op, text }));
+        return { left, right };
+    }
+
+    const beforeSet = new Set(before);
+    const afterSet = new Set(after);
+    return {
+        left: before.map(item => ({ op: afterSet.has(item) ? 'equal' : 'delete', text: item })),
+        right: after.map(item => ({ op: beforeSet.has(item) ? 'equal' : 'insert', text: item }))
+    };
+};